@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { runCli } from '../dist/headless/cli.js';
+
+async function readStdin() {
+  const chunks = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function createDocument() {
+  let jsdom;
+  try {
+    jsdom = await import('jsdom');
+  } catch {
+    throw new Error('rendering needs the "jsdom" package; install it next to merfolk-editor');
+  }
+  return new jsdom.JSDOM('').window.document;
+}
+
+process.exitCode = await runCli(process.argv.slice(2), {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: (path, content) => writeFile(path, content, 'utf8'),
+  readStdin,
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  createDocument,
+});
@@ -3,6 +3,7 @@ import type { FlowchartModel } from '../core/model/FlowchartModel';
 import type { FlowNode } from '../core/model/Node';
 import type { FlowEdge } from '../core/model/Edge';
 import type { Position } from '../core/model/types';
+import { parseEdgeStyleDeclarations } from '../core/model/style';
 import { ShapeRenderer } from './shapes/ShapeRenderer';
 import { EdgeRenderer } from './edges/EdgeRenderer';
 import { DagreLayout } from './layout/DagreLayout';
@@ -284,7 +285,13 @@ export class CanvasRenderer {
       .attr('class', 'edge')
       .attr('data-id', edge.id);
 
-    this.edgeRenderer.render(edgeGroup, edge, sourceNode.bounds, targetNode.bounds);
+    this.edgeRenderer.render(
+      edgeGroup,
+      edge,
+      sourceNode.bounds,
+      targetNode.bounds,
+      parseEdgeStyleDeclarations(this.model.defaultEdgeStyle ?? [])
+    );
 
     // Add selection highlight
     if (this.selectedEdgeIds.has(edge.id)) {
@@ -1,7 +1,15 @@
 import * as d3 from 'd3';
-import { line, curveBasis } from 'd3';
+import { line, curveBasis, curveLinear } from 'd3';
 import type { FlowEdge } from '../../core/model/Edge';
-import type { BoundingBox, ArrowType, StrokeType } from '../../core/model/types';
+import type {
+  BoundingBox,
+  ArrowType,
+  StrokeType,
+  EdgeAnimation,
+  EdgeCurve,
+  EdgeRouting,
+  EdgeStyle,
+} from '../../core/model/types';
 
 /**
  * Mermaid default colors for edges
@@ -16,7 +24,13 @@ export class EdgeRenderer {
   private defs: d3.Selection<SVGDefsElement, unknown, null, undefined>;
   private markersCreated: Set<string> = new Set();
 
-  constructor(defs: d3.Selection<SVGDefsElement, unknown, null, undefined>) {
+  /**
+   * @param defaultCurve Curve of edges that do not set one (the diagram's `flowchart.curve`)
+   */
+  constructor(
+    defs: d3.Selection<SVGDefsElement, unknown, null, undefined>,
+    private readonly defaultCurve: EdgeCurve = 'basis'
+  ) {
     this.defs = defs;
     this.createDefaultMarkers();
   }
@@ -139,16 +153,19 @@ export class EdgeRenderer {
 
   /**
    * Render an edge
+   * @param defaultStyle Style of the diagram's `linkStyle default`, under the edge's own
    */
   render(
     group: d3.Selection<SVGGElement, unknown, null, undefined>,
     edge: FlowEdge,
     sourceBounds: BoundingBox,
-    targetBounds: BoundingBox
+    targetBounds: BoundingBox,
+    defaultStyle: EdgeStyle = {}
   ): void {
     // Get style properties - use Mermaid defaults
-    const strokeColor = edge.style?.stroke || MERMAID_EDGE_COLOR;
-    const strokeWidth = edge.style?.strokeWidth || MERMAID_EDGE_WIDTH;
+    const style: EdgeStyle = { ...defaultStyle, ...edge.style };
+    const strokeColor = style.stroke || MERMAID_EDGE_COLOR;
+    const strokeWidth = style.strokeWidth || MERMAID_EDGE_WIDTH;
 
     // Calculate connection points from node bounds
     const { start, end } = this.calculateConnectionPoints(
@@ -156,10 +173,10 @@ export class EdgeRenderer {
       targetBounds
     );
 
-    // Create path - use Dagre points if available for better routing
+    // Create path - use layout points if available for better routing
     let path: string;
     if (edge.points && edge.points.length >= 2) {
-      path = this.createPathFromPoints(edge.points);
+      path = this.createPathFromPoints(edge.points, edge.routing, edge.curve ?? this.defaultCurve);
     } else {
       path = this.createPath(start, end);
     }
@@ -173,8 +190,14 @@ export class EdgeRenderer {
       .attr('stroke-width', strokeWidth)
       .attr('class', 'edge-path flowchart-link');
 
-    // Apply stroke style
+    // Apply stroke style, then the edge's linkStyle on top of it
     this.applyStrokeStyle(pathEl, edge.stroke);
+    if (style.strokeWidth) {
+      pathEl.attr('stroke-width', style.strokeWidth);
+    }
+    if (style.strokeDasharray) {
+      pathEl.attr('stroke-dasharray', style.strokeDasharray);
+    }
 
     // Apply markers
     this.applyMarkers(pathEl, edge.arrowStart, edge.arrowEnd);
@@ -191,9 +214,15 @@ export class EdgeRenderer {
   }
 
   /**
-   * Create a path from Dagre-calculated points using curveBasis
+   * Create a path through the points: the edge's curve (curveBasis by
+   * default) for curved edges, straight segments for straight and
+   * orthogonal ones
    */
-  private createPathFromPoints(points: Array<{ x: number; y: number }>): string {
+  private createPathFromPoints(
+    points: Array<{ x: number; y: number }>,
+    routing: EdgeRouting = 'curved',
+    curve?: EdgeCurve
+  ): string {
     if (points.length < 2) return '';
 
     const pointsArray: [number, number][] = points.map(p => [p.x, p.y]);
@@ -201,11 +230,32 @@ export class EdgeRenderer {
     const lineGenerator = line<[number, number]>()
       .x(d => d[0])
       .y(d => d[1])
-      .curve(curveBasis);
+      .curve(routing === 'curved' ? this.getCurveFactory(curve) : curveLinear);
 
     return lineGenerator(pointsArray) || '';
   }
 
+  /**
+   * d3 curve matching a Mermaid curve name
+   */
+  private getCurveFactory(curve: EdgeCurve = 'basis'): d3.CurveFactory {
+    const curves: Record<EdgeCurve, d3.CurveFactory> = {
+      basis: d3.curveBasis,
+      bumpX: d3.curveBumpX,
+      bumpY: d3.curveBumpY,
+      cardinal: d3.curveCardinal,
+      catmullRom: d3.curveCatmullRom,
+      linear: d3.curveLinear,
+      monotoneX: d3.curveMonotoneX,
+      monotoneY: d3.curveMonotoneY,
+      natural: d3.curveNatural,
+      step: d3.curveStep,
+      stepAfter: d3.curveStepAfter,
+      stepBefore: d3.curveStepBefore,
+    };
+    return curves[curve];
+  }
+
   /**
    * Calculate connection points between two bounds
    */
@@ -399,7 +449,7 @@ export class EdgeRenderer {
    */
   private applyAnimation(
     path: d3.Selection<SVGPathElement, unknown, null, undefined>,
-    speed?: 'fast' | 'slow'
+    speed?: EdgeAnimation
   ): void {
     const duration = speed === 'fast' ? '0.5s' : speed === 'slow' ? '2s' : '1s';
 
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { BoundingBox, Position } from '../../core/model/types';
+import { routeEdgePoints } from './EdgeRouter';
+
+const box = (x: number, y: number, width = 80, height = 40): BoundingBox => ({
+  x,
+  y,
+  width,
+  height,
+});
+
+function expectOrthogonal(points: Position[]): void {
+  for (let i = 1; i < points.length; i++) {
+    const dx = Math.abs(points[i].x - points[i - 1].x);
+    const dy = Math.abs(points[i].y - points[i - 1].y);
+    expect(Math.min(dx, dy)).toBeLessThan(0.01);
+  }
+}
+
+/**
+ * Whether any segment passes through the inside of the box
+ */
+function crosses(points: Position[], b: BoundingBox): boolean {
+  for (let i = 1; i < points.length; i++) {
+    const [p, q] = [points[i - 1], points[i]];
+    for (let t = 0; t <= 1; t += 0.05) {
+      const x = p.x + (q.x - p.x) * t;
+      const y = p.y + (q.y - p.y) * t;
+      if (Math.abs(x - b.x) < b.width / 2 - 0.5 && Math.abs(y - b.y) < b.height / 2 - 0.5) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+describe('routeEdgePoints', () => {
+  it('should run straight edges from border to border through the waypoints', () => {
+    const points = routeEdgePoints(box(0, 0), box(200, 0), {
+      routing: 'straight',
+      waypoints: [{ x: 100, y: 100 }],
+    });
+
+    expect(points).toHaveLength(3);
+    expect(points[1]).toEqual({ x: 100, y: 100 });
+    expect(points[0].y).toBeCloseTo(20);
+    expect(points[2].y).toBeCloseTo(20);
+  });
+
+  it('should route orthogonal edges between side midpoints', () => {
+    const points = routeEdgePoints(box(0, 0), box(100, 200), { routing: 'orthogonal' });
+
+    expectOrthogonal(points);
+    expect(points[0]).toEqual({ x: 0, y: 20 });
+    expect(points.at(-1)).toEqual({ x: 100, y: 180 });
+    // One elbow: down, across, down
+    expect(points).toHaveLength(4);
+  });
+
+  it('should go around obstacles', () => {
+    const obstacle = box(0, 150, 200, 60);
+    const points = routeEdgePoints(box(0, 0), box(0, 300), {
+      routing: 'orthogonal',
+      obstacles: [obstacle],
+    });
+
+    expectOrthogonal(points);
+    expect(crosses(points, obstacle)).toBe(false);
+    expect(points[0]).toEqual({ x: 0, y: 20 });
+    expect(points.at(-1)).toEqual({ x: 0, y: 280 });
+  });
+
+  it('should pass through waypoints on orthogonal routes', () => {
+    const waypoint = { x: 150, y: 100 };
+    const points = routeEdgePoints(box(0, 0), box(0, 200), {
+      routing: 'orthogonal',
+      waypoints: [waypoint],
+    });
+
+    expectOrthogonal(points);
+    expect(points).toContainEqual(waypoint);
+  });
+
+  it('should keep waypoints in the middle of a straight run', () => {
+    const waypoint = { x: 0, y: 100 };
+    const points = routeEdgePoints(box(0, 0), box(0, 200), {
+      routing: 'orthogonal',
+      waypoints: [waypoint],
+    });
+
+    expect(points).toEqual([{ x: 0, y: 20 }, waypoint, { x: 0, y: 180 }]);
+  });
+
+  it('should draw a loop for self edges', () => {
+    const node = box(0, 0);
+    const straight = routeEdgePoints(node, node);
+    const orthogonal = routeEdgePoints(node, node, { routing: 'orthogonal' });
+
+    expect(straight).toHaveLength(4);
+    expectOrthogonal(orthogonal);
+    expect(orthogonal[0]).toEqual({ x: 40, y: 0 });
+    expect(orthogonal.at(-1)).toEqual({ x: 0, y: -20 });
+    expect(crosses(orthogonal, node)).toBe(false);
+  });
+});
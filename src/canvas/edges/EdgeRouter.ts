@@ -0,0 +1,375 @@
+import type { BoundingBox, EdgeRouting, Position } from '../../core/model/types';
+import { clipToBox, selfLoopPoints } from '../layout/geometry';
+
+/**
+ * Edge routing options
+ */
+export interface EdgeRouterOptions {
+  /** Routing mode (default: 'curved') */
+  routing?: EdgeRouting;
+  /** Points the edge has to pass through, in order */
+  waypoints?: Position[];
+  /** Boxes orthogonal routes go around; the end nodes are always avoided */
+  obstacles?: BoundingBox[];
+  /** Clearance kept around obstacles (default: 12) */
+  margin?: number;
+}
+
+/**
+ * Travel directions on the routing grid: right, left, down, up
+ */
+type Direction = 0 | 1 | 2 | 3;
+
+const STEPS: ReadonlyArray<Position> = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+const OPPOSITE: ReadonlyArray<Direction> = [1, 0, 3, 2];
+
+/**
+ * Extra cost of a bend, so routes prefer fewer, longer segments
+ */
+const BEND_PENALTY = 24;
+
+const EPSILON = 0.01;
+
+/**
+ * Compute the points of an edge between two node boxes.
+ * Straight and curved edges run from border to border through the
+ * waypoints; the renderer decides how to draw them. Orthogonal edges
+ * leave and enter nodes perpendicular to a side and only use horizontal
+ * and vertical segments, found with A* on a sparse grid spanned by the
+ * obstacle borders, so they bend around nodes in their way.
+ */
+export function routeEdgePoints(
+  source: BoundingBox,
+  target: BoundingBox,
+  options: EdgeRouterOptions = {}
+): Position[] {
+  const waypoints = options.waypoints ?? [];
+  const selfLoop = waypoints.length === 0 && sameBox(source, target);
+
+  if (options.routing !== 'orthogonal') {
+    if (selfLoop) {
+      return selfLoopPoints(source);
+    }
+    const first = waypoints[0] ?? target;
+    const last = waypoints[waypoints.length - 1] ?? source;
+    return simplify([clipToBox(source, first), ...waypoints, clipToBox(target, last)], false);
+  }
+
+  const margin = options.margin ?? 12;
+  const boxes = [source, target, ...(options.obstacles ?? [])].map((box) => inflate(box, margin));
+
+  const startDir = selfLoop ? 0 : facing(source, waypoints[0] ?? target);
+  const endDir = selfLoop ? 3 : facing(target, waypoints[waypoints.length - 1] ?? source);
+  const startPort = port(source, startDir);
+  const endPort = port(target, endDir);
+  const stops = [offset(startPort, startDir, margin), ...waypoints, offset(endPort, endDir, margin)];
+
+  const path: Position[] = [startPort];
+  let direction: Direction = startDir;
+  for (let i = 0; i < stops.length - 1; i++) {
+    const goalDir = i === stops.length - 2 ? OPPOSITE[endDir] : undefined;
+    const leg =
+      findPath(stops[i], stops[i + 1], direction, goalDir, boxes) ??
+      elbow(stops[i], stops[i + 1], direction);
+    path.push(...leg);
+    direction = directionOf(leg[leg.length - 2], leg[leg.length - 1], direction);
+  }
+  path.push(endPort);
+
+  return simplify(path, true, new Set(waypoints));
+}
+
+function sameBox(a: BoundingBox, b: BoundingBox): boolean {
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+function inflate(box: BoundingBox, margin: number): BoundingBox {
+  return { ...box, width: box.width + 2 * margin, height: box.height + 2 * margin };
+}
+
+/**
+ * Side of the box facing a point, as the direction leaving through it
+ */
+function facing(box: BoundingBox, toward: Position): Direction {
+  const dx = toward.x - box.x;
+  const dy = toward.y - box.y;
+  if (Math.abs(dx) * box.height > Math.abs(dy) * box.width) {
+    return dx > 0 ? 0 : 1;
+  }
+  return dy > 0 ? 2 : 3;
+}
+
+/**
+ * Middle of the box side a direction leaves through
+ */
+function port(box: BoundingBox, direction: Direction): Position {
+  const step = STEPS[direction];
+  return { x: box.x + (step.x * box.width) / 2, y: box.y + (step.y * box.height) / 2 };
+}
+
+function offset(point: Position, direction: Direction, distance: number): Position {
+  const step = STEPS[direction];
+  return { x: point.x + step.x * distance, y: point.y + step.y * distance };
+}
+
+function directionOf(from: Position, to: Position, fallback: Direction): Direction {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (Math.abs(dx) < EPSILON && Math.abs(dy) < EPSILON) return fallback;
+  if (Math.abs(dx) >= Math.abs(dy)) return dx > 0 ? 0 : 1;
+  return dy > 0 ? 2 : 3;
+}
+
+function inside(box: BoundingBox, point: Position): boolean {
+  return (
+    Math.abs(point.x - box.x) < box.width / 2 - EPSILON &&
+    Math.abs(point.y - box.y) < box.height / 2 - EPSILON
+  );
+}
+
+function intersects(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    Math.abs(a.x - b.x) < (a.width + b.width) / 2 &&
+    Math.abs(a.y - b.y) < (a.height + b.height) / 2
+  );
+}
+
+/**
+ * Two-segment fallback when no free route exists, bending once so the
+ * edge keeps going the way it started
+ */
+function elbow(from: Position, to: Position, direction: Direction): Position[] {
+  const corner = direction < 2 ? { x: to.x, y: from.y } : { x: from.x, y: to.y };
+  return [from, corner, to];
+}
+
+/**
+ * Shortest orthogonal path between two points around the boxes, with a
+ * penalty per bend. Only boxes near the two points are considered; the
+ * search area grows until no further box reaches into it. Boxes holding
+ * one of the points are ignored, so waypoints may sit on a node.
+ */
+function findPath(
+  from: Position,
+  to: Position,
+  startDir: Direction,
+  goalDir: Direction | undefined,
+  boxes: BoundingBox[]
+): Position[] | null {
+  const candidates = boxes.filter((box) => !inside(box, from) && !inside(box, to));
+  const pad = BEND_PENALTY * 2;
+  let minX = Math.min(from.x, to.x) - pad;
+  let maxX = Math.max(from.x, to.x) + pad;
+  let minY = Math.min(from.y, to.y) - pad;
+  let maxY = Math.max(from.y, to.y) + pad;
+  let relevant: BoundingBox[] = [];
+  for (let round = 0; round < 8; round++) {
+    const region = {
+      x: (minX + maxX) / 2,
+      y: (minY + maxY) / 2,
+      width: maxX - minX,
+      height: maxY - minY,
+    };
+    relevant = candidates.filter((box) => intersects(box, region));
+    let grown = false;
+    for (const box of relevant) {
+      const left = box.x - box.width / 2 - pad;
+      const right = box.x + box.width / 2 + pad;
+      const top = box.y - box.height / 2 - pad;
+      const bottom = box.y + box.height / 2 + pad;
+      if (left < minX || right > maxX || top < minY || bottom > maxY) {
+        minX = Math.min(minX, left);
+        maxX = Math.max(maxX, right);
+        minY = Math.min(minY, top);
+        maxY = Math.max(maxY, bottom);
+        grown = true;
+      }
+    }
+    if (!grown) break;
+  }
+
+  const xs = gridLines(
+    [from.x, to.x, ...relevant.flatMap((b) => [b.x - b.width / 2, b.x + b.width / 2])],
+    minX,
+    maxX
+  );
+  const ys = gridLines(
+    [from.y, to.y, ...relevant.flatMap((b) => [b.y - b.height / 2, b.y + b.height / 2])],
+    minY,
+    maxY
+  );
+  const blocked = (point: Position): boolean => relevant.some((box) => inside(box, point));
+
+  const ny = ys.length;
+  const startCell = xs.indexOf(from.x) * ny + ys.indexOf(from.y);
+  const goalCell = xs.indexOf(to.x) * ny + ys.indexOf(to.y);
+  if (startCell === goalCell) return [from, to];
+
+  const cost = new Float64Array(xs.length * ny * 4).fill(Infinity);
+  const previous = new Int32Array(xs.length * ny * 4).fill(-1);
+  const heuristic = (cell: number): number =>
+    Math.abs(xs[Math.floor(cell / ny)] - to.x) + Math.abs(ys[cell % ny] - to.y);
+
+  const heap = new MinHeap();
+  const startState = startCell * 4 + startDir;
+  cost[startState] = 0;
+  heap.push(heuristic(startCell), startState);
+
+  while (heap.size > 0) {
+    const { priority, value: state } = heap.pop();
+    const cell = Math.floor(state / 4);
+    const direction = (state % 4) as Direction;
+    if (priority - heuristic(cell) > cost[state] + EPSILON) continue;
+
+    if (cell === goalCell) {
+      const path: Position[] = [];
+      for (let s = state; s !== -1; s = previous[s]) {
+        const c = Math.floor(s / 4);
+        path.push({ x: xs[Math.floor(c / ny)], y: ys[c % ny] });
+      }
+      path.reverse();
+      path[0] = from;
+      path[path.length - 1] = to;
+      return path;
+    }
+
+    const i = Math.floor(cell / ny);
+    const j = cell % ny;
+    for (const next of [0, 1, 2, 3] as Direction[]) {
+      if (next === OPPOSITE[direction]) continue;
+      const ni = i + STEPS[next].x;
+      const nj = j + STEPS[next].y;
+      if (ni < 0 || ni >= xs.length || nj < 0 || nj >= ny) continue;
+
+      const point = { x: xs[ni], y: ys[nj] };
+      const middle = { x: (xs[i] + point.x) / 2, y: (ys[j] + point.y) / 2 };
+      const nextCell = ni * ny + nj;
+      const isGoal = nextCell === goalCell;
+      if ((!isGoal && blocked(point)) || blocked(middle)) continue;
+
+      let nextCost =
+        cost[state] +
+        Math.abs(point.x - xs[i]) +
+        Math.abs(point.y - ys[j]) +
+        (next === direction ? 0 : BEND_PENALTY);
+      if (isGoal && goalDir !== undefined && next !== goalDir) {
+        nextCost += BEND_PENALTY;
+      }
+      const nextState = nextCell * 4 + next;
+      if (nextCost < cost[nextState] - EPSILON) {
+        cost[nextState] = nextCost;
+        previous[nextState] = state;
+        heap.push(nextCost + heuristic(nextCell), nextState);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sorted, distinct coordinates within [min, max], plus the midpoints
+ * between neighbours so routes can also pass between two boxes
+ */
+function gridLines(values: number[], min: number, max: number): number[] {
+  const clamped = [min, max, ...values.map((v) => Math.min(max, Math.max(min, v)))];
+  const sorted = [...new Set(clamped)].sort((a, b) => a - b);
+  const lines: number[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    if (i > 0) lines.push((sorted[i - 1] + sorted[i]) / 2);
+    lines.push(sorted[i]);
+  }
+  return lines;
+}
+
+/**
+ * Drop repeated points and, for orthogonal routes, points in the middle
+ * of a straight run unless they are waypoints
+ */
+function simplify(
+  points: Position[],
+  orthogonal: boolean,
+  keep: Set<Position> = new Set()
+): Position[] {
+  const result: Position[] = [];
+  for (const point of points) {
+    const last = result[result.length - 1];
+    if (last && Math.abs(last.x - point.x) < EPSILON && Math.abs(last.y - point.y) < EPSILON) {
+      continue;
+    }
+    const before = result[result.length - 2];
+    if (
+      orthogonal &&
+      before &&
+      !keep.has(last) &&
+      ((Math.abs(before.x - last.x) < EPSILON && Math.abs(last.x - point.x) < EPSILON) ||
+        (Math.abs(before.y - last.y) < EPSILON && Math.abs(last.y - point.y) < EPSILON))
+    ) {
+      result[result.length - 1] = point;
+      continue;
+    }
+    result.push(point);
+  }
+  return result;
+}
+
+/**
+ * Binary min-heap of numeric values keyed by priority
+ */
+class MinHeap {
+  private priorities: number[] = [];
+  private values: number[] = [];
+
+  get size(): number {
+    return this.values.length;
+  }
+
+  push(priority: number, value: number): void {
+    this.priorities.push(priority);
+    this.values.push(value);
+    let i = this.values.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): { priority: number; value: number } {
+    const top = { priority: this.priorities[0], value: this.values[0] };
+    const lastPriority = this.priorities.pop()!;
+    const lastValue = this.values.pop()!;
+    if (this.values.length > 0) {
+      this.priorities[0] = lastPriority;
+      this.values[0] = lastValue;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.values.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < this.values.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+    [this.values[a], this.values[b]] = [this.values[b], this.values[a]];
+  }
+}
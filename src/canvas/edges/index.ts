@@ -1 +1,2 @@
 export * from './EdgeRenderer';
+export * from './EdgeRouter';
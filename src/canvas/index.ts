@@ -2,6 +2,7 @@
 export * from './CanvasRenderer';
 export * from './shapes/ShapeRenderer';
 export * from './edges/EdgeRenderer';
-export * from './layout/DagreLayout';
+export * from './layout';
 export * from './selection';
 export * from './ports';
+export * from './navigation';
@@ -1,7 +1,8 @@
 import dagre from '@dagrejs/dagre';
 import type { FlowchartModel } from '../../core/model/FlowchartModel';
-import type { Direction } from '../../core/model/types';
+import type { BoundingBox, Direction } from '../../core/model/types';
 import { ShapeRenderer } from '../shapes/ShapeRenderer';
+import type { LayoutEngine, LayoutResult } from './LayoutEngine';
 
 /**
  * Layout options
@@ -27,7 +28,8 @@ export interface LayoutOptions {
  * Dagre-based layout engine
  * Calculates node positions using hierarchical layout algorithm
  */
-export class DagreLayout {
+export class DagreLayout implements LayoutEngine {
+  readonly name = 'dagre';
   private options: Required<LayoutOptions>;
 
   constructor(options: LayoutOptions = {}) {
@@ -44,9 +46,11 @@ export class DagreLayout {
   }
 
   /**
-   * Calculate layout for a flowchart model
+   * Calculate layout for a flowchart model.
+   * Node bounds and edge points are written to the model; subgraph boxes
+   * are returned since subgraphs carry no geometry.
    */
-  layout(model: FlowchartModel): void {
+  layout(model: FlowchartModel): LayoutResult {
     // Create dagre graph with multigraph support for multiple edges between same nodes
     const g = new dagre.graphlib.Graph({ compound: true, multigraph: true });
 
@@ -97,8 +101,10 @@ export class DagreLayout {
       }
     }
 
-    // Add edges - use edge.id as the name to support multiple edges between same nodes
+    // Add edges - use edge.id as the name to support multiple edges between same nodes.
+    // Edges ending at a subgraph are left to Mermaid; dagre only links leaf nodes.
     for (const edge of model.edges) {
+      if (!model.hasNode(edge.source) || !model.hasNode(edge.target)) continue;
       g.setEdge(edge.source, edge.target, {
         label: edge.text || '',
         width: edge.text ? edge.text.length * 7 + 10 : 0,
@@ -139,6 +145,21 @@ export class DagreLayout {
         }
       }
     }
+
+    const subGraphs: Record<string, BoundingBox> = {};
+    for (const subGraph of model.subGraphs) {
+      const cluster = g.node(subGraph.id);
+      if (cluster && cluster.width > 0 && cluster.height > 0) {
+        subGraphs[subGraph.id] = {
+          x: cluster.x,
+          y: cluster.y,
+          width: cluster.width,
+          height: cluster.height,
+        };
+      }
+    }
+
+    return { subGraphs };
   }
 
   /**
@@ -0,0 +1,185 @@
+import type { ElkExtendedEdge, ElkNode, ElkPort } from 'elkjs/lib/elk-api';
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BoundingBox, Direction, Position } from '../../core/model/types';
+import type { BaseLayoutOptions, LayoutEngine, LayoutResult } from './LayoutEngine';
+import { nodeSize } from './geometry';
+
+/**
+ * ELK layout options
+ */
+export interface ElkLayoutOptions extends BaseLayoutOptions {
+  /** Edge routing style (default: 'orthogonal') */
+  edgeRouting?: 'orthogonal' | 'polyline' | 'splines';
+  /**
+   * Attach edges to the node side facing the flow direction, e.g. leave
+   * from the bottom and enter from the top in a TB diagram (default: true)
+   */
+  fixedPortSides?: boolean;
+  /** Extra ELK layout options passed through unchanged */
+  elkOptions?: Record<string, string>;
+}
+
+type PortSide = 'NORTH' | 'SOUTH' | 'EAST' | 'WEST';
+
+const ELK_DIRECTIONS: Record<Direction, { direction: string; out: PortSide; in: PortSide }> = {
+  TB: { direction: 'DOWN', out: 'SOUTH', in: 'NORTH' },
+  BT: { direction: 'UP', out: 'NORTH', in: 'SOUTH' },
+  LR: { direction: 'RIGHT', out: 'EAST', in: 'WEST' },
+  RL: { direction: 'LEFT', out: 'WEST', in: 'EAST' },
+};
+
+const EDGE_ROUTING = {
+  orthogonal: 'ORTHOGONAL',
+  polyline: 'POLYLINE',
+  splines: 'SPLINES',
+} as const;
+
+/**
+ * Layered layout using the Eclipse Layout Kernel (elkjs).
+ * Handles nested subgraphs in one pass and routes edges orthogonally
+ * between fixed port sides. ELK is loaded on first use.
+ */
+export class ElkLayout implements LayoutEngine {
+  readonly name = 'elk';
+  private options: ElkLayoutOptions;
+
+  constructor(options: ElkLayoutOptions = {}) {
+    this.options = { ...options };
+  }
+
+  async layout(model: FlowchartModel): Promise<LayoutResult> {
+    const { default: ELK } = await import('elkjs/lib/elk.bundled.js');
+    const result = await new ELK().layout(this.buildGraph(model));
+
+    const subGraphs: Record<string, BoundingBox> = {};
+    const offsets = new Map<string, Position>([['root', { x: 0, y: 0 }]]);
+    const visit = (elkNode: ElkNode, offset: Position): void => {
+      for (const child of elkNode.children ?? []) {
+        // ELK positions are top-left corners relative to the parent
+        const left = offset.x + (child.x ?? 0);
+        const top = offset.y + (child.y ?? 0);
+        const width = child.width ?? 0;
+        const height = child.height ?? 0;
+        const bounds = { x: left + width / 2, y: top + height / 2, width, height };
+
+        const node = model.getNode(child.id);
+        if (node) {
+          node.bounds = bounds;
+        } else {
+          subGraphs[child.id] = bounds;
+          offsets.set(child.id, { x: left, y: top });
+          visit(child, { x: left, y: top });
+        }
+      }
+    };
+    visit(result, { x: 0, y: 0 });
+
+    const collectEdges = (elkNode: ElkNode): void => {
+      for (const elkEdge of elkNode.edges ?? []) {
+        const edge = model.getEdge(elkEdge.id);
+        const section = elkEdge.sections?.[0];
+        if (!edge || !section) continue;
+
+        const container = (elkEdge as ElkExtendedEdge & { container?: string }).container;
+        const offset = offsets.get(container ?? elkNode.id) ?? { x: 0, y: 0 };
+        edge.points = [section.startPoint, ...(section.bendPoints ?? []), section.endPoint].map(
+          (p) => ({ x: p.x + offset.x, y: p.y + offset.y })
+        );
+      }
+      for (const child of elkNode.children ?? []) {
+        collectEdges(child);
+      }
+    };
+    collectEdges(result);
+
+    return { subGraphs };
+  }
+
+  /**
+   * Build the ELK graph: subgraphs become compound nodes, every edge end
+   * gets its own port so ELK can spread them along the node side
+   */
+  private buildGraph(model: FlowchartModel): ElkNode {
+    const flow = ELK_DIRECTIONS[model.direction] ?? ELK_DIRECTIONS.TB;
+    const fixedPortSides = this.options.fixedPortSides ?? true;
+    const padding = this.options.clusterPadding ?? 16;
+
+    const ports = new Map<string, ElkPort[]>();
+    const addPort = (nodeId: string, id: string, side: PortSide): string => {
+      if (!fixedPortSides) return nodeId;
+      const list = ports.get(nodeId) ?? [];
+      list.push({ id, layoutOptions: { 'elk.port.side': side } });
+      ports.set(nodeId, list);
+      return id;
+    };
+
+    const edges: ElkExtendedEdge[] = model.edges
+      .filter((edge) => model.hasNode(edge.source) && model.hasNode(edge.target))
+      .map((edge) => ({
+        id: edge.id,
+        sources: [addPort(edge.source, `${edge.id}__out`, flow.out)],
+        targets: [addPort(edge.target, `${edge.id}__in`, flow.in)],
+        labels: edge.text
+          ? [{ text: edge.text, width: edge.text.length * 7 + 10, height: 20 }]
+          : undefined,
+      }));
+
+    const elkNodes = new Map<string, ElkNode>();
+    for (const node of model.nodes) {
+      elkNodes.set(node.id, {
+        id: node.id,
+        ...nodeSize(node),
+        ports: ports.get(node.id),
+        layoutOptions: fixedPortSides ? { 'elk.portConstraints': 'FIXED_SIDE' } : undefined,
+      });
+    }
+    for (const subGraph of model.subGraphs) {
+      elkNodes.set(subGraph.id, {
+        id: subGraph.id,
+        children: [],
+        layoutOptions: {
+          'elk.padding': `[top=${padding + 24},left=${padding},bottom=${padding},right=${padding}]`,
+        },
+      });
+    }
+
+    const root: ElkNode = {
+      id: 'root',
+      children: [],
+      edges,
+      layoutOptions: {
+        'elk.algorithm': 'layered',
+        'elk.direction': flow.direction,
+        'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+        'elk.edgeRouting': EDGE_ROUTING[this.options.edgeRouting ?? 'orthogonal'],
+        'elk.spacing.nodeNode': String(this.options.nodeSpacing ?? 50),
+        'elk.layered.spacing.nodeNodeBetweenLayers': String(this.options.rankSpacing ?? 50),
+        ...this.options.elkOptions,
+      },
+    };
+
+    const parentOf = (id: string): ElkNode => {
+      const parentId = model.getNode(id)?.parentId ?? model.getSubGraph(id)?.parentId;
+      return (parentId && elkNodes.get(parentId)) || root;
+    };
+    for (const [id, elkNode] of elkNodes) {
+      parentOf(id).children!.push(elkNode);
+    }
+
+    return root;
+  }
+
+  /**
+   * Update layout options
+   */
+  setOptions(options: Partial<ElkLayoutOptions>): void {
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Get current layout options
+   */
+  getOptions(): ElkLayoutOptions {
+    return { ...this.options };
+  }
+}
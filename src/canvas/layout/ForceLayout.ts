@@ -0,0 +1,129 @@
+import {
+  forceCollide,
+  forceLink,
+  forceManyBody,
+  forceSimulation,
+  forceX,
+  forceY,
+  type SimulationLinkDatum,
+  type SimulationNodeDatum,
+} from 'd3';
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BaseLayoutOptions, LayoutEngine, LayoutResult } from './LayoutEngine';
+import { fitSubGraphs, flowOrder, nodeSize, routeStraightEdges } from './geometry';
+
+/**
+ * Force-directed layout options
+ */
+export interface ForceLayoutOptions extends BaseLayoutOptions {
+  /** Number of simulation steps (default: 300) */
+  iterations?: number;
+  /** Node repulsion strength (default: -400) */
+  charge?: number;
+}
+
+interface ForceNode extends SimulationNodeDatum {
+  id: string;
+  width: number;
+  height: number;
+  group: string | null;
+}
+
+/**
+ * Force-directed layout (d3-force).
+ * Edges pull nodes together, nodes push each other apart and nodes of the
+ * same subgraph are drawn towards a shared center. The simulation starts
+ * from a fixed spiral and runs synchronously, so the result is deterministic.
+ */
+export class ForceLayout implements LayoutEngine {
+  readonly name = 'force';
+  private options: ForceLayoutOptions;
+
+  constructor(options: ForceLayoutOptions = {}) {
+    this.options = { ...options };
+  }
+
+  layout(model: FlowchartModel): LayoutResult {
+    const nodeSpacing = this.options.nodeSpacing ?? 50;
+    const rankSpacing = this.options.rankSpacing ?? 50;
+
+    const nodes: ForceNode[] = flowOrder(model).map((node, i) => {
+      // Start on a spiral so the simulation does not depend on Math.random
+      const angle = i * 2.4;
+      const radius = 40 * Math.sqrt(i + 0.5);
+      return {
+        id: node.id,
+        ...nodeSize(node),
+        group: node.parentId ?? null,
+        x: radius * Math.cos(angle),
+        y: radius * Math.sin(angle),
+      };
+    });
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+
+    const links: SimulationLinkDatum<ForceNode>[] = model.edges
+      .filter((e) => e.source !== e.target && byId.has(e.source) && byId.has(e.target))
+      .map((e) => ({ source: e.source, target: e.target }));
+
+    // Pull subgraph members towards their group's current centroid
+    const groupCenter = (axis: 'x' | 'y') => (node: ForceNode): number => {
+      if (!node.group) return 0;
+      const members = nodes.filter((n) => n.group === node.group);
+      return members.reduce((sum, n) => sum + (n[axis] ?? 0), 0) / members.length;
+    };
+
+    const simulation = forceSimulation(nodes)
+      .force(
+        'link',
+        forceLink<ForceNode, SimulationLinkDatum<ForceNode>>(links)
+          .id((n) => n.id)
+          .distance((link) => {
+            const s = link.source as ForceNode;
+            const t = link.target as ForceNode;
+            return (Math.max(s.width, s.height) + Math.max(t.width, t.height)) / 2 + rankSpacing;
+          })
+      )
+      .force('charge', forceManyBody<ForceNode>().strength(this.options.charge ?? -400))
+      .force(
+        'collide',
+        forceCollide<ForceNode>((n) => Math.hypot(n.width, n.height) / 2 + nodeSpacing / 2)
+      )
+      .force('groupX', forceX<ForceNode>(groupCenter('x')).strength((n) => (n.group ? 0.1 : 0.02)))
+      .force('groupY', forceY<ForceNode>(groupCenter('y')).strength((n) => (n.group ? 0.1 : 0.02)))
+      .stop();
+
+    simulation.tick(this.options.iterations ?? 300);
+
+    // Shift into positive coordinates
+    const minX = Math.min(...nodes.map((n) => (n.x ?? 0) - n.width / 2));
+    const minY = Math.min(...nodes.map((n) => (n.y ?? 0) - n.height / 2));
+    const margin = (this.options.clusterPadding ?? 16) + 24;
+    for (const n of nodes) {
+      const node = model.getNode(n.id);
+      if (!node) continue;
+      node.bounds = {
+        x: (n.x ?? 0) - minX + margin,
+        y: (n.y ?? 0) - minY + margin,
+        width: n.width,
+        height: n.height,
+      };
+    }
+
+    routeStraightEdges(model);
+    return { subGraphs: fitSubGraphs(model, this.options.clusterPadding ?? 16) };
+  }
+
+  /**
+   * Update layout options
+   */
+  setOptions(options: Partial<ForceLayoutOptions>): void {
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Get current layout options
+   */
+  getOptions(): ForceLayoutOptions {
+    return { ...this.options };
+  }
+}
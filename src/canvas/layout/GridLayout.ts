@@ -0,0 +1,73 @@
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BaseLayoutOptions, LayoutEngine, LayoutResult } from './LayoutEngine';
+import { fitSubGraphs, flowOrder, nodeSize, routeStraightEdges } from './geometry';
+
+/**
+ * Grid layout options
+ */
+export interface GridLayoutOptions extends BaseLayoutOptions {
+  /** Cells per row (TB/BT) or per column (LR/RL) (default: ceil(sqrt(node count))) */
+  columns?: number;
+}
+
+/**
+ * Grid layout.
+ * Places nodes in flow order into equally sized cells, filling rows for
+ * TB/BT diagrams and columns for LR/RL ones; BT and RL fill backwards.
+ */
+export class GridLayout implements LayoutEngine {
+  readonly name = 'grid';
+  private options: GridLayoutOptions;
+
+  constructor(options: GridLayoutOptions = {}) {
+    this.options = { ...options };
+  }
+
+  layout(model: FlowchartModel): LayoutResult {
+    const nodes = flowOrder(model);
+    const clusterPadding = this.options.clusterPadding ?? 16;
+    if (nodes.length === 0) {
+      return { subGraphs: {} };
+    }
+
+    const sizes = nodes.map(nodeSize);
+    const cellWidth = Math.max(...sizes.map((s) => s.width)) + (this.options.nodeSpacing ?? 50);
+    const cellHeight = Math.max(...sizes.map((s) => s.height)) + (this.options.rankSpacing ?? 50);
+    const columns = Math.max(1, this.options.columns ?? Math.ceil(Math.sqrt(nodes.length)));
+    const lines = Math.ceil(nodes.length / columns);
+
+    const direction = model.direction;
+    const horizontal = direction === 'LR' || direction === 'RL';
+    const reversed = direction === 'BT' || direction === 'RL';
+
+    nodes.forEach((node, i) => {
+      const major = Math.floor(i / columns);
+      const minor = i % columns;
+      const line = reversed ? lines - 1 - major : major;
+      const col = horizontal ? line : minor;
+      const row = horizontal ? minor : line;
+      node.bounds = {
+        x: (col + 0.5) * cellWidth,
+        y: (row + 0.5) * cellHeight,
+        ...sizes[i],
+      };
+    });
+
+    routeStraightEdges(model);
+    return { subGraphs: fitSubGraphs(model, clusterPadding) };
+  }
+
+  /**
+   * Update layout options
+   */
+  setOptions(options: Partial<GridLayoutOptions>): void {
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Get current layout options
+   */
+  getOptions(): GridLayoutOptions {
+    return { ...this.options };
+  }
+}
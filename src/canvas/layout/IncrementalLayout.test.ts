@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { MermaidParser } from '../../core/parser/MermaidParser';
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BoundingBox } from '../../core/model/types';
+import { DagreLayout } from './DagreLayout';
+import { IncrementalLayout } from './IncrementalLayout';
+
+const parse = (code: string): FlowchartModel => new MermaidParser().parse(code);
+
+function overlaps(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    Math.abs(a.x - b.x) < (a.width + b.width) / 2 &&
+    Math.abs(a.y - b.y) < (a.height + b.height) / 2
+  );
+}
+
+/**
+ * Pin every node of `before` where a Dagre layout puts it, then load `after`
+ */
+function pinnedFrom(before: string, after: string): FlowchartModel {
+  const previous = parse(before);
+  new DagreLayout().layout(previous);
+
+  const model = parse(after);
+  for (const node of model.nodes) {
+    const bounds = previous.getNode(node.id)?.bounds;
+    if (bounds) node.position = { x: bounds.x + 1000, y: bounds.y + 500 };
+  }
+  return model;
+}
+
+describe('IncrementalLayout', () => {
+  it('should keep pinned nodes and only place the new ones', () => {
+    const model = pinnedFrom(
+      'flowchart TB\n    A --> B\n    A --> C',
+      'flowchart TB\n    A --> B\n    A --> C\n    B --> D'
+    );
+    const pinned = model.nodes.map((n) => ({ id: n.id, position: n.position }));
+
+    const { placed } = new IncrementalLayout().layout(model);
+
+    expect(placed).toEqual(['D']);
+    for (const { id, position } of pinned.filter((p) => p.position)) {
+      expect(model.getNode(id)!.bounds).toMatchObject(position!);
+    }
+
+    // D goes below its neighbour B, in the shifted coordinate space
+    const b = model.getNode('B')!.bounds!;
+    const d = model.getNode('D')!.bounds!;
+    expect(d.y).toBeGreaterThan(b.y);
+    expect(Math.abs(d.x - b.x)).toBeLessThan(b.width);
+  });
+
+  it('should not place new nodes on top of existing ones', () => {
+    const model = pinnedFrom(
+      'flowchart LR\n    A --> B',
+      'flowchart LR\n    A --> B\n    A --> C\n    A --> D\n    E'
+    );
+    new IncrementalLayout().layout(model);
+
+    const bounds = model.nodes.map((n) => n.bounds!);
+    for (let i = 0; i < bounds.length; i++) {
+      for (let j = i + 1; j < bounds.length; j++) {
+        expect(overlaps(bounds[i], bounds[j])).toBe(false);
+      }
+    }
+    for (const edge of model.edges) {
+      expect(edge.points).toHaveLength(2);
+    }
+  });
+
+  it('should fall back to a full layout when nothing is pinned', () => {
+    const model = parse('flowchart TB\n    A --> B');
+    const { placed } = new IncrementalLayout().layout(model);
+
+    expect(placed).toEqual(['A', 'B']);
+    expect(model.getNode('A')!.bounds!.y).toBeLessThan(model.getNode('B')!.bounds!.y);
+  });
+});
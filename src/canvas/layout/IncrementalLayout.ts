@@ -0,0 +1,153 @@
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BoundingBox, Position } from '../../core/model/types';
+import { DagreLayout } from './DagreLayout';
+import type { BaseLayoutOptions, LayoutResult } from './LayoutEngine';
+import { fitSubGraphs, flowOrder, routeStraightEdges } from './geometry';
+
+/**
+ * Incremental layout options
+ */
+export type IncrementalLayoutOptions = BaseLayoutOptions;
+
+/**
+ * Incremental layout output
+ */
+export interface IncrementalLayoutResult extends LayoutResult {
+  /** Nodes that had no pinned position and were placed by the layout */
+  placed: string[];
+}
+
+/**
+ * Stability-aware layout that preserves the user's mental map.
+ * Nodes with a `position` stay exactly where they are; the others are
+ * placed next to their already positioned neighbours, keeping the offset
+ * a full Dagre layout would give them, and nudged sideways until they do
+ * not overlap anything. Without any pinned node this is a plain Dagre layout.
+ */
+export class IncrementalLayout {
+  private options: IncrementalLayoutOptions;
+
+  constructor(options: IncrementalLayoutOptions = {}) {
+    this.options = { ...options };
+  }
+
+  layout(model: FlowchartModel): IncrementalLayoutResult {
+    const pinned = new Map<string, Position>();
+    for (const node of model.nodes) {
+      if (node.position) pinned.set(node.id, { ...node.position });
+    }
+
+    // The full layout tells where each node belongs relative to the others
+    const ideal = new DagreLayout({
+      nodesep: this.options.nodeSpacing,
+      ranksep: this.options.rankSpacing,
+    });
+    const full = ideal.layout(model);
+    if (pinned.size === 0) {
+      return { ...full, placed: model.nodes.map((node) => node.id) };
+    }
+
+    const idealBounds = new Map(model.nodes.map((node) => [node.id, { ...node.bounds! }]));
+    const positioned = new Map<string, BoundingBox>();
+    let shiftX = 0;
+    let shiftY = 0;
+    for (const [id, position] of pinned) {
+      const bounds = idealBounds.get(id)!;
+      shiftX += position.x - bounds.x;
+      shiftY += position.y - bounds.y;
+      positioned.set(id, { ...bounds, x: position.x, y: position.y });
+    }
+    // Nodes without positioned neighbours follow the pinned nodes as a whole
+    shiftX /= pinned.size;
+    shiftY /= pinned.size;
+
+    const placed: string[] = [];
+    for (const node of flowOrder(model)) {
+      if (positioned.has(node.id)) continue;
+      const own = idealBounds.get(node.id)!;
+
+      const anchors: string[] = [];
+      for (const edge of model.getEdgesForNode(node.id)) {
+        const other = edge.source === node.id ? edge.target : edge.source;
+        if (other !== node.id && positioned.has(other) && !anchors.includes(other)) {
+          anchors.push(other);
+        }
+      }
+
+      let x = own.x + shiftX;
+      let y = own.y + shiftY;
+      if (anchors.length > 0) {
+        x = 0;
+        y = 0;
+        for (const id of anchors) {
+          x += positioned.get(id)!.x + own.x - idealBounds.get(id)!.x;
+          y += positioned.get(id)!.y + own.y - idealBounds.get(id)!.y;
+        }
+        x /= anchors.length;
+        y /= anchors.length;
+      }
+
+      const horizontal = model.direction === 'LR' || model.direction === 'RL';
+      positioned.set(node.id, this.findFreeSpot({ ...own, x, y }, positioned, horizontal));
+      placed.push(node.id);
+    }
+
+    for (const node of model.nodes) {
+      node.bounds = positioned.get(node.id);
+    }
+    routeStraightEdges(model);
+
+    return {
+      subGraphs: fitSubGraphs(model, this.options.clusterPadding ?? 16),
+      placed,
+    };
+  }
+
+  /**
+   * Move a box across the flow direction, alternating sides and going
+   * further out each time, until it keeps its distance to every other box
+   */
+  private findFreeSpot(
+    box: BoundingBox,
+    others: Map<string, BoundingBox>,
+    horizontal: boolean
+  ): BoundingBox {
+    const gap = Math.min(this.options.nodeSpacing ?? 50, this.options.rankSpacing ?? 50) / 2;
+    const step = (horizontal ? box.height : box.width) + gap;
+    const isFree = (candidate: BoundingBox): boolean => {
+      for (const other of others.values()) {
+        if (
+          Math.abs(candidate.x - other.x) < (candidate.width + other.width) / 2 + gap &&
+          Math.abs(candidate.y - other.y) < (candidate.height + other.height) / 2 + gap
+        ) {
+          return false;
+        }
+      }
+      return true;
+    };
+
+    for (let i = 0; i <= 2 * others.size; i++) {
+      // 0, +1, -1, +2, -2, ...
+      const offset = (i % 2 === 1 ? 1 : -1) * Math.ceil(i / 2) * step;
+      const candidate = horizontal
+        ? { ...box, y: box.y + offset }
+        : { ...box, x: box.x + offset };
+      if (isFree(candidate)) return candidate;
+    }
+    return box;
+  }
+
+  /**
+   * Update layout options
+   */
+  setOptions(options: Partial<IncrementalLayoutOptions>): void {
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Get current layout options
+   */
+  getOptions(): IncrementalLayoutOptions {
+    return { ...this.options };
+  }
+}
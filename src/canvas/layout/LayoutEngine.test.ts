@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MermaidParser } from '../../core/parser/MermaidParser';
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BoundingBox } from '../../core/model/types';
+import {
+  createLayoutEngine,
+  isLayoutEngineName,
+  LAYOUT_ENGINES,
+  type LayoutEngineName,
+} from './LayoutEngine';
+import { GridLayout } from './GridLayout';
+
+// The test setup mocks d3; force and tree layouts need the real one
+vi.unmock('d3');
+
+const CODE = `flowchart TB
+    subgraph S[Group]
+        A[Start] --> B{Ok?}
+    end
+    B -- yes --> C((Done))
+    B --> D[Retry]
+    D --> A
+    C --> C`;
+
+const parse = (code = CODE): FlowchartModel => new MermaidParser().parse(code);
+
+function overlaps(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    Math.abs(a.x - b.x) < (a.width + b.width) / 2 &&
+    Math.abs(a.y - b.y) < (a.height + b.height) / 2
+  );
+}
+
+function contains(outer: BoundingBox, inner: BoundingBox): boolean {
+  return (
+    outer.x - outer.width / 2 <= inner.x - inner.width / 2 + 0.5 &&
+    outer.x + outer.width / 2 >= inner.x + inner.width / 2 - 0.5 &&
+    outer.y - outer.height / 2 <= inner.y - inner.height / 2 + 0.5 &&
+    outer.y + outer.height / 2 >= inner.y + inner.height / 2 - 0.5
+  );
+}
+
+describe('layout engines', () => {
+  it.each(LAYOUT_ENGINES)('%s should place every node and route every edge', async (name) => {
+    const model = parse();
+    const result = await createLayoutEngine(name).layout(model);
+
+    const bounds = model.nodes.map((node) => node.bounds!);
+    for (const box of bounds) {
+      expect(Number.isFinite(box.x) && Number.isFinite(box.y)).toBe(true);
+      expect(box.width).toBeGreaterThan(0);
+    }
+    for (let i = 0; i < bounds.length; i++) {
+      for (let j = i + 1; j < bounds.length; j++) {
+        expect(overlaps(bounds[i], bounds[j])).toBe(false);
+      }
+    }
+
+    for (const edge of model.edges) {
+      expect(edge.points?.length).toBeGreaterThanOrEqual(2);
+    }
+
+    const group = result.subGraphs.S;
+    expect(group).toBeDefined();
+    expect(contains(group, model.getNode('A')!.bounds!)).toBe(true);
+    expect(contains(group, model.getNode('B')!.bounds!)).toBe(true);
+  });
+
+  it('should keep node sizes already present in bounds', async () => {
+    const model = parse();
+    model.getNode('A')!.bounds = { x: 0, y: 0, width: 222, height: 77 };
+
+    await createLayoutEngine('tree').layout(model);
+
+    expect(model.getNode('A')!.bounds).toMatchObject({ width: 222, height: 77 });
+  });
+
+  it('should enclose nested subgraphs in their parents', async () => {
+    const model = parse(`flowchart LR
+    subgraph Outer
+        subgraph Inner
+            A --> B
+        end
+        C
+    end
+    B --> C`);
+
+    for (const name of ['elk', 'grid'] as LayoutEngineName[]) {
+      const { subGraphs } = await createLayoutEngine(name).layout(model);
+      expect(contains(subGraphs.Outer, subGraphs.Inner)).toBe(true);
+      expect(contains(subGraphs.Outer, model.getNode('C')!.bounds!)).toBe(true);
+    }
+  });
+
+  it('should follow the diagram direction', async () => {
+    const model = parse('flowchart LR\n    A --> B --> C');
+
+    for (const name of ['dagre', 'elk', 'tree'] as LayoutEngineName[]) {
+      await createLayoutEngine(name).layout(model);
+      const [a, b, c] = ['A', 'B', 'C'].map((id) => model.getNode(id)!.bounds!);
+      expect(a.x).toBeLessThan(b.x);
+      expect(b.x).toBeLessThan(c.x);
+      expect(Math.abs(a.y - c.y)).toBeLessThan(1);
+    }
+  });
+
+  it('should route ELK edges orthogonally between node sides', async () => {
+    const model = parse('flowchart TB\n    A --> B\n    A --> C');
+    await createLayoutEngine('elk').layout(model);
+
+    for (const edge of model.edges) {
+      const points = edge.points!;
+      for (let i = 1; i < points.length; i++) {
+        const dx = Math.abs(points[i].x - points[i - 1].x);
+        const dy = Math.abs(points[i].y - points[i - 1].y);
+        expect(Math.min(dx, dy)).toBeLessThan(0.5);
+      }
+      // Leaves from the bottom of A, enters from the top of the target
+      const a = model.getNode('A')!.bounds!;
+      const target = model.getNode(edge.target)!.bounds!;
+      expect(points[0].y).toBeCloseTo(a.y + a.height / 2);
+      expect(points.at(-1)!.y).toBeCloseTo(target.y - target.height / 2);
+    }
+  });
+
+  it('should give the same force layout for the same input', () => {
+    const first = parse();
+    const second = parse();
+    createLayoutEngine('force').layout(first);
+    createLayoutEngine('force').layout(second);
+
+    expect(second.nodes.map((n) => n.bounds)).toEqual(first.nodes.map((n) => n.bounds));
+  });
+
+  it('should fill grid rows in flow order', () => {
+    const model = parse('flowchart TB\n    A --> B --> C --> D --> E');
+    new GridLayout({ columns: 2 }).layout(model);
+    const [a, b, c] = ['A', 'B', 'C'].map((id) => model.getNode(id)!.bounds!);
+
+    expect(a.y).toBe(b.y);
+    expect(a.x).toBeLessThan(b.x);
+    expect(c.y).toBeGreaterThan(a.y);
+    expect(c.x).toBe(a.x);
+  });
+
+  it('should recognize engine names', () => {
+    expect(isLayoutEngineName('elk')).toBe(true);
+    expect(isLayoutEngineName('mermaid')).toBe(false);
+    expect(isLayoutEngineName(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BoundingBox } from '../../core/model/types';
+import { DagreLayout } from './DagreLayout';
+import { ElkLayout } from './ElkLayout';
+import { ForceLayout } from './ForceLayout';
+import { GridLayout } from './GridLayout';
+import { TreeLayout } from './TreeLayout';
+
+/**
+ * Built-in layout engines
+ */
+export type LayoutEngineName = 'dagre' | 'elk' | 'force' | 'grid' | 'tree';
+
+/**
+ * Layout output that is not stored on the model itself
+ */
+export interface LayoutResult {
+  /** Cluster boxes by subgraph ID (center x/y like node bounds) */
+  subGraphs: Record<string, BoundingBox>;
+}
+
+/**
+ * A layout algorithm.
+ * Implementations write node centers and sizes to `FlowNode.bounds` and
+ * edge routes to `FlowEdge.points`; subgraph boxes are returned since
+ * subgraphs carry no geometry. Node sizes already present in `bounds`
+ * are kept, otherwise they are estimated from the shape and text.
+ */
+export interface LayoutEngine {
+  readonly name: LayoutEngineName;
+  layout(model: FlowchartModel): LayoutResult | Promise<LayoutResult>;
+}
+
+/**
+ * Options understood by every engine; each engine adds its own on top
+ */
+export interface BaseLayoutOptions {
+  /** Space between neighbouring nodes (default: 50) */
+  nodeSpacing?: number;
+  /** Space between layers / rows (default: 50) */
+  rankSpacing?: number;
+  /** Space between a subgraph border and its content (default: 16) */
+  clusterPadding?: number;
+}
+
+/**
+ * Engines in the order they are offered to the user
+ */
+export const LAYOUT_ENGINES: readonly LayoutEngineName[] = ['dagre', 'elk', 'force', 'grid', 'tree'];
+
+/**
+ * Whether a string names a built-in layout engine
+ */
+export function isLayoutEngineName(name: unknown): name is LayoutEngineName {
+  return typeof name === 'string' && (LAYOUT_ENGINES as readonly string[]).includes(name);
+}
+
+/**
+ * Create a built-in layout engine by name
+ */
+export function createLayoutEngine(
+  name: LayoutEngineName,
+  options: BaseLayoutOptions = {}
+): LayoutEngine {
+  switch (name) {
+    case 'dagre':
+      return new DagreLayout({ nodesep: options.nodeSpacing, ranksep: options.rankSpacing });
+    case 'elk':
+      return new ElkLayout(options);
+    case 'force':
+      return new ForceLayout(options);
+    case 'grid':
+      return new GridLayout(options);
+    case 'tree':
+      return new TreeLayout(options);
+  }
+}
@@ -0,0 +1,116 @@
+import { hierarchy, tree } from 'd3';
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { BaseLayoutOptions, LayoutEngine, LayoutResult } from './LayoutEngine';
+import { fitSubGraphs, flowOrder, nodeSize, routeStraightEdges } from './geometry';
+
+/**
+ * Tree layout options
+ */
+export type TreeLayoutOptions = BaseLayoutOptions;
+
+interface TreeItem {
+  id: string;
+  children: TreeItem[];
+}
+
+const VIRTUAL_ROOT = '__root__';
+
+/**
+ * Tidy tree layout (d3-hierarchy).
+ * Builds a breadth-first spanning tree starting from the nodes without
+ * predecessors and lays it out level by level in the diagram direction.
+ * Edges outside the spanning tree are drawn straight across.
+ */
+export class TreeLayout implements LayoutEngine {
+  readonly name = 'tree';
+  private options: TreeLayoutOptions;
+
+  constructor(options: TreeLayoutOptions = {}) {
+    this.options = { ...options };
+  }
+
+  layout(model: FlowchartModel): LayoutResult {
+    const nodes = flowOrder(model);
+    const clusterPadding = this.options.clusterPadding ?? 16;
+    if (nodes.length === 0) {
+      return { subGraphs: {} };
+    }
+
+    // Spanning forest: each node hangs below the first node reaching it
+    const items = new Map<string, TreeItem>(nodes.map((n) => [n.id, { id: n.id, children: [] }]));
+    const root: TreeItem = { id: VIRTUAL_ROOT, children: [] };
+    const placed = new Set<string>();
+    for (const node of nodes) {
+      if (placed.has(node.id)) continue;
+      placed.add(node.id);
+      root.children.push(items.get(node.id)!);
+
+      const queue = [node.id];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const edge of model.getEdgesForNode(current)) {
+          if (edge.source !== current || placed.has(edge.target) || !items.has(edge.target)) {
+            continue;
+          }
+          placed.add(edge.target);
+          items.get(current)!.children.push(items.get(edge.target)!);
+          queue.push(edge.target);
+        }
+      }
+    }
+
+    const direction = model.direction;
+    const horizontal = direction === 'LR' || direction === 'RL';
+    const sizes = new Map(nodes.map((n) => [n.id, nodeSize(n)]));
+    const breadth = (id: string): number => {
+      const size = sizes.get(id)!;
+      return horizontal ? size.height : size.width;
+    };
+    const depthOf = (id: string): number => {
+      const size = sizes.get(id)!;
+      return horizontal ? size.width : size.height;
+    };
+
+    const maxBreadth = Math.max(...nodes.map((n) => breadth(n.id)));
+    const maxDepth = Math.max(...nodes.map((n) => depthOf(n.id)));
+    const laidOut = tree<TreeItem>()
+      .nodeSize([maxBreadth + (this.options.nodeSpacing ?? 50), maxDepth + (this.options.rankSpacing ?? 50)])
+      .separation((a, b) => (a.parent === b.parent ? 1 : 1.25))(hierarchy(root));
+
+    const positions = laidOut.descendants().filter((d) => d.data.id !== VIRTUAL_ROOT);
+    const minBreadth = Math.min(...positions.map((d) => d.x - breadth(d.data.id) / 2));
+    const maxLevel = Math.max(...positions.map((d) => d.depth));
+    const margin = clusterPadding + 24;
+
+    for (const d of positions) {
+      const node = model.getNode(d.data.id)!;
+      const size = sizes.get(d.data.id)!;
+      // Level 1 holds the real roots; the virtual root sits at level 0
+      const level = direction === 'BT' || direction === 'RL' ? maxLevel - d.depth : d.depth - 1;
+      const across = d.x - minBreadth + margin;
+      const along = level * (maxDepth + (this.options.rankSpacing ?? 50)) + maxDepth / 2 + margin;
+      node.bounds = {
+        x: horizontal ? along : across,
+        y: horizontal ? across : along,
+        ...size,
+      };
+    }
+
+    routeStraightEdges(model);
+    return { subGraphs: fitSubGraphs(model, clusterPadding) };
+  }
+
+  /**
+   * Update layout options
+   */
+  setOptions(options: Partial<TreeLayoutOptions>): void {
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Get current layout options
+   */
+  getOptions(): TreeLayoutOptions {
+    return { ...this.options };
+  }
+}
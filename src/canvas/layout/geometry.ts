@@ -0,0 +1,152 @@
+import type { FlowchartModel } from '../../core/model/FlowchartModel';
+import type { FlowNode } from '../../core/model/Node';
+import type { BoundingBox, Position } from '../../core/model/types';
+import { ShapeRenderer } from '../shapes/ShapeRenderer';
+
+/**
+ * Extra space above a cluster's content for its title
+ */
+const CLUSTER_TITLE_HEIGHT = 24;
+
+/**
+ * Size of a node: the one it already has, or an estimate from shape and text
+ */
+export function nodeSize(node: FlowNode): { width: number; height: number } {
+  const { width, height } = node.bounds ?? ShapeRenderer.calculateBounds(node);
+  return { width, height };
+}
+
+/**
+ * Point where the line from the box center towards `toward` leaves the box
+ */
+export function clipToBox(box: BoundingBox, toward: Position): Position {
+  const dx = toward.x - box.x;
+  const dy = toward.y - box.y;
+  if (dx === 0 && dy === 0) {
+    return { x: box.x, y: box.y };
+  }
+
+  const ratio = Math.min(
+    1,
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy)
+  );
+  return { x: box.x + dx * ratio, y: box.y + dy * ratio };
+}
+
+/**
+ * Small loop on the right side of a box, for edges from a node to itself
+ */
+export function selfLoopPoints(box: BoundingBox): Position[] {
+  const right = box.x + box.width / 2;
+  const top = box.y - box.height / 4;
+  const bottom = box.y + box.height / 4;
+  return [
+    { x: right, y: top },
+    { x: right + 20, y: top },
+    { x: right + 20, y: bottom },
+    { x: right, y: bottom },
+  ];
+}
+
+/**
+ * Route every edge as a straight segment between the node borders.
+ * Self loops get a small loop on the node's right side.
+ */
+export function routeStraightEdges(model: FlowchartModel): void {
+  for (const edge of model.edges) {
+    const source = model.getNode(edge.source)?.bounds;
+    const target = model.getNode(edge.target)?.bounds;
+    if (!source || !target) continue;
+
+    if (edge.source === edge.target) {
+      edge.points = selfLoopPoints(source);
+      continue;
+    }
+
+    edge.points = [clipToBox(source, target), clipToBox(target, source)];
+  }
+}
+
+/**
+ * Compute subgraph boxes around the laid out nodes, innermost first so
+ * nested subgraphs are enclosed by their parents
+ */
+export function fitSubGraphs(
+  model: FlowchartModel,
+  padding: number
+): Record<string, BoundingBox> {
+  const boxes: Record<string, BoundingBox> = {};
+  const depth = (id: string): number => {
+    const parentId = model.getSubGraph(id)?.parentId;
+    return parentId ? depth(parentId) + 1 : 0;
+  };
+  const subGraphs = [...model.subGraphs].sort((a, b) => depth(b.id) - depth(a.id));
+
+  for (const subGraph of subGraphs) {
+    const members: BoundingBox[] = [];
+    for (const nodeId of subGraph.nodeIds) {
+      const bounds = model.getNode(nodeId)?.bounds;
+      if (bounds) members.push(bounds);
+    }
+    for (const child of model.subGraphs) {
+      if (child.parentId === subGraph.id && boxes[child.id]) {
+        members.push(boxes[child.id]);
+      }
+    }
+    if (members.length === 0) continue;
+
+    const minX = Math.min(...members.map((b) => b.x - b.width / 2)) - padding;
+    const maxX = Math.max(...members.map((b) => b.x + b.width / 2)) + padding;
+    const minY = Math.min(...members.map((b) => b.y - b.height / 2)) - padding - CLUSTER_TITLE_HEIGHT;
+    const maxY = Math.max(...members.map((b) => b.y + b.height / 2)) + padding;
+    boxes[subGraph.id] = {
+      x: (minX + maxX) / 2,
+      y: (minY + maxY) / 2,
+      width: maxX - minX,
+      height: maxY - minY,
+    };
+  }
+
+  return boxes;
+}
+
+/**
+ * Order nodes breadth-first from the ones without predecessors, so nodes
+ * tend to follow the nodes pointing at them; nodes only reachable through
+ * cycles follow in model order
+ */
+export function flowOrder(model: FlowchartModel): FlowNode[] {
+  const incoming = new Map(model.nodes.map((node) => [node.id, 0]));
+  for (const edge of model.edges) {
+    if (edge.source !== edge.target && incoming.has(edge.target)) {
+      incoming.set(edge.target, incoming.get(edge.target)! + 1);
+    }
+  }
+
+  const order: FlowNode[] = [];
+  const visited = new Set<string>();
+  const visit = (node: FlowNode): void => {
+    const queue = [node];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current.id)) continue;
+      visited.add(current.id);
+      order.push(current);
+      for (const edge of model.getEdgesForNode(current.id)) {
+        const target = model.getNode(edge.target);
+        if (edge.source === current.id && target && !visited.has(target.id)) {
+          queue.push(target);
+        }
+      }
+    }
+  };
+
+  for (const node of model.nodes) {
+    if (incoming.get(node.id) === 0) visit(node);
+  }
+  for (const node of model.nodes) {
+    visit(node);
+  }
+  return order;
+}
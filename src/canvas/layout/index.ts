@@ -1 +1,7 @@
+export * from './LayoutEngine';
 export * from './DagreLayout';
+export * from './ElkLayout';
+export * from './ForceLayout';
+export * from './GridLayout';
+export * from './TreeLayout';
+export * from './IncrementalLayout';
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { Position } from '../../core/model/types';
+import {
+  directionFromKey,
+  findNeighbor,
+  findStartNode,
+  type NavigationEdge,
+} from './GraphNavigator';
+
+//      A
+//    /   \
+//   B     C --- D
+//   |
+//   E          F (not connected)
+const positions = new Map<string, Position>([
+  ['A', { x: 200, y: 0 }],
+  ['B', { x: 100, y: 100 }],
+  ['C', { x: 300, y: 100 }],
+  ['D', { x: 500, y: 110 }],
+  ['E', { x: 100, y: 200 }],
+  ['F', { x: 400, y: 200 }],
+]);
+
+const edges: NavigationEdge[] = [
+  { id: 'e1', sourceId: 'A', targetId: 'B' },
+  { id: 'e2', sourceId: 'A', targetId: 'C' },
+  { id: 'e3', sourceId: 'C', targetId: 'D' },
+  { id: 'e4', sourceId: 'B', targetId: 'E' },
+  { id: 'loop', sourceId: 'E', targetId: 'E' },
+];
+
+describe('directionFromKey', () => {
+  it('should map arrow keys only', () => {
+    expect(directionFromKey('ArrowUp')).toBe('up');
+    expect(directionFromKey('ArrowRight')).toBe('right');
+    expect(directionFromKey('Enter')).toBeNull();
+  });
+});
+
+describe('findNeighbor', () => {
+  it('should follow edges in either direction', () => {
+    expect(findNeighbor('B', 'down', positions, edges)).toEqual({ nodeId: 'E', edgeId: 'e4' });
+    expect(findNeighbor('E', 'up', positions, edges)).toEqual({ nodeId: 'B', edgeId: 'e4' });
+    expect(findNeighbor('D', 'left', positions, edges)).toEqual({ nodeId: 'C', edgeId: 'e3' });
+  });
+
+  it('should pick the neighbour closest to the direction', () => {
+    expect(findNeighbor('C', 'right', positions, edges)?.nodeId).toBe('D');
+    expect(findNeighbor('C', 'up', positions, edges)?.nodeId).toBe('A');
+  });
+
+  it('should not step to unconnected nodes or sideways', () => {
+    expect(findNeighbor('D', 'down', positions, edges)).toBeNull();
+    expect(findNeighbor('E', 'right', positions, edges)).toBeNull();
+    expect(findNeighbor('missing', 'up', positions, edges)).toBeNull();
+  });
+});
+
+describe('findStartNode', () => {
+  it('should start at the top-left node', () => {
+    expect(findStartNode(positions)).toBe('A');
+    expect(findStartNode(new Map())).toBeNull();
+  });
+});
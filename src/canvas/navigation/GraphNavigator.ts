@@ -0,0 +1,102 @@
+import type { Position } from '../../core/model/types';
+
+/**
+ * Direction of a keyboard step across the canvas
+ */
+export type NavigationDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * Edge as seen by keyboard navigation
+ */
+export interface NavigationEdge {
+  id: string;
+  sourceId: string;
+  targetId: string;
+}
+
+/**
+ * Result of a keyboard step: the node reached and the edge followed
+ */
+export interface NavigationStep {
+  nodeId: string;
+  edgeId: string;
+}
+
+const UNIT: Record<NavigationDirection, Position> = {
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+};
+
+const KEYS: Record<string, NavigationDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+/**
+ * Map an arrow key (`KeyboardEvent.key`) to a direction, null for other keys
+ */
+export function directionFromKey(key: string): NavigationDirection | null {
+  return KEYS[key] ?? null;
+}
+
+/**
+ * Find the node to move to when stepping from a node in a direction.
+ * Only nodes connected to the current one by an edge (either way) are
+ * candidates, and only those within 45° of the direction, so a step never
+ * jumps to a node that is mostly off to the side. The candidate closest to
+ * the direction line wins, then the nearer one.
+ */
+export function findNeighbor(
+  nodeId: string,
+  direction: NavigationDirection,
+  positions: ReadonlyMap<string, Position>,
+  edges: ReadonlyArray<NavigationEdge>
+): NavigationStep | null {
+  const origin = positions.get(nodeId);
+  if (!origin) return null;
+
+  const unit = UNIT[direction];
+  let best: NavigationStep | null = null;
+  let bestScore = Infinity;
+
+  for (const edge of edges) {
+    const otherId =
+      edge.sourceId === nodeId ? edge.targetId : edge.targetId === nodeId ? edge.sourceId : null;
+    if (otherId === null || otherId === nodeId) continue;
+    const other = positions.get(otherId);
+    if (!other) continue;
+
+    const dx = other.x - origin.x;
+    const dy = other.y - origin.y;
+    const along = dx * unit.x + dy * unit.y;
+    const across = Math.abs(dx * unit.y - dy * unit.x);
+    if (along <= 0 || across > along) continue;
+
+    const score = Math.hypot(dx, dy) * (1 + across / along);
+    if (score < bestScore) {
+      bestScore = score;
+      best = { nodeId: otherId, edgeId: edge.id };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Node to start keyboard navigation from: the top-most, then left-most one
+ */
+export function findStartNode(positions: ReadonlyMap<string, Position>): string | null {
+  let start: string | null = null;
+  let startPos: Position | null = null;
+  for (const [id, pos] of positions) {
+    if (!startPos || pos.y < startPos.y || (pos.y === startPos.y && pos.x < startPos.x)) {
+      start = id;
+      startPos = pos;
+    }
+  }
+  return start;
+}
@@ -0,0 +1,2 @@
+export { directionFromKey, findNeighbor, findStartNode } from './GraphNavigator';
+export type { NavigationDirection, NavigationEdge, NavigationStep } from './GraphNavigator';
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runCli, type CliIO } from './index';
+
+// The test setup mocks d3; headless rendering needs the real one
+vi.unmock('d3');
+
+function createIO(files: Record<string, string>, stdin = '') {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIO = {
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    writeFile: async (path, content) => {
+      files[path] = content;
+    },
+    readStdin: async () => stdin,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    createDocument: async () => document,
+  };
+  return { io, files, stdout: () => out.join(''), stderr: () => err.join('') };
+}
+
+const VALID = 'flowchart TD\n    A --> B\n';
+const INVALID = 'flowchart TD\n    A -->\n    what is this\n';
+
+describe('runCli', () => {
+  describe('validate', () => {
+    it('should pass valid files', async () => {
+      const { io, stdout } = createIO({ 'a.mmd': VALID, 'b.mmd': VALID });
+
+      expect(await runCli(['validate', 'a.mmd', 'b.mmd'], io)).toBe(0);
+      expect(stdout()).toBe('2 file(s) OK\n');
+    });
+
+    it('should report diagnostics with file positions and fail on errors', async () => {
+      const { io, stderr } = createIO({ 'bad.mmd': INVALID });
+
+      expect(await runCli(['validate', 'bad.mmd'], io)).toBe(1);
+      expect(stderr()).toContain('bad.mmd:2:7: error: ');
+      expect(stderr()).toContain('[incomplete-edge]');
+      expect(stderr()).toContain('bad.mmd:3:5: error: ');
+      expect(stderr()).toContain('1 of 1 file(s) failed validation');
+    });
+
+    it('should read stdin when no file is given', async () => {
+      const { io, stderr } = createIO({}, INVALID);
+
+      expect(await runCli(['validate'], io)).toBe(1);
+      expect(stderr()).toContain('<stdin>:2:7');
+    });
+  });
+
+  describe('format', () => {
+    const MESSY = 'flowchart TD\nA-->B\n';
+
+    it('should print the canonical form', async () => {
+      const { io, stdout } = createIO({ 'a.mmd': MESSY });
+
+      expect(await runCli(['format', 'a.mmd'], io)).toBe(0);
+      expect(stdout()).toBe('flowchart TD\n    A --> B\n');
+    });
+
+    it('should rewrite files with --write', async () => {
+      const { io, files, stdout } = createIO({ 'a.mmd': MESSY });
+
+      expect(await runCli(['format', '-w', 'a.mmd'], io)).toBe(0);
+      expect(files['a.mmd']).toBe('flowchart TD\n    A --> B\n');
+      expect(stdout()).toBe('');
+    });
+
+    it('should flag unformatted files with --check', async () => {
+      const { io, files, stderr } = createIO({ 'a.mmd': MESSY });
+
+      expect(await runCli(['format', '--check', 'a.mmd'], io)).toBe(1);
+      expect(stderr()).toBe('a.mmd: not formatted\n');
+      expect(files['a.mmd']).toBe(MESSY);
+
+      await runCli(['format', '--write', 'a.mmd'], io);
+      expect(await runCli(['format', '--check', 'a.mmd'], io)).toBe(0);
+    });
+
+    it('should refuse to format code with errors', async () => {
+      const { io, stderr } = createIO({ 'bad.mmd': INVALID });
+
+      expect(await runCli(['format', 'bad.mmd'], io)).toBe(1);
+      expect(stderr()).toContain('Cannot format code with errors');
+    });
+  });
+
+  it('should print the parsed model as JSON', async () => {
+    const { io, stdout } = createIO({ 'a.mmd': VALID });
+
+    expect(await runCli(['parse', 'a.mmd'], io)).toBe(0);
+    const data = JSON.parse(stdout());
+    expect(data.nodes.map((n: { id: string }) => n.id)).toEqual(['A', 'B']);
+    expect(data.edges).toHaveLength(1);
+  });
+
+  it('should print the layout as JSON', async () => {
+    const { io, stdout } = createIO({ 'a.mmd': VALID });
+
+    expect(await runCli(['layout', 'a.mmd', '--padding', '0'], io)).toBe(0);
+    const layout = JSON.parse(stdout());
+    expect(layout.nodes).toHaveLength(2);
+    expect(layout.nodes[0].y).toBeLessThan(layout.nodes[1].y);
+  });
+
+  describe('render', () => {
+    it('should write the SVG to the output file', async () => {
+      const { io, files } = createIO({ 'a.mmd': VALID });
+
+      expect(await runCli(['render', 'a.mmd', '-o', 'a.svg', '--background=#fff'], io)).toBe(0);
+      expect(files['a.svg']).toMatch(/^<\?xml[^>]*>\n<svg /);
+      expect(files['a.svg']).toContain('fill="#fff"');
+    });
+
+    it('should not render code with errors', async () => {
+      const { io, stdout } = createIO({ 'bad.mmd': INVALID });
+
+      expect(await runCli(['render', 'bad.mmd'], io)).toBe(1);
+      expect(stdout()).toBe('');
+    });
+  });
+
+  it('should reject unknown commands and options', async () => {
+    const { io, stderr } = createIO({});
+
+    expect(await runCli(['frobnicate'], io)).toBe(2);
+    expect(stderr()).toContain('Unknown command: frobnicate');
+    expect(await runCli(['validate', '--nope'], io)).toBe(2);
+    expect(stderr()).toContain('Unknown option: --nope');
+  });
+
+  it('should report unreadable files', async () => {
+    const { io, stderr } = createIO({});
+
+    expect(await runCli(['validate', 'missing.mmd'], io)).toBe(1);
+    expect(stderr()).toContain('merfolk: ENOENT: missing.mmd');
+  });
+});
@@ -0,0 +1,275 @@
+import type { ParseDiagnostic } from '../core/parser/Diagnostic';
+import {
+  formatFlowchart,
+  hasErrors,
+  layoutFlowchart,
+  parseFlowchart,
+  renderFlowchartSvg,
+} from '../headless/flowchart';
+
+/**
+ * Everything the CLI needs from its host. The `merfolk` bin script wires
+ * this to Node (fs, stdio, jsdom); tests pass in-memory fakes.
+ */
+export interface CliIO {
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  readStdin(): Promise<string>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Simulated DOM for `render` */
+  createDocument(): Promise<Document>;
+}
+
+/** Reads from stdin when given as a file name */
+const STDIN = '-';
+
+export const USAGE = `Usage: merfolk <command> [options] [files...]
+
+Commands:
+  parse <file>       Print the parsed flowchart model as JSON
+  validate <files>   Report diagnostics; exits with 1 when there are errors
+  format <files>     Print the code in canonical form
+  layout <file>      Print node, edge and subgraph positions as JSON
+  render <file>      Render the flowchart to SVG
+
+Options:
+  -w, --write            format: rewrite the files in place
+  --check                format: exit with 1 when a file is not formatted
+  --strict               validate: treat warnings as errors
+  -o, --output <file>    render: write the SVG to a file instead of stdout
+  --background <color>   render: fill the background
+  --padding <number>     render/layout: space around the diagram
+  -h, --help             Show this help
+
+Files default to stdin; "-" reads stdin explicitly.
+`;
+
+interface CliArgs {
+  command?: string;
+  files: string[];
+  flags: Set<string>;
+  values: Map<string, string>;
+}
+
+const FLAG_ALIASES: Record<string, string> = {
+  '-w': '--write',
+  '-o': '--output',
+  '-h': '--help',
+};
+const BOOLEAN_FLAGS = new Set(['--write', '--check', '--strict', '--help']);
+const VALUE_FLAGS = new Set(['--output', '--background', '--padding']);
+
+/**
+ * Run the `merfolk` command line and resolve to the process exit code:
+ * 0 on success, 1 when the input has problems, 2 on usage errors.
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (e) {
+    io.stderr(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (args.flags.has('--help') || args.command === 'help') {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  try {
+    switch (args.command) {
+      case 'parse':
+        return await parseCommand(args, io);
+      case 'validate':
+        return await validateCommand(args, io);
+      case 'format':
+        return await formatCommand(args, io);
+      case 'layout':
+        return await layoutCommand(args, io);
+      case 'render':
+        return await renderCommand(args, io);
+      case undefined:
+        io.stderr(USAGE);
+        return 2;
+      default:
+        io.stderr(`Unknown command: ${args.command}\n\n${USAGE}`);
+        return 2;
+    }
+  } catch (e) {
+    io.stderr(`merfolk: ${(e as Error).message}\n`);
+    return 1;
+  }
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { files: [], flags: new Set(), values: new Map() };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === STDIN || !arg.startsWith('-')) {
+      if (args.command === undefined) {
+        args.command = arg;
+      } else {
+        args.files.push(arg);
+      }
+      continue;
+    }
+
+    const [rawName, inlineValue] = arg.split(/=(.*)/s, 2);
+    const name = FLAG_ALIASES[rawName] ?? rawName;
+    if (BOOLEAN_FLAGS.has(name)) {
+      args.flags.add(name);
+    } else if (VALUE_FLAGS.has(name)) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${rawName}`);
+      }
+      args.values.set(name, value);
+    } else {
+      throw new Error(`Unknown option: ${rawName}`);
+    }
+  }
+
+  return args;
+}
+
+function inputFiles(args: CliArgs): string[] {
+  return args.files.length > 0 ? args.files : [STDIN];
+}
+
+function singleInput(args: CliArgs): string {
+  if (args.files.length > 1) {
+    throw new Error(`${args.command} takes a single file`);
+  }
+  return inputFiles(args)[0];
+}
+
+function readInput(file: string, io: CliIO): Promise<string> {
+  return file === STDIN ? io.readStdin() : io.readFile(file);
+}
+
+function displayName(file: string): string {
+  return file === STDIN ? '<stdin>' : file;
+}
+
+function readPadding(args: CliArgs): number | undefined {
+  const raw = args.values.get('--padding');
+  if (raw === undefined) return undefined;
+  const padding = Number(raw);
+  if (!Number.isFinite(padding) || padding < 0) {
+    throw new Error(`Invalid padding: ${raw}`);
+  }
+  return padding;
+}
+
+/**
+ * `file:line:column: severity: message [code]`, the format editors and CI
+ * problem matchers understand
+ */
+export function formatDiagnostic(file: string, diagnostic: ParseDiagnostic): string {
+  return (
+    `${displayName(file)}:${diagnostic.line}:${diagnostic.column}: ` +
+    `${diagnostic.severity}: ${diagnostic.message} [${diagnostic.code}]`
+  );
+}
+
+function reportDiagnostics(file: string, diagnostics: ParseDiagnostic[], io: CliIO): void {
+  for (const diagnostic of diagnostics) {
+    io.stderr(`${formatDiagnostic(file, diagnostic)}\n`);
+  }
+}
+
+async function parseCommand(args: CliArgs, io: CliIO): Promise<number> {
+  const file = singleInput(args);
+  const { model, diagnostics } = parseFlowchart(await readInput(file, io));
+  reportDiagnostics(file, diagnostics, io);
+  io.stdout(`${JSON.stringify(model.toData(), null, 2)}\n`);
+  return hasErrors(diagnostics) ? 1 : 0;
+}
+
+async function validateCommand(args: CliArgs, io: CliIO): Promise<number> {
+  const strict = args.flags.has('--strict');
+  let failed = 0;
+  let total = 0;
+
+  for (const file of inputFiles(args)) {
+    const { diagnostics } = parseFlowchart(await readInput(file, io));
+    reportDiagnostics(file, diagnostics, io);
+    total += diagnostics.length;
+    if (hasErrors(diagnostics) || (strict && diagnostics.some((d) => d.severity === 'warning'))) {
+      failed++;
+    }
+  }
+
+  if (failed > 0) {
+    io.stderr(`${failed} of ${inputFiles(args).length} file(s) failed validation\n`);
+    return 1;
+  }
+  if (total === 0) {
+    io.stdout(`${inputFiles(args).length} file(s) OK\n`);
+  }
+  return 0;
+}
+
+async function formatCommand(args: CliArgs, io: CliIO): Promise<number> {
+  const write = args.flags.has('--write');
+  const check = args.flags.has('--check');
+  const files = inputFiles(args);
+  if (write && files.includes(STDIN)) {
+    throw new Error('--write cannot be used with stdin');
+  }
+
+  let unformatted = 0;
+  for (const file of files) {
+    const code = await readInput(file, io);
+    const formatted = `${formatFlowchart(code)}\n`;
+
+    if (check) {
+      if (formatted !== code) {
+        unformatted++;
+        io.stderr(`${displayName(file)}: not formatted\n`);
+      }
+    } else if (write) {
+      if (formatted !== code) {
+        await io.writeFile(file, formatted);
+      }
+    } else {
+      io.stdout(formatted);
+    }
+  }
+
+  return unformatted > 0 ? 1 : 0;
+}
+
+async function layoutCommand(args: CliArgs, io: CliIO): Promise<number> {
+  const file = singleInput(args);
+  const layout = layoutFlowchart(await readInput(file, io), { padding: readPadding(args) });
+  io.stdout(`${JSON.stringify(layout, null, 2)}\n`);
+  return 0;
+}
+
+async function renderCommand(args: CliArgs, io: CliIO): Promise<number> {
+  const file = singleInput(args);
+  const code = await readInput(file, io);
+  const { diagnostics } = parseFlowchart(code);
+  reportDiagnostics(file, diagnostics, io);
+  if (hasErrors(diagnostics)) {
+    return 1;
+  }
+
+  const svg = renderFlowchartSvg(code, {
+    document: await io.createDocument(),
+    padding: readPadding(args),
+    background: args.values.get('--background'),
+  });
+
+  const output = args.values.get('--output');
+  if (output) {
+    await io.writeFile(output, `${svg}\n`);
+  } else {
+    io.stdout(`${svg}\n`);
+  }
+  return 0;
+}
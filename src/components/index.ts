@@ -7,4 +7,10 @@ export { default as CodePanel } from './CodePanel.svelte';
 export { default as Toolbar } from './Toolbar.svelte';
 export { default as ContextMenu, type MenuItem } from './ContextMenu.svelte';
 export { default as NodeEditDialog } from './NodeEditDialog.svelte';
+export { default as NodeStyleDialog } from './NodeStyleDialog.svelte';
 export { default as EdgeAddDialog } from './EdgeAddDialog.svelte';
+export { default as SubGraphEditDialog } from './SubGraphEditDialog.svelte';
+export { default as DiagramSettingsDialog } from './DiagramSettingsDialog.svelte';
+export { default as HistoryPanel } from './HistoryPanel.svelte';
+export { default as CodeSearchBar } from './CodeSearchBar.svelte';
+export { default as Minimap } from './Minimap.svelte';
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { MermaidParser } from '../parser/MermaidParser';
+import type { FlowchartModel } from '../model/FlowchartModel';
+import {
+  CLIPBOARD_MIME_TYPE,
+  clipboardFromJson,
+  clipboardFromMermaid,
+  clipboardToMermaid,
+  createClipboardPayload,
+  planPaste,
+  readClipboardData,
+  writeClipboardData,
+} from './Clipboard';
+
+const parse = (code: string): FlowchartModel => new MermaidParser().parse(code);
+
+/**
+ * Minimal stand-in for the DataTransfer of a clipboard event
+ */
+function dataTransfer(): Pick<DataTransfer, 'getData' | 'setData'> & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getData: (type) => data.get(type) ?? '',
+    setData: (type, value) => void data.set(type, value),
+  };
+}
+
+describe('createClipboardPayload', () => {
+  it('should copy internal edges, used classDefs and fully selected subgraphs', () => {
+    const model = parse(
+      'flowchart LR\n' +
+        '  subgraph Outer\n    subgraph Inner\n      A --> B\n    end\n    C\n  end\n' +
+        '  B --> D\n  classDef hot fill:#f00\n  classDef cold fill:#00f\n  class A hot'
+    );
+
+    const payload = createClipboardPayload(model, ['A', 'B', 'missing'])!;
+
+    expect(payload.data.direction).toBe('LR');
+    expect(payload.data.nodes.map((n) => [n.id, n.parentId])).toEqual([
+      ['A', 'Inner'],
+      ['B', 'Inner'],
+    ]);
+    expect(payload.data.edges.map((e) => [e.source, e.target])).toEqual([['A', 'B']]);
+    expect(payload.data.subGraphs.map((s) => s.id)).toEqual(['Inner']);
+    expect(Object.keys(payload.data.classDefs!)).toEqual(['hot']);
+    expect(createClipboardPayload(model, ['missing'])).toBeNull();
+  });
+});
+
+describe('planPaste', () => {
+  it('should renumber colliding node, subgraph and edge IDs', () => {
+    const source = parse('flowchart TB\n  subgraph S\n    N1 --> A\n  end\n  N1 e1@--> A');
+    const payload = createClipboardPayload(source, ['N1', 'A'])!;
+    const target = parse('flowchart TB\n  N1 --> N2\n  A1 e1@--> S');
+
+    const plan = planPaste(payload, target);
+
+    // S is taken by a node in the target, N2 and A1 by existing nodes
+    expect(plan.subGraphs.map((s) => s.id)).toEqual(['S1']);
+    expect(plan.nodeIds).toEqual({ N1: 'N3', A: 'A' });
+    expect(plan.nodes.map((n) => n.parentId)).toEqual(['S1', 'S1']);
+    expect(plan.edges.map((e) => [e.id, e.source, e.target])).toEqual([
+      [payload.data.edges[0].id, 'N3', 'A'],
+      ['e2', 'N3', 'A'],
+    ]);
+  });
+
+  it('should keep memberships of subgraphs that were not copied only where they exist', () => {
+    const source = parse('flowchart TB\n  subgraph S\n    A --> B\n  end');
+    const payload = createClipboardPayload(source, ['A'])!;
+
+    expect(payload.data.subGraphs).toEqual([]);
+    expect(planPaste(payload, source).nodes[0]).toMatchObject({ id: 'A1', parentId: 'S' });
+    expect(planPaste(payload, parse('flowchart TB\n  S')).nodes[0].parentId).toBeUndefined();
+  });
+
+  it('should center positioned nodes on the paste point', () => {
+    const model = parse('flowchart TB\n  A --> B');
+    const payload = createClipboardPayload(model, ['A', 'B'], {
+      positions: { A: { x: 0, y: 0 }, B: { x: 40, y: 100 } },
+    })!;
+    payload.data.edges[0].waypoints = [{ x: 20, y: 50 }];
+
+    const plan = planPaste(payload, parse('flowchart TB\n  C'), { at: { x: 500, y: 500 } });
+
+    expect(plan.nodes.map((n) => n.position)).toEqual([
+      { x: 480, y: 450 },
+      { x: 520, y: 550 },
+    ]);
+    expect(plan.edges[0].waypoints).toEqual([{ x: 500, y: 500 }]);
+  });
+});
+
+describe('clipboard text', () => {
+  it('should round-trip a payload through Mermaid text with positions', () => {
+    const model = parse('flowchart LR\n  A(["Start"]) -->|go| B\n  style A fill:#ff0');
+    const payload = createClipboardPayload(model, ['A', 'B'], { positions: { A: { x: 5, y: 6 } } })!;
+
+    const text = clipboardToMermaid(payload);
+    expect(text).toContain('A -->|go| B');
+    expect(text).toContain('%%{merfolk: {"positions":{"A":{"x":5,"y":6}}}}%%');
+
+    const parsed = clipboardFromMermaid(text)!;
+    expect(parsed.data.direction).toBe('LR');
+    expect(parsed.data.nodes.map((n) => [n.id, n.position])).toEqual([
+      ['A', { x: 5, y: 6 }],
+      ['B', undefined],
+    ]);
+    expect(parsed.data.nodes[0].style).toEqual({ fill: '#ff0' });
+  });
+
+  it('should accept statements without a declaration and reject broken text', () => {
+    expect(clipboardFromMermaid('A --> B')?.data.nodes.map((n) => n.id)).toEqual(['A', 'B']);
+    expect(clipboardFromMermaid('')).toBeNull();
+    expect(clipboardFromMermaid('subgraph S\n  A')).toBeNull();
+  });
+
+  it('should prefer the structured payload on clipboard data', () => {
+    const payload = createClipboardPayload(parse('flowchart TB\n  A --> B'), ['A'])!;
+    const transfer = dataTransfer();
+
+    writeClipboardData(transfer, payload);
+    expect(transfer.data.get('text/plain')).toContain('A');
+    expect(readClipboardData(transfer)).toEqual(payload);
+
+    transfer.data.set(CLIPBOARD_MIME_TYPE, '{"format":"other"}');
+    transfer.data.set('text/plain', 'X --> Y');
+    expect(readClipboardData(transfer)?.data.nodes.map((n) => n.id)).toEqual(['X', 'Y']);
+    expect(clipboardFromJson('not json')).toBeNull();
+  });
+});
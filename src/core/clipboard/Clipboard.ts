@@ -0,0 +1,342 @@
+import { FlowchartModel, type FlowchartData } from '../model/FlowchartModel';
+import type { NodeData } from '../model/Node';
+import type { EdgeData } from '../model/Edge';
+import type { SubGraphData } from '../model/SubGraph';
+import type { ClassDef, EdgeRoute, Position } from '../model/types';
+import { MermaidParser } from '../parser/MermaidParser';
+import { MermaidSerializer, type SerializerOptions } from '../serializer/MermaidSerializer';
+
+/**
+ * MIME type of the structured clipboard payload (alongside Mermaid `text/plain`)
+ */
+export const CLIPBOARD_MIME_TYPE = 'application/x-merfolk-flowchart+json';
+
+const CLIPBOARD_FORMAT = 'merfolk-flowchart';
+
+/**
+ * Part of a flowchart on the clipboard: the copied nodes, the edges between
+ * them, the subgraphs they fill completely and the classDefs they use.
+ *
+ * Nodes may point at subgraphs that were not copied through `parentId`;
+ * pasting keeps those memberships when the target has the same subgraph.
+ */
+export interface ClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: 1;
+  data: FlowchartData;
+}
+
+/**
+ * Options for `createClipboardPayload`
+ */
+export interface CopyOptions {
+  /** Positions for nodes that are not pinned, e.g. where the canvas drew them */
+  positions?: Record<string, Position>;
+}
+
+/**
+ * Options for `planPaste`
+ */
+export interface PasteOptions {
+  /** Move the pasted nodes so that the center of their positions lands here */
+  at?: Position;
+  /** Shift the pasted nodes by this much (ignored when `at` is given) */
+  offset?: Position;
+}
+
+/**
+ * What to add to a model to paste a payload into it
+ */
+export interface PastePlan {
+  /** New subgraphs, parents first, with empty `nodeIds` (nodes join through `parentId`) */
+  subGraphs: SubGraphData[];
+  /** New nodes, with `parentId` pointing at a new or existing subgraph */
+  nodes: NodeData[];
+  /** New edges; `id` is left out where the copied one is taken */
+  edges: (Omit<EdgeData, 'id'> & { id?: string })[];
+  /** classDefs the target does not define yet */
+  classDefs: Record<string, ClassDef>;
+  /** Copied node ID → pasted node ID */
+  nodeIds: Record<string, string>;
+}
+
+/**
+ * Copy nodes out of a model, along with the edges between them, the
+ * subgraphs they fill completely and the classDefs they use
+ * @returns null when none of the nodes exist
+ */
+export function createClipboardPayload(
+  model: FlowchartModel,
+  nodeIds: string[],
+  options: CopyOptions = {}
+): ClipboardPayload | null {
+  const selected = new Set(nodeIds.filter((id) => model.hasNode(id)));
+  if (selected.size === 0) return null;
+
+  const nodes = model.nodes.filter((node) => selected.has(node.id));
+
+  // A subgraph is copied when every node inside it (nested ones included) is
+  const subGraphs = model.subGraphs.filter((subGraph) => {
+    const within = model.subGraphs
+      .filter((s) => model.isSubGraphWithin(s.id, subGraph.id))
+      .flatMap((s) => s.nodeIds);
+    return within.length > 0 && within.every((id) => selected.has(id));
+  });
+
+  const classNames = new Set(nodes.flatMap((node) => node.cssClasses));
+  const edges = model.edges.filter(
+    (edge) => selected.has(edge.source) && selected.has(edge.target)
+  );
+  for (const edge of edges) {
+    for (const name of edge.cssClasses) classNames.add(name);
+  }
+  const classDefs: Record<string, ClassDef> = {};
+  for (const [name, classDef] of Object.entries(model.classDefs)) {
+    if (classNames.has(name)) classDefs[name] = classDef;
+  }
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: 1,
+    data: {
+      direction: model.direction,
+      nodes: nodes.map((node) => {
+        const data = node.clone().toData();
+        const position = node.position ?? options.positions?.[node.id];
+        return { ...data, position: position ? { x: position.x, y: position.y } : undefined };
+      }),
+      edges: edges.map((edge) => edge.clone().toData()),
+      subGraphs: subGraphs.map((subGraph) => subGraph.clone().toData()),
+      classDefs: Object.keys(classDefs).length > 0 ? classDefs : undefined,
+    },
+  };
+}
+
+/**
+ * Work out how to paste a payload into a model: new IDs for everything that
+ * would collide, positions moved to `at` (or shifted by `offset`), and
+ * subgraph memberships resolved against the target
+ */
+export function planPaste(
+  payload: ClipboardPayload,
+  model: FlowchartModel,
+  options: PasteOptions = {}
+): PastePlan {
+  const { data } = payload;
+  // Node and subgraph IDs share one namespace in Mermaid
+  const taken = new Set([...model.nodes.map((n) => n.id), ...model.subGraphs.map((s) => s.id)]);
+
+  const subGraphIds: Record<string, string> = {};
+  for (const subGraph of data.subGraphs) {
+    subGraphIds[subGraph.id] = claimId(subGraph.id, taken);
+  }
+  const nodeIds: Record<string, string> = {};
+  for (const node of data.nodes) {
+    nodeIds[node.id] = claimId(node.id, taken);
+  }
+
+  // Copied subgraphs map to their copies; others are kept if the target has them
+  const resolveParent = (parentId: string | undefined): string | undefined => {
+    if (!parentId) return undefined;
+    if (parentId in subGraphIds) return subGraphIds[parentId];
+    return model.getSubGraph(parentId) ? parentId : undefined;
+  };
+
+  const shift = pasteOffset(data.nodes, options);
+  const move = (p: Position): Position => ({ x: p.x + shift.x, y: p.y + shift.y });
+
+  const subGraphs = sortParentsFirst(data.subGraphs).map((subGraph) => ({
+    ...subGraph,
+    id: subGraphIds[subGraph.id],
+    nodeIds: [],
+    parentId: resolveParent(subGraph.parentId),
+  }));
+
+  const nodes = data.nodes.map((node) => ({
+    ...node,
+    id: nodeIds[node.id],
+    parentId: resolveParent(node.parentId),
+    position: node.position ? move(node.position) : undefined,
+  }));
+
+  const edgeIds = new Set(model.edges.map((e) => e.id));
+  const edges = data.edges
+    .filter((edge) => edge.source in nodeIds && edge.target in nodeIds)
+    .map(({ id, ...edge }) => {
+      const free = !edgeIds.has(id);
+      const newId = free ? id : edge.isUserDefinedId ? claimId(id, edgeIds) : undefined;
+      if (newId) edgeIds.add(newId);
+      return {
+        ...edge,
+        ...(newId ? { id: newId } : {}),
+        source: nodeIds[edge.source],
+        target: nodeIds[edge.target],
+        waypoints: edge.waypoints?.map(move),
+      };
+    });
+
+  const existing = model.classDefs;
+  const classDefs: Record<string, ClassDef> = {};
+  for (const [name, classDef] of Object.entries(data.classDefs ?? {})) {
+    if (!(name in existing)) classDefs[name] = classDef;
+  }
+
+  return { subGraphs, nodes, edges, classDefs, nodeIds };
+}
+
+/**
+ * Write a payload as Mermaid text, with positions and edge routes in the
+ * `%%{merfolk: ...}%%` comment
+ */
+export function clipboardToMermaid(
+  payload: ClipboardPayload,
+  options: SerializerOptions = {}
+): string {
+  const positions: Record<string, Position> = {};
+  for (const node of payload.data.nodes) {
+    if (node.position) positions[node.id] = node.position;
+  }
+  const edges: Record<string, EdgeRoute> = {};
+  for (const edge of payload.data.edges) {
+    if (edge.routing || edge.waypoints?.length) {
+      edges[edge.id] = { routing: edge.routing, waypoints: edge.waypoints };
+    }
+  }
+  const merfolk = {
+    ...(Object.keys(positions).length > 0 ? { positions } : {}),
+    ...(Object.keys(edges).length > 0 ? { edges } : {}),
+  };
+  const model = FlowchartModel.fromData({
+    ...payload.data,
+    meta: Object.keys(merfolk).length > 0 ? { merfolk } : undefined,
+  });
+  return new MermaidSerializer({ includeHeaderLines: false, ...options }).serialize(model);
+}
+
+/**
+ * Read Mermaid text (with or without the `flowchart` declaration) as a payload
+ * holding all of its nodes
+ * @returns null when the text has errors or no nodes
+ */
+export function clipboardFromMermaid(text: string): ClipboardPayload | null {
+  const source = /^\s*(flowchart|graph)\b/m.test(text) ? text : `flowchart TB\n${text}`;
+  const { model, diagnostics } = new MermaidParser().parseWithDiagnostics(source);
+  if (model.nodeCount === 0 || diagnostics.some((d) => d.severity === 'error')) {
+    return null;
+  }
+
+  const merfolk = model.meta.merfolk;
+  for (const [id, position] of Object.entries(merfolk?.positions ?? {})) {
+    model.updateNode(id, { position: { x: position.x, y: position.y } });
+  }
+  for (const [id, route] of Object.entries(merfolk?.edges ?? {})) {
+    model.updateEdge(id, { routing: route.routing, waypoints: route.waypoints });
+  }
+  return createClipboardPayload(model, model.nodes.map((n) => n.id));
+}
+
+/**
+ * Write a payload as JSON for `CLIPBOARD_MIME_TYPE`
+ */
+export function clipboardToJson(payload: ClipboardPayload): string {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Read a payload written by `clipboardToJson`
+ * @returns null when the text is not a payload
+ */
+export function clipboardFromJson(text: string): ClipboardPayload | null {
+  try {
+    const payload = JSON.parse(text) as ClipboardPayload;
+    const data = payload?.data;
+    if (
+      payload?.format !== CLIPBOARD_FORMAT ||
+      !Array.isArray(data?.nodes) ||
+      !Array.isArray(data.edges) ||
+      !Array.isArray(data.subGraphs)
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Put a payload on a clipboard event's data, as Mermaid text and as JSON
+ */
+export function writeClipboardData(
+  target: Pick<DataTransfer, 'setData'>,
+  payload: ClipboardPayload
+): void {
+  target.setData('text/plain', clipboardToMermaid(payload));
+  target.setData(CLIPBOARD_MIME_TYPE, clipboardToJson(payload));
+}
+
+/**
+ * Read a payload from a clipboard event's data, preferring the JSON form
+ * and falling back to Mermaid text
+ */
+export function readClipboardData(source: Pick<DataTransfer, 'getData'>): ClipboardPayload | null {
+  const json = source.getData(CLIPBOARD_MIME_TYPE);
+  if (json) {
+    const payload = clipboardFromJson(json);
+    if (payload) return payload;
+  }
+  const text = source.getData('text/plain');
+  return text.trim() ? clipboardFromMermaid(text) : null;
+}
+
+/**
+ * Take `id` if it is free, otherwise the next free numbered variant
+ * (`A` → `A1`, `N3` → `N4`), and mark it as taken
+ */
+function claimId(id: string, taken: Set<string>): string {
+  let newId = id;
+  if (taken.has(newId)) {
+    const [, base, digits] = /^(.*?)(\d*)$/.exec(id)!;
+    let counter = digits ? Number.parseInt(digits, 10) : 0;
+    do {
+      counter++;
+      newId = `${base}${counter}`;
+    } while (taken.has(newId));
+  }
+  taken.add(newId);
+  return newId;
+}
+
+/**
+ * How far to move the pasted positions
+ */
+function pasteOffset(nodes: NodeData[], options: PasteOptions): Position {
+  const positions = nodes.flatMap((node) => (node.position ? [node.position] : []));
+  if (options.at && positions.length > 0) {
+    const xs = positions.map((p) => p.x);
+    const ys = positions.map((p) => p.y);
+    const center = {
+      x: (Math.min(...xs) + Math.max(...xs)) / 2,
+      y: (Math.min(...ys) + Math.max(...ys)) / 2,
+    };
+    return { x: Math.round(options.at.x - center.x), y: Math.round(options.at.y - center.y) };
+  }
+  return options.offset ?? { x: 0, y: 0 };
+}
+
+/**
+ * Order subgraphs so that each comes after the subgraph it is nested in
+ */
+function sortParentsFirst(subGraphs: SubGraphData[]): SubGraphData[] {
+  const byId = new Map(subGraphs.map((s) => [s.id, s]));
+  const sorted: SubGraphData[] = [];
+  const visit = (subGraph: SubGraphData, seen: Set<string>): void => {
+    if (sorted.includes(subGraph) || seen.has(subGraph.id)) return;
+    seen.add(subGraph.id);
+    const parent = subGraph.parentId ? byId.get(subGraph.parentId) : undefined;
+    if (parent) visit(parent, seen);
+    sorted.push(subGraph);
+  };
+  for (const subGraph of subGraphs) visit(subGraph, new Set());
+  return sorted;
+}
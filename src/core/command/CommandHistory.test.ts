@@ -6,6 +6,9 @@ import { UpdateNodeCommand } from './commands/UpdateNodeCommand';
 import { AddEdgeCommand } from './commands/AddEdgeCommand';
 import { DeleteEdgeCommand } from './commands/DeleteEdgeCommand';
 import { MoveNodesCommand } from './commands/MoveNodesCommand';
+import { AddSubGraphCommand } from './commands/AddSubGraphCommand';
+import { DeleteSubGraphCommand } from './commands/DeleteSubGraphCommand';
+import { SetNodeParentCommand } from './commands/SetNodeParentCommand';
 import { CompositeCommand } from './Command';
 import { FlowchartModel } from '../model/FlowchartModel';
 
@@ -106,6 +109,51 @@ describe('CommandHistory', () => {
     });
   });
 
+  describe('push', () => {
+    it('should record an already executed command', () => {
+      const cmd = new AddNodeCommand(model, { id: 'A', text: 'A', shape: 'rect' });
+      cmd.execute();
+
+      history.push(cmd);
+      history.undo();
+
+      expect(model.hasNode('A')).toBe(false);
+      expect(history.canRedo).toBe(true);
+    });
+  });
+
+  describe('timeline', () => {
+    beforeEach(() => {
+      for (const id of ['A', 'B', 'C']) {
+        history.execute(new AddNodeCommand(model, { id, text: id, shape: 'rect' }));
+      }
+    });
+
+    it('should list applied and undone items oldest first', () => {
+      history.undo();
+
+      expect(history.getItems()).toEqual([
+        { description: 'Add node "A"', applied: true },
+        { description: 'Add node "B"', applied: true },
+        { description: 'Add node "C"', applied: false },
+      ]);
+    });
+
+    it('should jump backwards and forwards', () => {
+      expect(history.jumpTo(1)).toBe(true);
+      expect(model.nodes.map((n) => n.id)).toEqual(['A']);
+      expect(history.redoCount).toBe(2);
+
+      expect(history.jumpTo(3)).toBe(true);
+      expect(model.nodes.map((n) => n.id)).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should return false when already at the position', () => {
+      expect(history.jumpTo(3)).toBe(false);
+      expect(history.jumpTo(10)).toBe(false);
+    });
+  });
+
   describe('descriptions', () => {
     it('should return undo descriptions', () => {
       history.execute(
@@ -192,6 +240,27 @@ describe('DeleteNodeCommand', () => {
     expect(model.hasNode('A')).toBe(true);
     expect(model.edgeCount).toBe(1);
   });
+
+  it('should restore original order and subgraph membership on undo', () => {
+    model.addNode({ id: 'C', text: 'C', shape: 'rect', parentId: 'S' });
+    model.addEdge({
+      id: 'e2',
+      source: 'B',
+      target: 'C',
+      stroke: 'normal',
+      arrowStart: 'none',
+      arrowEnd: 'arrow',
+    });
+    model.addSubGraph({ id: 'S', title: 'S', nodeIds: ['A', 'C'] });
+    const cmd = new DeleteNodeCommand(model, 'A');
+    cmd.execute();
+
+    cmd.undo();
+
+    expect(model.nodes.map((n) => n.id)).toEqual(['A', 'B', 'C']);
+    expect(model.edges.map((e) => e.id)).toEqual(['e1', 'e2']);
+    expect(model.getSubGraph('S')?.nodeIds).toEqual(['A', 'C']);
+  });
 });
 
 describe('UpdateNodeCommand', () => {
@@ -257,6 +326,25 @@ describe('AddEdgeCommand', () => {
 
     expect(model.edgeCount).toBe(0);
   });
+
+  it('should recreate the same edge ID on redo', () => {
+    const cmd = new AddEdgeCommand(model, {
+      source: 'A',
+      target: 'B',
+      stroke: 'normal',
+      arrowStart: 'none',
+      arrowEnd: 'arrow',
+    });
+    cmd.execute();
+    const edgeId = cmd.edgeId;
+
+    cmd.undo();
+    cmd.execute();
+
+    expect(edgeId).not.toBeNull();
+    expect(model.getEdge(edgeId!)).toBeDefined();
+    expect(model.edgeCount).toBe(1);
+  });
 });
 
 describe('DeleteEdgeCommand', () => {
@@ -330,6 +418,52 @@ describe('MoveNodesCommand', () => {
   });
 });
 
+describe('SubGraph commands', () => {
+  let model: FlowchartModel;
+
+  beforeEach(() => {
+    model = new FlowchartModel();
+    model.addNode({ id: 'A', text: 'A', shape: 'rect', parentId: 'one' });
+    model.addNode({ id: 'B', text: 'B', shape: 'rect' });
+    model.addSubGraph({ id: 'one', title: 'One', nodeIds: ['A'] });
+  });
+
+  it('should add and remove a subgraph', () => {
+    const cmd = new AddSubGraphCommand(model, { id: 'two', title: 'Two', nodeIds: [] });
+
+    cmd.execute();
+    expect(model.getSubGraph('two')).toBeDefined();
+
+    cmd.undo();
+    expect(model.getSubGraph('two')).toBeUndefined();
+  });
+
+  it('should restore a deleted subgraph in place', () => {
+    model.addSubGraph({ id: 'two', title: 'Two', nodeIds: [] });
+    const cmd = new DeleteSubGraphCommand(model, 'one');
+    cmd.execute();
+
+    cmd.undo();
+
+    expect(model.subGraphs.map((s) => s.id)).toEqual(['one', 'two']);
+    expect(model.getSubGraph('one')?.nodeIds).toEqual(['A']);
+  });
+
+  it('should move a node between subgraphs and back', () => {
+    model.addSubGraph({ id: 'two', title: 'Two', nodeIds: ['B'] });
+    const cmd = new SetNodeParentCommand(model, 'A', 'two');
+
+    cmd.execute();
+    expect(model.getSubGraph('two')?.nodeIds).toEqual(['B', 'A']);
+    expect(model.getNode('A')?.parentId).toBe('two');
+
+    cmd.undo();
+    expect(model.getSubGraph('one')?.nodeIds).toEqual(['A']);
+    expect(model.getSubGraph('two')?.nodeIds).toEqual(['B']);
+    expect(model.getNode('A')?.parentId).toBe('one');
+  });
+});
+
 describe('CompositeCommand', () => {
   let model: FlowchartModel;
 
@@ -1,5 +1,14 @@
 import type { Command } from './Command';
 
+/**
+ * A single entry of the history timeline (oldest first)
+ */
+export interface HistoryItem {
+  description?: string;
+  /** Whether the command is currently applied (i.e. on the undo side) */
+  applied: boolean;
+}
+
 /**
  * Manages command history for undo/redo functionality
  */
@@ -17,6 +26,13 @@ export class CommandHistory {
    */
   execute(command: Command): void {
     command.execute();
+    this.push(command);
+  }
+
+  /**
+   * Add an already executed command to history
+   */
+  push(command: Command): void {
     this.undoStack.push(command);
 
     // Clear redo stack on new action
@@ -56,6 +72,22 @@ export class CommandHistory {
     return false;
   }
 
+  /**
+   * Undo or redo until exactly `position` commands are applied
+   * @returns true if the history moved
+   */
+  jumpTo(position: number): boolean {
+    const target = Math.max(0, Math.min(position, this.undoStack.length + this.redoStack.length));
+    let moved = false;
+    while (this.undoStack.length > target && this.undo()) {
+      moved = true;
+    }
+    while (this.undoStack.length < target && this.redo()) {
+      moved = true;
+    }
+    return moved;
+  }
+
   /**
    * Check if undo is available
    */
@@ -109,5 +141,17 @@ export class CommandHistory {
       .map((cmd) => cmd.description)
       .filter((d): d is string => d !== undefined);
   }
-}
 
+  /**
+   * Get the whole timeline, oldest first (for history UI)
+   * The number of applied items equals the current position
+   */
+  getItems(): HistoryItem[] {
+    return [
+      ...this.undoStack.map((cmd) => ({ description: cmd.description, applied: true })),
+      ...[...this.redoStack]
+        .reverse()
+        .map((cmd) => ({ description: cmd.description, applied: false })),
+    ];
+  }
+}
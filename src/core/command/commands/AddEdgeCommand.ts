@@ -16,8 +16,17 @@ export class AddEdgeCommand implements Command {
     this.description = `Add edge from "${data.source}" to "${data.target}"`;
   }
 
+  /**
+   * ID of the created edge (available after the first execute)
+   */
+  get edgeId(): string | null {
+    return this.createdEdgeId;
+  }
+
   execute(): void {
-    const edge = this.model.addEdge(this.data);
+    // Reuse the ID from the first run so redo recreates the same edge
+    const data = this.createdEdgeId ? { ...this.data, id: this.createdEdgeId } : this.data;
+    const edge = this.model.addEdge(data);
     this.createdEdgeId = edge.id;
   }
 
@@ -0,0 +1,27 @@
+import type { Command } from '../Command';
+import type { FlowchartModel } from '../../model/FlowchartModel';
+import type { SubGraphData } from '../../model/SubGraph';
+
+/**
+ * Command to add a subgraph to the model
+ */
+export class AddSubGraphCommand implements Command {
+  readonly description: string;
+
+  constructor(
+    private readonly model: FlowchartModel,
+    private readonly data: SubGraphData
+  ) {
+    this.description = `Add subgraph "${data.id}"`;
+  }
+
+  execute(): void {
+    if (!this.model.getSubGraph(this.data.id)) {
+      this.model.addSubGraph(this.data);
+    }
+  }
+
+  undo(): void {
+    this.model.removeSubGraph(this.data.id);
+  }
+}
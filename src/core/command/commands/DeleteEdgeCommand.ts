@@ -8,6 +8,7 @@ import type { EdgeData } from '../../model/Edge';
 export class DeleteEdgeCommand implements Command {
   readonly description: string;
   private edgeData: EdgeData | null = null;
+  private edgeIndex = -1;
 
   constructor(
     private readonly model: FlowchartModel,
@@ -22,6 +23,7 @@ export class DeleteEdgeCommand implements Command {
 
     // Store edge data for undo
     this.edgeData = edge.toData();
+    this.edgeIndex = this.model.indexOfEdge(this.edgeId);
     this.model.removeEdge(this.edgeId);
   }
 
@@ -30,10 +32,10 @@ export class DeleteEdgeCommand implements Command {
 
     // Only restore if both nodes exist
     if (
-      this.model.hasNode(this.edgeData.source) &&
-      this.model.hasNode(this.edgeData.target)
+      this.model.hasEndpoint(this.edgeData.source) &&
+      this.model.hasEndpoint(this.edgeData.target)
     ) {
-      this.model.addEdge(this.edgeData);
+      this.model.addEdge(this.edgeData, this.edgeIndex);
     }
   }
 }
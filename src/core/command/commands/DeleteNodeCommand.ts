@@ -9,7 +9,9 @@ import type { EdgeData } from '../../model/Edge';
 export class DeleteNodeCommand implements Command {
   readonly description: string;
   private nodeData: NodeData | null = null;
-  private connectedEdges: EdgeData[] = [];
+  private nodeIndex = -1;
+  private connectedEdges: { data: EdgeData; index: number }[] = [];
+  private memberships: { subGraphId: string; index: number }[] = [];
 
   constructor(
     private readonly model: FlowchartModel,
@@ -22,13 +24,19 @@ export class DeleteNodeCommand implements Command {
     const node = this.model.getNode(this.nodeId);
     if (!node) return;
 
-    // Store node data for undo
+    // Store node data and its place in the model for undo
     this.nodeData = node.toData();
+    this.nodeIndex = this.model.indexOfNode(this.nodeId);
 
     // Store connected edges for undo
     this.connectedEdges = this.model
       .getEdgesForNode(this.nodeId)
-      .map((e) => e.toData());
+      .map((e) => ({ data: e.toData(), index: this.model.indexOfEdge(e.id) }));
+
+    // Store subgraph memberships for undo
+    this.memberships = this.model.subGraphs
+      .filter((s) => s.hasNode(this.nodeId))
+      .map((s) => ({ subGraphId: s.id, index: s.nodeIds.indexOf(this.nodeId) }));
 
     // Remove node (this also removes connected edges)
     this.model.removeNode(this.nodeId);
@@ -37,19 +45,32 @@ export class DeleteNodeCommand implements Command {
   undo(): void {
     if (!this.nodeData) return;
 
+    this.model.beginBatch();
+
     // Restore node
-    this.model.addNode(this.nodeData);
+    this.model.addNode(this.nodeData, this.nodeIndex);
 
     // Restore edges
-    for (const edgeData of this.connectedEdges) {
+    for (const { data, index } of this.connectedEdges) {
       // Only restore if both source and target exist
       if (
-        this.model.hasNode(edgeData.source) &&
-        this.model.hasNode(edgeData.target)
+        this.model.hasEndpoint(data.source) &&
+        this.model.hasEndpoint(data.target)
       ) {
-        this.model.addEdge(edgeData);
+        this.model.addEdge(data, index);
       }
     }
+
+    // Restore subgraph memberships
+    for (const { subGraphId, index } of this.memberships) {
+      const subGraph = this.model.getSubGraph(subGraphId);
+      if (subGraph && !subGraph.hasNode(this.nodeId)) {
+        const nodeIds = [...subGraph.nodeIds];
+        nodeIds.splice(index, 0, this.nodeId);
+        this.model.updateSubGraph(subGraphId, { nodeIds });
+      }
+    }
+
+    this.model.endBatch();
   }
 }
-
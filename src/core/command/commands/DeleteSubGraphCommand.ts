@@ -0,0 +1,47 @@
+import type { Command } from '../Command';
+import type { FlowchartModel } from '../../model/FlowchartModel';
+import type { SubGraphData } from '../../model/SubGraph';
+import type { EdgeData } from '../../model/Edge';
+
+/**
+ * Command to delete a subgraph (its nodes and nested subgraphs are kept,
+ * edges ending at the subgraph itself are removed)
+ */
+export class DeleteSubGraphCommand implements Command {
+  readonly description: string;
+  private subGraphData: SubGraphData | null = null;
+  private subGraphIndex = -1;
+  private connectedEdges: { data: EdgeData; index: number }[] = [];
+
+  constructor(
+    private readonly model: FlowchartModel,
+    private readonly subGraphId: string
+  ) {
+    this.description = `Delete subgraph "${subGraphId}"`;
+  }
+
+  execute(): void {
+    const subGraph = this.model.getSubGraph(this.subGraphId);
+    if (!subGraph) return;
+
+    // Store subgraph data and its place in the model for undo
+    this.subGraphData = subGraph.toData();
+    this.subGraphIndex = this.model.indexOfSubGraph(this.subGraphId);
+    this.connectedEdges = this.model
+      .getEdgesForNode(this.subGraphId)
+      .map((e) => ({ data: e.toData(), index: this.model.indexOfEdge(e.id) }));
+    this.model.removeSubGraph(this.subGraphId);
+  }
+
+  undo(): void {
+    if (!this.subGraphData) return;
+    this.model.beginBatch();
+    this.model.addSubGraph(this.subGraphData, this.subGraphIndex);
+    for (const { data, index } of this.connectedEdges) {
+      if (this.model.hasEndpoint(data.source) && this.model.hasEndpoint(data.target)) {
+        this.model.addEdge(data, index);
+      }
+    }
+    this.model.endBatch();
+  }
+}
@@ -0,0 +1,26 @@
+import type { Command } from '../Command';
+import type { FlowchartModel } from '../../model/FlowchartModel';
+
+/**
+ * Command to change the ID of a node along with the edges and subgraphs
+ * that reference it
+ */
+export class RenameNodeCommand implements Command {
+  readonly description: string;
+
+  constructor(
+    private readonly model: FlowchartModel,
+    private readonly nodeId: string,
+    private readonly newId: string
+  ) {
+    this.description = `Rename node "${nodeId}" to "${newId}"`;
+  }
+
+  execute(): void {
+    this.model.renameNode(this.nodeId, this.newId);
+  }
+
+  undo(): void {
+    this.model.renameNode(this.newId, this.nodeId);
+  }
+}
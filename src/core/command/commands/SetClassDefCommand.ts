@@ -0,0 +1,36 @@
+import type { Command } from '../Command';
+import type { FlowchartModel } from '../../model/FlowchartModel';
+import type { ClassDef } from '../../model/types';
+
+/**
+ * Command to create, change or remove (`classDef` undefined) a class definition
+ */
+export class SetClassDefCommand implements Command {
+  readonly description: string;
+  private previous: ClassDef | undefined;
+
+  constructor(
+    private readonly model: FlowchartModel,
+    private readonly name: string,
+    private readonly classDef: ClassDef | undefined
+  ) {
+    this.description = classDef ? `Define class "${name}"` : `Remove class "${name}"`;
+  }
+
+  execute(): void {
+    this.previous = this.model.getClassDef(this.name);
+    this.apply(this.classDef);
+  }
+
+  undo(): void {
+    this.apply(this.previous);
+  }
+
+  private apply(classDef: ClassDef | undefined): void {
+    if (classDef) {
+      this.model.defineClass(this.name, classDef.styles, classDef.textStyles);
+    } else {
+      this.model.removeClassDef(this.name);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import type { Command } from '../Command';
+import type { FlowchartMeta, FlowchartModel } from '../../model/FlowchartModel';
+
+/**
+ * Diagram title, Mermaid configuration (frontmatter and init directive)
+ * and accessibility metadata
+ */
+export type DiagramSettings = Pick<FlowchartMeta, 'title' | 'config' | 'init' | 'accTitle' | 'accDescr'>;
+
+/**
+ * Command to change the diagram title, configuration or accessibility metadata
+ */
+export class SetDiagramSettingsCommand implements Command {
+  readonly description = 'Change diagram settings';
+  private previous: DiagramSettings = {};
+
+  constructor(
+    private readonly model: FlowchartModel,
+    private readonly settings: DiagramSettings
+  ) {}
+
+  execute(): void {
+    const { title, config, init, accTitle, accDescr } = this.model.meta;
+    this.previous = { title, config, init, accTitle, accDescr };
+    this.apply(this.settings);
+  }
+
+  undo(): void {
+    this.apply(this.previous);
+  }
+
+  private apply(settings: DiagramSettings): void {
+    this.model.meta = { ...this.model.meta, ...settings };
+  }
+}
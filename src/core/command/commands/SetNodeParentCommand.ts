@@ -0,0 +1,50 @@
+import type { Command } from '../Command';
+import type { FlowchartModel } from '../../model/FlowchartModel';
+
+/**
+ * Command to move a node into a subgraph (or back to the root)
+ */
+export class SetNodeParentCommand implements Command {
+  readonly description: string;
+  private previousParentId: string | undefined;
+  private previousNodeIds: Map<string, string[]> | null = null;
+
+  constructor(
+    private readonly model: FlowchartModel,
+    private readonly nodeId: string,
+    private readonly parentId: string | undefined
+  ) {
+    this.description = parentId
+      ? `Move node "${nodeId}" into "${parentId}"`
+      : `Move node "${nodeId}" to root`;
+  }
+
+  execute(): void {
+    const node = this.model.getNode(this.nodeId);
+    if (!node) return;
+
+    // Store membership lists of every subgraph the move touches
+    this.previousParentId = node.parentId;
+    this.previousNodeIds = new Map();
+    for (const subGraph of this.model.subGraphs) {
+      if (subGraph.id === this.parentId || subGraph.hasNode(this.nodeId)) {
+        this.previousNodeIds.set(subGraph.id, [...subGraph.nodeIds]);
+      }
+    }
+
+    this.model.setNodeParent(this.nodeId, this.parentId);
+  }
+
+  undo(): void {
+    if (!this.previousNodeIds) return;
+
+    this.model.beginBatch();
+    for (const [subGraphId, nodeIds] of this.previousNodeIds) {
+      if (this.model.getSubGraph(subGraphId)) {
+        this.model.updateSubGraph(subGraphId, { nodeIds: [...nodeIds] });
+      }
+    }
+    this.model.updateNode(this.nodeId, { parentId: this.previousParentId });
+    this.model.endBatch();
+  }
+}
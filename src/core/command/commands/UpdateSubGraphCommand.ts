@@ -0,0 +1,38 @@
+import type { Command } from '../Command';
+import type { FlowchartModel } from '../../model/FlowchartModel';
+import type { SubGraphData } from '../../model/SubGraph';
+
+/**
+ * Command to update subgraph properties
+ */
+export class UpdateSubGraphCommand implements Command {
+  readonly description: string;
+  private previousData: Partial<SubGraphData> | null = null;
+
+  constructor(
+    private readonly model: FlowchartModel,
+    private readonly subGraphId: string,
+    private readonly updates: Partial<SubGraphData>
+  ) {
+    this.description = `Update subgraph "${subGraphId}"`;
+  }
+
+  execute(): void {
+    const subGraph = this.model.getSubGraph(this.subGraphId);
+    if (!subGraph) return;
+
+    // Store previous values for undo
+    const data = subGraph.toData();
+    this.previousData = {};
+    for (const key of Object.keys(this.updates) as (keyof SubGraphData)[]) {
+      (this.previousData as Record<string, unknown>)[key] = data[key];
+    }
+
+    this.model.updateSubGraph(this.subGraphId, this.updates);
+  }
+
+  undo(): void {
+    if (!this.previousData) return;
+    this.model.updateSubGraph(this.subGraphId, this.previousData);
+  }
+}
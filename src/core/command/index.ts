@@ -1,12 +1,13 @@
 // Command system for undo/redo
 export { type Command, CompositeCommand } from './Command';
-export { CommandHistory } from './CommandHistory';
+export { CommandHistory, type HistoryItem } from './CommandHistory';
 
 // Node commands
 export { AddNodeCommand } from './commands/AddNodeCommand';
 export { DeleteNodeCommand } from './commands/DeleteNodeCommand';
 export { UpdateNodeCommand } from './commands/UpdateNodeCommand';
 export { MoveNodesCommand } from './commands/MoveNodesCommand';
+export { RenameNodeCommand } from './commands/RenameNodeCommand';
 export type { NodeMove } from './commands/MoveNodesCommand';
 
 // Edge commands
@@ -14,3 +15,15 @@ export { AddEdgeCommand } from './commands/AddEdgeCommand';
 export { DeleteEdgeCommand } from './commands/DeleteEdgeCommand';
 export { UpdateEdgeCommand } from './commands/UpdateEdgeCommand';
 
+// SubGraph commands
+export { AddSubGraphCommand } from './commands/AddSubGraphCommand';
+export { DeleteSubGraphCommand } from './commands/DeleteSubGraphCommand';
+export { UpdateSubGraphCommand } from './commands/UpdateSubGraphCommand';
+export { SetNodeParentCommand } from './commands/SetNodeParentCommand';
+
+// Class definition commands
+export { SetClassDefCommand } from './commands/SetClassDefCommand';
+
+// Diagram settings commands
+export { SetDiagramSettingsCommand } from './commands/SetDiagramSettingsCommand';
+export type { DiagramSettings } from './commands/SetDiagramSettingsCommand';
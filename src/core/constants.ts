@@ -25,6 +25,8 @@ export const LABEL_SCORE_WITHOUT_TEXT_THRESHOLD = 50;
 // Performance
 export const RENDER_DEBOUNCE_MS = 150;
 export const DRAG_ANIMATION_FRAME = true;
+// Node position transitions after layout changes
+export const LAYOUT_ANIMATION_MS = 300;
 
 // Node dimensions
 export const NODE_INTERSECTION_TOLERANCE_MULTIPLIER = 1;
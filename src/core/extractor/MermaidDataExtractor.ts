@@ -75,13 +75,13 @@ export async function extractMermaidData(
   ensureMermaidInitialized(mermaidApi, options.mermaidConfig, shouldInit);
 
   try {
-    // 使用 mermaid 的内部 API 解析代码
-    // @ts-expect-error - 访问内部 API
-    const { Diagram } = await import('mermaid');
-    const diagram = await Diagram.fromText(code);
+    // 使用 mermaid 的内部 API 解析代码(mermaid 11 不再导出 Diagram)
+    const diagram = await mermaidApi.mermaidAPI.getDiagramFromText(code);
 
-    // 获取数据库实例
-    const db = diagram.db;
+    // 获取数据库实例(getData 只在 flowchart 等图表的 db 上存在)
+    const db = diagram.db as typeof diagram.db & {
+      getData?: () => { nodes: any[]; edges: any[]; config?: any };
+    };
 
     // 检查是否有 getData 方法(flowchart 特有)
     if (typeof db.getData !== 'function') {
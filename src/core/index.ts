@@ -3,3 +3,4 @@ export * from './model';
 export * from './parser';
 export * from './serializer';
 export * from './command';
+export * from './clipboard';
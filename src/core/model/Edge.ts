@@ -1,4 +1,12 @@
-import type { StrokeType, ArrowType, EdgeStyle, Position } from './types';
+import type {
+  StrokeType,
+  ArrowType,
+  EdgeStyle,
+  EdgeAnimation,
+  EdgeCurve,
+  EdgeRouting,
+  Position,
+} from './types';
 
 /**
  * Data interface for creating/updating edges
@@ -12,13 +20,24 @@ export interface EdgeData {
   arrowStart: ArrowType;
   arrowEnd: ArrowType;
   style?: EdgeStyle;
+  /**
+   * `linkStyle` declarations as written, including the ones `style` does not
+   * model (`color`, `fill`, ...). The modelled properties are written from `style`.
+   */
+  styles?: string[];
   cssClasses?: string[];
   animate?: boolean;
-  animation?: 'fast' | 'slow';
-  /** Edge length (number of dashes: --> = 1, ---> = 2, ----> = 3) */
+  animation?: EdgeAnimation;
+  /** Edge length in ranks, as Mermaid reads it: --> = 1, ---> = 2, --- = 1, ---- = 2 */
   length?: number;
+  /** Curve Mermaid draws this edge with, instead of the diagram default */
+  curve?: EdgeCurve;
   /** Whether the ID was explicitly defined by user (e.g., e1@-->) */
   isUserDefinedId?: boolean;
+  /** Routing mode chosen by the user (not part of Mermaid syntax) */
+  routing?: EdgeRouting;
+  /** User-placed points the edge passes through (not part of Mermaid syntax) */
+  waypoints?: Position[];
 }
 
 /**
@@ -33,11 +52,15 @@ export class FlowEdge implements EdgeData {
   arrowStart: ArrowType;
   arrowEnd: ArrowType;
   style?: EdgeStyle;
+  styles?: string[];
   cssClasses: string[];
   animate?: boolean;
-  animation?: 'fast' | 'slow';
+  animation?: EdgeAnimation;
   length?: number;
+  curve?: EdgeCurve;
   isUserDefinedId?: boolean;
+  routing?: EdgeRouting;
+  waypoints?: Position[];
 
   /** Runtime computed path points from layout */
   points?: Position[];
@@ -51,11 +74,15 @@ export class FlowEdge implements EdgeData {
     this.arrowStart = data.arrowStart;
     this.arrowEnd = data.arrowEnd;
     this.style = data.style ? { ...data.style } : undefined;
+    this.styles = data.styles ? [...data.styles] : undefined;
     this.cssClasses = data.cssClasses ? [...data.cssClasses] : [];
     this.animate = data.animate;
     this.animation = data.animation;
     this.length = data.length;
+    this.curve = data.curve;
     this.isUserDefinedId = data.isUserDefinedId;
+    this.routing = data.routing;
+    this.waypoints = data.waypoints ? data.waypoints.map((p) => ({ ...p })) : undefined;
   }
 
   /**
@@ -71,11 +98,15 @@ export class FlowEdge implements EdgeData {
       arrowStart: this.arrowStart,
       arrowEnd: this.arrowEnd,
       style: this.style ? { ...this.style } : undefined,
+      styles: this.styles ? [...this.styles] : undefined,
       cssClasses: [...this.cssClasses],
       animate: this.animate,
       animation: this.animation,
       length: this.length,
+      curve: this.curve,
       isUserDefinedId: this.isUserDefinedId,
+      routing: this.routing,
+      waypoints: this.waypoints,
     });
     edge.points = this.points ? this.points.map((p) => ({ ...p })) : undefined;
     return edge;
@@ -94,11 +125,15 @@ export class FlowEdge implements EdgeData {
       arrowStart: this.arrowStart,
       arrowEnd: this.arrowEnd,
       style: this.style ? { ...this.style } : undefined,
+      styles: this.styles ? [...this.styles] : undefined,
       cssClasses: [...this.cssClasses],
       animate: this.animate,
       animation: this.animation,
       length: this.length,
+      curve: this.curve,
       isUserDefinedId: this.isUserDefinedId,
+      routing: this.routing,
+      waypoints: this.waypoints ? this.waypoints.map((p) => ({ ...p })) : undefined,
     };
   }
 }
@@ -65,6 +65,52 @@ describe('FlowchartModel', () => {
         model.addNode({ id: 'A', text: 'Duplicate', shape: 'rect' });
       }).toThrow('Node with id "A" already exists');
     });
+
+    it('should insert a node at a given index', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect' });
+      model.addNode({ id: 'C', text: 'C', shape: 'rect' });
+
+      model.addNode({ id: 'B', text: 'B', shape: 'rect' }, 1);
+
+      expect(model.nodes.map((n) => n.id)).toEqual(['A', 'B', 'C']);
+      expect(model.indexOfNode('C')).toBe(2);
+      expect(model.indexOfNode('X')).toBe(-1);
+    });
+  });
+
+  describe('renameNode', () => {
+    it('should rename a node in place and update edges and subgraphs', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'Start', shape: 'rounded', cssClasses: ['hot'] });
+      model.addNode({ id: 'B', text: 'B', shape: 'rect' });
+      model.addEdge({ id: 'e1', source: 'A', target: 'B', stroke: 'normal', arrowStart: 'none', arrowEnd: 'arrow' });
+      model.addEdge({ id: 'e2', source: 'B', target: 'A', stroke: 'normal', arrowStart: 'none', arrowEnd: 'arrow' });
+      model.addSubGraph({ id: 'S', title: 'S', nodeIds: ['B', 'A'] });
+      const listener = vi.fn();
+      model.on(listener);
+
+      const renamed = model.renameNode('A', 'X');
+
+      expect(renamed).toMatchObject({ id: 'X', text: 'Start', shape: 'rounded', cssClasses: ['hot'] });
+      expect(model.nodes.map((n) => n.id)).toEqual(['X', 'B']);
+      expect(model.getEdge('e1')).toMatchObject({ source: 'X', target: 'B' });
+      expect(model.getEdge('e2')).toMatchObject({ source: 'B', target: 'X' });
+      expect(model.getSubGraph('S')?.nodeIds).toEqual(['B', 'X']);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].type).toBe('batch');
+    });
+
+    it('should throw when the new ID is taken by a node or subgraph', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect' });
+      model.addNode({ id: 'B', text: 'B', shape: 'rect' });
+      model.addSubGraph({ id: 'S', title: 'S', nodeIds: [] });
+
+      expect(() => model.renameNode('A', 'B')).toThrow('ID "B" is already in use');
+      expect(() => model.renameNode('A', 'S')).toThrow('ID "S" is already in use');
+      expect(model.renameNode('missing', 'C')).toBeUndefined();
+    });
   });
 
   describe('edge operations', () => {
@@ -179,6 +225,58 @@ describe('FlowchartModel', () => {
       expect(removed).toBe(true);
       expect(model.getSubGraph('sg1')).toBeUndefined();
     });
+
+    it('should move a node between subgraphs', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect', parentId: 'sg1' });
+      model.addSubGraph({ id: 'sg1', title: 'One', nodeIds: ['A'] });
+      model.addSubGraph({ id: 'sg2', title: 'Two', nodeIds: [] });
+
+      model.setNodeParent('A', 'sg2');
+
+      expect(model.getNode('A')?.parentId).toBe('sg2');
+      expect(model.getSubGraph('sg1')?.nodeIds).toEqual([]);
+      expect(model.getSubGraph('sg2')?.nodeIds).toEqual(['A']);
+
+      model.setNodeParent('A', undefined);
+
+      expect(model.getNode('A')?.parentId).toBeUndefined();
+      expect(model.getSubGraph('sg2')?.nodeIds).toEqual([]);
+    });
+
+    it('should throw when moving a node into a missing subgraph', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect' });
+
+      expect(() => model.setNodeParent('A', 'missing')).toThrow(
+        'SubGraph "missing" does not exist'
+      );
+    });
+
+    it('should ungroup a subgraph into its parent', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect', parentId: 'inner' });
+      model.addSubGraph({ id: 'outer', title: 'Outer', nodeIds: [] });
+      model.addSubGraph({ id: 'inner', title: 'Inner', nodeIds: ['A'], parentId: 'outer' });
+      model.addSubGraph({ id: 'nested', title: 'Nested', nodeIds: [], parentId: 'inner' });
+
+      model.ungroupSubGraph('inner');
+
+      expect(model.getSubGraph('inner')).toBeUndefined();
+      expect(model.getNode('A')?.parentId).toBe('outer');
+      expect(model.getSubGraph('outer')?.nodeIds).toEqual(['A']);
+      expect(model.getSubGraph('nested')?.parentId).toBe('outer');
+    });
+
+    it('should detect nested subgraphs', () => {
+      const model = new FlowchartModel();
+      model.addSubGraph({ id: 'outer', title: 'Outer', nodeIds: [] });
+      model.addSubGraph({ id: 'inner', title: 'Inner', nodeIds: [], parentId: 'outer' });
+
+      expect(model.isSubGraphWithin('inner', 'outer')).toBe(true);
+      expect(model.isSubGraphWithin('outer', 'inner')).toBe(false);
+      expect(model.getChildSubGraphs('outer').map((s) => s.id)).toEqual(['inner']);
+    });
   });
 
   describe('events', () => {
@@ -271,6 +369,26 @@ describe('FlowchartModel', () => {
       expect(model.getNode('X')?.shape).toBe('circle');
     });
 
+    it('should load data into the same instance', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect' });
+      const listener = vi.fn();
+      model.on(listener);
+
+      model.load({
+        direction: 'LR',
+        nodes: [{ id: 'X', text: 'X', shape: 'rect' }],
+        edges: [],
+        subGraphs: [],
+      });
+      model.addNode({ id: 'Y', text: 'Y', shape: 'rect' });
+
+      expect(model.direction).toBe('LR');
+      expect(model.nodes.map((n) => n.id)).toEqual(['X', 'Y']);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener.mock.calls[0][0].type).toBe('load');
+    });
+
     it('should clone correctly', () => {
       const model = new FlowchartModel();
       model.addNode({ id: 'A', text: 'A', shape: 'rect' });
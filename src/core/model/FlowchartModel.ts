@@ -2,7 +2,8 @@ import { FlowNode, type NodeData } from './Node';
 import { FlowEdge, type EdgeData } from './Edge';
 import { FlowSubGraph, type SubGraphData } from './SubGraph';
 import { EventEmitter } from './EventEmitter';
-import type { Direction, ModelChangeEvent } from './types';
+import type { ClassDef, Direction, EdgeRoute, ModelChangeEvent } from './types';
+import type { DiagramConfig } from './config';
 
 /**
  * Complete flowchart data for serialization
@@ -13,16 +14,34 @@ export interface FlowchartData {
   edges: EdgeData[];
   subGraphs: SubGraphData[];
   classDefs?: Record<string, { styles: string[]; textStyles: string[] }>;
+  /** Declarations of `linkStyle default`, applied under each edge's own linkStyle */
+  defaultEdgeStyle?: string[];
   meta?: FlowchartMeta;
 }
 
 export interface MerfolkMeta {
   positions?: Record<string, { x: number; y: number }>;
+  /** Layout engine the pinned positions were computed with */
+  layout?: string;
+  /** Edge routing and waypoints by edge ID */
+  edges?: Record<string, EdgeRoute>;
   [key: string]: unknown;
 }
 
 export interface FlowchartMeta {
   headerLines?: string[];
+  /** Diagram title from the YAML frontmatter */
+  title?: string;
+  /** `config:` block of the YAML frontmatter */
+  config?: DiagramConfig;
+  /** Other top-level frontmatter keys, kept as written */
+  frontmatter?: Record<string, unknown>;
+  /** Configuration of an `%%{init: ...}%%` directive */
+  init?: DiagramConfig;
+  /** Accessible title (`accTitle: ...`), rendered as the SVG `<title>` */
+  accTitle?: string;
+  /** Accessible description (`accDescr: ...` or `accDescr { ... }`), rendered as the SVG `<desc>` */
+  accDescr?: string;
   merfolk?: MerfolkMeta;
 }
 
@@ -37,6 +56,7 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
   private _subGraphs: Map<string, FlowSubGraph> = new Map();
   private _classDefs: Map<string, { styles: string[]; textStyles: string[] }> =
     new Map();
+  private _defaultEdgeStyle: string[] | undefined;
   private _meta: FlowchartMeta = {};
 
   // Batch update state
@@ -84,6 +104,18 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     return this._edges.size;
   }
 
+  /**
+   * Declarations of `linkStyle default`. Mermaid applies them to every edge,
+   * including the ones added after the statement.
+   */
+  get defaultEdgeStyle(): string[] | undefined {
+    return this._defaultEdgeStyle;
+  }
+
+  set defaultEdgeStyle(value: string[] | undefined) {
+    this._defaultEdgeStyle = value && value.length > 0 ? [...value] : undefined;
+  }
+
   get meta(): FlowchartMeta {
     return this._meta;
   }
@@ -96,13 +128,14 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
 
   /**
    * Add a new node to the model
+   * @param index Optional position in node order (appends by default)
    */
-  addNode(data: NodeData): FlowNode {
+  addNode(data: NodeData, index?: number): FlowNode {
     if (this._nodes.has(data.id)) {
       throw new Error(`Node with id "${data.id}" already exists`);
     }
     const node = new FlowNode(data);
-    this._nodes.set(node.id, node);
+    this._nodes = insertAt(this._nodes, node.id, node, index);
     this.emitChange({ type: 'node:add', target: node, newValue: node });
     return node;
   }
@@ -121,6 +154,20 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     return this._nodes.has(id);
   }
 
+  /**
+   * Check if an edge can end at this ID: a node or, as in Mermaid, a subgraph
+   */
+  hasEndpoint(id: string): boolean {
+    return this._nodes.has(id) || this._subGraphs.has(id);
+  }
+
+  /**
+   * Get the position of a node in node order (-1 if missing)
+   */
+  indexOfNode(id: string): number {
+    return Array.from(this._nodes.keys()).indexOf(id);
+  }
+
   /**
    * Update an existing node
    */
@@ -139,6 +186,47 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     return node;
   }
 
+  /**
+   * Change the ID of a node, updating the edges and subgraphs that reference it.
+   * The node keeps its place in node order.
+   */
+  renameNode(id: string, newId: string): FlowNode | undefined {
+    const node = this._nodes.get(id);
+    if (!node || newId === id) return node;
+    if (this._nodes.has(newId) || this._subGraphs.has(newId)) {
+      throw new Error(`ID "${newId}" is already in use`);
+    }
+
+    this.beginBatch();
+
+    const renamed = new FlowNode({ ...node.toData(), id: newId });
+    this._nodes = new Map(
+      Array.from(this._nodes, ([key, value]) => (key === id ? [newId, renamed] : [key, value]))
+    );
+    this.emitChange({ type: 'node:remove', target: node, previousValue: node });
+    this.emitChange({ type: 'node:add', target: renamed, newValue: renamed });
+
+    for (const edge of this._edges.values()) {
+      if (edge.source === id || edge.target === id) {
+        this.updateEdge(edge.id, {
+          source: edge.source === id ? newId : edge.source,
+          target: edge.target === id ? newId : edge.target,
+        });
+      }
+    }
+
+    for (const subGraph of this._subGraphs.values()) {
+      if (subGraph.hasNode(id)) {
+        this.updateSubGraph(subGraph.id, {
+          nodeIds: subGraph.nodeIds.map((nodeId) => (nodeId === id ? newId : nodeId)),
+        });
+      }
+    }
+
+    this.endBatch();
+    return renamed;
+  }
+
   /**
    * Remove a node and its connected edges
    */
@@ -200,21 +288,22 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
 
   /**
    * Add a new edge to the model
+   * @param index Optional position in edge order (appends by default)
    */
-  addEdge(data: Omit<EdgeData, 'id'> & { id?: string }): FlowEdge {
+  addEdge(data: Omit<EdgeData, 'id'> & { id?: string }, index?: number): FlowEdge {
     // Generate unique ID, handling duplicates
     const id = this.generateEdgeId(data.id);
 
     // Validate source and target exist
-    if (!this._nodes.has(data.source)) {
+    if (!this.hasEndpoint(data.source)) {
       throw new Error(`Source node "${data.source}" does not exist`);
     }
-    if (!this._nodes.has(data.target)) {
+    if (!this.hasEndpoint(data.target)) {
       throw new Error(`Target node "${data.target}" does not exist`);
     }
 
     const edge = new FlowEdge({ ...data, id });
-    this._edges.set(edge.id, edge);
+    this._edges = insertAt(this._edges, edge.id, edge, index);
     this.emitChange({ type: 'edge:add', target: edge, newValue: edge });
     return edge;
   }
@@ -226,6 +315,13 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     return this._edges.get(id);
   }
 
+  /**
+   * Get the position of an edge in edge order (-1 if missing)
+   */
+  indexOfEdge(id: string): number {
+    return Array.from(this._edges.keys()).indexOf(id);
+  }
+
   /**
    * Get all edges connected to a node
    */
@@ -269,13 +365,14 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
 
   /**
    * Add a new subgraph
+   * @param index Optional position in subgraph order (appends by default)
    */
-  addSubGraph(data: SubGraphData): FlowSubGraph {
+  addSubGraph(data: SubGraphData, index?: number): FlowSubGraph {
     if (this._subGraphs.has(data.id)) {
       throw new Error(`SubGraph with id "${data.id}" already exists`);
     }
     const subGraph = new FlowSubGraph(data);
-    this._subGraphs.set(subGraph.id, subGraph);
+    this._subGraphs = insertAt(this._subGraphs, subGraph.id, subGraph, index);
     this.emitChange({
       type: 'subgraph:add',
       target: subGraph,
@@ -291,6 +388,13 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     return this._subGraphs.get(id);
   }
 
+  /**
+   * Get the position of a subgraph in subgraph order (-1 if missing)
+   */
+  indexOfSubGraph(id: string): number {
+    return Array.from(this._subGraphs.keys()).indexOf(id);
+  }
+
   /**
    * Update an existing subgraph
    */
@@ -313,18 +417,102 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
   }
 
   /**
-   * Remove a subgraph (nodes remain)
+   * Move a node into a subgraph (or back to the root when parentId is undefined)
+   * Keeps node.parentId and subgraph.nodeIds consistent
+   */
+  setNodeParent(nodeId: string, parentId: string | undefined): boolean {
+    const node = this._nodes.get(nodeId);
+    if (!node) return false;
+    if (parentId !== undefined && !this._subGraphs.has(parentId)) {
+      throw new Error(`SubGraph "${parentId}" does not exist`);
+    }
+
+    this.beginBatch();
+
+    for (const subGraph of this._subGraphs.values()) {
+      if (subGraph.id !== parentId && subGraph.hasNode(nodeId)) {
+        this.updateSubGraph(subGraph.id, {
+          nodeIds: subGraph.nodeIds.filter((id) => id !== nodeId),
+        });
+      }
+    }
+
+    if (parentId !== undefined) {
+      const target = this._subGraphs.get(parentId)!;
+      if (!target.hasNode(nodeId)) {
+        this.updateSubGraph(parentId, { nodeIds: [...target.nodeIds, nodeId] });
+      }
+    }
+
+    if (node.parentId !== parentId) {
+      this.updateNode(nodeId, { parentId });
+    }
+
+    this.endBatch();
+    return true;
+  }
+
+  /**
+   * Get the direct child subgraphs of a subgraph (or root-level ones)
+   */
+  getChildSubGraphs(parentId: string | undefined): FlowSubGraph[] {
+    return this.subGraphs.filter((s) => s.parentId === parentId);
+  }
+
+  /**
+   * Check whether a subgraph is the same as or nested inside another one
+   */
+  isSubGraphWithin(id: string, ancestorId: string): boolean {
+    let current = this._subGraphs.get(id);
+    const visited = new Set<string>();
+    while (current && !visited.has(current.id)) {
+      if (current.id === ancestorId) return true;
+      visited.add(current.id);
+      current = current.parentId ? this._subGraphs.get(current.parentId) : undefined;
+    }
+    return false;
+  }
+
+  /**
+   * Dissolve a subgraph, moving its nodes and nested subgraphs to its parent
+   */
+  ungroupSubGraph(id: string): boolean {
+    const subGraph = this._subGraphs.get(id);
+    if (!subGraph) return false;
+
+    this.beginBatch();
+
+    const parentId = subGraph.parentId;
+    for (const nodeId of [...subGraph.nodeIds]) {
+      this.setNodeParent(nodeId, parentId);
+    }
+    for (const child of this.getChildSubGraphs(id)) {
+      this.updateSubGraph(child.id, { parentId });
+    }
+    this.removeSubGraph(id);
+
+    this.endBatch();
+    return true;
+  }
+
+  /**
+   * Remove a subgraph (nodes remain, edges to the subgraph itself are removed)
    */
   removeSubGraph(id: string): boolean {
     const subGraph = this._subGraphs.get(id);
     if (!subGraph) return false;
 
+    this.beginBatch();
+    for (const edge of this.getEdgesForNode(id)) {
+      this.removeEdge(edge.id);
+    }
     this._subGraphs.delete(id);
     this.emitChange({
       type: 'subgraph:remove',
       target: subGraph,
       previousValue: subGraph,
     });
+    this.endBatch();
     return true;
   }
 
@@ -338,7 +526,15 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     styles: string[],
     textStyles: string[] = []
   ): void {
-    this._classDefs.set(name, { styles, textStyles });
+    const previous = this._classDefs.get(name);
+    const classDef = { styles: [...styles], textStyles: [...textStyles] };
+    this._classDefs.set(name, classDef);
+    this.emitChange({
+      type: 'classdef:change',
+      target: name,
+      previousValue: previous,
+      newValue: classDef,
+    });
   }
 
   /**
@@ -350,6 +546,33 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     return this._classDefs.get(name);
   }
 
+  /**
+   * Remove a class definition. Nodes keep their class assignments.
+   */
+  removeClassDef(name: string): boolean {
+    const previous = this._classDefs.get(name);
+    if (!previous) return false;
+
+    this._classDefs.delete(name);
+    this.emitChange({
+      type: 'classdef:change',
+      target: name,
+      previousValue: previous,
+    });
+    return true;
+  }
+
+  /**
+   * Get all class definitions, in definition order
+   */
+  get classDefs(): Record<string, ClassDef> {
+    const classDefs: Record<string, ClassDef> = {};
+    for (const [name, def] of this._classDefs) {
+      classDefs[name] = { styles: [...def.styles], textStyles: [...def.textStyles] };
+    }
+    return classDefs;
+  }
+
   // ============ Batch Updates ============
 
   /**
@@ -401,6 +624,7 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
       edges: this.edges.map((e) => e.toData()),
       subGraphs: this.subGraphs.map((s) => s.toData()),
       classDefs: Object.keys(classDefs).length > 0 ? classDefs : undefined,
+      defaultEdgeStyle: this._defaultEdgeStyle ? [...this._defaultEdgeStyle] : undefined,
       meta: Object.keys(this._meta).length > 0 ? { ...this._meta } : undefined,
     };
   }
@@ -410,45 +634,58 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
    */
   static fromData(data: FlowchartData): FlowchartModel {
     const model = new FlowchartModel();
-    model._direction = data.direction;
+    model.load(data);
+    return model;
+  }
+
+  /**
+   * Replace the content of this model with plain data, keeping the instance
+   * (and its listeners) intact. Emits a single `load` event instead of
+   * per-entity changes.
+   */
+  load(data: FlowchartData): void {
+    this._direction = data.direction;
+    this._nodes = new Map();
+    this._edges = new Map();
+    this._subGraphs = new Map();
+    this._classDefs = new Map();
 
     // Add nodes first
     for (const nodeData of data.nodes) {
-      model._nodes.set(nodeData.id, new FlowNode(nodeData));
+      this._nodes.set(nodeData.id, new FlowNode(nodeData));
     }
 
     // Then edges
     for (const edgeData of data.edges) {
-      model._edges.set(edgeData.id, new FlowEdge(edgeData));
+      this._edges.set(edgeData.id, new FlowEdge(edgeData));
     }
 
     // Then subgraphs
     for (const subGraphData of data.subGraphs) {
-      model._subGraphs.set(subGraphData.id, new FlowSubGraph(subGraphData));
+      this._subGraphs.set(subGraphData.id, new FlowSubGraph(subGraphData));
     }
 
     // Class definitions
     if (data.classDefs) {
       for (const [name, def] of Object.entries(data.classDefs)) {
-        model._classDefs.set(name, { ...def });
+        this._classDefs.set(name, { ...def });
       }
     }
 
-    if (data.meta) {
-      model._meta = { ...data.meta };
-    }
+    this.defaultEdgeStyle = data.defaultEdgeStyle;
+    this._meta = data.meta ? { ...data.meta } : {};
 
     // Sync edge counter with existing numeric edge IDs
     let maxCounter = 0;
-    for (const edgeId of model._edges.keys()) {
+    for (const edgeId of this._edges.keys()) {
       const match = edgeId.match(/^edge-(\d+)$/);
       if (match) {
         maxCounter = Math.max(maxCounter, Number.parseInt(match[1], 10));
       }
     }
-    model._edgeCounter = maxCounter;
+    this._edgeCounter = maxCounter;
 
-    return model;
+    this.emitChange({ type: 'load', newValue: this });
   }
 
   /**
@@ -462,6 +699,7 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     this._classDefs.clear();
     this._direction = 'TB';
     this._edgeCounter = 0;
+    this._defaultEdgeStyle = undefined;
     this._meta = {};
     this.endBatch();
   }
@@ -473,3 +711,17 @@ export class FlowchartModel extends EventEmitter<ModelChangeEvent> {
     return FlowchartModel.fromData(this.toData());
   }
 }
+
+/**
+ * Insert an entry into an ordered map at the given index
+ * (returns the same map when appending)
+ */
+function insertAt<V>(map: Map<string, V>, key: string, value: V, index?: number): Map<string, V> {
+  if (index === undefined || index < 0 || index >= map.size) {
+    map.set(key, value);
+    return map;
+  }
+  const entries = Array.from(map.entries());
+  entries.splice(index, 0, [key, value]);
+  return new Map(entries);
+}
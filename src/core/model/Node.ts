@@ -1,4 +1,12 @@
-import type { ShapeType, Position, Size, BoundingBox, NodeStyle } from './types';
+import type {
+  ShapeType,
+  Position,
+  Size,
+  BoundingBox,
+  NodeStyle,
+  LinkTarget,
+  NodeClickCallback,
+} from './types';
 
 /**
  * Data interface for creating/updating nodes
@@ -11,9 +19,13 @@ export interface NodeData {
   size?: Size;
   style?: NodeStyle;
   cssClasses?: string[];
+  /** Class written with the `:::` shorthand (`A:::hot`); also listed in cssClasses */
+  inlineClass?: string;
   link?: string;
-  linkTarget?: '_self' | '_blank' | '_parent' | '_top';
+  linkTarget?: LinkTarget;
   tooltip?: string;
+  /** Function the `click` statement invokes */
+  callback?: NodeClickCallback;
   parentId?: string;
   /** X position override for drag */
   x?: number;
@@ -44,9 +56,11 @@ export class FlowNode implements NodeData {
   size?: Size;
   style?: NodeStyle;
   cssClasses: string[];
+  inlineClass?: string;
   link?: string;
-  linkTarget?: '_self' | '_blank' | '_parent' | '_top';
+  linkTarget?: LinkTarget;
   tooltip?: string;
+  callback?: NodeClickCallback;
   parentId?: string;
   x?: number;
   y?: number;
@@ -68,9 +82,11 @@ export class FlowNode implements NodeData {
     this.size = data.size ? { ...data.size } : undefined;
     this.style = data.style ? { ...data.style } : undefined;
     this.cssClasses = data.cssClasses ? [...data.cssClasses] : [];
+    this.inlineClass = data.inlineClass;
     this.link = data.link;
     this.linkTarget = data.linkTarget;
     this.tooltip = data.tooltip;
+    this.callback = data.callback ? { ...data.callback } : undefined;
     this.parentId = data.parentId;
     this.x = data.x;
     this.y = data.y;
@@ -116,9 +132,11 @@ export class FlowNode implements NodeData {
       size: this.size ? { ...this.size } : undefined,
       style: this.style ? { ...this.style } : undefined,
       cssClasses: [...this.cssClasses],
+      inlineClass: this.inlineClass,
       link: this.link,
       linkTarget: this.linkTarget,
       tooltip: this.tooltip,
+      callback: this.callback ? { ...this.callback } : undefined,
       parentId: this.parentId,
       x: this.x,
       y: this.y,
@@ -147,9 +165,11 @@ export class FlowNode implements NodeData {
       size: this.size ? { ...this.size } : undefined,
       style: this.style ? { ...this.style } : undefined,
       cssClasses: [...this.cssClasses],
+      inlineClass: this.inlineClass,
       link: this.link,
       linkTarget: this.linkTarget,
       tooltip: this.tooltip,
+      callback: this.callback ? { ...this.callback } : undefined,
       parentId: this.parentId,
       x: this.x,
       y: this.y,
@@ -0,0 +1,84 @@
+import type { EdgeCurve } from './types';
+
+/**
+ * Built-in Mermaid themes
+ */
+export const DIAGRAM_THEMES = ['default', 'neutral', 'dark', 'forest', 'base'] as const;
+
+export type DiagramTheme = (typeof DIAGRAM_THEMES)[number];
+
+/**
+ * Flowchart section of the Mermaid configuration.
+ * Only the fields the editor understands are typed; the rest is kept as written.
+ */
+export interface FlowchartConfig {
+  /** Curve used for edges (default: 'basis') */
+  curve?: EdgeCurve;
+  /** Space between nodes on the same rank (default: 50) */
+  nodeSpacing?: number;
+  /** Space between ranks (default: 50) */
+  rankSpacing?: number;
+  /** Render labels as HTML instead of SVG text */
+  htmlLabels?: boolean;
+  /** Space around the diagram (default: 8) */
+  diagramPadding?: number;
+  /** Width at which labels wrap (default: 200) */
+  wrappingWidth?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Mermaid configuration written in the YAML frontmatter (`config:`) or in
+ * an `%%{init: ...}%%` directive
+ */
+export interface DiagramConfig {
+  theme?: DiagramTheme;
+  /** Theme variables, e.g. `primaryColor`; only used by the `base` theme in full */
+  themeVariables?: Record<string, string | number | boolean>;
+  look?: 'classic' | 'handDrawn';
+  fontFamily?: string;
+  flowchart?: FlowchartConfig;
+  [key: string]: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep merge two configurations; values of `override` win
+ */
+export function mergeDiagramConfig(base: DiagramConfig = {}, override: DiagramConfig = {}): DiagramConfig {
+  const merge = (a: Record<string, unknown>, b: Record<string, unknown>): Record<string, unknown> => {
+    const result: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      result[key] = isPlainObject(value) && isPlainObject(result[key]) ? merge(result[key], value) : value;
+    }
+    return result;
+  };
+  return merge(base, override) as DiagramConfig;
+}
+
+/**
+ * Remove empty values and sections, so an unset field is simply missing
+ */
+export function pruneDiagramConfig(config: DiagramConfig): DiagramConfig | undefined {
+  const prune = (value: Record<string, unknown>): Record<string, unknown> | undefined => {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry === undefined || entry === '') continue;
+      const pruned = isPlainObject(entry) ? prune(entry) : entry;
+      if (pruned !== undefined) result[key] = pruned;
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  };
+  return prune(config) as DiagramConfig | undefined;
+}
+
+/**
+ * Configuration Mermaid renders with: the frontmatter `config:` with the
+ * init directive applied on top
+ */
+export function resolveDiagramConfig(meta: { config?: DiagramConfig; init?: DiagramConfig }): DiagramConfig {
+  return mergeDiagramConfig(meta.config, meta.init);
+}
@@ -1,5 +1,7 @@
 // Core model exports
 export * from './types';
+export * from './style';
+export * from './config';
 export * from './EventEmitter';
 export * from './Node';
 export * from './Edge';
@@ -0,0 +1,130 @@
+import type { EdgeStyle, NodeStyle } from './types';
+
+/**
+ * CSS property name of each modelled style field, in serialization order
+ */
+type StyleProperties<S> = [keyof S & string, string][];
+
+/** The node style properties the editor models */
+const STYLE_PROPERTIES: StyleProperties<NodeStyle> = [
+  ['fill', 'fill'],
+  ['stroke', 'stroke'],
+  ['strokeWidth', 'stroke-width'],
+  ['strokeDasharray', 'stroke-dasharray'],
+  ['color', 'color'],
+  ['fontSize', 'font-size'],
+  ['fontWeight', 'font-weight'],
+  ['fontStyle', 'font-style'],
+  ['fontFamily', 'font-family'],
+];
+
+/** The `linkStyle` properties the editor models */
+const EDGE_STYLE_PROPERTIES: StyleProperties<EdgeStyle> = [
+  ['stroke', 'stroke'],
+  ['strokeWidth', 'stroke-width'],
+  ['strokeDasharray', 'stroke-dasharray'],
+];
+
+/**
+ * Split a `key:value` declaration, keeping colons inside the value
+ */
+function splitDeclaration(declaration: string): [string, string] {
+  const colon = declaration.indexOf(':');
+  if (colon < 0) return [declaration.trim(), ''];
+  return [declaration.slice(0, colon).trim(), declaration.slice(colon + 1).trim()];
+}
+
+function parseWith<S extends object>(properties: StyleProperties<S>, declarations: string[]): S {
+  const fields = new Map(properties.map(([field, property]) => [property, field]));
+  const style: Record<string, string | number> = {};
+  for (const declaration of declarations) {
+    const [property, value] = splitDeclaration(declaration);
+    const field = fields.get(property.toLowerCase());
+    if (!field || !value) continue;
+    if (field === 'strokeWidth') {
+      const width = Number.parseFloat(value);
+      if (Number.isFinite(width)) style.strokeWidth = width;
+    } else {
+      style[field] = value;
+    }
+  }
+  return style as S;
+}
+
+function declarationsOf<S extends object>(properties: StyleProperties<S>, style: S): string[] {
+  const declarations: string[] = [];
+  for (const [field, property] of properties) {
+    const value = style[field];
+    if (value === undefined || value === '') continue;
+    declarations.push(`${property}:${field === 'strokeWidth' ? `${value}px` : value}`);
+  }
+  return declarations;
+}
+
+function mergeWith<S extends object>(
+  properties: StyleProperties<S>,
+  declarations: string[],
+  style: S
+): string[] {
+  const modelled = new Set(properties.map(([, property]) => property));
+  const unknown = declarations.filter(
+    (declaration) => !modelled.has(splitDeclaration(declaration)[0].toLowerCase())
+  );
+  return [...declarationsOf(properties, style), ...unknown];
+}
+
+/**
+ * Read the modelled properties out of CSS declarations (`fill:#f9f`).
+ * Unknown properties are ignored.
+ */
+export function parseStyleDeclarations(declarations: string[]): NodeStyle {
+  return parseWith(STYLE_PROPERTIES, declarations);
+}
+
+/**
+ * Write a style as CSS declarations, skipping empty fields
+ */
+export function toStyleDeclarations(style: NodeStyle): string[] {
+  return declarationsOf(STYLE_PROPERTIES, style);
+}
+
+/**
+ * Replace the modelled properties of existing declarations with `style`,
+ * keeping the declarations the editor does not know about
+ */
+export function mergeStyleDeclarations(declarations: string[], style: NodeStyle): string[] {
+  return mergeWith(STYLE_PROPERTIES, declarations, style);
+}
+
+/**
+ * Read the modelled properties out of `linkStyle` declarations
+ */
+export function parseEdgeStyleDeclarations(declarations: string[]): EdgeStyle {
+  return parseWith(EDGE_STYLE_PROPERTIES, declarations);
+}
+
+/**
+ * Replace the modelled properties of `linkStyle` declarations with `style`,
+ * keeping the others (`color`, `fill`, ...)
+ */
+export function mergeEdgeStyleDeclarations(declarations: string[], style: EdgeStyle): string[] {
+  return mergeWith(EDGE_STYLE_PROPERTIES, declarations, style);
+}
+
+/**
+ * Declarations of `earlier` not redeclared in `later`, followed by `later`
+ */
+export function combineStyleDeclarations(earlier: string[], later: string[]): string[] {
+  const redeclared = new Set(later.map((declaration) => splitDeclaration(declaration)[0].toLowerCase()));
+  return [
+    ...earlier.filter((declaration) => !redeclared.has(splitDeclaration(declaration)[0].toLowerCase())),
+    ...later,
+  ];
+}
+
+/**
+ * Whether a style has no field set
+ */
+export function isEmptyStyle(style: NodeStyle | undefined): boolean {
+  return !style || toStyleDeclarations(style).length === 0;
+}
@@ -173,6 +173,31 @@ export type StrokeType = 'normal' | 'thick' | 'dotted' | 'invisible';
  */
 export type ArrowType = 'arrow' | 'circle' | 'cross' | 'none';
 
+/**
+ * Edge animation speed (`e1@{ animation: fast }`)
+ */
+export type EdgeAnimation = 'fast' | 'slow';
+
+/**
+ * Curve interpolation Mermaid draws an edge with (`e1@{ curve: linear }`)
+ */
+export const EDGE_CURVES = [
+  'basis',
+  'bumpX',
+  'bumpY',
+  'cardinal',
+  'catmullRom',
+  'linear',
+  'monotoneX',
+  'monotoneY',
+  'natural',
+  'step',
+  'stepAfter',
+  'stepBefore',
+] as const;
+
+export type EdgeCurve = (typeof EDGE_CURVES)[number];
+
 /**
  * Graph direction
  */
@@ -206,7 +231,56 @@ export interface NodeStyle {
   fill?: string;
   stroke?: string;
   strokeWidth?: number;
+  /** Dash pattern, e.g. `5 5` */
+  strokeDasharray?: string;
   color?: string;
+  /** CSS font size, e.g. `14px` */
+  fontSize?: string;
+  fontWeight?: string;
+  fontStyle?: string;
+  fontFamily?: string;
+}
+
+/**
+ * Class definition (`classDef name fill:#f9f,stroke:#333`), kept as raw
+ * CSS declarations so properties the editor does not model survive
+ */
+export interface ClassDef {
+  styles: string[];
+  textStyles: string[];
+}
+
+/**
+ * Browsing context a node link opens in (`click A "url" _blank`)
+ */
+export const LINK_TARGETS = ['_self', '_blank', '_parent', '_top'] as const;
+
+export type LinkTarget = (typeof LINK_TARGETS)[number];
+
+/**
+ * Function a node click invokes: `click A fn` or `click A call fn(args)`
+ */
+export interface NodeClickCallback {
+  name: string;
+  /** Raw argument list of the `call` form, without parentheses; undefined for the bare form */
+  args?: string;
+}
+
+/**
+ * How an edge path is drawn between its end nodes and waypoints
+ * - curved: smooth curve (Mermaid's default)
+ * - straight: straight segments
+ * - orthogonal: horizontal and vertical segments routed around nodes
+ */
+export type EdgeRouting = 'curved' | 'straight' | 'orthogonal';
+
+/**
+ * User-defined edge routing, persisted in the merfolk meta block
+ */
+export interface EdgeRoute {
+  routing?: EdgeRouting;
+  /** Points the edge passes through, in order from source to target */
+  waypoints?: Position[];
 }
 
 /**
@@ -215,6 +289,8 @@ export interface NodeStyle {
 export interface EdgeStyle {
   stroke?: string;
   strokeWidth?: number;
+  /** Dash pattern, e.g. `5 5` */
+  strokeDasharray?: string;
 }
 
 /**
@@ -231,6 +307,8 @@ export type ModelEventType =
   | 'subgraph:remove'
   | 'subgraph:update'
   | 'direction:change'
+  | 'classdef:change'
+  | 'load'
   | 'batch';
 
 /**
@@ -0,0 +1,54 @@
+/**
+ * Severity of a parse diagnostic
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Machine-readable diagnostic code
+ */
+export type DiagnosticCode =
+  | 'missing-declaration'
+  /** The document is another kind of diagram (`sequenceDiagram`, ...) */
+  | 'unsupported-diagram'
+  | 'unknown-statement'
+  | 'invalid-statement'
+  | 'unsupported-statement'
+  | 'incomplete-edge'
+  | 'unexpected-end'
+  | 'unclosed-subgraph'
+  | 'undefined-class'
+  | 'undefined-edge'
+  | 'duplicate-edge-id'
+  | 'invalid-property'
+  | 'invalid-config';
+
+/**
+ * Position in the source text. Both line and column are 1-based.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Range in the source text; `end` is exclusive
+ */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * A problem found while parsing. The parser never throws on bad input;
+ * it skips what it cannot understand and reports it here instead.
+ */
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  /** 1-based line of the range start */
+  line: number;
+  /** 1-based column of the range start */
+  column: number;
+  range: SourceRange;
+  code: DiagnosticCode;
+}
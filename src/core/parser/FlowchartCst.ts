@@ -0,0 +1,254 @@
+import type { DiagnosticCode, SourcePosition, SourceRange } from './Diagnostic';
+import { EDGE_PROPERTY_KEYS } from './MermaidSyntax';
+
+/**
+ * Kind of a lexical token in a flowchart document
+ */
+export type FlowchartTokenKind =
+  // Trivia: kept in the tree so the source can be rebuilt from it
+  | 'whitespace'
+  | 'newline'
+  | 'comment'
+  | 'directive'
+  | 'semicolon'
+  /** `---` YAML block at the start of the document */
+  | 'frontmatter'
+  /** `flowchart`, `subgraph`, `end`, `classDef`, `accTitle`, ... and `default` after `linkStyle` */
+  | 'keyword'
+  | 'direction'
+  /** Node or subgraph ID */
+  | 'identifier'
+  | 'className'
+  /** `e1@` in front of a link */
+  | 'edgeId'
+  /** Complete link operator: `-->`, `-.->`, `==>`, `~~~`, `--o`, ... */
+  | 'link'
+  /** Opening half of a link with inline text: `--`, `==`, `-.` */
+  | 'linkStart'
+  | 'pipe'
+  | 'shapeOpen'
+  | 'shapeClose'
+  /** Unquoted label */
+  | 'text'
+  /** Quoted label, may span lines */
+  | 'string'
+  | 'ampersand'
+  /** `:::` */
+  | 'classMarker'
+  /** `{` and `}` around a multi-line `accDescr` */
+  | 'blockOpen'
+  | 'blockClose'
+  /** `@{` */
+  | 'propertiesOpen'
+  | 'propertiesClose'
+  | 'propertyKey'
+  | 'colon'
+  | 'propertyValue'
+  | 'comma'
+  /** A CSS declaration in a style list: `fill:#f9f` */
+  | 'style'
+  | 'number'
+  /** Bare argument word (`click` statements) */
+  | 'word'
+  /** Text the grammar does not accept */
+  | 'unknown';
+
+/**
+ * A token with its position in the document.
+ * Offsets are zero-based; `end` is exclusive.
+ */
+export interface CstToken {
+  type: 'token';
+  kind: FlowchartTokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Kind of a syntax node
+ */
+export type CstNodeKind =
+  | 'document'
+  /** `flowchart LR` */
+  | 'declaration'
+  /** Vertex groups joined by links: `A & B --> C` */
+  | 'vertexStatement'
+  /** Vertices joined by `&` */
+  | 'vertexGroup'
+  /** `A`, `A[Text]:::cls`, `A@{ shape: cyl }` */
+  | 'vertex'
+  /** `[Text]`, `((Text))`, ... */
+  | 'shape'
+  /** `@{ shape: cyl, label: "DB" }` */
+  | 'properties'
+  | 'property'
+  /** `e1@-->|text|`, `-- text -->` */
+  | 'link'
+  /** Header, nested statements and the closing `end` */
+  | 'subgraph'
+  /** `end`: the last child of a subgraph, or a stray one */
+  | 'end'
+  | 'direction'
+  | 'classDef'
+  | 'class'
+  | 'style'
+  | 'linkStyle'
+  | 'click'
+  /** `accTitle: text` */
+  | 'accTitle'
+  /** `accDescr: text` or `accDescr { lines }` */
+  | 'accDescr'
+  /** Comma separated CSS declarations */
+  | 'styles'
+  /** Statement the grammar does not accept */
+  | 'error';
+
+/**
+ * A syntax node. Its children cover its range without gaps, so
+ * concatenating the token texts below a node gives its source text.
+ */
+export interface CstNode {
+  type: 'node';
+  kind: CstNodeKind;
+  children: CstElement[];
+  start: number;
+  end: number;
+}
+
+export type CstElement = CstNode | CstToken;
+
+/**
+ * A problem found by the grammar, with the offsets of the offending text
+ */
+export interface CstSyntaxError {
+  code: DiagnosticCode;
+  message: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Lossless syntax tree of a flowchart document
+ */
+export interface CstDocument {
+  root: CstNode;
+  errors: CstSyntaxError[];
+}
+
+const TRIVIA_KINDS: ReadonlySet<FlowchartTokenKind> = new Set([
+  'whitespace',
+  'newline',
+  'comment',
+  'directive',
+  'semicolon',
+  'frontmatter',
+]);
+
+/**
+ * Whether a token only separates or annotates statements
+ */
+export function isTrivia(element: CstElement): element is CstToken {
+  return element.type === 'token' && TRIVIA_KINDS.has(element.kind);
+}
+
+/**
+ * Every token below an element, in source order
+ */
+export function cstTokens(element: CstElement): CstToken[] {
+  if (element.type === 'token') return [element];
+  return element.children.flatMap(cstTokens);
+}
+
+/**
+ * Source text of an element, rebuilt from its tokens
+ */
+export function cstText(element: CstElement): string {
+  return cstTokens(element)
+    .map((token) => token.text)
+    .join('');
+}
+
+/**
+ * Direct child nodes of the given kind
+ */
+export function childNodes(node: CstNode, kind: CstNodeKind): CstNode[] {
+  return node.children.filter((child): child is CstNode => child.type === 'node' && child.kind === kind);
+}
+
+/**
+ * Direct child tokens of the given kind
+ */
+export function childTokens(node: CstNode, kind: FlowchartTokenKind): CstToken[] {
+  return node.children.filter((child): child is CstToken => child.type === 'token' && child.kind === kind);
+}
+
+/**
+ * Whether a vertex statement is a lone `id@{ ... }` that configures an
+ * edge rather than a node: a single vertex with edge property keys
+ */
+export function isEdgeProperties(statement: CstNode): boolean {
+  const vertices = childNodes(statement, 'vertexGroup').flatMap((group) => childNodes(group, 'vertex'));
+  if (vertices.length !== 1 || childNodes(statement, 'link').length > 0) return false;
+  const [vertex] = vertices;
+  const properties = childNodes(vertex, 'properties')[0];
+  if (!properties || vertex.children.length !== 2) return false;
+  return childNodes(properties, 'property').some((property) =>
+    EDGE_PROPERTY_KEYS.has(childTokens(property, 'propertyKey')[0].text)
+  );
+}
+
+/**
+ * Converts document offsets to lines and columns
+ */
+export class LineIndex {
+  private lineStarts: number[] = [0];
+
+  constructor(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  /**
+   * Zero-based line of an offset
+   */
+  lineOf(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+
+  /**
+   * Offset of the first character of a zero-based line
+   */
+  lineStart(line: number): number {
+    return this.lineStarts[line] ?? this.lineStarts[this.lineStarts.length - 1];
+  }
+
+  /**
+   * Zero-based column of an offset
+   */
+  columnOf(offset: number): number {
+    return offset - this.lineStart(this.lineOf(offset));
+  }
+
+  /**
+   * 1-based position of an offset
+   */
+  positionAt(offset: number): SourcePosition {
+    return { line: this.lineOf(offset) + 1, column: this.columnOf(offset) + 1 };
+  }
+
+  /**
+   * 1-based range of an element or offset span
+   */
+  rangeOf(span: { start: number; end: number }): SourceRange {
+    return { start: this.positionAt(span.start), end: this.positionAt(span.end) };
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { FlowchartCstParser } from './FlowchartCstParser';
+import { MermaidParser } from './MermaidParser';
+import { cstText, cstTokens, LineIndex } from './FlowchartCst';
+import type { CstElement, CstNode } from './FlowchartCst';
+
+const parseCst = (text: string) => new FlowchartCstParser().parse(text);
+const parse = (text: string) => new MermaidParser().parseWithDiagnostics(text);
+
+/**
+ * Kinds of the statement nodes below the document, nested subgraphs included
+ */
+function statementKinds(elements: CstElement[]): string[] {
+  return elements
+    .filter((child): child is CstNode => child.type === 'node')
+    .flatMap((node) => (node.kind === 'subgraph' ? [node.kind, ...statementKinds(node.children)] : [node.kind]));
+}
+
+describe('FlowchartCstParser', () => {
+  it('should rebuild the exact source from the tree', () => {
+    const sources = [
+      'flowchart LR\r\n  A[Start] -->|go| B{"Is it?"}\r\n',
+      '%% header\nflowchart TB;A-->B;B-- text --x C\n  subgraph s [Title]\n    C@{ shape: cyl,\n      label: "DB" }\n  end %% done\n',
+      'graph TD\n  what is this\n  end\n  subgraph open\n    A ~~~ B',
+      '',
+    ];
+    for (const source of sources) {
+      const { root } = parseCst(source);
+      expect(cstText(root)).toBe(source);
+      // Tokens are contiguous and in order
+      const tokens = cstTokens(root);
+      tokens.forEach((token, index) => {
+        expect(token.start).toBe(index === 0 ? 0 : tokens[index - 1].end);
+      });
+    }
+  });
+
+  it('should split statements on semicolons and nest subgraphs', () => {
+    const { root, errors } = parseCst(
+      'flowchart LR; A --> B; classDef hot fill:#f00\n  subgraph s\n    direction TB; C\n  end'
+    );
+
+    expect(errors).toEqual([]);
+    expect(statementKinds(root.children)).toEqual([
+      'declaration',
+      'vertexStatement',
+      'classDef',
+      'subgraph',
+      'direction',
+      'vertexStatement',
+      'end',
+    ]);
+  });
+
+  it('should give statements source ranges without surrounding trivia', () => {
+    const text = 'flowchart TB\n  A[Start] --> B  %% note\n';
+    const { root } = parseCst(text);
+    const statement = root.children.find(
+      (child): child is CstNode => child.type === 'node' && child.kind === 'vertexStatement'
+    )!;
+
+    expect(text.slice(statement.start, statement.end)).toBe('A[Start] --> B');
+    expect(new LineIndex(text).rangeOf(statement)).toEqual({
+      start: { line: 2, column: 3 },
+      end: { line: 2, column: 17 },
+    });
+  });
+
+  it('should keep accessibility text raw, braces and arrows included', () => {
+    const text = 'flowchart TB\n  accTitle: A --> B; not a link\n  accDescr {\n    x --> y;\n  }\n  A';
+    const { root, errors } = parseCst(text);
+
+    expect(errors).toEqual([]);
+    expect(cstText(root)).toBe(text);
+    expect(statementKinds(root.children)).toEqual(['declaration', 'accTitle', 'accDescr', 'vertexStatement']);
+  });
+
+  it('should report grammar errors with their offsets', () => {
+    const text = 'flowchart TB\n  A -->\n  --> B\n  end\n  direction up\n  what is this';
+    const { errors } = parseCst(text);
+
+    expect(errors.map((e) => [e.code, text.slice(e.start, e.end)])).toEqual([
+      ['incomplete-edge', '-->'],
+      ['incomplete-edge', '-->'],
+      ['unexpected-end', 'end'],
+      ['invalid-statement', 'direction up'],
+      ['unknown-statement', 'what is this'],
+    ]);
+  });
+});
+
+describe('MermaidParser grammar', () => {
+  it('should read several statements on one line', () => {
+    const { model, diagnostics } = parse('flowchart LR; A --> B; B --> C;');
+
+    expect(diagnostics).toEqual([]);
+    expect(model.direction).toBe('LR');
+    expect(model.edges.map((e) => [e.source, e.target])).toEqual([
+      ['A', 'B'],
+      ['B', 'C'],
+    ]);
+  });
+
+  it('should keep link operators, pipes and & inside labels', () => {
+    const { model, diagnostics } = parse(
+      'flowchart TB\n  A["a --> b"] -- "x & y" --> B[c | d] & C(f(x))\n  B -->|"1 -- 2"| D>ok]'
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(model.getNode('A')?.text).toBe('a --> b');
+    expect(model.getNode('B')?.text).toBe('c | d');
+    expect(model.getNode('C')).toMatchObject({ text: 'f(x)', shape: 'rounded' });
+    expect(model.getNode('D')?.shape).toBe('odd');
+    expect(model.edges.map((e) => [e.source, e.target, e.text])).toEqual([
+      ['A', 'B', 'x & y'],
+      ['A', 'C', 'x & y'],
+      ['B', 'D', '1 -- 2'],
+    ]);
+  });
+
+  it('should read quoted labels and @{} blocks that span lines', () => {
+    const { model, diagnostics } = parse(
+      'flowchart TB\n  A["first\n  second"] --> B@{\n    shape: cyl,\n    label: "DB"\n  }\n  B --> C'
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(model.getNode('A')?.text).toBe('first\n  second');
+    expect(model.getNode('B')).toMatchObject({ shape: 'cylinder', text: 'DB' });
+    expect(model.edgeCount).toBe(2);
+  });
+
+  it('should follow Mermaid chain semantics for & groups', () => {
+    const { model } = parse('flowchart TB\n  A --> B & C --> D');
+
+    expect(model.nodes.map((n) => n.id)).toEqual(['A', 'B', 'C', 'D']);
+    expect(model.edges.map((e) => `${e.source}${e.target}`)).toEqual(['AB', 'AC', 'BD', 'CD']);
+  });
+
+  it('should read class shorthands, link heads and lengths', () => {
+    const { model, diagnostics } = parse(
+      'flowchart TB\n  A:::hot --> B:::cold\n  A <-- both --> C\n  A -- long ---> D\n  A x-.-o E\n  classDef hot fill:#f00'
+    );
+
+    expect(diagnostics.map((d) => [d.code, d.message])).toEqual([
+      ['undefined-class', 'Class "cold" is not defined by any classDef'],
+    ]);
+    expect(model.getNode('A')?.cssClasses).toEqual(['hot']);
+    const [, both, long, dotted] = model.edges;
+    expect(both).toMatchObject({ text: 'both', arrowStart: 'arrow', arrowEnd: 'arrow' });
+    expect(long).toMatchObject({ text: 'long', length: 2 });
+    expect(dotted).toMatchObject({ stroke: 'dotted', arrowStart: 'cross', arrowEnd: 'circle' });
+  });
+
+  it('should take unquoted subgraph titles with spaces as a whole', () => {
+    const { model, diagnostics } = parse('flowchart TB\n  subgraph Outer Title\n    A\n  end');
+
+    expect(diagnostics).toEqual([]);
+    expect(model.subGraphs[0]).toMatchObject({ id: 'outer_title', title: 'Outer Title', nodeIds: ['A'] });
+  });
+
+  it('should report statements before the declaration', () => {
+    const { model, diagnostics } = parse('A --> B\nflowchart LR\n  C');
+
+    expect(diagnostics.map((d) => [d.code, d.line])).toEqual([['unknown-statement', 1]]);
+    expect(model.nodes.map((n) => n.id)).toEqual(['C']);
+  });
+});
@@ -0,0 +1,686 @@
+import type { DiagnosticCode } from './Diagnostic';
+import type { CstDocument, CstElement, CstNode, CstNodeKind, CstSyntaxError, CstToken } from './FlowchartCst';
+import { FlowchartLexer } from './FlowchartLexer';
+
+/**
+ * A `flowchart` / `graph` declaration at the start of some line
+ */
+const DECLARATION_PATTERN = /^[ \t]*(?:flowchart|graph)(?:-[a-z]+)?(?![\w-])/im;
+
+/**
+ * Usage shown when a keyword statement cannot be parsed
+ */
+const STATEMENT_USAGE: Record<string, string> = {
+  subgraph: 'subgraph <id> [title]',
+  direction: 'direction TB|BT|LR|RL',
+  classDef: 'classDef <name> <styles>',
+  class: 'class <id>[,<id>...] <className>',
+  style: 'style <id> <styles>',
+  linkStyle: 'linkStyle <index>[,<index>...] <styles>',
+};
+
+/**
+ * Recursive-descent parser for Mermaid flowcharts.
+ *
+ * Follows the flowchart grammar of Mermaid (statements separated by line
+ * breaks or `;`, vertex chains joined by links and `&`, nested subgraphs)
+ * and produces a lossless syntax tree: every character of the input,
+ * comments and whitespace included, ends up in exactly one token.
+ *
+ * The parser does not give up on bad input. A statement it cannot read is
+ * kept as an `error` node and reported, and parsing resumes at the next one.
+ */
+export class FlowchartCstParser {
+  private lexer = new FlowchartLexer('');
+  private errors: CstSyntaxError[] = [];
+
+  parse(text: string): CstDocument {
+    this.lexer = new FlowchartLexer(text);
+    this.errors = [];
+
+    const children: CstElement[] = [];
+    // Statements before a declaration are only errors if one follows
+    let declared = !DECLARATION_PATTERN.test(text);
+
+    const frontmatter = this.lexer.frontmatter();
+    if (frontmatter) {
+      children.push(frontmatter);
+      if (!/\n---[ \t]*$/.test(frontmatter.text)) {
+        this.errors.push({
+          code: 'invalid-statement',
+          message: 'Frontmatter is missing its closing "---"',
+          start: 0,
+          end: 3,
+        });
+      }
+    }
+
+    while (!this.lexer.atEnd) {
+      if (this.trivia(children)) continue;
+      if (!declared) {
+        const declaration = this.parseDeclaration();
+        if (declaration) {
+          children.push(declaration);
+          declared = true;
+        } else {
+          children.push(
+            this.parseError('unknown-statement', 'Unexpected statement before the flowchart declaration')
+          );
+        }
+        continue;
+      }
+      children.push(this.parseStatement(false));
+    }
+
+    return { root: this.node('document', children, 0, text.length), errors: this.errors };
+  }
+
+  /**
+   * Consume one trivia token into `children`
+   */
+  private trivia(children: CstElement[]): boolean {
+    const token =
+      this.lexer.whitespace() ?? this.lexer.newline() ?? this.lexer.semicolon() ?? this.lexer.comment();
+    if (token) children.push(token);
+    return !!token;
+  }
+
+  /**
+   * `flowchart LR` / `graph TD`
+   */
+  private parseDeclaration(): CstNode | null {
+    const keyword = this.lexer.declarationKeyword();
+    if (!keyword) return null;
+    const children: CstElement[] = [keyword];
+    const save = this.lexer.offset;
+    const space = this.lexer.whitespace();
+    const direction = space ? this.lexer.direction() : null;
+    if (space && direction) {
+      children.push(space, direction);
+    } else {
+      this.lexer.reset(save);
+    }
+    // Mermaid rejects anything else on the declaration line
+    this.pushRest(children, 'unknown');
+    const rest = children[children.length - 1];
+    if (rest.type === 'token' && rest.kind === 'unknown') {
+      const message = direction
+        ? `Unexpected "${rest.text}" after the flowchart declaration`
+        : `Invalid direction "${rest.text}", expected TB, TD, BT, RL or LR`;
+      this.error('invalid-statement', message, rest);
+    }
+    return this.node('declaration', children);
+  }
+
+  /**
+   * One statement. Inside a subgraph the caller handles `end`.
+   */
+  private parseStatement(inSubgraph: boolean): CstNode {
+    const accessibility = this.lexer.accessibilityKeyword();
+    if (accessibility) return this.parseAccessibility(accessibility);
+
+    const keyword = this.lexer.statementKeyword();
+    if (keyword) {
+      switch (keyword.text) {
+        case 'subgraph':
+          return this.parseSubgraph(keyword);
+        case 'end':
+          if (!inSubgraph) this.error('unexpected-end', '"end" without a matching "subgraph"', keyword);
+          return this.node('end', [keyword]);
+        case 'click':
+          return this.parseClick(keyword);
+        default:
+          return this.parseKeywordStatement(keyword);
+      }
+    }
+
+    const start = this.lexer.offset;
+    const errors = this.errors.length;
+    const statement = this.parseVertexStatement();
+    if (statement && this.atStatementEnd()) return statement;
+
+    this.errors.length = errors;
+    this.lexer.reset(start);
+    const rest = this.lexer.rest() ?? this.lexer.unknownChar()!;
+    this.error('unknown-statement', `Unrecognized statement "${rest.text}"`, rest);
+    return this.node('error', [rest]);
+  }
+
+  /**
+   * Rest of the statement as an error node
+   */
+  private parseError(code: DiagnosticCode, message: string): CstNode {
+    const rest = this.lexer.rest() ?? this.lexer.unknownChar()!;
+    this.error(code, message, rest);
+    return this.node('error', [rest]);
+  }
+
+  /**
+   * `subgraph <header>`, the nested statements and the closing `end`
+   */
+  private parseSubgraph(keyword: CstToken): CstNode {
+    const children: CstElement[] = [keyword];
+    if (!this.parseSubgraphHeader(children)) {
+      this.pushRest(children, 'unknown');
+      this.invalid('subgraph', children);
+    }
+
+    while (!this.lexer.atEnd) {
+      if (this.trivia(children)) continue;
+      const statement = this.parseStatement(true);
+      children.push(statement);
+      if (statement.kind === 'end') break;
+    }
+    return this.node('subgraph', children, keyword.start, this.lexer.offset);
+  }
+
+  /**
+   * `id`, `id[title]`, `id [title]`, `"title"` or `Title with spaces`
+   */
+  private parseSubgraphHeader(children: CstElement[]): boolean {
+    const start = this.lexer.offset;
+    const space = this.lexer.whitespace();
+    if (!space) return false;
+    const header: CstElement[] = [space];
+
+    const title = this.lexer.string();
+    if (title) {
+      header.push(title);
+    } else {
+      const id = this.lexer.nodeId();
+      if (!id) {
+        this.lexer.reset(start);
+        return false;
+      }
+      header.push(id);
+      const save = this.lexer.offset;
+      const gap = this.lexer.whitespace();
+      const shape = this.parseShape(['[']);
+      if (shape) {
+        if (gap) header.push(gap);
+        header.push(shape);
+      } else {
+        this.lexer.reset(save);
+        if (gap && !this.lexer.atStatementEnd()) {
+          // Mermaid takes unquoted titles with spaces as a whole
+          this.lexer.reset(id.start);
+          header.splice(1, 1, this.lexer.rest('text')!);
+        }
+      }
+    }
+
+    if (!this.atStatementEnd()) {
+      this.lexer.reset(start);
+      return false;
+    }
+    children.push(...header);
+    return true;
+  }
+
+  /**
+   * `accTitle: text`, `accDescr: text` or `accDescr { text }`. The block
+   * form may span lines and ends at the first `}`.
+   */
+  private parseAccessibility(keyword: CstToken): CstNode {
+    const children: CstElement[] = [keyword];
+    const push = (token: CstToken | null): void => {
+      if (token) children.push(token);
+    };
+
+    push(this.lexer.whitespace());
+    const colon = this.lexer.colon();
+    if (colon) {
+      children.push(colon);
+      push(this.lexer.whitespace());
+      push(this.lexer.lineText());
+    } else {
+      children.push(this.lexer.blockOpen()!);
+      push(this.lexer.blockText());
+      const close = this.lexer.blockClose();
+      if (close) {
+        children.push(close);
+      } else {
+        this.error('invalid-statement', 'Missing "}" at the end of "accDescr"', keyword);
+      }
+    }
+    return this.node(keyword.text as CstNodeKind, children);
+  }
+
+  /**
+   * `direction`, `classDef`, `class`, `style` and `linkStyle`
+   */
+  private parseKeywordStatement(keyword: CstToken): CstNode {
+    const children: CstElement[] = [keyword];
+    const parsed = this.parseArguments(keyword.text, children);
+    if (!parsed || !this.atStatementEnd()) {
+      this.lexer.reset(keyword.end);
+      children.length = 1;
+      this.pushRest(children, 'unknown');
+      this.invalid(keyword.text, children);
+    }
+    return this.node(keyword.text as CstNodeKind, children);
+  }
+
+  private parseArguments(keyword: string, children: CstElement[]): boolean {
+    const push = (token: CstToken | CstNode | null): boolean => {
+      if (token) children.push(token);
+      return !!token;
+    };
+
+    switch (keyword) {
+      case 'direction':
+        return push(this.lexer.whitespace()) && push(this.lexer.direction());
+      case 'classDef':
+        return (
+          push(this.lexer.whitespace()) &&
+          push(this.lexer.className()) &&
+          push(this.lexer.whitespace()) &&
+          push(this.parseStyles())
+        );
+      case 'class':
+        return (
+          push(this.lexer.whitespace()) &&
+          this.parseList(children, () => this.lexer.nodeId()) &&
+          push(this.lexer.whitespace()) &&
+          push(this.lexer.className())
+        );
+      case 'style':
+        return (
+          push(this.lexer.whitespace()) &&
+          push(this.lexer.nodeId()) &&
+          push(this.lexer.whitespace()) &&
+          push(this.parseStyles())
+        );
+      case 'linkStyle':
+        return (
+          push(this.lexer.whitespace()) &&
+          (push(this.lexer.word('default')) || this.parseList(children, () => this.lexer.number())) &&
+          push(this.lexer.whitespace()) &&
+          push(this.parseStyles())
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Comma separated items, with optional spaces around the commas
+   */
+  private parseList(children: CstElement[], item: () => CstToken | null): boolean {
+    const first = item();
+    if (!first) return false;
+    children.push(first);
+    for (;;) {
+      const save = this.lexer.offset;
+      const separator: CstElement[] = [];
+      const before = this.lexer.whitespace();
+      const comma = this.lexer.comma();
+      const after = comma ? this.lexer.whitespace() : null;
+      const next = comma ? item() : null;
+      if (!next) {
+        this.lexer.reset(save);
+        return true;
+      }
+      for (const token of [before, comma, after]) if (token) separator.push(token);
+      children.push(...separator, next);
+    }
+  }
+
+  /**
+   * `fill:#f9f,stroke:#333` up to the end of the statement
+   */
+  private parseStyles(): CstNode | null {
+    const children: CstElement[] = [];
+    const first = this.lexer.style();
+    if (!first) return null;
+    children.push(first);
+    while (!this.lexer.atStatementEnd()) {
+      const comma = this.lexer.comma();
+      if (!comma) break;
+      children.push(comma);
+      const space = this.lexer.whitespace();
+      if (space) children.push(space);
+      const style = this.lexer.style();
+      if (style) children.push(style);
+    }
+    return this.node('styles', children);
+  }
+
+  /**
+   * `click <id> <arguments...>`; the arguments are checked by the model builder
+   */
+  private parseClick(keyword: CstToken): CstNode {
+    const children: CstElement[] = [keyword];
+    const space = this.lexer.whitespace();
+    const id = space ? this.lexer.nodeId() : null;
+    if (space && id) {
+      children.push(space, id);
+      let previous = id;
+      for (;;) {
+        const save = this.lexer.offset;
+        const gap = this.lexer.whitespace();
+        const call = previous.kind === 'word' && previous.text === 'call';
+        const argument = gap
+          ? this.lexer.string() ?? (call ? this.lexer.callExpression() : null) ?? this.lexer.argument()
+          : null;
+        if (!gap || !argument) {
+          this.lexer.reset(save);
+          break;
+        }
+        children.push(gap, argument);
+        previous = argument;
+      }
+    } else {
+      this.lexer.reset(keyword.end);
+    }
+    this.pushRest(children, 'unknown');
+    return this.node('click', children);
+  }
+
+  /**
+   * Vertex groups joined by links: `A[Start] & B --> C -- text --> D`
+   */
+  private parseVertexStatement(): CstNode | null {
+    const children: CstElement[] = [];
+    let group = this.parseVertexGroup();
+    if (group) children.push(group);
+
+    for (;;) {
+      const save = this.lexer.offset;
+      const space = this.lexer.whitespace();
+      const link = this.parseLink();
+      if (!link) {
+        this.lexer.reset(save);
+        break;
+      }
+      if (space) children.push(space);
+      children.push(link);
+      const operator = link.children.find(
+        (child): child is CstToken => child.type === 'token' && (child.kind === 'link' || child.kind === 'linkStart')
+      )!;
+      if (!group) this.error('incomplete-edge', 'Edge is missing its source node', operator);
+
+      const beforeTarget = this.lexer.offset;
+      const gap = this.lexer.whitespace();
+      group = this.parseVertexGroup();
+      if (!group) {
+        this.lexer.reset(beforeTarget);
+        this.error('incomplete-edge', 'Edge is missing its target node', operator);
+        break;
+      }
+      if (gap) children.push(gap);
+      children.push(group);
+    }
+
+    if (children.length === 0) return null;
+    return this.node('vertexStatement', children);
+  }
+
+  /**
+   * Vertices joined by `&`
+   */
+  private parseVertexGroup(): CstNode | null {
+    const first = this.parseVertex();
+    if (!first) return null;
+    const children: CstElement[] = [first];
+    for (;;) {
+      const save = this.lexer.offset;
+      const before = this.lexer.whitespace();
+      const ampersand = this.lexer.ampersand();
+      const after = ampersand ? this.lexer.whitespace() : null;
+      const vertex = ampersand ? this.parseVertex() : null;
+      if (!vertex) {
+        this.lexer.reset(save);
+        break;
+      }
+      for (const token of [before, ampersand, after]) if (token) children.push(token);
+      children.push(vertex);
+    }
+    return this.node('vertexGroup', children);
+  }
+
+  /**
+   * `id`, optionally followed by a shape or `@{}` block and `:::className`.
+   * Mermaid writes the class before the `@{}` block (`A:::hot@{ ... }`);
+   * both orders are accepted.
+   */
+  private parseVertex(): CstNode | null {
+    // A link with an ID is not a vertex
+    const start = this.lexer.offset;
+    if (this.lexer.edgeId()) {
+      this.lexer.reset(start);
+      return null;
+    }
+    const id = this.lexer.nodeId();
+    if (!id) return null;
+    const children: CstElement[] = [id];
+
+    const shape = this.parseShape();
+    if (shape) children.push(shape);
+    this.parseClassShorthand(children);
+    const properties = shape ? null : this.parseProperties();
+    if (properties) {
+      children.push(properties);
+      // Kept in the tree, but Mermaid only reads `:::` before the block
+      const marker = this.lexer.offset;
+      if (this.parseClassShorthand(children)) {
+        this.error(
+          'invalid-statement',
+          'Class shorthand ":::" must come before the "@{ ... }" block',
+          { start: marker, end: this.lexer.offset }
+        );
+      }
+    }
+    return this.node('vertex', children);
+  }
+
+  /**
+   * `:::className` after a vertex
+   */
+  private parseClassShorthand(children: CstElement[]): boolean {
+    const save = this.lexer.offset;
+    const marker = this.lexer.classMarker();
+    const className = marker ? this.lexer.className() : null;
+    if (marker && className) {
+      children.push(marker, className);
+      return true;
+    }
+    this.lexer.reset(save);
+    return false;
+  }
+
+  /**
+   * `[text]`, `(("text"))`, `[/text\]`, ... Openers that share a prefix
+   * are tried longest first, so `[/path]` still reads as a rectangle.
+   */
+  private parseShape(openers = this.lexer.shapeOpeners()): CstNode | null {
+    const start = this.lexer.offset;
+    for (const opener of openers) {
+      this.lexer.reset(start);
+      const open = this.lexer.shapeOpen(opener);
+      if (!open) continue;
+
+      const afterOpen = this.lexer.offset;
+      let text = this.lexer.string();
+      let close = text ? this.lexer.shapeClose(opener) : null;
+      if (!close) {
+        this.lexer.reset(afterOpen);
+        text = this.lexer.shapeText(opener);
+        close = text ? this.lexer.shapeClose(opener) : null;
+      }
+      if (text && close) return this.node('shape', [open, text, close]);
+    }
+    this.lexer.reset(start);
+    return null;
+  }
+
+  /**
+   * `@{ key: value, ... }`, which may span lines
+   */
+  private parseProperties(): CstNode | null {
+    const start = this.lexer.offset;
+    const open = this.lexer.propertiesOpen();
+    if (!open) return null;
+    const children: CstElement[] = [open];
+
+    for (;;) {
+      const space = this.lexer.blockWhitespace();
+      if (space) children.push(space);
+      const close = this.lexer.propertiesClose();
+      if (close) {
+        children.push(close);
+        return this.node('properties', children);
+      }
+      const comma = this.lexer.comma();
+      if (comma) {
+        children.push(comma);
+        continue;
+      }
+      const property = this.parseProperty();
+      if (!property) {
+        this.lexer.reset(start);
+        return null;
+      }
+      children.push(property);
+    }
+  }
+
+  /**
+   * `key: value`, or a lone key that the model builder reports
+   */
+  private parseProperty(): CstNode | null {
+    const key = this.lexer.propertyKey();
+    if (!key) return null;
+    const children: CstElement[] = [key];
+    const save = this.lexer.offset;
+    const before = this.lexer.blockWhitespace();
+    const colon = this.lexer.colon();
+    if (!colon) {
+      this.lexer.reset(save);
+      return this.node('property', children);
+    }
+    if (before) children.push(before);
+    children.push(colon);
+    const after = this.lexer.blockWhitespace();
+    if (after) children.push(after);
+    const value = this.lexer.propertyValue();
+    if (value) children.push(value);
+    return this.node('property', children);
+  }
+
+  /**
+   * `-->`, `e1@-->|text|`, `-- text -->`, `== "text" ==>`, ...
+   */
+  private parseLink(): CstNode | null {
+    const start = this.lexer.offset;
+    const children: CstElement[] = [];
+    const edgeId = this.lexer.edgeId();
+    if (edgeId) children.push(edgeId);
+
+    const operator = this.lexer.link();
+    if (operator) {
+      children.push(operator);
+      const save = this.lexer.offset;
+      const space = this.lexer.whitespace();
+      const open = this.lexer.pipe();
+      const text = open ? this.lexer.pipeText() : null;
+      const close = open && (text || this.lexer.peek() === '|') ? this.lexer.pipe() : null;
+      if (open && close) {
+        if (space) children.push(space);
+        children.push(open);
+        if (text) children.push(text);
+        children.push(close);
+      } else {
+        this.lexer.reset(save);
+      }
+      return this.node('link', children);
+    }
+
+    const opener = this.lexer.linkStart();
+    if (opener) {
+      const inline = this.parseLinkText(opener);
+      if (inline) {
+        children.push(opener, ...inline);
+        return this.node('link', children);
+      }
+      // Nothing closes it on this line: a short open link such as `--`
+      this.lexer.reset(opener.start);
+      const open = this.lexer.openLink();
+      if (open) {
+        children.push(open);
+        return this.node('link', children);
+      }
+    }
+
+    this.lexer.reset(start);
+    return null;
+  }
+
+  /**
+   * Inline text and closing half of `-- text -->`
+   */
+  private parseLinkText(opener: CstToken): CstElement[] | null {
+    const children: CstElement[] = [];
+    const before = this.lexer.whitespace();
+    if (before) children.push(before);
+
+    const quoted = this.lexer.string();
+    const text = quoted ?? this.lexer.linkText(opener.text);
+    if (!text) return null;
+    children.push(text);
+    const after = this.lexer.whitespace();
+    if (after) children.push(after);
+    const close = this.lexer.linkEnd(opener.text);
+    if (!close) return null;
+    children.push(close);
+    return children;
+  }
+
+  /**
+   * Whether only trailing whitespace is left in the statement
+   */
+  private atStatementEnd(): boolean {
+    const save = this.lexer.offset;
+    this.lexer.whitespace();
+    const atEnd = this.lexer.atStatementEnd();
+    this.lexer.reset(save);
+    return atEnd;
+  }
+
+  private pushRest(children: CstElement[], kind: 'unknown' | 'text'): void {
+    const save = this.lexer.offset;
+    const space = this.lexer.whitespace();
+    const rest = this.lexer.rest(kind);
+    if (rest) {
+      if (space) children.push(space);
+      children.push(rest);
+    } else {
+      this.lexer.reset(save);
+    }
+  }
+
+  private invalid(keyword: string, children: CstElement[]): void {
+    const first = children[0];
+    const last = children[children.length - 1];
+    this.errors.push({
+      code: 'invalid-statement',
+      message: `Invalid "${keyword}" statement, expected: ${STATEMENT_USAGE[keyword]}`,
+      start: first.start,
+      end: last.end,
+    });
+  }
+
+  private error(code: DiagnosticCode, message: string, span: { start: number; end: number }): void {
+    this.errors.push({ code, message, start: span.start, end: span.end });
+  }
+
+  private node(kind: CstNodeKind, children: CstElement[], start?: number, end?: number): CstNode {
+    return {
+      type: 'node',
+      kind,
+      children,
+      start: start ?? children[0]?.start ?? this.lexer.offset,
+      end: end ?? children[children.length - 1]?.end ?? this.lexer.offset,
+    };
+  }
+}
@@ -0,0 +1,525 @@
+import type { CstToken, FlowchartTokenKind } from './FlowchartCst';
+import { SHAPE_PATTERNS, DIRECTIONS } from './MermaidSyntax';
+
+/**
+ * Link operators, as in Mermaid's lexer. Leading `x`, `o` or `<` marks the
+ * start arrow, the last character the end arrow.
+ */
+const LINK_PATTERNS = [/[xo<]?-{2,}[-xo>]/y, /[xo<]?={2,}[=xo>]/y, /[xo<]?-\.+-[xo>]?/y, /~{3,}/y];
+
+/**
+ * Opening halves of links with inline text (`-- text -->`)
+ */
+const LINK_START_PATTERN = /[xo<]?(?:--|==|-\.)/y;
+
+/**
+ * Closing halves of links with inline text, per opening stroke
+ */
+const LINK_END_PATTERNS: Record<string, RegExp> = {
+  '--': /-{2,}[-xo>]/y,
+  '==': /={2,}[=xo>]/y,
+  '-.': /-?\.+-[xo>]?/y,
+};
+
+/**
+ * Shape openers, longest first so `((` wins over `(`
+ */
+const SHAPE_OPENERS = [...new Set(SHAPE_PATTERNS.map((p) => p.start))].sort((a, b) => b.length - a.length);
+
+const STATEMENT_KEYWORDS = new Set(['subgraph', 'end', 'direction', 'classDef', 'class', 'style', 'linkStyle', 'click']);
+
+const BRACKET_PAIRS: Record<string, string> = { '[': ']', '(': ')', '{': '}' };
+
+/**
+ * Context-sensitive lexer for Mermaid flowcharts.
+ *
+ * Mermaid's own lexer switches states (labels, edge text, `@{}` blocks),
+ * so instead of producing one token stream up front this lexer is driven
+ * by the parser: each method tries to read one kind of token at the
+ * current position and returns null, without moving, when it does not match.
+ */
+export class FlowchartLexer {
+  private position = 0;
+
+  constructor(readonly text: string) {}
+
+  get offset(): number {
+    return this.position;
+  }
+
+  /**
+   * Move back to an earlier offset (parser backtracking)
+   */
+  reset(offset: number): void {
+    this.position = offset;
+  }
+
+  get atEnd(): boolean {
+    return this.position >= this.text.length;
+  }
+
+  peek(distance = 0): string {
+    return this.text[this.position + distance] ?? '';
+  }
+
+  startsWith(value: string): boolean {
+    return this.text.startsWith(value, this.position);
+  }
+
+  /**
+   * Whether the current statement ends here: line break, `;`, comment or end of input
+   */
+  atStatementEnd(): boolean {
+    const char = this.peek();
+    return char === '' || char === '\n' || char === ';' || (char === '\r' && this.peek(1) === '\n') || this.startsWith('%%');
+  }
+
+  /**
+   * Spaces and tabs (not line breaks)
+   */
+  whitespace(): CstToken | null {
+    let end = this.position;
+    while (end < this.text.length && /[ \t\f\v\r]/.test(this.text[end]) && !this.isLineBreak(end)) end++;
+    return this.take('whitespace', end);
+  }
+
+  newline(): CstToken | null {
+    if (this.peek() === '\n') return this.take('newline', this.position + 1);
+    if (this.peek() === '\r' && this.peek(1) === '\n') return this.take('newline', this.position + 2);
+    return null;
+  }
+
+  semicolon(): CstToken | null {
+    return this.peek() === ';' ? this.take('semicolon', this.position + 1) : null;
+  }
+
+  /**
+   * `%% comment` up to the end of the line, or `%%{ directive }%%` up to
+   * the end of the line it closes on
+   */
+  comment(): CstToken | null {
+    if (!this.startsWith('%%')) return null;
+    if (!this.startsWith('%%{')) return this.take('comment', this.lineEnd());
+    const close = this.text.indexOf('}%%', this.position + 3);
+    let end = close < 0 ? this.position : close + 3;
+    while (end < this.text.length && !this.isLineBreak(end)) end++;
+    return this.take('directive', end);
+  }
+
+  /**
+   * YAML frontmatter between `---` lines, only at the start of the document.
+   * Without a closing `---` the block runs to the end of the input.
+   */
+  frontmatter(): CstToken | null {
+    if (this.position !== 0 || !/^---[ \t]*\r?(\n|$)/.test(this.text)) return null;
+    const closing = /\n---[ \t]*(?=\r?\n|$)/g;
+    closing.lastIndex = 3;
+    const match = closing.exec(this.text);
+    return this.take('frontmatter', match ? match.index + match[0].length : this.text.length);
+  }
+
+  /**
+   * A keyword that starts a statement, if one is written here
+   */
+  statementKeyword(): CstToken | null {
+    const word = this.wordAt(this.position);
+    if (!STATEMENT_KEYWORDS.has(word)) return null;
+    const next = this.text[this.position + word.length] ?? '';
+    const atBoundary = next === '' || /[\s;]/.test(next);
+    if (!atBoundary) return null;
+    // `end` only counts when nothing else follows it in the statement
+    if (word === 'end') {
+      const after = this.position + word.length;
+      const rest = this.text.slice(after, this.statementEnd(after));
+      if (rest.trim()) return null;
+    }
+    // `class A x` needs arguments; a lone `class` is a node ID
+    if (word !== 'end' && word !== 'subgraph' && word !== 'classDef' && !/[ \t]/.test(next)) return null;
+    return this.take('keyword', this.position + word.length);
+  }
+
+  /**
+   * `accTitle` before a `:`, or `accDescr` before a `:` or `{`
+   */
+  accessibilityKeyword(): CstToken | null {
+    return this.takePattern('keyword', /accTitle(?=[ \t]*:)|accDescr(?=[ \t]*[:{])/y);
+  }
+
+  /**
+   * Text of a single-line `accTitle:` / `accDescr:`. As in Mermaid it runs
+   * to the end of the line, `;` and `%%` included.
+   */
+  lineText(): CstToken | null {
+    let end = this.lineEnd();
+    while (end > this.position && /[ \t\r]/.test(this.text[end - 1])) end--;
+    return this.take('text', end);
+  }
+
+  blockOpen(): CstToken | null {
+    return this.peek() === '{' ? this.take('blockOpen', this.position + 1) : null;
+  }
+
+  blockClose(): CstToken | null {
+    return this.peek() === '}' ? this.take('blockClose', this.position + 1) : null;
+  }
+
+  /**
+   * Text of a multi-line `accDescr { ... }` up to the closing `}`, or to
+   * the end of the input when it is missing
+   */
+  blockText(): CstToken | null {
+    const close = this.text.indexOf('}', this.position);
+    return this.take('text', close === -1 ? this.text.length : close);
+  }
+
+  /**
+   * `flowchart` / `graph`, optionally with a renderer suffix (`flowchart-elk`)
+   */
+  declarationKeyword(): CstToken | null {
+    const match = /(?:flowchart|graph)(?:-[a-z]+)?(?![\w-])/iy;
+    return this.takePattern('keyword', match);
+  }
+
+  /**
+   * A literal keyword such as `default`
+   */
+  word(value: string, kind: FlowchartTokenKind = 'keyword'): CstToken | null {
+    if (this.wordAt(this.position) !== value) return null;
+    return this.take(kind, this.position + value.length);
+  }
+
+  direction(): CstToken | null {
+    const word = this.wordAt(this.position);
+    if (!DIRECTIONS.includes(word.toUpperCase() as (typeof DIRECTIONS)[number])) return null;
+    return this.take('direction', this.position + word.length);
+  }
+
+  /**
+   * A node ID. Stops before shapes, `@{`, `:::`, `&` and anything that starts a link.
+   */
+  nodeId(kind: FlowchartTokenKind = 'identifier'): CstToken | null {
+    let end = this.position;
+    while (end < this.text.length && this.isIdChar(end)) end++;
+    return this.take(kind, end);
+  }
+
+  /**
+   * Class name after `:::` or in class statements
+   */
+  className(): CstToken | null {
+    return this.takePattern('className', /[\p{L}\p{N}_-]+/uy);
+  }
+
+  /**
+   * An explicit edge ID: `e1@` directly followed by a link
+   */
+  edgeId(): CstToken | null {
+    const start = this.position;
+    let end = start;
+    while (end < this.text.length && this.isIdChar(end)) end++;
+    if (end === start || this.text[end] !== '@') return null;
+    this.position = end + 1;
+    const followedByLink = this.matchLink() !== null;
+    this.position = start;
+    return followedByLink ? this.take('edgeId', end + 1) : null;
+  }
+
+  /**
+   * A complete link operator
+   */
+  link(): CstToken | null {
+    const end = this.matchLink();
+    return end === null ? null : this.take('link', end);
+  }
+
+  /**
+   * Opening half of a link with inline text
+   */
+  linkStart(): CstToken | null {
+    return this.takePattern('linkStart', LINK_START_PATTERN);
+  }
+
+  /**
+   * Closing half of a link opened by `opener` (`--`, `==` or `-.`)
+   */
+  linkEnd(opener: string): CstToken | null {
+    const pattern = LINK_END_PATTERNS[opener.replace(/^[xo<]/, '')];
+    return pattern ? this.takePattern('link', pattern) : null;
+  }
+
+  /**
+   * Inline link text, up to (not including) the whitespace before the closing half
+   */
+  linkText(opener: string): CstToken | null {
+    const pattern = LINK_END_PATTERNS[opener.replace(/^[xo<]/, '')];
+    if (!pattern) return null;
+    let end = this.position;
+    while (end < this.text.length && !this.isLineBreak(end)) {
+      pattern.lastIndex = end;
+      if (pattern.test(this.text)) break;
+      end++;
+    }
+    if (end >= this.text.length || this.isLineBreak(end)) return null;
+    while (end > this.position && /[ \t]/.test(this.text[end - 1])) end--;
+    return this.take('text', end);
+  }
+
+  /**
+   * A link opening without text or closing half (`--`, `==`, `-.`)
+   */
+  openLink(): CstToken | null {
+    return this.takePattern('link', /[xo<]?(?:--|==|-\.+)/y);
+  }
+
+  pipe(): CstToken | null {
+    return this.peek() === '|' ? this.take('pipe', this.position + 1) : null;
+  }
+
+  /**
+   * Text between pipes, up to the closing `|` on the same line. Pipes
+   * inside double quotes belong to the text, and quotes may span lines.
+   */
+  pipeText(): CstToken | null {
+    let end = this.position;
+    while (end < this.text.length && this.text[end] !== '|' && !this.isLineBreak(end)) {
+      const close = this.text[end] === '"' ? this.text.indexOf('"', end + 1) : -1;
+      end = close === -1 ? end + 1 : close + 1;
+    }
+    return this.text[end] === '|' ? this.take('text', end) : null;
+  }
+
+  /**
+   * Shape openers written here (`[`, `((`, `{{`, ...), longest first.
+   * `[/` may still turn out to be a `[` label starting with `/`.
+   */
+  shapeOpeners(): string[] {
+    return SHAPE_OPENERS.filter((start) => this.startsWith(start));
+  }
+
+  shapeOpen(opener: string): CstToken | null {
+    return this.startsWith(opener) ? this.take('shapeOpen', this.position + opener.length) : null;
+  }
+
+  /**
+   * One of the closers that can end a shape opened with `opener`
+   */
+  shapeClose(opener: string): CstToken | null {
+    const closer = this.closersFor(opener).find((end) => this.startsWith(end));
+    return closer ? this.take('shapeClose', this.position + closer.length) : null;
+  }
+
+  /**
+   * Unquoted label text up to a closer of `opener`. Brackets inside the
+   * label nest, so `A[f(x)]` keeps `f(x)` as its text.
+   */
+  shapeText(opener: string): CstToken | null {
+    const closers = this.closersFor(opener);
+    const stack: string[] = [];
+    let end = this.position;
+    while (end < this.text.length && !this.isLineBreak(end)) {
+      const char = this.text[end];
+      if (stack.length === 0 && closers.some((closer) => this.text.startsWith(closer, end))) {
+        return this.take('text', end);
+      }
+      if (BRACKET_PAIRS[char]) {
+        stack.push(BRACKET_PAIRS[char]);
+      } else if (char === stack[stack.length - 1]) {
+        stack.pop();
+      }
+      end++;
+    }
+    return null;
+  }
+
+  /**
+   * A double-quoted string, which may span lines
+   */
+  string(): CstToken | null {
+    if (this.peek() !== '"') return null;
+    const close = this.text.indexOf('"', this.position + 1);
+    return close === -1 ? null : this.take('string', close + 1);
+  }
+
+  ampersand(): CstToken | null {
+    return this.peek() === '&' ? this.take('ampersand', this.position + 1) : null;
+  }
+
+  classMarker(): CstToken | null {
+    return this.startsWith(':::') ? this.take('classMarker', this.position + 3) : null;
+  }
+
+  propertiesOpen(): CstToken | null {
+    return this.startsWith('@{') ? this.take('propertiesOpen', this.position + 2) : null;
+  }
+
+  propertiesClose(): CstToken | null {
+    return this.peek() === '}' ? this.take('propertiesClose', this.position + 1) : null;
+  }
+
+  /**
+   * Whitespace inside `@{}` blocks, which may span lines
+   */
+  blockWhitespace(): CstToken | null {
+    return this.takePattern('whitespace', /\s+/y);
+  }
+
+  /**
+   * Property key inside `@{}`
+   */
+  propertyKey(): CstToken | null {
+    return this.takePattern('propertyKey', /[^\s:,}]+/y);
+  }
+
+  colon(): CstToken | null {
+    return this.peek() === ':' ? this.take('colon', this.position + 1) : null;
+  }
+
+  comma(): CstToken | null {
+    return this.peek() === ',' ? this.take('comma', this.position + 1) : null;
+  }
+
+  /**
+   * Property value inside `@{}`: a quoted string or text up to `,` or `}`
+   */
+  propertyValue(): CstToken | null {
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      const close = this.text.indexOf(quote, this.position + 1);
+      if (close !== -1) return this.take('propertyValue', close + 1);
+    }
+    let end = this.position;
+    while (end < this.text.length && !/[,}\n]/.test(this.text[end])) end++;
+    while (end > this.position && /\s/.test(this.text[end - 1])) end--;
+    return this.take('propertyValue', end);
+  }
+
+  /**
+   * One CSS declaration of a style list, up to `,` or the end of the statement
+   */
+  style(): CstToken | null {
+    let end = this.position;
+    while (end < this.text.length && this.text[end] !== ',' && !this.isStatementEnd(end)) end++;
+    while (end > this.position && /[ \t\r]/.test(this.text[end - 1])) end--;
+    return this.take('style', end);
+  }
+
+  number(): CstToken | null {
+    return this.takePattern('number', /\d+/y);
+  }
+
+  /**
+   * A bare argument up to whitespace or the end of the statement
+   */
+  argument(): CstToken | null {
+    let end = this.position;
+    while (end < this.text.length && !/\s/.test(this.text[end]) && !this.isStatementEnd(end)) end++;
+    return this.take('word', end);
+  }
+
+  /**
+   * The function of `click A call fn(args)`. The argument list runs to the
+   * first `)`, as in Mermaid, so quoted arguments may contain spaces.
+   */
+  callExpression(): CstToken | null {
+    return this.takePattern('word', /[A-Za-z_$][\w$.]*(?:[ \t]*\([^)\n]*\))?/y);
+  }
+
+  /**
+   * A single character the grammar cannot place
+   */
+  unknownChar(): CstToken | null {
+    return this.take('unknown', this.position + 1);
+  }
+
+  /**
+   * Everything up to the end of the current statement, quotes included
+   */
+  rest(kind: FlowchartTokenKind = 'unknown'): CstToken | null {
+    return this.take(kind, this.statementEnd(this.position));
+  }
+
+  /**
+   * Offset where the statement containing `from` ends. `;` and `%%`
+   * inside double quotes do not end it.
+   */
+  statementEnd(from: number): number {
+    let i = from;
+    while (i < this.text.length && !this.isStatementEnd(i)) {
+      if (this.text[i] === '"') {
+        const close = this.text.indexOf('"', i + 1);
+        if (close !== -1) {
+          i = close + 1;
+          continue;
+        }
+      }
+      i++;
+    }
+    while (i > from && /[ \t\r]/.test(this.text[i - 1])) i--;
+    return i;
+  }
+
+  /**
+   * Offset of the end of the current line (before the line break)
+   */
+  lineEnd(): number {
+    let end = this.position;
+    while (end < this.text.length && !this.isLineBreak(end)) end++;
+    return end;
+  }
+
+  private isLineBreak(index: number): boolean {
+    const char = this.text[index];
+    return char === '\n' || (char === '\r' && this.text[index + 1] === '\n');
+  }
+
+  private isStatementEnd(index: number): boolean {
+    const char = this.text[index];
+    return this.isLineBreak(index) || char === ';' || this.text.startsWith('%%', index);
+  }
+
+  /**
+   * Characters allowed in node IDs. `-`, `=` and `~` end an ID where they
+   * start a link, as in Mermaid's lexer.
+   */
+  private isIdChar(index: number): boolean {
+    const char = this.text[index];
+    const next = this.text[index + 1] ?? '';
+    if (/[\s[\](){}<>|"&;,@`]/.test(char)) return false;
+    if (char === ':' && this.text.startsWith(':::', index)) return false;
+    if (char === '%' && next === '%') return false;
+    if (char === '-' && /[-.>]/.test(next)) return false;
+    if (char === '=' && next === '=') return false;
+    if (char === '~' && next === '~') return false;
+    return true;
+  }
+
+  private matchLink(): number | null {
+    for (const pattern of LINK_PATTERNS) {
+      pattern.lastIndex = this.position;
+      const match = pattern.exec(this.text);
+      if (match) return this.position + match[0].length;
+    }
+    return null;
+  }
+
+  private closersFor(opener: string): string[] {
+    return SHAPE_PATTERNS.filter((pattern) => pattern.start === opener).map((pattern) => pattern.end);
+  }
+
+  private wordAt(index: number): string {
+    return /[A-Za-z]+/y.exec(this.text.slice(index))?.[0] ?? '';
+  }
+
+  private takePattern(kind: FlowchartTokenKind, pattern: RegExp): CstToken | null {
+    pattern.lastIndex = this.position;
+    const match = pattern.exec(this.text);
+    return match ? this.take(kind, this.position + match[0].length) : null;
+  }
+
+  private take(kind: FlowchartTokenKind, end: number): CstToken | null {
+    if (end <= this.position) return null;
+    const token: CstToken = { type: 'token', kind, text: this.text.slice(this.position, end), start: this.position, end };
+    this.position = end;
+    return token;
+  }
+}
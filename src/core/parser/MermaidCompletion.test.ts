@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { MermaidCompletion } from './MermaidCompletion';
+
+describe('MermaidCompletion', () => {
+  const completion = new MermaidCompletion();
+  const doc = 'flowchart LR\n  Alpha --> Beta\n  classDef hot fill:#f00\n';
+  const complete = (line: string, explicit = false) => {
+    const text = doc + line;
+    return completion.complete(text, text.length, { explicit });
+  };
+  const labels = (line: string, explicit = false) => complete(line, explicit)?.items.map((i) => i.label);
+
+  it('should complete node IDs and keywords at the start of a statement', () => {
+    expect(labels('  Al')).toEqual(['Alpha']);
+    expect(labels('  cl')).toEqual(['classDef', 'class', 'click']);
+  });
+
+  it('should replace only the typed prefix', () => {
+    const result = complete('  Alpha --> B');
+    const text = doc + '  Alpha --> B';
+
+    expect(result?.items.map((i) => i.label)).toEqual(['Beta']);
+    expect(text.slice(result!.from, result!.to)).toBe('B');
+  });
+
+  it('should complete edge targets after operators and &', () => {
+    expect(labels('  Alpha -->|go| B')).toEqual(['Beta']);
+    expect(labels('  Alpha & B')).toEqual(['Beta']);
+    expect(labels('  Alpha --> ', true)).toEqual(['Alpha', 'Beta']);
+    expect(labels('  Alpha & ', true)).toEqual(['Alpha', 'Beta']);
+  });
+
+  it('should complete edge operators after a node', () => {
+    expect(labels('  Alpha -')).toContain('-.->');
+    expect(labels('  Alpha =')).toEqual(['==>', '===']);
+    expect(complete('  Alpha -=')).toBeNull();
+  });
+
+  it('should complete shapes and properties inside @{}', () => {
+    expect(labels('  Gamma@{ shape: cy')).toEqual(['cyl', 'cylinder']);
+    expect(labels('  Gamma@{ shape: rect, la')).toEqual(['label']);
+    expect(complete('  Gamma@{ sh')?.items[0].insertText).toBe('shape: ');
+  });
+
+  it('should complete classDef names', () => {
+    expect(labels('  Alpha:::')).toEqual(['hot']);
+    expect(labels('  class Alpha h')).toEqual(['hot']);
+  });
+
+  it('should complete directions and statement arguments', () => {
+    expect(labels('  direction L')).toEqual(['LR']);
+    expect(labels('  style B')).toEqual(['Beta']);
+  });
+
+  it('should only offer items without a prefix when requested explicitly', () => {
+    expect(complete('  ')).toBeNull();
+    expect(labels('  ', true)).toContain('subgraph');
+    expect(labels('  ', true)).toContain('Alpha');
+  });
+
+  it('should not complete inside comments', () => {
+    expect(complete('  %% Al')).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { SHAPE_ALIASES } from '../model/types';
+import { MermaidTokenizer } from './MermaidTokenizer';
+import {
+  DIRECTIONS,
+  EDGE_OPERATORS,
+  NODE_PROPERTY_KEYS,
+  STATEMENT_KEYWORDS,
+} from './MermaidSyntax';
+
+/**
+ * Node ID put in place of an empty prefix to see what the cursor position expects
+ */
+const PLACEHOLDER_ID = 'x';
+
+/**
+ * What a completion item inserts
+ */
+export type CompletionKind = 'keyword' | 'direction' | 'node' | 'shape' | 'class' | 'edge' | 'property';
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionKind;
+  detail?: string;
+  /** Text to insert; defaults to the label */
+  insertText?: string;
+}
+
+/**
+ * Items replacing the text between `from` and `to` (document offsets)
+ */
+export interface CompletionResult {
+  from: number;
+  to: number;
+  items: CompletionItem[];
+}
+
+export interface CompletionOptions {
+  /** Requested explicitly (e.g. Ctrl+Space): offer items even without a typed prefix */
+  explicit?: boolean;
+}
+
+/**
+ * Context-aware completion for Mermaid flowchart source.
+ * Node IDs and class names are collected with MermaidTokenizer, so
+ * completion sees the document the same way the parser and the
+ * highlighter do.
+ */
+export class MermaidCompletion {
+  private tokenizer = new MermaidTokenizer();
+
+  /**
+   * Completions at the given document offset, or null if there is nothing to offer
+   */
+  complete(text: string, offset: number, options: CompletionOptions = {}): CompletionResult | null {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const before = text.slice(lineStart, offset);
+    if (before.includes('%%')) return null;
+
+    // Properties inside `@{ ... }`
+    const shapeMatch = before.match(/@\{[^}]*\bshape:\s*([\w-]*)$/);
+    if (shapeMatch) {
+      const items = Object.entries(SHAPE_ALIASES).map(([alias, shape]) => ({
+        label: alias,
+        kind: 'shape' as const,
+        detail: alias === shape ? undefined : shape,
+      }));
+      return this.result(items, shapeMatch[1], offset, true);
+    }
+
+    const propertyMatch = before.match(/@\{(?:[^}]*,)?\s*(\w*)$/);
+    if (propertyMatch) {
+      const items = [...NODE_PROPERTY_KEYS].map((key) => ({
+        label: key,
+        kind: 'property' as const,
+        insertText: `${key}: `,
+      }));
+      return this.result(items, propertyMatch[1], offset, true);
+    }
+
+    const symbols = this.collectSymbols(text, offset);
+
+    // Class names after `:::` or as the last argument of `class`
+    const shorthandMatch = before.match(/:::([\w-]*)$/);
+    if (shorthandMatch) {
+      return this.result(this.classItems(symbols.classNames), shorthandMatch[1], offset, true);
+    }
+    const classMatch = before.match(/^\s*class\s+\S+\s+([\w-]*)$/);
+    if (classMatch) {
+      return this.result(this.classItems(symbols.classNames), classMatch[1], offset, options.explicit);
+    }
+
+    const directionMatch = before.match(/^\s*(?:flowchart|graph|direction)\s+(\w*)$/i);
+    if (directionMatch) {
+      const items = DIRECTIONS.map((direction) => ({ label: direction, kind: 'direction' as const }));
+      return this.result(items, directionMatch[1], offset, true);
+    }
+
+    // Node IDs as statement arguments
+    const argumentMatch = before.match(/^\s*(?:style|click|class\s+(?:[^\s,]+,)*)\s*([\w-]*)$/);
+    if (argumentMatch && !/^\s*(?:style|click|class)$/.test(before)) {
+      return this.result(this.nodeItems(symbols.nodeIds), argumentMatch[1], offset, options.explicit);
+    }
+
+    // Edge operators after a node: `A -`
+    const edgeMatch = before.match(/\S\s+([-=.~<][-=.~<>]*)$/);
+    const statement = before.trimStart();
+    if (edgeMatch && !STATEMENT_KEYWORDS.some((keyword) => statement.startsWith(`${keyword} `))) {
+      const items = EDGE_OPERATORS.map(({ operator, description }) => ({
+        label: operator,
+        kind: 'edge' as const,
+        detail: description,
+      }));
+      return this.result(items, edgeMatch[1], offset, true);
+    }
+
+    const wordMatch = before.match(/([\w-]*)$/);
+    const prefix = wordMatch ? wordMatch[1] : '';
+    const beforeWord = before.slice(0, before.length - prefix.length);
+
+    // Start of a statement: keywords and existing nodes
+    if (!beforeWord.trim()) {
+      const keywords = STATEMENT_KEYWORDS.map((keyword) => ({ label: keyword, kind: 'keyword' as const }));
+      return this.result([...keywords, ...this.nodeItems(symbols.nodeIds)], prefix, offset, options.explicit);
+    }
+
+    // Edge targets and `&` operands. A placeholder stands in for a missing
+    // prefix, since `A -->` alone is read without its target.
+    const tokens = this.tokenizer.tokenizeLine(beforeWord + (prefix || PLACEHOLDER_ID));
+    const [previous, last] = tokens.slice(-2);
+    if (last?.type === 'nodeId' && (previous?.type === 'edge' || previous?.text === '&')) {
+      return this.result(this.nodeItems(symbols.nodeIds), prefix, offset, options.explicit);
+    }
+
+    return null;
+  }
+
+  /**
+   * Node IDs and classDef names in the document, ignoring the word at the cursor
+   */
+  private collectSymbols(text: string, offset: number): { nodeIds: string[]; classNames: string[] } {
+    const nodeIds = new Set<string>();
+    const classNames = new Set<string>();
+    const lines = text.split('\n');
+    let lineOffset = 0;
+
+    this.tokenizer.tokenize(text).forEach((tokens, index) => {
+      const isClassDef = tokens[0]?.type === 'keyword' && tokens[0].text === 'classDef';
+      for (const token of tokens) {
+        const atCursor = lineOffset + token.start <= offset && offset <= lineOffset + token.end;
+        if (token.type === 'nodeId' && !atCursor) {
+          nodeIds.add(token.text);
+        } else if (token.type === 'className' && isClassDef) {
+          classNames.add(token.text);
+        }
+      }
+      lineOffset += lines[index].length + 1;
+    });
+
+    return { nodeIds: [...nodeIds], classNames: [...classNames] };
+  }
+
+  private nodeItems(nodeIds: string[]): CompletionItem[] {
+    return nodeIds.map((id) => ({ label: id, kind: 'node' }));
+  }
+
+  private classItems(classNames: string[]): CompletionItem[] {
+    return classNames.map((name) => ({ label: name, kind: 'class' }));
+  }
+
+  /**
+   * Filter items by the typed prefix
+   * @param allowEmpty Offer items even when nothing has been typed yet
+   */
+  private result(
+    items: CompletionItem[],
+    prefix: string,
+    offset: number,
+    allowEmpty = false
+  ): CompletionResult | null {
+    if (!prefix && !allowEmpty) return null;
+    const lower = prefix.toLowerCase();
+    const matches = items.filter(
+      (item) => item.label.toLowerCase().startsWith(lower) && item.label !== prefix
+    );
+    if (matches.length === 0) return null;
+    return { from: offset - prefix.length, to: offset, items: matches };
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Conformance with Mermaid's own parser: each snippet is parsed by both,
+ * and the nodes, edges and subgraphs Mermaid reports through `db.getData()`
+ * must match our model. Snippets Mermaid rejects must get an error diagnostic.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.unmock('mermaid');
+
+import mermaid from 'mermaid';
+import { extractMermaidData } from '../extractor/MermaidDataExtractor';
+import { SHAPE_ALIASES } from '../model/types';
+import { MermaidParser } from './MermaidParser';
+
+/**
+ * Shape names produced by the extractor that differ from ours
+ */
+const EXTRACTED_SHAPES: Record<string, string> = {
+  parallelogram: 'trapezoid',
+  'parallelogram-alt': 'inv_trapezoid',
+  trapezoid: 'lean_right',
+  'inv-trapezoid': 'lean_left',
+  'double-circle': 'doublecircle',
+};
+
+const ARROWS: Record<string, string> = {
+  none: 'none',
+  arrow_point: 'arrow',
+  arrow_circle: 'circle',
+  arrow_cross: 'cross',
+};
+
+const CORPUS: Record<string, string> = {
+  'basic chain': 'flowchart LR\n  A[Start] --> B(Round) --> C{Decide}\n  C -->|yes| D([Stadium])\n  C -- no --> E[[Sub]]',
+  shapes:
+    'flowchart TB\n  A[(DB)] --> B((Circle)) --> C(((Double))) --> D{{Hex}} --> E>Flag]\n' +
+    '  E --> F[/Para/] --> G[\\Alt\\] --> H[/Trap\\] --> I[\\Inv/]',
+  links:
+    'flowchart LR\n  A --- B\n  B -.-> C\n  C ==> D\n  D ~~~ E\n  E --o F\n  F --x G\n  G <--> H\n' +
+    '  H x--x I\n  I o--o J\n  J -. dotted .-> K\n  K == thick ==> L\n  L -- open --- M',
+  'multi-node links': 'flowchart TB\n  A & B --> C & D --> E\n  E -- "a & b" --- F',
+  semicolons: 'graph TD;A-->B;B-->C;',
+  'operators in labels': 'flowchart LR\n  A["a --> b"] -->|"x -- y"| B["c & d; e"]\n  B -- "f ==> g" --> C',
+  'multi-line labels': 'flowchart TB\n  A["line one\n  line two"] --> B',
+  subgraphs:
+    'flowchart TB\n  subgraph one [First]\n    A --> B\n  end\n  subgraph two\n    direction LR\n    C\n  end\n' +
+    '  subgraph "Third title"\n    D\n  end\n  B --> C',
+  'nested subgraphs': 'flowchart TB\n  subgraph outer\n    subgraph inner\n      A\n    end\n    B\n  end\n  A --> B',
+  'shape properties': 'flowchart TB\n  A@{ shape: cyl, label: "Store" } --> B@{ shape: rounded }\n  B --> C@{ shape: hex }',
+  'class shorthand': 'flowchart LR\n  A:::hot --> B\n  classDef hot fill:#f00',
+  comments: 'flowchart LR\n  %% comment\n  A --> B\n  %%{ init: {} }%%\n  B --> C',
+  'pipes in quoted edge labels': 'flowchart LR\n  A-->|"quoted|pipe"|C\n  C -- "a|b" --> D',
+  'nodes moved into later subgraphs': 'flowchart TB\n  c1-->a2\n  subgraph one\n    a1-->a2\n  end\n  subgraph two\n    c1\n  end',
+  'subgraphs as edge endpoints': 'flowchart TB\n  subgraph one\n    A\n  end\n  subgraph two\n    B\n  end\n  one --> two\n  A --> two',
+  'subgraphs nested by reference':
+    'flowchart TB\n  subgraph s1\n    A\n  end\n  subgraph s2\n    s1\n    B\n  end\n  subgraph s3\n    s2\n  end',
+};
+
+const INVALID: Record<string, string> = {
+  'class shorthand after shape data': 'flowchart TB\n  A@{ shape: rect }:::cls',
+  'text after the direction': 'flowchart LR extra\n  A',
+  'linkStyle index out of range': 'flowchart TB\n  A --> B\n  linkStyle 1 stroke:#f00',
+};
+
+/**
+ * Nodes, edges and subgraphs in a comparable form
+ */
+interface Normalized {
+  nodes: Array<{ id: string; label: string; shape: string; group?: string }>;
+  edges: Array<{ start: string; end: string; label: string; stroke: string; arrows: string }>;
+  groups: Array<{ title: string; parent?: string }>;
+}
+
+async function fromMermaid(code: string): Promise<Normalized> {
+  const data = await extractMermaidData(code, { mermaid, initializeMermaid: true });
+  const titles = new Map(data.nodes.filter((n) => n.isGroup).map((n) => [n.id, n.label]));
+  return {
+    nodes: data.nodes
+      .filter((n) => !n.isGroup)
+      .map((n) => ({
+        id: n.id,
+        label: n.label,
+        shape: EXTRACTED_SHAPES[n.shape] ?? SHAPE_ALIASES[n.shape] ?? n.shape,
+        group: n.parentId ? titles.get(n.parentId) : undefined,
+      })),
+    edges: data.edges.map((e) => ({
+      start: e.start,
+      end: e.end,
+      label: e.label ?? '',
+      stroke: e.thickness === 'invisible' ? 'invisible' : e.pattern === 'dotted' ? 'dotted' : e.thickness,
+      arrows: `${ARROWS[e.arrowTypeStart]}/${ARROWS[e.arrowTypeEnd]}`,
+    })),
+    groups: data.nodes
+      .filter((n) => n.isGroup)
+      .map((n) => ({ title: n.label, parent: n.parentId ? titles.get(n.parentId) : undefined })),
+  };
+}
+
+function fromParser(code: string): Normalized {
+  const { model, diagnostics } = new MermaidParser().parseWithDiagnostics(code);
+  expect(diagnostics.filter((d) => d.severity === 'error')).toEqual([]);
+  const titles = new Map(model.subGraphs.map((s) => [s.id, s.title]));
+  return {
+    nodes: model.nodes.map((n) => ({
+      id: n.id,
+      label: n.text,
+      shape: n.shape,
+      group: n.parentId ? titles.get(n.parentId) : undefined,
+    })),
+    edges: model.edges.map((e) => ({
+      start: e.source,
+      end: e.target,
+      label: e.text ?? '',
+      stroke: e.stroke,
+      arrows: `${e.arrowStart}/${e.arrowEnd}`,
+    })),
+    groups: model.subGraphs.map((s) => ({
+      title: s.title,
+      parent: s.parentId ? titles.get(s.parentId) : undefined,
+    })),
+  };
+}
+
+const byId = <T extends { id: string }>(items: T[]) => [...items].sort((a, b) => a.id.localeCompare(b.id));
+const byTitle = <T extends { title: string }>(items: T[]) => [...items].sort((a, b) => a.title.localeCompare(b.title));
+
+describe('MermaidParser conformance with Mermaid', () => {
+  it.each(Object.entries(CORPUS))('%s', async (_name, code) => {
+    const expected = await fromMermaid(code);
+    const actual = fromParser(code);
+
+    expect(byId(actual.nodes)).toEqual(byId(expected.nodes));
+    expect(actual.edges).toEqual(expected.edges);
+    expect(byTitle(actual.groups)).toEqual(byTitle(expected.groups));
+  });
+});
+
+describe('MermaidParser rejects what Mermaid rejects', () => {
+  it.each(Object.entries(INVALID))('%s', async (_name, code) => {
+    await expect(mermaid.parse(code)).rejects.toThrow();
+
+    const { diagnostics } = new MermaidParser().parseWithDiagnostics(code);
+    expect(diagnostics.filter((d) => d.severity === 'error')).not.toEqual([]);
+  });
+});
@@ -139,6 +139,48 @@ describe('MermaidParser', () => {
       expect(model.getNode('B')?.parentId).toBe('outer');
     });
 
+    it('should put a node in the first subgraph that closes and mentions it', () => {
+      const model = parser.parse([
+        'flowchart TB',
+        '  c1 --> a2',
+        '  subgraph outer',
+        '    subgraph inner',
+        '      a1 --> a2',
+        '    end',
+        '    a2 --> b1',
+        '  end',
+      ].join('\n'));
+
+      expect(model.getNode('c1')?.parentId).toBeUndefined();
+      expect(model.getNode('a2')?.parentId).toBe('inner');
+      expect(model.getNode('b1')?.parentId).toBe('outer');
+      expect(model.getSubGraph('inner')?.nodeIds).toEqual(['a1', 'a2']);
+      expect(model.getSubGraph('outer')?.nodeIds).toEqual(['b1']);
+    });
+
+    it('should read subgraph IDs in vertex statements as subgraph references', () => {
+      const { model, source } = parser.parseDocument([
+        'flowchart TB',
+        '  subgraph s1',
+        '    A',
+        '  end',
+        '  subgraph s2',
+        '    s1',
+        '  end',
+        '  s1 --> s2',
+      ].join('\n'));
+
+      expect(model.nodes.map((n) => n.id)).toEqual(['A']);
+      expect(model.getSubGraph('s1')?.parentId).toBe('s2');
+      expect(model.edges.map((e) => [e.source, e.target])).toEqual([['s1', 's2']]);
+      expect(source.statements[7]).toMatchObject({ nodeIds: [], definedNodeIds: [] });
+      expect(source.locations.filter((l) => l.line === 7).map((l) => [l.kind, l.id])).toEqual([
+        ['subgraph', 's1'],
+        ['edge', model.edges[0].id],
+        ['subgraph', 's2'],
+      ]);
+    });
+
     it('should parse class definitions', () => {
       const code = `flowchart TB
         A[Node]
@@ -222,6 +264,14 @@ describe('MermaidParser', () => {
       const crossModel = parser.parse('flowchart TB\n  A --x B');
       expect(crossModel.edges[0].arrowEnd).toBe('cross');
     });
+
+    it('should read edge lengths in ranks like Mermaid', () => {
+      const model = parser.parse(
+        'flowchart TB\n  A --- B\n  A ---- C\n  A === D\n  A ==== E\n  A ---> F\n  A <--> G\n  A -..- H\n  A -- text --- I'
+      );
+
+      expect(model.edges.map((e) => e.length)).toEqual([1, 2, 1, 2, 2, 1, 2, 1]);
+    });
   });
 
   describe('error handling', () => {
@@ -278,4 +328,455 @@ describe('MermaidParser', () => {
       expect(model.getNode('A')?.text).toBe('Node A');
     });
   });
+
+  describe('configuration', () => {
+    it('should read the frontmatter title and config', () => {
+      const code = [
+        '---',
+        'title: Checkout',
+        'config:',
+        '  theme: forest',
+        '  flowchart:',
+        '    curve: linear',
+        '    nodeSpacing: 30',
+        '---',
+        'flowchart LR',
+        '  A --> B',
+      ].join('\n');
+
+      const { model, source, diagnostics } = parser.parseDocument(code);
+
+      expect(diagnostics).toEqual([]);
+      expect(model.edgeCount).toBe(1);
+      expect(model.meta.title).toBe('Checkout');
+      expect(model.meta.config).toEqual({ theme: 'forest', flowchart: { curve: 'linear', nodeSpacing: 30 } });
+      expect(model.meta.headerLines).toBeUndefined();
+      expect(source.statements[0]).toMatchObject({ kind: 'frontmatter', line: 0, endLine: 7 });
+    });
+
+    it('should read init directives, with single quotes and over several lines', () => {
+      const code = [
+        "%%{init: {'theme': 'dark'}}%%",
+        '%% kept',
+        'flowchart TB',
+        '  %%{init: {',
+        '    "flowchart": { "htmlLabels": false }',
+        '  }}%%',
+        '  A',
+      ].join('\n');
+
+      const { model, source, diagnostics } = parser.parseDocument(code);
+
+      expect(diagnostics).toEqual([]);
+      expect(model.meta.init).toEqual({ theme: 'dark', flowchart: { htmlLabels: false } });
+      expect(model.meta.headerLines).toEqual(['%% kept']);
+      expect(source.statements.filter((s) => s.kind === 'init')).toMatchObject([
+        { line: 0 },
+        { line: 3, endLine: 5 },
+      ]);
+    });
+
+    it('should report invalid configuration', () => {
+      const code = [
+        '---',
+        'config:',
+        '  theme: sunny',
+        '  flowchart:',
+        '    curve: wobbly',
+        '---',
+        '%%{init: {theme}}%%',
+        'flowchart TB',
+        '  A',
+      ].join('\n');
+
+      const { diagnostics } = parser.parseWithDiagnostics(code);
+
+      expect(diagnostics.map((d) => [d.code, d.line, d.severity])).toEqual([
+        ['invalid-config', 3, 'warning'],
+        ['invalid-config', 5, 'warning'],
+        ['invalid-config', 7, 'warning'],
+      ]);
+      expect(parser.parseWithDiagnostics('---\ntitle: "open\n---\nflowchart TB').diagnostics).toMatchObject([
+        { code: 'invalid-config', severity: 'error', line: 2, message: 'Invalid frontmatter: Unterminated string' },
+      ]);
+      expect(parser.parseWithDiagnostics('---\ntitle: x\nflowchart TB').diagnostics[0]).toMatchObject({
+        code: 'invalid-statement',
+        line: 1,
+      });
+    });
+  });
+
+  describe('accessibility', () => {
+    it('should read accTitle and single or multi-line accDescr', () => {
+      const code = [
+        'flowchart LR',
+        '  accTitle: Order flow ',
+        '  accDescr {',
+        '    Orders move',
+        '      from A to B',
+        '  }',
+        '  A --> B',
+      ].join('\n');
+
+      const { model, source, diagnostics } = parser.parseDocument(code);
+
+      expect(diagnostics).toEqual([]);
+      expect(model.meta.accTitle).toBe('Order flow');
+      expect(model.meta.accDescr).toBe('Orders move\nfrom A to B');
+      expect(model.edgeCount).toBe(1);
+      expect(source.statements.filter((s) => s.kind === 'accessibility')).toMatchObject([
+        { line: 1 },
+        { line: 2, endLine: 5 },
+      ]);
+      expect(parser.parse('flowchart LR\n  accDescr: One line\n  A').meta.accDescr).toBe('One line');
+    });
+
+    it('should report an unclosed accDescr block', () => {
+      const { diagnostics } = parser.parseWithDiagnostics('flowchart LR\n  accDescr {\n    text');
+
+      expect(diagnostics).toMatchObject([
+        { code: 'invalid-statement', message: 'Missing "}" at the end of "accDescr"' },
+      ]);
+    });
+  });
+
+  describe('class shorthand', () => {
+    it('should read ::: on nodes in every vertex form', () => {
+      const model = parser.parse([
+        'flowchart LR',
+        '  A:::hot --> B[Text]:::cold',
+        '  C:::hot@{ shape: circle }',
+        '  classDef hot fill:#f00',
+        '  classDef cold fill:#00f',
+      ].join('\n'));
+
+      expect(model.nodes.map((n) => n.id)).toEqual(['A', 'B', 'C']);
+      expect(model.getNode('A')).toMatchObject({ text: 'A', inlineClass: 'hot', cssClasses: ['hot'] });
+      expect(model.getNode('B')).toMatchObject({ text: 'Text', inlineClass: 'cold' });
+      expect(model.getNode('C')).toMatchObject({ shape: 'circle', inlineClass: 'hot' });
+    });
+
+    it('should report ::: after a @{ ... } block, which Mermaid rejects', () => {
+      const { diagnostics } = parser.parseWithDiagnostics(
+        'flowchart LR\n  D@{ shape: diamond }:::cold --> E\n  classDef cold fill:#00f'
+      );
+
+      expect(diagnostics.map((d) => [d.severity, d.code, d.message, d.line, d.column])).toEqual([
+        ['error', 'invalid-statement', 'Class shorthand ":::" must come before the "@{ ... }" block', 2, 23],
+      ]);
+    });
+
+    it('should assign class statements to edges with an ID', () => {
+      const { model, diagnostics } = parser.parseWithDiagnostics([
+        'flowchart LR',
+        '  A e1@--> B --> C',
+        '  classDef hot stroke:#f00',
+        '  class A,e1 hot',
+      ].join('\n'));
+
+      expect(diagnostics).toEqual([]);
+      expect(model.getEdge('e1')?.cssClasses).toEqual(['hot']);
+      expect(model.getNode('A')?.cssClasses).toEqual(['hot']);
+      expect(model.getNode('A')?.inlineClass).toBeUndefined();
+    });
+  });
+
+  describe('click statements', () => {
+    it('should read links with tooltips and targets', () => {
+      const model = parser.parse([
+        'flowchart LR',
+        '  A --> B --> C',
+        '  click A "https://example.com" "Open #quot;docs#quot;" _blank',
+        '  click B href "https://example.org" _top',
+        '  click C "https://example.net" "_blank"',
+      ].join('\n'));
+
+      expect(model.getNode('A')).toMatchObject({
+        link: 'https://example.com',
+        tooltip: 'Open "docs"',
+        linkTarget: '_blank',
+      });
+      expect(model.getNode('B')).toMatchObject({ link: 'https://example.org', linkTarget: '_top' });
+      expect(model.getNode('C')).toMatchObject({ link: 'https://example.net', linkTarget: '_blank' });
+      expect(model.getNode('C')?.tooltip).toBeUndefined();
+    });
+
+    it('should read callbacks and call expressions', () => {
+      const model = parser.parse([
+        'flowchart LR',
+        '  A --> B --> C',
+        '  click A showDetails "Details"',
+        '  click B call notify("B", "two words") "Notify"',
+        '  click C call refresh()',
+      ].join('\n'));
+
+      expect(model.getNode('A')).toMatchObject({ callback: { name: 'showDetails' }, tooltip: 'Details' });
+      expect(model.getNode('A')?.callback?.args).toBeUndefined();
+      expect(model.getNode('B')).toMatchObject({
+        callback: { name: 'notify', args: '"B", "two words"' },
+        tooltip: 'Notify',
+      });
+      expect(model.getNode('C')?.callback).toEqual({ name: 'refresh', args: '' });
+    });
+
+    it('should warn about click statements that match no form', () => {
+      const { model, diagnostics } = parser.parseWithDiagnostics([
+        'flowchart LR',
+        '  A',
+        '  click A href',
+        '  click A "https://example.com" nowhere',
+      ].join('\n'));
+
+      expect(model.getNode('A')?.link).toBeUndefined();
+      expect(diagnostics.map((d) => [d.code, d.line])).toEqual([
+        ['invalid-statement', 3],
+        ['invalid-statement', 4],
+      ]);
+    });
+  });
+
+  describe('parseDocument', () => {
+    it('should record statements with their source lines', () => {
+      const code = [
+        'flowchart LR',
+        '  %% comment',
+        '  A[Start] --> B  %% trailing',
+        '  subgraph group[Group]',
+        '    direction TB',
+        '    C',
+        '  end',
+        '  style A fill:#f9f',
+      ].join('\n');
+
+      const { model, source } = parser.parseDocument(code);
+      const kinds = source.statements.map((s) => [s.kind, s.line]);
+
+      expect(model.nodeCount).toBe(3);
+      expect(source.lines).toHaveLength(8);
+      expect(kinds).toEqual([
+        ['declaration', 0],
+        ['node', 2],
+        ['subgraph', 3],
+        ['direction', 4],
+        ['node', 5],
+        ['end', 6],
+        ['style', 7],
+      ]);
+
+      const edgeStatement = source.statements[1];
+      expect(edgeStatement.indent).toBe('  ');
+      expect(edgeStatement.comment).toBe('  %% trailing');
+      expect(edgeStatement.nodeIds).toEqual(['A', 'B']);
+      expect(edgeStatement.definedNodeIds).toEqual(['A']);
+      expect(edgeStatement.edgeIds).toEqual([model.edges[0].id]);
+
+      expect(source.statements[2].subGraphId).toBe('group');
+      expect(source.statements[2].endLine).toBe(6);
+      expect(source.statements[3].subGraphId).toBe('group');
+    });
+
+    it('should snapshot the parsed model', () => {
+      const { model, source } = parser.parseDocument('flowchart TB\n  A --> B');
+
+      expect(source.snapshot).toEqual(model.toData());
+    });
+
+    it('should locate nodes, edges and subgraphs in the source', () => {
+      const code = [
+        'flowchart LR',
+        '  A[Start] -->|go| B',
+        '  subgraph group[Group]',
+        '    B -- next --> A',
+        '  end',
+        '  style A fill:#f9f',
+      ].join('\n');
+      const lines = code.split('\n');
+
+      const { model, source } = parser.parseDocument(code);
+      const located = source.locations.map((l) => [
+        l.kind,
+        l.line,
+        lines[l.line].slice(l.start, l.end),
+        l.defining,
+      ]);
+
+      expect(located).toEqual([
+        ['node', 1, 'A[Start]', true],
+        ['edge', 1, '-->|go|', true],
+        ['node', 1, 'B', false],
+        ['subgraph', 2, 'subgraph group[Group]', true],
+        ['node', 3, 'B', false],
+        ['edge', 3, '-- next -->', true],
+        ['node', 3, 'A', false],
+        ['subgraph', 4, 'end', false],
+        ['node', 5, 'A', false],
+      ]);
+      expect(source.locations[1].id).toBe(model.edges[0].id);
+      expect(source.locations[3].id).toBe('group');
+    });
+
+    it('should locate every edge of a multi-node link', () => {
+      const code = 'flowchart TB\n  A & B --> C';
+
+      const { model, source } = parser.parseDocument(code);
+      const edges = source.locations.filter((l) => l.kind === 'edge');
+      const nodes = source.locations.filter((l) => l.kind === 'node').map((l) => [l.id, l.start]);
+
+      expect(edges.map((l) => l.id)).toEqual(model.edges.map((e) => e.id));
+      expect(edges.every((l) => l.start === 8 && l.end === 11)).toBe(true);
+      expect(nodes).toEqual([['A', 2], ['B', 6], ['C', 12]]);
+    });
+  });
+
+  describe('diagnostics', () => {
+    const codes = (text: string) =>
+      parser.parseWithDiagnostics(text).diagnostics.map((d) => d.code);
+
+    it('should report nothing for valid input', () => {
+      const { diagnostics } = parser.parseWithDiagnostics(`flowchart TB
+  A[Start] e1@--> B{Check}
+  e1@{ animate: true }
+  subgraph group [Group]
+    C@{ shape: cyl, label: "DB" }
+  end
+  classDef hot fill:#f00
+  class A hot`);
+
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('should report unknown statements with their range', () => {
+      const { diagnostics } = parser.parseWithDiagnostics('flowchart TB\n  A --> B\n  what is this');
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toEqual({
+        severity: 'error',
+        code: 'unknown-statement',
+        message: 'Unrecognized statement "what is this"',
+        line: 3,
+        column: 3,
+        range: { start: { line: 3, column: 3 }, end: { line: 3, column: 15 } },
+      });
+    });
+
+    it('should report a missing declaration and invalid keyword statements', () => {
+      expect(codes('A --> B')).toEqual(['missing-declaration']);
+      expect(codes('flowchart TB\n  direction sideways\n  classDef onlyname')).toEqual([
+        'invalid-statement',
+        'invalid-statement',
+      ]);
+    });
+
+    it('should report declarations Mermaid rejects', () => {
+      const { model, diagnostics } = parser.parseWithDiagnostics('flowchart XX\n  A --> B');
+
+      expect(diagnostics.map((d) => [d.code, d.message, d.column])).toEqual([
+        ['invalid-statement', 'Invalid direction "XX", expected TB, TD, BT, RL or LR', 11],
+      ]);
+      expect(model.edgeCount).toBe(1);
+      expect(codes('flowchart LR extra\n  A')).toEqual(['invalid-statement']);
+      expect(codes('graph\n  A')).toEqual([]);
+    });
+
+    it('should report other diagram types instead of reading them as nodes', () => {
+      const { model, diagnostics } = parser.parseWithDiagnostics('sequenceDiagram\n  Alice->>Bob: Hi');
+
+      expect(diagnostics.map((d) => [d.code, d.message, d.line])).toEqual([
+        ['unsupported-diagram', 'Sequence Diagram is not a flowchart, only flowcharts are supported', 1],
+      ]);
+      expect(model.nodeCount).toBe(0);
+    });
+
+    it('should report linkStyle indexes past the edges defined before it', () => {
+      const { model, diagnostics } = parser.parseWithDiagnostics(
+        'flowchart TB\n  A --> B\n  linkStyle 0,1 stroke:#f00\n  B --> C'
+      );
+
+      expect(diagnostics.map((d) => [d.code, d.message, d.line, d.column])).toEqual([
+        ['undefined-edge', 'linkStyle index 1 is out of range, 1 edge is defined before it', 3, 15],
+      ]);
+      expect(model.edges.map((e) => e.style?.stroke)).toEqual(['#f00', undefined]);
+    });
+
+    it('should report edges without a target', () => {
+      const { diagnostics } = parser.parseWithDiagnostics('flowchart TB\n  A -->');
+
+      expect(diagnostics[0].code).toBe('incomplete-edge');
+      expect(diagnostics[0].column).toBe(5);
+    });
+
+    it('should report unbalanced subgraph and end', () => {
+      const { model, diagnostics } = parser.parseWithDiagnostics(`flowchart TB
+  subgraph outer
+    subgraph inner
+      A
+    end
+  end
+  end
+  subgraph open
+    B`);
+
+      expect(diagnostics.map((d) => [d.code, d.line])).toEqual([
+        ['unexpected-end', 7],
+        ['unclosed-subgraph', 8],
+      ]);
+      expect(model.getNode('A')?.parentId).toBe('inner');
+    });
+
+    it('should keep subgraph nesting intact after an invalid subgraph', () => {
+      const { model, diagnostics } = parser.parseWithDiagnostics(`flowchart TB
+  subgraph outer
+    subgraph
+    end
+    A
+  end`);
+
+      expect(diagnostics.map((d) => d.code)).toEqual(['invalid-statement']);
+      expect(model.getNode('A')?.parentId).toBe('outer');
+    });
+
+    it('should report classes that are never defined', () => {
+      const { diagnostics } = parser.parseWithDiagnostics(`flowchart TB
+  A --> B
+  class A,B later
+  class B missing
+  classDef later fill:#fff`);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({
+        severity: 'warning',
+        code: 'undefined-class',
+        line: 4,
+        column: 11,
+      });
+    });
+
+    it('should report duplicate edge IDs', () => {
+      const { diagnostics } = parser.parseWithDiagnostics('flowchart TB\n  A e1@--> B\n  B e1@--> C');
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ code: 'duplicate-edge-id', line: 3, column: 5 });
+    });
+
+    it('should report bad @{} properties', () => {
+      const { diagnostics } = parser.parseWithDiagnostics(`flowchart TB
+  A@{ shape: blob, colour: red }
+  A --> B
+  B@{ shape: rect, oops }
+  e9@{ animate: true }`);
+
+      expect(diagnostics.map((d) => [d.code, d.line, d.message])).toEqual([
+        ['invalid-property', 2, 'Unknown shape "blob"'],
+        ['invalid-property', 2, 'Unknown property "colour"'],
+        ['invalid-property', 4, 'Expected "key: value", got "oops"'],
+        ['undefined-edge', 5, 'Edge "e9" is not defined before its properties'],
+      ]);
+    });
+
+    it('should include diagnostics in parsed documents', () => {
+      const { diagnostics } = parser.parseDocument('flowchart TB\n  end');
+
+      expect(diagnostics.map((d) => d.code)).toEqual(['unexpected-end']);
+    });
+  });
 });
@@ -1,10 +1,38 @@
 import { FlowchartModel } from '../model/FlowchartModel';
-import type { MerfolkMeta } from '../model/FlowchartModel';
+import type { FlowchartMeta, MerfolkMeta } from '../model/FlowchartModel';
 import type { NodeData } from '../model/Node';
 import type { EdgeData } from '../model/Edge';
 import type { SubGraphData } from '../model/SubGraph';
-import type { Direction, ShapeType, StrokeType, ArrowType } from '../model/types';
-import { SHAPE_ALIASES } from '../model/types';
+import type { Direction, ShapeType, StrokeType, ArrowType, EdgeAnimation, EdgeCurve } from '../model/types';
+import { EDGE_CURVES, LINK_TARGETS, SHAPE_ALIASES, type LinkTarget } from '../model/types';
+import {
+  combineStyleDeclarations,
+  parseEdgeStyleDeclarations,
+  parseStyleDeclarations,
+} from '../model/style';
+import { DIAGRAM_THEMES, mergeDiagramConfig, type DiagramConfig } from '../model/config';
+import { SHAPE_PATTERNS, NODE_PROPERTY_KEYS, EDGE_PROPERTY_KEYS } from './MermaidSyntax';
+import type {
+  ParsedDocument,
+  SourceElementKind,
+  SourceLocation,
+  SourceStatement,
+  SourceStatementKind,
+} from './SourceDocument';
+import type { DiagnosticCode, DiagnosticSeverity, ParseDiagnostic } from './Diagnostic';
+import { FlowchartCstParser } from './FlowchartCstParser';
+import { LineIndex, childNodes, childTokens, cstText, cstTokens, isEdgeProperties } from './FlowchartCst';
+import { detectDiagramType } from '../utils/DiagramTypeDetector';
+import { parseYaml } from './Yaml';
+import type { CstElement, CstNode, CstToken } from './FlowchartCst';
+
+/**
+ * Offsets of a piece of source text; `end` is exclusive
+ */
+interface Span {
+  start: number;
+  end: number;
+}
 
 /**
  * Parse context for tracking state during parsing
@@ -15,377 +43,740 @@ interface ParseContext {
   edges: EdgeData[];
   subGraphs: SubGraphData[];
   classDefs: Map<string, { styles: string[]; textStyles: string[] }>;
+  /** Declarations of `linkStyle default` */
+  defaultEdgeStyle: string[];
   subGraphStack: string[];
+  /** IDs mentioned directly in each subgraph's body, nested subgraph IDs included */
+  subGraphMembers: Map<string, string[]>;
+  /**
+   * Subgraph each ID belongs to. As in Mermaid, an ID belongs to the first
+   * subgraph to close that mentions it; later mentions do not move it.
+   */
+  parents: Map<string, string>;
   edgeCounter: number;
   headerLines: string[];
   merfolkMeta?: MerfolkMeta;
+  /** Title and configuration from the frontmatter and init directives */
+  settings: Pick<FlowchartMeta, 'title' | 'config' | 'frontmatter' | 'init' | 'accTitle' | 'accDescr'>;
+  /** Raw source lines */
+  sourceLines: string[];
+  /** Converts offsets in the source to lines and columns */
+  lineIndex: LineIndex;
+  /** Trailing `%%` comment of each line that has one, with the whitespace before it */
+  comments: Map<number, string>;
+  /** Whether statements count: after the declaration, or everywhere without one */
+  declared: boolean;
+  /** Statements recorded for source-preserving serialization */
+  statements: SourceStatement[];
+  /** Statement currently being parsed */
+  currentStatement?: SourceStatement;
+  /** Source span of the current statement */
+  currentSpan?: Span;
+  /** Subgraph statements waiting for their `end`, with their keyword */
+  openSubGraphs: Array<{ statement: SourceStatement; keyword: CstToken }>;
+  /** Element locations recorded so far */
+  locations: SourceLocation[];
+  /** Class names used by `class` statements and `:::`, checked once all classDefs are known */
+  classUsages: Array<{ className: string; span: Span }>;
+  /** Problems found so far */
+  diagnostics: ParseDiagnostic[];
 }
 
 /**
- * Shape syntax patterns mapping to ShapeType
+ * Details of a diagnostic before its position is resolved
  */
-const SHAPE_PATTERNS: Array<{
-  start: string;
-  end: string;
-  shape: ShapeType;
-}> = [
-  { start: '(((', end: ')))', shape: 'doublecircle' },
-  { start: '((', end: '))', shape: 'circle' },
-  { start: '([', end: '])', shape: 'stadium' },
-  { start: '[(', end: ')]', shape: 'cylinder' },
-  { start: '[[', end: ']]', shape: 'subroutine' },
-  { start: '{{', end: '}}', shape: 'hexagon' },
-  { start: '[/', end: '/]', shape: 'trapezoid' },
-  { start: '[\\', end: '\\]', shape: 'inv_trapezoid' },
-  { start: '[/', end: '\\]', shape: 'lean_right' },
-  { start: '[\\', end: '/]', shape: 'lean_left' },
-  { start: '{', end: '}', shape: 'diamond' },
-  { start: '(', end: ')', shape: 'rounded' },
-  { start: '[', end: ']', shape: 'rect' },
-  { start: '>', end: ']', shape: 'odd' },
-];
+interface DiagnosticReport {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  /** Text to underline; the whole current statement when omitted */
+  span?: Span;
+}
 
 /**
- * Edge arrow patterns
+ * Stroke, arrows and text of a link as written
  */
-const EDGE_PATTERNS: Array<{
-  pattern: RegExp;
+interface LinkInfo {
+  /** Operator used for the generated edge ID and the length */
+  operator: string;
+  text?: string;
   stroke: StrokeType;
   arrowStart: ArrowType;
   arrowEnd: ArrowType;
-  hasText: boolean;
-}> = [
-  // Invisible edge (must be first to avoid matching as normal)
-  { pattern: /^~~~$/, stroke: 'invisible', arrowStart: 'none', arrowEnd: 'none', hasText: false },
-
-  // Thick lines (variable length: ==, ===, ====, etc.)
-  { pattern: /^<={2,}>$/, stroke: 'thick', arrowStart: 'arrow', arrowEnd: 'arrow', hasText: false },
-  { pattern: /^={2,}>$/, stroke: 'thick', arrowStart: 'none', arrowEnd: 'arrow', hasText: false },
-  { pattern: /^<==\|(.+?)\|==>$/, stroke: 'thick', arrowStart: 'arrow', arrowEnd: 'arrow', hasText: true },
-  { pattern: /^==\|(.+?)\|==>$/, stroke: 'thick', arrowStart: 'none', arrowEnd: 'arrow', hasText: true },
-  { pattern: /^==(.+?)==>$/, stroke: 'thick', arrowStart: 'none', arrowEnd: 'arrow', hasText: true },
-  { pattern: /^={2,}$/, stroke: 'thick', arrowStart: 'none', arrowEnd: 'none', hasText: false },
-
-  // Dotted lines (variable length: -., -.., -..., etc.)
-  { pattern: /^<-\.+->$/, stroke: 'dotted', arrowStart: 'arrow', arrowEnd: 'arrow', hasText: false },
-  { pattern: /^-\.+->$/, stroke: 'dotted', arrowStart: 'none', arrowEnd: 'arrow', hasText: false },
-  { pattern: /^-.-\|(.+?)\|-.->$/, stroke: 'dotted', arrowStart: 'none', arrowEnd: 'arrow', hasText: true },
-  { pattern: /^-\.(.+?)\.-?>$/, stroke: 'dotted', arrowStart: 'none', arrowEnd: 'arrow', hasText: true },
-  { pattern: /^-\.+-?$/, stroke: 'dotted', arrowStart: 'none', arrowEnd: 'none', hasText: false },
-
-  // Normal lines with text
-  { pattern: /^<--\|(.+?)\|-->$/, stroke: 'normal', arrowStart: 'arrow', arrowEnd: 'arrow', hasText: true },
-  { pattern: /^--\|(.+?)\|-->$/, stroke: 'normal', arrowStart: 'none', arrowEnd: 'arrow', hasText: true },
-  { pattern: /^--(.+?)-->$/, stroke: 'normal', arrowStart: 'none', arrowEnd: 'arrow', hasText: true },
-
-  // Circle and cross arrows (must come before variable-length patterns)
-  { pattern: /^--o$/, stroke: 'normal', arrowStart: 'none', arrowEnd: 'circle', hasText: false },
-  { pattern: /^o--o$/, stroke: 'normal', arrowStart: 'circle', arrowEnd: 'circle', hasText: false },
-  { pattern: /^--x$/, stroke: 'normal', arrowStart: 'none', arrowEnd: 'cross', hasText: false },
-  { pattern: /^x--x$/, stroke: 'normal', arrowStart: 'cross', arrowEnd: 'cross', hasText: false },
-
-  // Normal lines without text (variable length: --, ---, ----, etc.)
-  { pattern: /^<-+>$/, stroke: 'normal', arrowStart: 'arrow', arrowEnd: 'arrow', hasText: false },
-  { pattern: /^-{2,}>$/, stroke: 'normal', arrowStart: 'none', arrowEnd: 'arrow', hasText: false },
-  { pattern: /^-{2,}$/, stroke: 'normal', arrowStart: 'none', arrowEnd: 'none', hasText: false },
-];
+  /** `e1@` token of an explicit edge ID */
+  edgeId?: CstToken;
+}
+
+/**
+ * Every shape name accepted by `@{ shape: ... }`
+ */
+const KNOWN_SHAPES = new Set<string>([
+  ...Object.keys(SHAPE_ALIASES),
+  ...Object.values(SHAPE_ALIASES),
+]);
+
+/**
+ * Arrow heads by the character that draws them
+ */
+const ARROW_HEADS: Record<string, ArrowType> = {
+  '<': 'arrow',
+  '>': 'arrow',
+  x: 'cross',
+  o: 'circle',
+};
+
+/**
+ * Callback name of `click A callback`
+ */
+const CALLBACK_NAME_PATTERN = /^[A-Za-z_$][\w$.]*$/;
+
+/**
+ * Function and argument list of `click A call callback(args)`
+ */
+const CALL_PATTERN = /^([A-Za-z_$][\w$.]*)[ \t]*(?:\(([^)]*)\))?$/;
+
+function isLinkTarget(value: string): value is LinkTarget {
+  return (LINK_TARGETS as readonly string[]).includes(value);
+}
+
+/**
+ * Text of a quoted click argument; `#quot;` stands for a double quote
+ */
+function unquoteClickString(token: CstToken): string {
+  return token.text.slice(1, -1).replace(/#quot;/g, '"');
+}
 
 /**
  * Mermaid Flowchart Parser
- * Parses Mermaid flowchart syntax into FlowchartModel
+ * Parses Mermaid flowchart syntax into FlowchartModel.
+ * The text is read by FlowchartCstParser; this class turns the syntax
+ * tree into a model and records where everything came from.
  */
 export class MermaidParser {
   /**
    * Parse Mermaid text into a FlowchartModel
    */
   parse(text: string): FlowchartModel {
-    const ctx = this.createContext();
-    const lines = this.preprocess(text, ctx);
+    return this.run(text).model;
+  }
+
+  /**
+   * Parse Mermaid text and keep track of where each statement came from,
+   * so the serializer can patch the original text later on.
+   */
+  parseDocument(text: string): ParsedDocument {
+    const { model, ctx } = this.run(text);
+    return {
+      model,
+      source: {
+        lines: ctx.sourceLines,
+        statements: [...ctx.statements].sort((a, b) => a.line - b.line),
+        locations: [...ctx.locations].sort((a, b) => a.line - b.line || a.start - b.start),
+        snapshot: model.toData(),
+      },
+      diagnostics: ctx.diagnostics,
+    };
+  }
+
+  /**
+   * Parse Mermaid text and collect diagnostics for everything that was
+   * skipped or looked suspicious along the way.
+   */
+  parseWithDiagnostics(text: string): { model: FlowchartModel; diagnostics: ParseDiagnostic[] } {
+    const { model, ctx } = this.run(text);
+    return { model, diagnostics: ctx.diagnostics };
+  }
+
+  private run(text: string): { model: FlowchartModel; ctx: ParseContext } {
+    const ctx = this.createContext(text);
+    const { root, errors } = new FlowchartCstParser().parse(text);
+
+    const statements = root.children.filter((child): child is CstNode => child.type === 'node');
+    const declaration = statements.find((statement) => statement.kind === 'declaration');
+
+    // Another diagram type is not read as flowchart statements
+    const diagram = !declaration && statements.length > 0 ? detectDiagramType(cstText(statements[0])) : null;
+    if (diagram && diagram.type !== 'unknown' && diagram.type !== 'flowchart') {
+      this.report({
+        severity: 'error',
+        code: 'unsupported-diagram',
+        message: `${diagram.displayName} is not a flowchart, only flowcharts are supported`,
+        span: statements[0],
+      }, ctx);
+      return { model: this.buildModel(ctx), ctx };
+    }
 
-    // Parse graph declaration
-    const startIndex = this.parseGraphDeclaration(lines, ctx);
+    for (const error of errors) {
+      this.report({ severity: 'error', code: error.code, message: error.message, span: error }, ctx);
+    }
 
-    // Parse statements
-    this.parseStatements(lines, startIndex, ctx);
+    ctx.declared = !declaration;
+    if (!declaration && statements.length > 0) {
+      this.report({
+        severity: 'warning',
+        code: 'missing-declaration',
+        message: 'Missing "flowchart" or "graph" declaration',
+        span: statements[0],
+      }, ctx);
+    }
+
+    this.readComments(root, declaration, ctx);
+    this.parseStatements(root.children, ctx);
+    this.resolveSubGraphReferences(ctx);
+    this.checkDocument(ctx);
 
     // Build and return model
-    return this.buildModel(ctx);
+    return { model: this.buildModel(ctx), ctx };
+  }
+
+  /**
+   * Subgraph IDs used like node IDs (`one --> two`, or `s1` alone in the
+   * body of `s2` to nest it) refer to the subgraph, as in Mermaid: no node
+   * is created and the source records them as subgraph references.
+   */
+  private resolveSubGraphReferences(ctx: ParseContext): void {
+    const subGraphIds = new Set(ctx.subGraphs.map((subGraph) => subGraph.id));
+    for (const id of subGraphIds) {
+      ctx.nodes.delete(id);
+    }
+    for (const statement of ctx.statements) {
+      statement.nodeIds = statement.nodeIds.filter((id) => !subGraphIds.has(id));
+      statement.definedNodeIds = statement.definedNodeIds.filter((id) => !subGraphIds.has(id));
+    }
+    for (const location of ctx.locations) {
+      if (location.kind === 'node' && subGraphIds.has(location.id)) {
+        location.kind = 'subgraph';
+        location.defining = false;
+      }
+    }
+
+    for (const node of ctx.nodes.values()) {
+      node.parentId = ctx.parents.get(node.id);
+    }
+    for (const subGraph of ctx.subGraphs) {
+      // A subgraph cannot end up inside itself
+      const ancestors = new Set<string>();
+      for (let id = ctx.parents.get(subGraph.id); id && !ancestors.has(id); id = ctx.parents.get(id)) {
+        ancestors.add(id);
+      }
+      subGraph.parentId = ancestors.has(subGraph.id) ? undefined : ctx.parents.get(subGraph.id);
+      subGraph.nodeIds = (ctx.subGraphMembers.get(subGraph.id) ?? []).filter(
+        (id) => ctx.nodes.has(id) && ctx.parents.get(id) === subGraph.id
+      );
+    }
   }
 
   /**
    * Create initial parse context
    */
-  private createContext(): ParseContext {
+  private createContext(text: string): ParseContext {
     return {
       direction: 'TB',
       nodes: new Map(),
       edges: [],
       subGraphs: [],
       classDefs: new Map(),
+      defaultEdgeStyle: [],
       subGraphStack: [],
+      subGraphMembers: new Map(),
+      parents: new Map(),
       edgeCounter: 0,
       headerLines: [],
+      settings: {},
+      sourceLines: text.split('\n'),
+      lineIndex: new LineIndex(text),
+      comments: new Map(),
+      declared: false,
+      statements: [],
+      openSubGraphs: [],
+      locations: [],
+      classUsages: [],
+      diagnostics: [],
     };
   }
 
   /**
-   * Preprocess text: remove comments, normalize whitespace
+   * Record a diagnostic, resolving its range from source offsets
    */
-  private preprocess(text: string, ctx: ParseContext): string[] {
-    const lines: string[] = [];
-    let seenGraphDeclaration = false;
-
-    for (const rawLine of text.split('\n')) {
-      let line = rawLine.trim();
-      if (!line) {
-        continue;
-      }
-
-      if (line.startsWith('%%')) {
-        const directiveMatch = line.match(/^%%\{(.+)\}%%$/);
-        if (directiveMatch) {
-          const directive = directiveMatch[1].trim();
-          if (directive.startsWith('merfolk:')) {
-            const jsonText = directive.slice('merfolk:'.length).trim();
-            try {
-              ctx.merfolkMeta = JSON.parse(jsonText) as MerfolkMeta;
-            } catch {
-              if (!seenGraphDeclaration) {
-                ctx.headerLines.push(line);
-              }
-            }
-          } else if (!seenGraphDeclaration) {
-            ctx.headerLines.push(line);
-          }
-        } else if (!seenGraphDeclaration) {
-          ctx.headerLines.push(line);
-        }
-        continue;
-      }
-
-      const commentIndex = line.indexOf('%%');
-      if (commentIndex !== -1) {
-        line = line.substring(0, commentIndex).trim();
-        if (!line) continue;
-      }
-
-      lines.push(line);
-
-      if (!seenGraphDeclaration && /^(flowchart|graph)\b/i.test(line)) {
-        seenGraphDeclaration = true;
-      }
-    }
-
-    return lines;
+  private report(report: DiagnosticReport, ctx: ParseContext): void {
+    const span = report.span ?? ctx.currentSpan ?? { start: 0, end: 0 };
+    const range = ctx.lineIndex.rangeOf(span);
+    const { line, column } = range.start;
+    // The same problem can be found twice, e.g. by the grammar and by a check
+    const duplicate = ctx.diagnostics.some(
+      (d) => d.line === line && d.column === column && d.code === report.code && d.message === report.message
+    );
+    if (duplicate) return;
+
+    ctx.diagnostics.push({
+      severity: report.severity,
+      message: report.message,
+      line,
+      column,
+      range,
+      code: report.code,
+    });
   }
 
   /**
-   * Parse the graph/flowchart declaration line
+   * Checks that need the whole document: unclosed subgraphs and
+   * classes that were used but never defined
    */
-  private parseGraphDeclaration(lines: string[], ctx: ParseContext): number {
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const match = line.match(/^(flowchart|graph)\s*(TB|BT|LR|RL|TD)?/i);
-      if (match) {
-        let dir = match[2]?.toUpperCase() as Direction | 'TD' | undefined;
-        if (dir === 'TD') dir = 'TB';
-        ctx.direction = dir || 'TB';
-        return i + 1;
+  private checkDocument(ctx: ParseContext): void {
+    for (const { statement, keyword } of ctx.openSubGraphs) {
+      this.report({
+        severity: 'error',
+        code: 'unclosed-subgraph',
+        message: statement.subGraphId
+          ? `Subgraph "${statement.subGraphId}" is missing its "end"`
+          : 'Subgraph is missing its "end"',
+        span: keyword,
+      }, ctx);
+    }
+
+    for (const { className, span } of ctx.classUsages) {
+      if (!ctx.classDefs.has(className)) {
+        this.report({
+          severity: 'warning',
+          code: 'undefined-class',
+          message: `Class "${className}" is not defined by any classDef`,
+          span,
+        }, ctx);
       }
     }
-    return 0;
+
+    ctx.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
   }
 
   /**
-   * Parse all statements after the declaration
+   * Collect trailing comments, header comments/directives before the
+   * declaration and the merfolk metadata directive
    */
-  private parseStatements(
-    lines: string[],
-    startIndex: number,
-    ctx: ParseContext
-  ): void {
-    for (let i = startIndex; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Skip empty lines
-      if (!line) continue;
-
-      // Subgraph start
-      if (line.startsWith('subgraph')) {
-        this.parseSubGraphStart(line, ctx);
+  private readComments(root: CstNode, declaration: CstNode | undefined, ctx: ParseContext): void {
+    for (const token of cstTokens(root)) {
+      if (token.kind === 'frontmatter') {
+        this.readFrontmatter(token, ctx);
         continue;
       }
-
-      // Subgraph end
-      if (line === 'end') {
-        ctx.subGraphStack.pop();
+      if (token.kind !== 'comment' && token.kind !== 'directive') continue;
+      const line = ctx.lineIndex.lineOf(token.start);
+      const raw = (ctx.sourceLines[line] ?? '').replace(/\r$/, '');
+      const before = raw.slice(0, ctx.lineIndex.columnOf(token.start));
+
+      if (before.trim()) {
+        if (!ctx.comments.has(line)) {
+          ctx.comments.set(line, raw.slice(before.trimEnd().length));
+        }
         continue;
       }
 
-      // Direction inside subgraph: direction TB/LR/etc.
-      if (line.startsWith('direction ')) {
-        this.parseDirectionStatement(line, ctx);
+      const text = token.text.trim();
+      const inHeader = !declaration || token.start < declaration.start;
+      const directive = text.match(/^%%\{(.+)\}%%$/s)?.[1].trim();
+      if (directive && /^init(?:ialize)?\s*:/.test(directive) && this.readInitDirective(token, directive, ctx)) {
         continue;
       }
-
-      // Class definition
-      if (line.startsWith('classDef')) {
-        this.parseClassDef(line, ctx);
-        continue;
+      if (directive?.startsWith('merfolk:')) {
+        try {
+          ctx.merfolkMeta = JSON.parse(directive.slice('merfolk:'.length).trim()) as MerfolkMeta;
+          this.beginStatement('merfolk', token, ctx);
+          ctx.currentStatement = undefined;
+          ctx.currentSpan = undefined;
+          continue;
+        } catch {
+          // Kept as a plain header line below
+        }
       }
-
-      // Class assignment
-      if (line.startsWith('class ')) {
-        this.parseClassAssignment(line, ctx);
-        continue;
+      if (inHeader) {
+        ctx.headerLines.push(text);
       }
+    }
+  }
 
-      // Style statement
-      if (line.startsWith('style ')) {
-        this.parseStyleStatement(line, ctx);
-        continue;
-      }
+  /**
+   * Read the YAML frontmatter: `title`, `config` and any other keys
+   */
+  private readFrontmatter(token: CstToken, ctx: ParseContext): void {
+    const statement = this.beginStatement('frontmatter', token, ctx);
+    statement.endLine = ctx.lineIndex.lineOf(token.end);
+    ctx.currentStatement = undefined;
+    ctx.currentSpan = undefined;
+
+    const lines = token.text.split('\n');
+    const closed = lines.length > 1 && /^---[ \t]*$/.test(lines[lines.length - 1]);
+    const body = lines.slice(1, closed ? -1 : undefined).join('\n');
+    const { value, error } = parseYaml(body);
+    if (error) {
+      const line = ctx.lineIndex.lineOf(token.start) + 1 + error.line;
+      const start = ctx.lineIndex.lineStart(line);
+      this.report({
+        severity: 'error',
+        code: 'invalid-config',
+        message: `Invalid frontmatter: ${error.message}`,
+        span: { start, end: start + (ctx.sourceLines[line] ?? '').replace(/\r$/, '').length },
+      }, ctx);
+      return;
+    }
+    if (value === null) return;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.report({
+        severity: 'error',
+        code: 'invalid-config',
+        message: 'Frontmatter must be a list of "key: value" entries',
+        span: token,
+      }, ctx);
+      return;
+    }
 
-      // Link style statement: linkStyle 0 stroke:#ff3,stroke-width:4px
-      if (line.startsWith('linkStyle ')) {
-        this.parseLinkStyleStatement(line, ctx);
-        continue;
+    const { title, config, ...rest } = value;
+    if (title !== undefined && title !== null) {
+      ctx.settings.title = String(title);
+    }
+    if (config !== undefined && config !== null) {
+      if (typeof config === 'object' && !Array.isArray(config)) {
+        ctx.settings.config = config as DiagramConfig;
+        this.checkConfig(ctx.settings.config, token, ctx);
+      } else {
+        this.report({
+          severity: 'warning',
+          code: 'invalid-config',
+          message: '"config" must be a list of "key: value" entries',
+          span: this.keySpan(token, 'config'),
+        }, ctx);
       }
+    }
+    if (Object.keys(rest).length > 0) {
+      ctx.settings.frontmatter = rest;
+    }
+  }
 
-      // Link/click statement
-      if (line.startsWith('click ')) {
-        this.parseClickStatement(line, ctx);
-        continue;
+  /**
+   * Read an `%%{init: { ... }}%%` directive. Like Mermaid, single quotes
+   * are accepted in place of double quotes.
+   * @returns false if the directive could not be read
+   */
+  private readInitDirective(token: CstToken, directive: string, ctx: ParseContext): boolean {
+    const json = directive.replace(/^init(?:ialize)?\s*:/, '').trim();
+    let config: unknown;
+    try {
+      config = JSON.parse(json);
+    } catch {
+      try {
+        config = JSON.parse(json.replace(/'/g, '"'));
+      } catch {
+        config = undefined;
       }
+    }
+    if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+      this.report({
+        severity: 'warning',
+        code: 'invalid-config',
+        message: 'The init directive is not a valid JSON object; it is ignored',
+        span: token,
+      }, ctx);
+      return false;
+    }
 
-      // Edge property configuration: e1@{ animate: true }
-      // Distinguish from node @{} syntax by checking for edge-specific properties
-      const edgePropMatch = line.match(/^([\w-]+)@\{(.+?)\}$/);
-      if (edgePropMatch) {
-        const propsStr = edgePropMatch[2];
-        // Edge properties contain animate/animation, node properties contain shape/label
-        if (propsStr.includes('animate') || propsStr.includes('animation') || propsStr.includes('style')) {
-          this.parseEdgeProperties(edgePropMatch[1], propsStr, ctx);
-          continue;
-        }
-        // Fall through to node edge statement parsing for node @{} syntax
-      }
+    const statement = this.beginStatement('init', token, ctx);
+    const endLine = ctx.lineIndex.lineOf(token.end);
+    if (endLine !== statement.line) {
+      statement.endLine = endLine;
+    }
+    ctx.currentStatement = undefined;
+    ctx.currentSpan = undefined;
+    // Later directives add to earlier ones
+    ctx.settings.init = mergeDiagramConfig(ctx.settings.init, config as DiagramConfig);
+    this.checkConfig(config as DiagramConfig, token, ctx);
+    return true;
+  }
 
-      // Node and edge statements
-      this.parseNodeEdgeStatement(line, ctx);
+  /**
+   * Warn about configuration values Mermaid does not know
+   */
+  private checkConfig(config: DiagramConfig, span: CstToken, ctx: ParseContext): void {
+    const theme = config.theme as unknown;
+    if (theme !== undefined && !(DIAGRAM_THEMES as readonly unknown[]).includes(theme) && theme !== 'null') {
+      this.report({
+        severity: 'warning',
+        code: 'invalid-config',
+        message: `Unknown theme "${String(theme)}"; expected one of ${DIAGRAM_THEMES.join(', ')}`,
+        span: this.keySpan(span, 'theme'),
+      }, ctx);
+    }
+    const curve = config.flowchart?.curve as unknown;
+    if (curve !== undefined && !(EDGE_CURVES as readonly unknown[]).includes(curve)) {
+      this.report({
+        severity: 'warning',
+        code: 'invalid-config',
+        message: `"curve" must be one of ${EDGE_CURVES.join(', ')}, got "${String(curve)}"`,
+        span: this.keySpan(span, 'curve'),
+      }, ctx);
+    }
+    for (const key of ['nodeSpacing', 'rankSpacing'] as const) {
+      const value = config.flowchart?.[key] as unknown;
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        this.report({
+          severity: 'warning',
+          code: 'invalid-config',
+          message: `"${key}" must be a positive number, got "${String(value)}"`,
+          span: this.keySpan(span, key),
+        }, ctx);
+      }
     }
   }
 
   /**
-   * Parse edge property configuration: e1@{ animate: true }
+   * Span of the first `key:` written in a configuration block, or the whole block
    */
-  private parseEdgeProperties(edgeId: string, propsStr: string, ctx: ParseContext): void {
-    const props = this.parseAtProperties(propsStr);
+  private keySpan(token: CstToken, key: string): Span {
+    const match = new RegExp(`(^|[\\s{,])(["']?${key}["']?)\\s*:`, 'm').exec(token.text);
+    if (!match) return token;
+    const start = token.start + match.index + match[1].length;
+    return { start, end: start + match[2].length };
+  }
 
-    // Find the edge with this ID and update its properties
-    for (const edge of ctx.edges) {
-      if (edge.id === edgeId) {
-        if (props.animate === 'true') {
-          edge.animate = true;
-        }
-        if (props.animation) {
-          edge.animation = props.animation as 'fast' | 'slow';
-        }
-        break;
-      }
+  /**
+   * Record a statement starting at the given span and make it current
+   */
+  private beginStatement(kind: SourceStatementKind, span: Span, ctx: ParseContext): SourceStatement {
+    const line = ctx.lineIndex.lineOf(span.start);
+    const raw = ctx.sourceLines[line] ?? '';
+    const indent = raw.match(/^\s*/)?.[0] ?? '';
+    const statement: SourceStatement = {
+      kind,
+      line,
+      indent,
+      nodeIds: [],
+      definedNodeIds: [],
+      edgeIds: [],
+    };
+    const comment = ctx.comments.get(line);
+    if (comment !== undefined) {
+      statement.comment = comment;
     }
+    ctx.statements.push(statement);
+    ctx.currentStatement = statement;
+    ctx.currentSpan = span;
+    return statement;
   }
 
   /**
-   * Parse linkStyle statement: linkStyle 0 stroke:#ff3,stroke-width:4px
-   * Supports: linkStyle 0 ..., linkStyle 1,2 ..., linkStyle default ...
+   * Record a node reference on the current statement
+   * @param span Source text of the reference
    */
-  private parseLinkStyleStatement(line: string, ctx: ParseContext): void {
-    // Match: linkStyle 0 stroke:#ff3,stroke-width:4px
-    // or: linkStyle 1,2 stroke:#ff3
-    // or: linkStyle default stroke:#333
-    const match = line.match(/^linkStyle\s+([\d,\s]+|default)\s+(.+)$/);
-    if (!match) return;
-
-    const indexPart = match[1].trim();
-    const stylePart = match[2].trim();
-
-    // Parse style properties
-    const style: Record<string, string> = {};
-    stylePart.split(',').forEach((prop) => {
-      const colonIndex = prop.indexOf(':');
-      if (colonIndex !== -1) {
-        const key = prop.substring(0, colonIndex).trim();
-        const value = prop.substring(colonIndex + 1).trim();
-        style[key] = value;
-      }
-    });
+  private recordNode(id: string, defined: boolean, span: Span, ctx: ParseContext): void {
+    const statement = ctx.currentStatement;
+    if (!statement) return;
+    if (!statement.nodeIds.includes(id)) {
+      statement.nodeIds.push(id);
+    }
+    if (defined && !statement.definedNodeIds.includes(id)) {
+      statement.definedNodeIds.push(id);
+    }
+    this.recordLocation('node', id, span, defined, ctx);
+  }
 
-    // Apply to edges
-    if (indexPart === 'default') {
-      // Apply to all edges
-      for (const edge of ctx.edges) {
-        edge.style = { ...edge.style, ...this.convertToEdgeStyle(style) };
-      }
-    } else {
-      // Parse edge indices
-      const indices = indexPart.split(',').map((s) => parseInt(s.trim(), 10));
-      for (const index of indices) {
-        if (index >= 0 && index < ctx.edges.length) {
-          ctx.edges[index].style = { ...ctx.edges[index].style, ...this.convertToEdgeStyle(style) };
-        }
+  /**
+   * Record an element location. Spans that run over several lines are cut
+   * at the end of their first line.
+   */
+  private recordLocation(
+    kind: SourceElementKind,
+    id: string,
+    span: Span,
+    defining: boolean,
+    ctx: ParseContext
+  ): void {
+    const line = ctx.lineIndex.lineOf(span.start);
+    const start = ctx.lineIndex.columnOf(span.start);
+    const end =
+      ctx.lineIndex.lineOf(span.end) === line
+        ? ctx.lineIndex.columnOf(span.end)
+        : (ctx.sourceLines[line] ?? '').replace(/\r$/, '').length;
+    const existing = ctx.locations.find(
+      (l) => l.kind === kind && l.id === id && l.line === line && l.start === start && l.end === end
+    );
+    if (existing) {
+      existing.defining ||= defining;
+      return;
+    }
+    ctx.locations.push({ kind, id, line, start, end, defining });
+  }
+
+  /**
+   * Parse the statements of a block (the document or a subgraph body)
+   */
+  private parseStatements(children: CstElement[], ctx: ParseContext): void {
+    for (const child of children) {
+      if (child.type !== 'node') continue;
+      switch (child.kind) {
+        case 'declaration':
+          this.parseGraphDeclaration(child, ctx);
+          break;
+        case 'error':
+          // Unreadable statements keep their line in the source document
+          if (ctx.declared) this.beginStatement('node', child, ctx);
+          break;
+        case 'subgraph':
+          this.parseSubGraph(child, ctx);
+          break;
+        case 'end':
+          // Without a subgraph; reported by the grammar
+          this.beginStatement('end', child, ctx);
+          break;
+        case 'direction':
+          this.parseDirectionStatement(child, ctx);
+          break;
+        case 'classDef':
+          this.parseClassDef(child, ctx);
+          break;
+        case 'class':
+          this.parseClassAssignment(child, ctx);
+          break;
+        case 'style':
+          this.parseStyleStatement(child, ctx);
+          break;
+        case 'linkStyle':
+          this.parseLinkStyleStatement(child, ctx);
+          break;
+        case 'click':
+          this.parseClickStatement(child, ctx);
+          break;
+        case 'accTitle':
+        case 'accDescr':
+          this.parseAccessibility(child, ctx);
+          break;
+        case 'vertexStatement':
+          this.parseVertexStatement(child, ctx);
+          break;
       }
     }
   }
 
   /**
-   * Convert CSS-style properties to EdgeStyle
+   * Parse the graph/flowchart declaration
    */
-  private convertToEdgeStyle(style: Record<string, string>): { stroke?: string; strokeWidth?: number } {
-    const result: { stroke?: string; strokeWidth?: number } = {};
-    if (style.stroke) {
-      result.stroke = style.stroke;
+  private parseGraphDeclaration(node: CstNode, ctx: ParseContext): void {
+    ctx.declared = true;
+    this.beginStatement('declaration', node, ctx);
+    const direction = childTokens(node, 'direction')[0];
+    ctx.direction = direction ? this.toDirection(direction.text) : 'TB';
+  }
+
+  private toDirection(text: string): Direction {
+    const dir = text.toUpperCase();
+    return (dir === 'TD' ? 'TB' : dir) as Direction;
+  }
+
+  /**
+   * Parse a subgraph: its header, the nested statements and its `end`
+   */
+  private parseSubGraph(node: CstNode, ctx: ParseContext): void {
+    const keyword = node.children[0] as CstToken;
+    const bodyStart = node.children.findIndex(
+      (child, index) =>
+        index > 0 &&
+        (child.type === 'node'
+          ? child.kind !== 'shape'
+          : ['newline', 'semicolon', 'comment', 'directive'].includes(child.kind))
+    );
+    const header = node.children.slice(0, bodyStart === -1 ? undefined : bodyStart);
+    while (header.length > 1 && header[header.length - 1].type === 'token' &&
+      (header[header.length - 1] as CstToken).kind === 'whitespace') {
+      header.pop();
     }
-    if (style['stroke-width']) {
-      result.strokeWidth = parseInt(style['stroke-width'], 10);
+    const headerSpan = { start: keyword.start, end: header[header.length - 1].end };
+    const body = bodyStart === -1 ? [] : node.children.slice(bodyStart);
+    const last = body[body.length - 1];
+    const endNode = last?.type === 'node' && last.kind === 'end' ? last : undefined;
+    if (endNode) body.pop();
+
+    const statement = this.beginStatement('subgraph', headerSpan, ctx);
+    const id = this.parseSubGraphStart(header, ctx);
+    if (id) {
+      this.recordLocation('subgraph', id, headerSpan, true, ctx);
+    }
+    // Track invalid subgraphs too, so their `end` is not reported as unmatched
+    ctx.openSubGraphs.push({ statement, keyword });
+
+    this.parseStatements(body, ctx);
+    if (id) {
+      this.claimMembers(id, ctx);
+    }
+
+    if (!endNode) return;
+    const endStatement = this.beginStatement('end', endNode, ctx);
+    ctx.openSubGraphs.pop();
+    statement.endLine = endStatement.line;
+    if (id) {
+      ctx.subGraphStack.pop();
+      endStatement.subGraphId = id;
+      this.recordLocation('subgraph', id, endNode, false, ctx);
     }
-    return result;
   }
 
   /**
-   * Parse subgraph start: subgraph id [title]
+   * Parse subgraph header: subgraph id [title]
+   * @returns the subgraph ID, or undefined for an invalid header
    */
-  private parseSubGraphStart(line: string, ctx: ParseContext): void {
-    const match = line.match(/^subgraph\s+(.+)$/);
-    if (!match) return;
+  private parseSubGraphStart(header: CstElement[], ctx: ParseContext): string | undefined {
+    const tokens = header.filter((child): child is CstToken => child.type === 'token');
+    const quoted = tokens.find((token) => token.kind === 'string');
+    const text = tokens.find((token) => token.kind === 'text');
+    const idToken = tokens.find((token) => token.kind === 'identifier');
+    const shape = header.find((child): child is CstNode => child.type === 'node' && child.kind === 'shape');
 
-    const rest = match[1].trim();
     let id: string;
     let title: string;
-
-    if (/^["'`]/.test(rest)) {
-      title = this.unquoteText(rest);
+    if (quoted || text) {
+      // Titles without an ID get one generated from the title
+      title = quoted ? this.unquoteText(quoted.text) : text!.text;
       id = this.generateSubGraphId(title, ctx);
+    } else if (idToken) {
+      id = idToken.text;
+      title = shape ? this.readShape(shape).text : id;
     } else {
-      const idMatch = rest.match(/^([^\s\[]+)(?:\s*\[(.+)\])?$/);
-      if (!idMatch) return;
-      id = idMatch[1];
-      const rawTitle = idMatch[2];
-      title = rawTitle ? this.unquoteText(rawTitle.trim()) : id;
+      // Reported by the grammar
+      return undefined;
     }
 
-    const parentId =
-      ctx.subGraphStack.length > 0
-        ? ctx.subGraphStack[ctx.subGraphStack.length - 1]
-        : undefined;
+    // The parent and members are resolved once the document is read
+    this.mention(id, ctx);
     ctx.subGraphs.push({
       id,
       title,
       nodeIds: [],
-      parentId,
       // Don't inherit direction - subgraph can have its own direction
     });
     ctx.subGraphStack.push(id);
+    ctx.subGraphMembers.set(id, []);
+    if (ctx.currentStatement?.kind === 'subgraph') {
+      ctx.currentStatement.subGraphId = id;
+    }
+    return id;
+  }
+
+  /**
+   * Note an ID mentioned in the body of the innermost open subgraph
+   */
+  private mention(id: string, ctx: ParseContext): void {
+    const subGraphId = ctx.subGraphStack[ctx.subGraphStack.length - 1];
+    const members = subGraphId ? ctx.subGraphMembers.get(subGraphId) : undefined;
+    if (members && !members.includes(id)) {
+      members.push(id);
+    }
+  }
+
+  /**
+   * Give a closing subgraph the IDs it mentions that no subgraph closed
+   * before it has taken (Mermaid's makeUniq)
+   */
+  private claimMembers(subGraphId: string, ctx: ParseContext): void {
+    for (const id of ctx.subGraphMembers.get(subGraphId) ?? []) {
+      if (id !== subGraphId && !ctx.parents.has(id)) {
+        ctx.parents.set(id, subGraphId);
+      }
+    }
   }
 
   private generateSubGraphId(title: string, ctx: ParseContext): string {
@@ -405,55 +796,81 @@ export class MermaidParser {
   /**
    * Parse direction statement inside subgraph: direction TB/LR/etc.
    */
-  private parseDirectionStatement(line: string, ctx: ParseContext): void {
-    const match = line.match(/^direction\s+(TB|BT|LR|RL|TD)/i);
-    if (match) {
-      let dir = match[1].toUpperCase() as Direction | 'TD';
-      if (dir === 'TD') dir = 'TB';
-
-      // If inside a subgraph, set the subgraph's direction
-      if (ctx.subGraphStack.length > 0) {
-        const currentSubGraphId = ctx.subGraphStack[ctx.subGraphStack.length - 1];
-        const subGraph = ctx.subGraphs.find((s) => s.id === currentSubGraphId);
-        if (subGraph) {
-          subGraph.direction = dir as Direction;
-        }
-      } else {
-        // Otherwise set the graph's direction
-        ctx.direction = dir as Direction;
+  private parseDirectionStatement(node: CstNode, ctx: ParseContext): void {
+    const statement = this.beginStatement('direction', node, ctx);
+    statement.subGraphId = ctx.subGraphStack[ctx.subGraphStack.length - 1];
+    const token = childTokens(node, 'direction')[0];
+    // Invalid statements are reported by the grammar
+    if (!token) return;
+    const dir = this.toDirection(token.text);
+
+    // If inside a subgraph, set the subgraph's direction
+    if (ctx.subGraphStack.length > 0) {
+      const currentSubGraphId = ctx.subGraphStack[ctx.subGraphStack.length - 1];
+      const subGraph = ctx.subGraphs.find((s) => s.id === currentSubGraphId);
+      if (subGraph) {
+        subGraph.direction = dir;
       }
+    } else {
+      // Otherwise set the graph's direction
+      ctx.direction = dir;
+    }
+  }
+
+  /**
+   * Parse accessibility statements: accTitle: text, accDescr: text or
+   * accDescr { text }. A later statement of the same kind wins.
+   */
+  private parseAccessibility(node: CstNode, ctx: ParseContext): void {
+    const statement = this.beginStatement('accessibility', node, ctx);
+    const endLine = ctx.lineIndex.lineOf(node.end);
+    if (endLine !== statement.line) {
+      statement.endLine = endLine;
+    }
+    // Lines of the block form lose their indentation
+    const text = childTokens(node, 'text')[0]?.text ?? '';
+    const value = text.split('\n').map((line) => line.trim()).join('\n').trim();
+    if (!value) return;
+    if (node.kind === 'accTitle') {
+      ctx.settings.accTitle = value;
+    } else {
+      ctx.settings.accDescr = value;
     }
   }
 
   /**
    * Parse class definition: classDef className fill:#f9f,stroke:#333
    */
-  private parseClassDef(line: string, ctx: ParseContext): void {
-    const match = line.match(/^classDef\s+(\S+)\s+(.+)$/);
-    if (match) {
-      const name = match[1];
-      const styleStr = match[2];
-      const styles = styleStr.split(',').map((s) => s.trim());
-      ctx.classDefs.set(name, { styles, textStyles: [] });
+  private parseClassDef(node: CstNode, ctx: ParseContext): void {
+    this.beginStatement('classDef', node, ctx);
+    const name = childTokens(node, 'className')[0];
+    const styles = this.readStyles(node);
+    if (name && styles) {
+      ctx.classDefs.set(name.text, { styles, textStyles: [] });
     }
   }
 
   /**
    * Parse class assignment: class nodeId1,nodeId2 className
+   * Edges declared with an ID (`A e1@--> B`) can be targeted too.
    */
-  private parseClassAssignment(line: string, ctx: ParseContext): void {
-    const match = line.match(/^class\s+(.+?)\s+(\S+)$/);
-    if (match) {
-      const nodeIds = match[1].split(',').map((s) => s.trim());
-      const className = match[2];
-      for (const nodeId of nodeIds) {
-        const node = ctx.nodes.get(nodeId);
-        if (node) {
-          node.cssClasses = node.cssClasses || [];
-          if (!node.cssClasses.includes(className)) {
-            node.cssClasses.push(className);
-          }
-        }
+  private parseClassAssignment(node: CstNode, ctx: ParseContext): void {
+    this.beginStatement('class', node, ctx);
+    const className = childTokens(node, 'className')[0];
+    if (!className) return;
+    ctx.classUsages.push({ className: className.text, span: className });
+    for (const token of childTokens(node, 'identifier')) {
+      const target = ctx.nodes.get(token.text);
+      if (target) {
+        this.recordNode(token.text, false, token, ctx);
+        this.addClass(target, className.text);
+        continue;
+      }
+      const edge = ctx.edges.find((e) => e.id === token.text && e.isUserDefinedId);
+      if (edge) {
+        this.recordLocation('edge', edge.id, token, false, ctx);
+        ctx.currentStatement?.edgeIds.push(edge.id);
+        this.addClass(edge, className.text);
       }
     }
   }
@@ -461,344 +878,407 @@ export class MermaidParser {
   /**
    * Parse style statement: style nodeId fill:#f9f
    */
-  private parseStyleStatement(line: string, ctx: ParseContext): void {
-    const match = line.match(/^style\s+(\S+)\s+(.+)$/);
-    if (match) {
-      const nodeId = match[1];
-      const styleStr = match[2];
-      const node = ctx.nodes.get(nodeId);
-      if (node) {
-        // Parse style string into style object
-        const styles = styleStr.split(',').map((s) => s.trim());
-        node.style = node.style || {};
-        for (const style of styles) {
-          const [key, value] = style.split(':').map((s) => s.trim());
-          if (key === 'fill') node.style.fill = value;
-          else if (key === 'stroke') node.style.stroke = value;
-          else if (key === 'stroke-width')
-            node.style.strokeWidth = parseInt(value);
-          else if (key === 'color') node.style.color = value;
-        }
-      }
+  private parseStyleStatement(node: CstNode, ctx: ParseContext): void {
+    this.beginStatement('style', node, ctx);
+    const token = childTokens(node, 'identifier')[0];
+    const styles = this.readStyles(node);
+    const target = token && ctx.nodes.get(token.text);
+    if (target && styles) {
+      this.recordNode(token.text, false, token, ctx);
+      target.style = { ...target.style, ...parseStyleDeclarations(styles) };
     }
   }
 
   /**
-   * Parse click statement: click nodeId "url" or click nodeId callback
+   * Parse linkStyle statement: linkStyle 0 stroke:#ff3,stroke-width:4px
+   * Supports: linkStyle 0 ..., linkStyle 1,2 ..., linkStyle default ...
    */
-  private parseClickStatement(line: string, ctx: ParseContext): void {
-    const match = line.match(/^click\s+(\S+)\s+"([^"]+)"(?:\s+"([^"]+)")?/);
-    if (match) {
-      const nodeId = match[1];
-      const link = match[2];
-      const target = match[3] as '_self' | '_blank' | '_parent' | '_top' | undefined;
-      const node = ctx.nodes.get(nodeId);
-      if (node) {
-        node.link = link;
-        if (target) node.linkTarget = target;
+  private parseLinkStyleStatement(node: CstNode, ctx: ParseContext): void {
+    this.beginStatement('linkStyle', node, ctx);
+    const styles = this.readStyles(node);
+    if (!styles) return;
+
+    if (childTokens(node, 'keyword').some((token) => token.text === 'default')) {
+      // Mermaid applies it to every edge, so it is kept apart from the edges
+      ctx.defaultEdgeStyle = combineStyleDeclarations(ctx.defaultEdgeStyle, styles);
+      return;
+    }
+
+    for (const token of childTokens(node, 'number')) {
+      const index = parseInt(token.text, 10);
+      if (index >= 0 && index < ctx.edges.length) {
+        const edge = ctx.edges[index];
+        edge.styles = combineStyleDeclarations(edge.styles ?? [], styles);
+        const style = parseEdgeStyleDeclarations(edge.styles);
+        edge.style = Object.keys(style).length > 0 ? style : undefined;
+      } else {
+        // Mermaid only counts the edges defined before the statement
+        const count = ctx.edges.length;
+        this.report({
+          severity: 'error',
+          code: 'undefined-edge',
+          message: `linkStyle index ${index} is out of range, ${count} edge${count === 1 ? ' is' : 's are'} defined before it`,
+          span: token,
+        }, ctx);
       }
     }
   }
 
   /**
-   * Parse node and edge statements: A --> B or A[text] --> B[text]
-   * Also handles multi-node links: A & B --> C & D
+   * Declarations of the style list of a statement
    */
-  private parseNodeEdgeStatement(line: string, ctx: ParseContext): void {
-    // First, expand multi-node links (A & B --> C & D)
-    const expandedLines = this.expandMultiNodeLinks(line);
+  private readStyles(node: CstNode): string[] | undefined {
+    const styles = childNodes(node, 'styles')[0];
+    return styles ? childTokens(styles, 'style').map((token) => token.text.trim()) : undefined;
+  }
 
-    // Process each expanded line
-    for (const expandedLine of expandedLines) {
-      this.parseSimpleNodeEdgeStatement(expandedLine, ctx);
+  /**
+   * Parse click statement. A node gets a link or a callback, each with an
+   * optional tooltip:
+   * - `click A "url" "tooltip" _blank` (`href` may precede the url)
+   * - `click A callback "tooltip"`
+   * - `click A call callback(args) "tooltip"`
+   */
+  private parseClickStatement(node: CstNode, ctx: ParseContext): void {
+    this.beginStatement('click', node, ctx);
+    const token = childTokens(node, 'identifier')[0];
+    const action = token && childTokens(node, 'unknown').length === 0
+      ? this.readClickAction(
+          node.children.filter(
+            (child): child is CstToken => child.type === 'token' && (child.kind === 'string' || child.kind === 'word')
+          )
+        )
+      : null;
+    if (!action) {
+      this.report({
+        severity: 'warning',
+        code: 'invalid-statement',
+        message:
+          'Invalid "click" statement, expected: click <id> "<url>" ["<tooltip>"] [_blank], ' +
+          'click <id> <callback> ["<tooltip>"] or click <id> call <callback>(<args>) ["<tooltip>"]',
+      }, ctx);
+      return;
+    }
+    const clicked = ctx.nodes.get(token.text);
+    if (clicked) {
+      this.recordNode(token.text, false, token, ctx);
+      Object.assign(clicked, action);
     }
   }
 
   /**
-   * Parse a simple node-edge statement (no & operator)
+   * Read the arguments after `click <id>`; null when they match no click form
    */
-  private parseSimpleNodeEdgeStatement(line: string, ctx: ParseContext): void {
-    // Split by edge operators while preserving them
-    const parts = this.splitByEdges(line);
+  private readClickAction(args: CstToken[]): Pick<NodeData, 'link' | 'linkTarget' | 'tooltip' | 'callback'> | null {
+    const action: Pick<NodeData, 'link' | 'linkTarget' | 'tooltip' | 'callback'> = {};
+    const [first, second] = args;
+    let next: number;
+    if (!first) {
+      return null;
+    } else if (first.kind === 'string' || first.text === 'href') {
+      const link = first.kind === 'string' ? first : second;
+      if (link?.kind !== 'string' || link.text.length <= 2) return null;
+      action.link = unquoteClickString(link);
+      next = args.indexOf(link) + 1;
+    } else if (first.text === 'call') {
+      const call = second?.kind === 'word' ? CALL_PATTERN.exec(second.text) : null;
+      if (!call) return null;
+      action.callback = { name: call[1], args: (call[2] ?? '').trim() };
+      next = 2;
+    } else {
+      if (!CALLBACK_NAME_PATTERN.test(first.text)) return null;
+      action.callback = { name: first.text };
+      next = 1;
+    }
 
-    if (parts.length === 0) return;
+    if (args[next]?.kind === 'string') {
+      const text = unquoteClickString(args[next]);
+      // Earlier versions wrote the target quoted: click A "url" "_blank"
+      if (action.link && isLinkTarget(text) && next === args.length - 1) {
+        action.linkTarget = text;
+      } else {
+        action.tooltip = text;
+      }
+      next++;
+    }
+    const target = action.link ? args[next] : undefined;
+    if (target?.kind === 'word' && isLinkTarget(target.text)) {
+      action.linkTarget = target.text;
+      next++;
+    }
+    return next === args.length ? action : null;
+  }
 
-    // Process each part
-    let prevNodeId: string | null = null;
-    let pendingEdge: { operator: string; text?: string; edgeId?: string } | null = null;
+  /**
+   * Parse node and edge statements: A --> B or A[text] --> B[text]
+   * Also handles multi-node links: A & B --> C & D, which link every
+   * vertex on the left to every vertex on the right
+   */
+  private parseVertexStatement(node: CstNode, ctx: ParseContext): void {
+    const parts = node.children.filter(
+      (child): child is CstNode => child.type === 'node' && (child.kind === 'vertexGroup' || child.kind === 'link')
+    );
+    const vertices = parts.flatMap((part) => childNodes(part, 'vertex'));
+
+    // Edge property configuration: e1@{ animate: true }
+    // Distinguished from node @{} syntax by its edge-specific properties
+    if (isEdgeProperties(node)) {
+      this.parseEdgeProperties(vertices[0], node, ctx);
+      return;
+    }
 
+    this.beginStatement('node', node, ctx);
+    const groups = new Map<CstNode, string[]>();
     for (const part of parts) {
-      if (part.type === 'node') {
-        const nodeId = this.parseNodePart(part.content, ctx);
+      if (part.kind === 'vertexGroup') {
+        groups.set(part, childNodes(part, 'vertex').map((vertex) => this.parseVertex(vertex, ctx)));
+      }
+    }
 
-        // If we have a pending edge, create it
-        if (prevNodeId && pendingEdge) {
-          this.createEdge(prevNodeId, nodeId, pendingEdge.operator, pendingEdge.text, ctx, pendingEdge.edgeId);
+    parts.forEach((part, index) => {
+      if (part.kind !== 'link') return;
+      // Links without a source or target are reported by the grammar
+      const sources = groups.get(parts[index - 1]);
+      const targets = groups.get(parts[index + 1]);
+      if (!sources || !targets) return;
+      const link = this.readLink(part);
+      for (const source of sources) {
+        for (const target of targets) {
+          const edgeId = this.createEdge(source, target, link, ctx);
+          this.recordLocation('edge', edgeId, part, true, ctx);
         }
-
-        prevNodeId = nodeId;
-        pendingEdge = null;
-      } else if (part.type === 'edge') {
-        pendingEdge = { operator: part.content, text: part.text, edgeId: part.edgeId };
       }
-    }
+    });
   }
 
   /**
-   * Expand multi-node links using & operator
-   * Example: "A & B --> C & D" expands to:
-   * - "A --> C"
-   * - "A --> D"
-   * - "B --> C"
-   * - "B --> D"
+   * Parse edge property configuration: e1@{ animate: true }
    */
-  private expandMultiNodeLinks(line: string): string[] {
-    // Check if line contains & operator (not inside brackets/quotes)
-    if (!line.includes(' & ') && !line.includes('& ') && !line.includes(' &')) {
-      return [line];
-    }
-
-    // Find edge operator in the line
-    const edgeMatch = line.match(/(~~~|<==?>|<==>|==?>|===?|<-\.->|-\.->|-\.-?|<-->|-->|o--o|x--x|--o|--x|---?)/);
-    if (!edgeMatch) {
-      return [line];
-    }
-
-    const edgeOp = edgeMatch[0];
-    const edgeIndex = edgeMatch.index!;
-
-    // Split into left and right parts
-    const leftPart = line.substring(0, edgeIndex).trim();
-    // Also capture any text on the edge (|text| or == text ==> format)
-    // For simplicity, we'll pass through the full edge operator
-    const fullEdgeMatch = line.substring(edgeIndex).match(/^(~~~|<==?>|<==>|==?>|===?|<-\.->|-\.->|-\.-?|<-->|-->|o--o|x--x|--o|--x|---?)(\|[^|]+\|)?/);
-    const fullEdge = fullEdgeMatch ? fullEdgeMatch[0] : edgeOp;
-    const rightStartIndex = edgeIndex + fullEdge.length;
-    const actualRightPart = line.substring(rightStartIndex).trim();
-
-    // Split by & operator (but not inside brackets)
-    const leftNodes = this.splitByAmpersand(leftPart);
-    const rightNodes = this.splitByAmpersand(actualRightPart);
-
-    // Generate cartesian product
-    const result: string[] = [];
-    for (const left of leftNodes) {
-      for (const right of rightNodes) {
-        result.push(`${left.trim()} ${fullEdge} ${right.trim()}`);
-      }
+  private parseEdgeProperties(vertex: CstNode, statement: CstNode, ctx: ParseContext): void {
+    this.beginStatement('edgeProps', statement, ctx);
+    const idToken = childTokens(vertex, 'identifier')[0];
+    const edgeId = idToken.text;
+    const { props, tokens } = this.readProperties(childNodes(vertex, 'properties')[0], EDGE_PROPERTY_KEYS, ctx);
+    if (props.animate && props.animate !== 'true' && props.animate !== 'false') {
+      this.report({
+        severity: 'warning',
+        code: 'invalid-property',
+        message: `"animate" must be true or false, got "${props.animate}"`,
+        span: tokens.animate,
+      }, ctx);
+    }
+    if (props.animation && props.animation !== 'fast' && props.animation !== 'slow') {
+      this.report({
+        severity: 'warning',
+        code: 'invalid-property',
+        message: `"animation" must be fast or slow, got "${props.animation}"`,
+        span: tokens.animation,
+      }, ctx);
+    }
+    const isCurve = (value: string): value is EdgeCurve =>
+      (EDGE_CURVES as readonly string[]).includes(value);
+    if (props.curve && !isCurve(props.curve)) {
+      this.report({
+        severity: 'warning',
+        code: 'invalid-property',
+        message: `"curve" must be one of ${EDGE_CURVES.join(', ')}, got "${props.curve}"`,
+        span: tokens.curve,
+      }, ctx);
     }
 
-    return result;
+    // Find the edge with this ID and update its properties
+    const edge = ctx.edges.find((e) => e.id === edgeId);
+    if (!edge) {
+      this.report({
+        severity: 'warning',
+        code: 'undefined-edge',
+        message: `Edge "${edgeId}" is not defined before its properties`,
+        span: idToken,
+      }, ctx);
+      return;
+    }
+    this.recordLocation('edge', edgeId, idToken, false, ctx);
+    if (props.animate === 'true') {
+      edge.animate = true;
+    }
+    if (props.animation) {
+      edge.animation = props.animation as EdgeAnimation;
+    }
+    if (props.curve && isCurve(props.curve)) {
+      edge.curve = props.curve;
+    }
   }
 
   /**
-   * Split a string by & operator, respecting brackets
+   * Parse a vertex and return its ID
    */
-  private splitByAmpersand(str: string): string[] {
-    const parts: string[] = [];
-    let current = '';
-    let depth = 0;
-
-    for (let i = 0; i < str.length; i++) {
-      const char = str[i];
-
-      if (char === '[' || char === '(' || char === '{') {
-        depth++;
-        current += char;
-      } else if (char === ']' || char === ')' || char === '}') {
-        depth--;
-        current += char;
-      } else if (char === '&' && depth === 0) {
-        // Check for surrounding spaces (to not match && or &= etc.)
-        const prevChar = str[i - 1];
-        const nextChar = str[i + 1];
-        if ((prevChar === ' ' || prevChar === undefined) && (nextChar === ' ' || nextChar === undefined)) {
-          if (current.trim()) {
-            parts.push(current.trim());
-          }
-          current = '';
-          continue;
-        }
-        current += char;
-      } else {
-        current += char;
+  private parseVertex(vertex: CstNode, ctx: ParseContext): string {
+    const idToken = childTokens(vertex, 'identifier')[0];
+    const id = idToken.text;
+    const shapeNode = childNodes(vertex, 'shape')[0];
+    const propertiesNode = childNodes(vertex, 'properties')[0];
+
+    if (propertiesNode) {
+      // New @{} syntax: id@{ shape: xxx, label: "..." }
+      const { props, tokens } = this.readProperties(propertiesNode, NODE_PROPERTY_KEYS, ctx);
+      if (props.shape && !KNOWN_SHAPES.has(props.shape.toLowerCase().trim())) {
+        this.report({
+          severity: 'warning',
+          code: 'invalid-property',
+          message: `Unknown shape "${props.shape}"`,
+          span: tokens.shape,
+        }, ctx);
       }
+      const shape = this.resolveShapeAlias(props.shape || 'rect');
+      this.ensureNode(id, props.label || id, shape, ctx, props);
+    } else if (shapeNode) {
+      // Node with shape: id[text] or id(text) etc.
+      const { shape, text } = this.readShape(shapeNode);
+      this.ensureNode(id, text, shape, ctx);
+    } else {
+      // Plain node ID without shape
+      this.ensureNode(id, id, 'rect', ctx);
     }
 
-    if (current.trim()) {
-      parts.push(current.trim());
+    // Class shorthand: id:::className
+    const className = childTokens(vertex, 'className')[0];
+    if (className) {
+      const node = ctx.nodes.get(id)!;
+      this.addClass(node, className.text);
+      node.inlineClass ??= className.text;
+      ctx.classUsages.push({ className: className.text, span: className });
     }
 
-    return parts.length > 0 ? parts : [str];
+    this.mention(id, ctx);
+    const defined = !!(shapeNode || propertiesNode);
+    // Labels spanning lines are located by their ID
+    const singleLine = ctx.lineIndex.lineOf(vertex.start) === ctx.lineIndex.lineOf(vertex.end);
+    this.recordNode(id, defined, defined && singleLine ? vertex : idToken, ctx);
+    return id;
   }
 
   /**
-   * Split a line into node and edge parts
-   * Handles Mermaid syntax:
-   * - A -->|text| B (pipe-delimited text)
-   * - A -- text --> B (space-delimited text)
-   * - A -. text .-> B (dotted with space text)
-   * - A == text ==> B (thick with space text)
-   * - A e1@--> B (edge with explicit ID)
+   * Shape and label of a `[text]`-style shape
    */
-  private splitByEdges(
-    line: string
-  ): Array<{ type: 'node' | 'edge'; content: string; text?: string; edgeId?: string }> {
-    const result: Array<{ type: 'node' | 'edge'; content: string; text?: string; edgeId?: string }> = [];
-
-    // First, try to match space-delimited text patterns (higher priority)
-    // These patterns: A -- text --> B, A -. text .-> B, A == text ==> B
-    const spaceTextPatterns = [
-      // Thick with space text: == text ==>
-      /==\s+(.+?)\s+==>/g,
-      // Dotted with space text: -. text .->
-      /-\.\s*(.+?)\s*\.->/g,
-      // Normal with space text: -- text -->
-      /--\s+(.+?)\s+-->/g,
-      // Normal no arrow with space text: -- text ---
-      /--\s+(.+?)\s+---/g,
-    ];
-
-    // Try space text patterns first
-    for (const pattern of spaceTextPatterns) {
-      pattern.lastIndex = 0;
-      const match = pattern.exec(line);
-      if (match) {
-        // Found a space-delimited text pattern
-        // Parse: NodeA -- text --> NodeB
-        const beforeMatch = line.substring(0, match.index).trim();
-        const afterMatch = line.substring(match.index + match[0].length).trim();
-        const text = this.unquoteText(match[1].trim());
-
-        // Determine the edge type from the original match
-        const fullMatch = match[0];
-        let edgeOp: string;
-        if (fullMatch.includes('==>')) {
-          edgeOp = '==>';
-        } else if (fullMatch.includes('.->')) {
-          edgeOp = '-.->'; // Use full dotted arrow syntax for proper detection
-        } else if (fullMatch.includes('-->')) {
-          edgeOp = '-->';
-        } else {
-          edgeOp = '---';
-        }
+  private readShape(node: CstNode): { shape: ShapeType; text: string } {
+    const [open, label, close] = node.children as CstToken[];
+    const pattern = SHAPE_PATTERNS.find((p) => p.start === open.text && p.end === close.text);
+    return {
+      shape: pattern?.shape ?? 'rect',
+      // Remove surrounding quotes if present (Mermaid allows quoted text)
+      text: this.unquoteText(label.text.trim()),
+    };
+  }
 
-        if (beforeMatch) {
-          result.push({ type: 'node', content: beforeMatch });
-        }
-        result.push({ type: 'edge', content: edgeOp, text });
-        if (afterMatch) {
-          // Recursively parse the remaining part (for chained edges)
-          const remaining = this.splitByEdges(afterMatch);
-          result.push(...remaining);
-        }
-        return result;
+  /**
+   * Read a `@{ key: value }` block and report malformed or unknown keys
+   * @returns the values by key, and the token to underline for each key
+   */
+  private readProperties(
+    node: CstNode,
+    allowed: ReadonlySet<string>,
+    ctx: ParseContext
+  ): { props: Record<string, string>; tokens: Record<string, CstToken> } {
+    const props: Record<string, string> = {};
+    const tokens: Record<string, CstToken> = {};
+    const keys: Record<string, CstToken> = {};
+
+    for (const property of childNodes(node, 'property')) {
+      const key = childTokens(property, 'propertyKey')[0];
+      if (childTokens(property, 'colon').length === 0) {
+        this.report({
+          severity: 'error',
+          code: 'invalid-property',
+          message: `Expected "key: value", got "${key.text}"`,
+          span: key,
+        }, ctx);
+        continue;
       }
+      const value = childTokens(property, 'propertyValue')[0];
+      // Remove surrounding quotes
+      props[key.text] = value ? this.unquoteText(value.text) : '';
+      tokens[key.text] = value ?? key;
+      keys[key.text] = key;
     }
 
-    // Fall back to standard edge regex
-    // Matches: -->, -->|text|, ==>, ==>|text|, -.->, -.->|text|, ~~~, etc.
-    // Note: Order matters! Long patterns must come before short ones
-    // ~~~ is invisible edge (no text support)
-    // Support variable length: --> (1), ---> (2), ----> (3), etc.
-    // Support edge ID: e1@--> (captures e1 as edge ID)
-    const edgeRegex = /([\w-]+@)?(~~~|<-+>|<={2,}>|={2,}>|={2,}|<-\.+->|-\.+->|-\.+-?|o--o|x--x|--o|--x|-{2,}>|-{2,})(\|[^|]+\|)?/g;
-
-    let lastIndex = 0;
-    let match;
-
-    while ((match = edgeRegex.exec(line)) !== null) {
-      // Add node part before this edge
-      const nodePart = line.substring(lastIndex, match.index).trim();
-      if (nodePart) {
-        result.push({ type: 'node', content: nodePart });
+    for (const [key, token] of Object.entries(keys)) {
+      if (!allowed.has(key)) {
+        this.report({
+          severity: 'warning',
+          code: 'invalid-property',
+          message: `Unknown property "${key}"`,
+          span: token,
+        }, ctx);
       }
-
-      // Parse edge and extract text and edge ID if present
-      const edgeIdPart = match[1]; // e1@ part
-      const edgeOp = match[2];
-      const textPart = match[3]; // |text| part
-      const text = textPart ? textPart.slice(1, -1) : undefined; // Remove | delimiters
-      const edgeId = edgeIdPart ? edgeIdPart.slice(0, -1) : undefined; // Remove @ suffix
-
-      result.push({ type: 'edge', content: edgeOp, text, edgeId });
-      lastIndex = match.index + match[0].length;
     }
 
-    // Add remaining node part
-    const remaining = line.substring(lastIndex).trim();
-    if (remaining) {
-      result.push({ type: 'node', content: remaining });
-    }
-
-    return result;
+    return { props, tokens };
   }
 
   /**
-   * Parse a node part and return its ID
+   * Stroke, arrows and text of a link
    */
-  private parseNodePart(content: string, ctx: ParseContext): string {
-    // First, try new @{} syntax: id@{ shape: xxx, label: "..." }
-    const atSyntaxMatch = content.match(/^(\S+?)@\{(.+?)\}$/);
-    if (atSyntaxMatch) {
-      const id = atSyntaxMatch[1];
-      const propsStr = atSyntaxMatch[2];
-      const parsed = this.parseAtProperties(propsStr);
-      const shape = this.resolveShapeAlias(parsed.shape || 'rect');
-      const text = parsed.label || id;
-      this.ensureNode(id, text, shape, ctx, parsed);
-      return id;
-    }
-
-    // Try to match node with shape: id[text] or id(text) etc.
-    for (const { start, end, shape } of SHAPE_PATTERNS) {
-      const escapedStart = this.escapeRegex(start);
-      const escapedEnd = this.escapeRegex(end);
-      const regex = new RegExp(`^(\\S+?)${escapedStart}(.+?)${escapedEnd}$`);
-      const match = content.match(regex);
-
-      if (match) {
-        const id = match[1];
-        let text = match[2].trim();
-        // Remove surrounding quotes if present (Mermaid allows quoted text)
-        text = this.unquoteText(text);
-        this.ensureNode(id, text, shape, ctx);
-        return id;
-      }
+  private readLink(node: CstNode): LinkInfo {
+    const edgeId = childTokens(node, 'edgeId')[0];
+    const opener = childTokens(node, 'linkStart')[0];
+    const operators = childTokens(node, 'link');
+
+    if (opener) {
+      // Text between the halves: -- text -->, -. text .->, == text ==>
+      const closer = operators[0].text;
+      const label = childTokens(node, 'string')[0] ?? childTokens(node, 'text')[0];
+      const head = opener.text.length > 2 ? opener.text[0] : '';
+      const stroke: StrokeType = opener.text.endsWith('==')
+        ? 'thick'
+        : opener.text.endsWith('-.')
+          ? 'dotted'
+          : 'normal';
+      return {
+        // Use full dotted arrow syntax for proper detection
+        operator: closer.startsWith('.') ? `-${closer}` : closer,
+        text: this.unquoteText(label.text.trim()),
+        stroke,
+        arrowStart: ARROW_HEADS[head] ?? 'none',
+        arrowEnd: ARROW_HEADS[closer[closer.length - 1]] ?? 'none',
+        edgeId,
+      };
     }
 
-    // Plain node ID without shape
-    const id = content.trim();
-    if (id) {
-      this.ensureNode(id, id, 'rect', ctx);
-    }
-    return id;
+    // Plain operator with an optional |text|
+    const operator = operators[0].text;
+    const label = childTokens(node, 'text')[0]?.text;
+    return {
+      operator,
+      text: label !== undefined && /^\s*".*"\s*$/s.test(label) ? this.unquoteText(label.trim()) : label,
+      ...this.describeOperator(operator),
+      edgeId,
+    };
   }
 
   /**
-   * Parse @{} property string into an object
-   * e.g., "shape: rect, label: 'Hello'" -> { shape: 'rect', label: 'Hello' }
+   * Stroke and arrows of a link operator such as `-->`, `<==>` or `o-.-x`
    */
-  private parseAtProperties(propsStr: string): Record<string, string> {
-    const result: Record<string, string> = {};
-
-    // Split by comma (but not commas inside quotes)
-    const parts = propsStr.match(/[^,]+(?:["'][^"']*["'][^,]*)?/g) || [];
-
-    for (const part of parts) {
-      const colonIndex = part.indexOf(':');
-      if (colonIndex === -1) continue;
-
-      const key = part.substring(0, colonIndex).trim();
-      let value = part.substring(colonIndex + 1).trim();
-
-      // Remove surrounding quotes
-      value = this.unquoteText(value);
-
-      result[key] = value;
+  private describeOperator(operator: string): Pick<LinkInfo, 'stroke' | 'arrowStart' | 'arrowEnd'> {
+    if (/^~+$/.test(operator)) {
+      return { stroke: 'invisible', arrowStart: 'none', arrowEnd: 'none' };
     }
+    const stroke: StrokeType = operator.includes('=') ? 'thick' : operator.includes('.') ? 'dotted' : 'normal';
+    const last = operator[operator.length - 1];
+    return {
+      stroke,
+      arrowStart: /[<xo]/.test(operator[0]) ? ARROW_HEADS[operator[0]] : 'none',
+      arrowEnd: /[>xo]/.test(last) ? ARROW_HEADS[last] : 'none',
+    };
+  }
 
-    return result;
+  /**
+   * Add a class to a node or edge once
+   */
+  private addClass(node: NodeData | EdgeData, className: string): void {
+    node.cssClasses = node.cssClasses || [];
+    if (!node.cssClasses.includes(className)) {
+      node.cssClasses.push(className);
+    }
   }
 
   /**
@@ -904,16 +1384,6 @@ export class MermaidParser {
         if (extraProps.pos) node.pos = extraProps.pos as 't' | 'b';
       }
 
-      // Add to current subgraph if any
-      if (ctx.subGraphStack.length > 0) {
-        const currentSubGraph = ctx.subGraphStack[ctx.subGraphStack.length - 1];
-        node.parentId = currentSubGraph;
-        const subGraph = ctx.subGraphs.find((s) => s.id === currentSubGraph);
-        if (subGraph) {
-          subGraph.nodeIds.push(id);
-        }
-      }
-
       ctx.nodes.set(id, node);
     } else {
       // Update existing node if text/shape provided
@@ -967,38 +1437,34 @@ export class MermaidParser {
   }
 
   /**
-   * Create an edge between two nodes
+   * Create an edge between two nodes and return its ID
    */
-  private createEdge(
-    source: string,
-    target: string,
-    operator: string,
-    text: string | undefined,
-    ctx: ParseContext,
-    userEdgeId?: string
-  ): void {
-    // Parse the operator to determine stroke and arrows
-    let stroke: StrokeType = 'normal';
-    let arrowStart: ArrowType = 'none';
-    let arrowEnd: ArrowType = 'arrow';
-
-    // Clean operator for matching
-    const cleanOp = operator.replace(/\|[^|]+\|/g, '|text|');
-
-    for (const pattern of EDGE_PATTERNS) {
-      if (pattern.pattern.test(cleanOp) || pattern.pattern.test(operator)) {
-        stroke = pattern.stroke;
-        arrowStart = pattern.arrowStart;
-        arrowEnd = pattern.arrowEnd;
-        break;
-      }
-    }
+  private createEdge(source: string, target: string, link: LinkInfo, ctx: ParseContext): string {
+    const { operator, text, stroke, arrowStart, arrowEnd } = link;
+    const userEdgeId = link.edgeId?.text.slice(0, -1);
 
     // Calculate edge length from operator
     const length = this.calculateEdgeLength(operator, stroke);
 
-    // Use user-defined ID or generate one
-    const edgeId = userEdgeId || this.generateEdgeId(source, target, operator, text, stroke, arrowStart, arrowEnd);
+    if (userEdgeId && ctx.edges.some((e) => e.id === userEdgeId)) {
+      this.report({
+        severity: 'error',
+        code: 'duplicate-edge-id',
+        message: `Edge ID "${userEdgeId}" is already used`,
+        span: link.edgeId,
+      }, ctx);
+    }
+
+    // Use user-defined ID or generate one; identical edges get the suffixes
+    // FlowchartModel gives them, so their statements refer to the right edge
+    let edgeId = userEdgeId;
+    if (!edgeId) {
+      const baseId = this.generateEdgeId(source, target, operator, text, stroke, arrowStart, arrowEnd);
+      edgeId = baseId;
+      for (let suffix = 1; ctx.edges.some((e) => e.id === edgeId); suffix++) {
+        edgeId = `${baseId}-dup${suffix}`;
+      }
+    }
     const isUserDefinedId = !!userEdgeId;
 
     const edge: EdgeData = {
@@ -1014,51 +1480,32 @@ export class MermaidParser {
     };
 
     ctx.edges.push(edge);
+    ctx.currentStatement?.edgeIds.push(edgeId);
+    return edgeId;
   }
 
   /**
-   * Calculate edge length from operator
-   * --> = 1, ---> = 2, ----> = 3
-   * ==> = 1, ===> = 2, ====> = 3
-   * -.-> = 1, -..-> = 2, -...-> = 3
+   * Edge length as Mermaid's destructEndLink computes it: the operator
+   * without its end character (and a matching start marker), less one.
+   * Dotted links count their dots.
+   * --> = 1, ---> = 2, --- = 1, ---- = 2
+   * ==> = 1, ===> = 2, === = 1, ==== = 2
+   * -.-> = 1, -..-> = 2, -.- = 1
    */
   private calculateEdgeLength(operator: string, stroke: StrokeType): number {
     if (stroke === 'invisible') {
       return 1;
     }
-
-    // Count the dash/equal/dot characters
-    if (stroke === 'thick') {
-      // Count = characters
-      const matches = operator.match(/=+/g);
-      if (matches) {
-        const maxLen = Math.max(...matches.map((m) => m.length));
-        return Math.max(1, maxLen - 1);
-      }
-    } else if (stroke === 'dotted') {
-      // Count . characters between - and ->
-      const matches = operator.match(/\.+/g);
-      if (matches) {
-        const maxLen = Math.max(...matches.map((m) => m.length));
-        return Math.max(1, maxLen);
-      }
-    } else {
-      // Normal: count - characters
-      const matches = operator.match(/-+/g);
-      if (matches) {
-        const maxLen = Math.max(...matches.map((m) => m.length));
-        return Math.max(1, maxLen - 1);
-      }
+    if (stroke === 'dotted') {
+      return Math.max(1, operator.split('.').length - 1);
     }
 
-    return 1;
-  }
-
-  /**
-   * Escape special regex characters
-   */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const end = operator[operator.length - 1];
+    let line = operator.slice(0, -1);
+    if ((end === '>' && line.startsWith('<')) || ((end === 'x' || end === 'o') && line.startsWith(end))) {
+      line = line.slice(1);
+    }
+    return Math.max(1, line.length - 1);
   }
 
   /**
@@ -1073,23 +1520,25 @@ export class MermaidParser {
       model.addNode(nodeData);
     }
 
+    // Add subgraphs, before the edges that may end at them
+    for (const subGraphData of ctx.subGraphs) {
+      model.addSubGraph(subGraphData);
+    }
+
     // Add edges
     for (const edgeData of ctx.edges) {
       model.addEdge(edgeData);
     }
 
-    // Add subgraphs
-    for (const subGraphData of ctx.subGraphs) {
-      model.addSubGraph(subGraphData);
-    }
-
     // Add class definitions
     for (const [name, def] of ctx.classDefs) {
       model.defineClass(name, def.styles, def.textStyles);
     }
+    model.defaultEdgeStyle = ctx.defaultEdgeStyle;
 
-    if (ctx.headerLines.length > 0 || ctx.merfolkMeta) {
+    if (ctx.headerLines.length > 0 || ctx.merfolkMeta || Object.keys(ctx.settings).length > 0) {
       model.meta = {
+        ...ctx.settings,
         headerLines: ctx.headerLines.length > 0 ? [...ctx.headerLines] : undefined,
         merfolk: ctx.merfolkMeta,
       };
@@ -0,0 +1,96 @@
+import type { Direction, ShapeType } from '../model/types';
+
+/**
+ * Shape syntax patterns mapping to ShapeType.
+ * Order matters: longer delimiters must come before their prefixes.
+ */
+export const SHAPE_PATTERNS: ReadonlyArray<{
+  start: string;
+  end: string;
+  shape: ShapeType;
+}> = [
+  { start: '(((', end: ')))', shape: 'doublecircle' },
+  { start: '((', end: '))', shape: 'circle' },
+  { start: '([', end: '])', shape: 'stadium' },
+  { start: '[(', end: ')]', shape: 'cylinder' },
+  { start: '[[', end: ']]', shape: 'subroutine' },
+  { start: '{{', end: '}}', shape: 'hexagon' },
+  { start: '[/', end: '/]', shape: 'trapezoid' },
+  { start: '[\\', end: '\\]', shape: 'inv_trapezoid' },
+  { start: '[/', end: '\\]', shape: 'lean_right' },
+  { start: '[\\', end: '/]', shape: 'lean_left' },
+  { start: '{', end: '}', shape: 'diamond' },
+  { start: '(', end: ')', shape: 'rounded' },
+  { start: '[', end: ']', shape: 'rect' },
+  { start: '>', end: ']', shape: 'odd' },
+];
+
+/**
+ * Keys accepted inside node `@{}` blocks
+ */
+export const NODE_PROPERTY_KEYS: ReadonlySet<string> = new Set([
+  'shape',
+  'label',
+  'icon',
+  'img',
+  'w',
+  'h',
+  'form',
+  'pos',
+  'constraint',
+]);
+
+/**
+ * Keys accepted inside edge `@{}` blocks
+ */
+export const EDGE_PROPERTY_KEYS: ReadonlySet<string> = new Set(['animate', 'animation', 'curve', 'style']);
+
+/**
+ * Edge operators offered by completion, most common first
+ */
+export const EDGE_OPERATORS: ReadonlyArray<{ operator: string; description: string }> = [
+  { operator: '-->', description: 'arrow' },
+  { operator: '---', description: 'line' },
+  { operator: '-.->', description: 'dotted arrow' },
+  { operator: '-.-', description: 'dotted line' },
+  { operator: '==>', description: 'thick arrow' },
+  { operator: '===', description: 'thick line' },
+  { operator: '~~~', description: 'invisible link' },
+  { operator: '--o', description: 'circle end' },
+  { operator: '--x', description: 'cross end' },
+  { operator: '<-->', description: 'arrows on both ends' },
+  { operator: '-->|text|', description: 'arrow with label' },
+];
+
+/**
+ * Keywords that start a statement
+ */
+export const STATEMENT_KEYWORDS = [
+  'flowchart',
+  'graph',
+  'subgraph',
+  'end',
+  'direction',
+  'classDef',
+  'class',
+  'style',
+  'linkStyle',
+  'click',
+] as const;
+
+/**
+ * IDs the editor writes for nodes: letters, digits and `_`, with single
+ * inner hyphens (`--` would start an edge)
+ */
+export const NODE_ID_PATTERN = /^[\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*$/u;
+
+/**
+ * Words that cannot be used as a node ID. A lowercase `end` closes the
+ * enclosing subgraph, the others start a statement.
+ */
+export const RESERVED_NODE_IDS: ReadonlySet<string> = new Set<string>(STATEMENT_KEYWORDS);
+
+/**
+ * Accepted direction keywords (`TD` is an alias of `TB`)
+ */
+export const DIRECTIONS: ReadonlyArray<Direction | 'TD'> = ['TB', 'TD', 'BT', 'LR', 'RL'];
@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import { MermaidTokenizer } from './MermaidTokenizer';
+
+describe('MermaidTokenizer', () => {
+  const tokenizer = new MermaidTokenizer();
+  const kinds = (line: string) => tokenizer.tokenizeLine(line).map((t) => [t.type, t.text]);
+
+  it('should tokenize the declaration and comments', () => {
+    expect(kinds('flowchart LR %% main')).toEqual([
+      ['keyword', 'flowchart'],
+      ['direction', 'LR'],
+      ['comment', '%% main'],
+    ]);
+    expect(kinds('  %%{init: {"theme": "dark"}}%%')).toEqual([['directive', '%%{init: {"theme": "dark"}}%%']]);
+  });
+
+  it('should tokenize nodes, shapes and labelled edges with columns', () => {
+    const tokens = tokenizer.tokenizeLine('  A[Start] -->|yes| B{Check?}');
+
+    expect(tokens.map((t) => [t.type, t.text])).toEqual([
+      ['nodeId', 'A'],
+      ['delimiter', '['],
+      ['text', 'Start'],
+      ['delimiter', ']'],
+      ['edge', '-->'],
+      ['edge', '|'],
+      ['edgeLabel', 'yes'],
+      ['edge', '|'],
+      ['nodeId', 'B'],
+      ['delimiter', '{'],
+      ['text', 'Check?'],
+      ['delimiter', '}'],
+    ]);
+    expect(tokens[0]).toMatchObject({ start: 2, end: 3 });
+    expect(tokens[4]).toMatchObject({ start: 11, end: 14 });
+  });
+
+  it('should split edges without surrounding spaces like the parser', () => {
+    expect(kinds('A-->B-.->C==>D')).toEqual([
+      ['nodeId', 'A'],
+      ['edge', '-->'],
+      ['nodeId', 'B'],
+      ['edge', '-.->'],
+      ['nodeId', 'C'],
+      ['edge', '==>'],
+      ['nodeId', 'D'],
+    ]);
+  });
+
+  it('should tokenize space-delimited edge text and edge IDs', () => {
+    expect(kinds('A -- no --> B')).toEqual([
+      ['nodeId', 'A'],
+      ['edge', '--'],
+      ['edgeLabel', 'no'],
+      ['edge', '-->'],
+      ['nodeId', 'B'],
+    ]);
+    expect(kinds('my-node e1@==> X')).toEqual([
+      ['nodeId', 'my-node'],
+      ['edgeId', 'e1'],
+      ['operator', '@'],
+      ['edge', '==>'],
+      ['nodeId', 'X'],
+    ]);
+  });
+
+  it('should tokenize multi-character shapes and quoted text', () => {
+    expect(kinds('C((Done)) & D[("a]b")]')).toEqual([
+      ['nodeId', 'C'],
+      ['delimiter', '(('],
+      ['text', 'Done'],
+      ['delimiter', '))'],
+      ['operator', '&'],
+      ['nodeId', 'D'],
+      ['delimiter', '[('],
+      ['string', '"a]b"'],
+      ['delimiter', ')]'],
+    ]);
+  });
+
+  it('should tokenize @{} properties and class shorthand', () => {
+    expect(kinds('D@{ shape: cyl, label: "DB, main" }:::hot')).toEqual([
+      ['nodeId', 'D'],
+      ['delimiter', '@{'],
+      ['property', 'shape'],
+      ['operator', ':'],
+      ['value', 'cyl'],
+      ['operator', ','],
+      ['property', 'label'],
+      ['operator', ':'],
+      ['string', '"DB, main"'],
+      ['delimiter', '}'],
+      ['operator', ':::'],
+      ['className', 'hot'],
+    ]);
+    expect(kinds('e1@{ animate: true }')[0]).toEqual(['edgeId', 'e1']);
+  });
+
+  it('should tokenize keyword statements', () => {
+    expect(kinds('subgraph g1 [Group One]')).toEqual([
+      ['keyword', 'subgraph'],
+      ['nodeId', 'g1'],
+      ['delimiter', '['],
+      ['text', 'Group One'],
+      ['delimiter', ']'],
+    ]);
+    expect(kinds('class A,B hot')).toEqual([
+      ['keyword', 'class'],
+      ['nodeId', 'A'],
+      ['operator', ','],
+      ['nodeId', 'B'],
+      ['className', 'hot'],
+    ]);
+    expect(kinds('classDef hot fill:#f00')).toEqual([
+      ['keyword', 'classDef'],
+      ['className', 'hot'],
+      ['property', 'fill'],
+      ['operator', ':'],
+      ['value', '#f00'],
+    ]);
+    expect(kinds('linkStyle 0,1 stroke:#f00').slice(0, 4)).toEqual([
+      ['keyword', 'linkStyle'],
+      ['number', '0'],
+      ['operator', ','],
+      ['number', '1'],
+    ]);
+    expect(kinds('click A "https://example.com" "_blank"')).toEqual([
+      ['keyword', 'click'],
+      ['nodeId', 'A'],
+      ['string', '"https://example.com"'],
+      ['string', '"_blank"'],
+    ]);
+    expect(kinds('click A call notify("A") "Tip"')).toEqual([
+      ['keyword', 'click'],
+      ['nodeId', 'A'],
+      ['keyword', 'call'],
+      ['value', 'notify('],
+      ['string', '"A"'],
+      ['value', ')'],
+      ['string', '"Tip"'],
+    ]);
+    expect(kinds('  end')).toEqual([['keyword', 'end']]);
+  });
+
+  it('should read statements the way the parser does', () => {
+    expect(kinds('A --> C;B')).toEqual([
+      ['nodeId', 'A'],
+      ['edge', '-->'],
+      ['nodeId', 'C'],
+      ['delimiter', ';'],
+      ['nodeId', 'B'],
+    ]);
+    expect(kinds('A-->|"a|b"|C')).toEqual([
+      ['nodeId', 'A'],
+      ['edge', '-->'],
+      ['edge', '|'],
+      ['edgeLabel', '"a|b"'],
+      ['edge', '|'],
+      ['nodeId', 'C'],
+    ]);
+    expect(kinds('A[Start')).toEqual([['text', 'A[Start']]);
+  });
+
+  it('should split quoted labels that span lines', () => {
+    const lines = tokenizer.tokenize('flowchart TB\n  A["line one\n  line two"] --> B');
+
+    expect(lines.slice(1).map((tokens) => tokens.map((t) => [t.type, t.text]))).toEqual([
+      [['nodeId', 'A'], ['delimiter', '['], ['string', '"line one']],
+      [['string', 'line two"'], ['delimiter', ']'], ['edge', '-->'], ['nodeId', 'B']],
+    ]);
+    expect(lines[2][0]).toMatchObject({ start: 2, end: 11 });
+  });
+
+  it('should return one token list per line', () => {
+    const lines = tokenizer.tokenize('flowchart TB\n\n  A --> B');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toEqual([]);
+    expect(lines[2].map((t) => t.type)).toEqual(['nodeId', 'edge', 'nodeId']);
+  });
+
+  it('should highlight frontmatter lines as directives', () => {
+    const lines = tokenizer.tokenize('---\ntitle: A --> B\n---\nflowchart TB');
+
+    expect(lines.slice(0, 3).map((tokens) => tokens.map((t) => [t.type, t.text]))).toEqual([
+      [['directive', '---']],
+      [['directive', 'title: A --> B']],
+      [['directive', '---']],
+    ]);
+    expect(lines[3][0].type).toBe('keyword');
+  });
+
+  it('should highlight accessibility text as strings', () => {
+    const lines = tokenizer.tokenize('flowchart TB\n  accTitle: A --> B\n  accDescr {\n    x --> y\n  }\n  A');
+
+    expect(lines.slice(1, 5).map((tokens) => tokens.map((t) => [t.type, t.text]))).toEqual([
+      [['keyword', 'accTitle'], ['delimiter', ':'], ['string', 'A --> B']],
+      [['keyword', 'accDescr'], ['delimiter', '{']],
+      [['string', 'x --> y']],
+      [['delimiter', '}']],
+    ]);
+    expect(lines[5][0].type).toBe('nodeId');
+  });
+});
@@ -0,0 +1,184 @@
+import type { CstNode, CstToken } from './FlowchartCst';
+import { LineIndex, isEdgeProperties } from './FlowchartCst';
+import { FlowchartCstParser } from './FlowchartCstParser';
+
+/**
+ * Token categories produced by the tokenizer
+ */
+export type TokenType =
+  | 'keyword'
+  | 'direction'
+  | 'comment'
+  | 'directive'
+  | 'nodeId'
+  | 'edgeId'
+  | 'className'
+  | 'delimiter'
+  | 'text'
+  | 'string'
+  | 'edge'
+  | 'edgeLabel'
+  | 'property'
+  | 'value'
+  | 'number'
+  | 'operator';
+
+/**
+ * A token within a single line
+ */
+export interface Token {
+  type: TokenType;
+  /** Zero-based start column (inclusive) */
+  start: number;
+  /** Zero-based end column (exclusive) */
+  end: number;
+  text: string;
+}
+
+/**
+ * A highlighted span of the document (offsets, `end` exclusive)
+ */
+interface Span {
+  type: TokenType;
+  start: number;
+  end: number;
+}
+
+/**
+ * Highlighting tokens for Mermaid flowcharts.
+ * Built from the syntax tree of FlowchartCstParser, so every token is
+ * classified the way MermaidParser reads it: quoted labels may span lines,
+ * `;` separates statements, and text the grammar rejects stays plain text.
+ * Whitespace is not tokenized; gaps between tokens are plain text.
+ */
+export class MermaidTokenizer {
+  private parser = new FlowchartCstParser();
+
+  /**
+   * Tokenize a whole document, one token list per line.
+   * Tokens that span lines (frontmatter, quoted labels, `accDescr { ... }`)
+   * are split at the line breaks.
+   */
+  tokenize(text: string): Token[][] {
+    const spans: Span[] = [];
+    this.collect(this.parser.parse(text).root, spans);
+
+    const index = new LineIndex(text);
+    const texts = text.split('\n');
+    const lines: Token[][] = texts.map(() => []);
+    for (const span of spans) {
+      for (let line = index.lineOf(span.start); line < texts.length; line++) {
+        const lineStart = index.lineStart(line);
+        if (lineStart >= span.end) break;
+        // Whitespace around a line's part of the token stays unstyled
+        const from = Math.max(span.start, lineStart);
+        const piece = text.slice(from, Math.min(span.end, lineStart + texts[line].length));
+        const start = from + piece.length - piece.trimStart().length - lineStart;
+        const end = from + piece.trimEnd().length - lineStart;
+        if (end > start) {
+          lines[line].push({ type: span.type, start, end, text: texts[line].slice(start, end) });
+        }
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Tokenize a single line
+   */
+  tokenizeLine(line: string): Token[] {
+    return this.tokenize(line)[0];
+  }
+
+  /**
+   * Spans of the tokens below a syntax node, classified by where they appear
+   * @param edgeProperties Inside an `e1@{ ... }` statement, whose ID names an edge
+   */
+  private collect(node: CstNode, spans: Span[], edgeProperties = false): void {
+    const edge = edgeProperties || (node.kind === 'vertexStatement' && isEdgeProperties(node));
+    for (const child of node.children) {
+      if (child.type === 'node') {
+        this.collect(child, spans, edge);
+      } else {
+        this.classify(child, node, spans, edge);
+      }
+    }
+  }
+
+  private classify(token: CstToken, parent: CstNode, spans: Span[], edgeProperties: boolean): void {
+    const push = (type: TokenType, start = token.start, end = token.end): void => {
+      if (end > start) spans.push({ type, start, end });
+    };
+
+    switch (token.kind) {
+      case 'whitespace':
+      case 'newline':
+        return;
+      case 'comment':
+      case 'keyword':
+      case 'direction':
+      case 'className':
+      case 'number':
+        return push(token.kind);
+      case 'directive':
+      case 'frontmatter':
+        return push('directive');
+      case 'identifier':
+        return push(edgeProperties ? 'edgeId' : 'nodeId');
+      case 'edgeId':
+        // `e1@`: the ID, then the `@` joining it to the link
+        push('edgeId', token.start, token.end - 1);
+        return push('operator', token.end - 1);
+      case 'link':
+      case 'linkStart':
+      case 'pipe':
+        return push('edge');
+      case 'text':
+        if (parent.kind === 'link') return push('edgeLabel');
+        return push(parent.kind === 'accTitle' || parent.kind === 'accDescr' ? 'string' : 'text');
+      case 'string':
+        return push(parent.kind === 'link' ? 'edgeLabel' : 'string');
+      case 'semicolon':
+      case 'shapeOpen':
+      case 'shapeClose':
+      case 'blockOpen':
+      case 'blockClose':
+      case 'propertiesOpen':
+      case 'propertiesClose':
+        return push('delimiter');
+      case 'colon':
+        return push(parent.kind === 'property' ? 'operator' : 'delimiter');
+      case 'ampersand':
+      case 'classMarker':
+      case 'comma':
+        return push('operator');
+      case 'propertyKey':
+        return push('property');
+      case 'propertyValue':
+        return push(/^["']/.test(token.text) ? 'string' : 'value');
+      case 'style': {
+        // `fill:#f9f`: property, `:`, value
+        const colon = token.text.indexOf(':');
+        if (colon === -1) return push('value');
+        const value = token.text.slice(colon + 1);
+        push('property', token.start, token.start + token.text.slice(0, colon).trimEnd().length);
+        push('operator', token.start + colon, token.start + colon + 1);
+        return push('value', token.end - value.trimStart().length);
+      }
+      case 'word': {
+        if (token.text === 'href' || token.text === 'call') return push('keyword');
+        // Quoted arguments of `call fn("A")` are strings
+        let at = token.start;
+        for (const match of token.text.matchAll(/"[^"]*"/g)) {
+          const quoteStart = token.start + match.index!;
+          push('value', at, quoteStart);
+          push('string', quoteStart, quoteStart + match[0].length);
+          at = quoteStart + match[0].length;
+        }
+        return push('value', at);
+      }
+      case 'unknown':
+        return push('text');
+    }
+  }
+}
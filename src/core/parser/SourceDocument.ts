@@ -0,0 +1,153 @@
+import type { FlowchartModel, FlowchartData } from '../model/FlowchartModel';
+import type { ParseDiagnostic } from './Diagnostic';
+
+/**
+ * Kind of a recorded source statement
+ */
+export type SourceStatementKind =
+  | 'declaration'
+  | 'direction'
+  | 'subgraph'
+  | 'end'
+  | 'node'
+  | 'edgeProps'
+  | 'classDef'
+  | 'class'
+  | 'style'
+  | 'linkStyle'
+  | 'click'
+  | 'merfolk'
+  /** YAML frontmatter block */
+  | 'frontmatter'
+  /** `%%{init: ...}%%` directive */
+  | 'init'
+  /** `accTitle` / `accDescr` */
+  | 'accessibility';
+
+/**
+ * A single statement as it appeared in the source text
+ */
+export interface SourceStatement {
+  kind: SourceStatementKind;
+  /** Zero-based index of the source line */
+  line: number;
+  /** Leading whitespace of the line */
+  indent: string;
+  /** Trailing `%%` comment including the whitespace before it */
+  comment?: string;
+  /** Node IDs referenced by the statement, in order of appearance */
+  nodeIds: string[];
+  /** Node IDs whose text/shape/properties are written by the statement */
+  definedNodeIds: string[];
+  /** Edge IDs created by the statement, in order; for `class` statements, the edges it targets */
+  edgeIds: string[];
+  /** Subgraph opened/closed by the statement, or owning a `direction` */
+  subGraphId?: string;
+  /**
+   * Line of the matching `end` for subgraph statements; last line of
+   * frontmatter, and of init directives and `accDescr` blocks spanning
+   * several lines
+   */
+  endLine?: number;
+}
+
+/**
+ * Kind of element a source location points at
+ */
+export type SourceElementKind = 'node' | 'edge' | 'subgraph';
+
+/**
+ * Where a node, edge or subgraph appears in the source text.
+ * Columns are zero-based; `end` is exclusive.
+ */
+export interface SourceLocation {
+  kind: SourceElementKind;
+  id: string;
+  /** Zero-based index of the source line */
+  line: number;
+  start: number;
+  end: number;
+  /**
+   * The location defines the element (node text/shape, the edge operator,
+   * a subgraph header) rather than just referring to it
+   */
+  defining: boolean;
+}
+
+/**
+ * Source text plus the statements recorded while parsing it.
+ * Used to patch the original text instead of regenerating it.
+ */
+export interface SourceDocument {
+  /** Original source lines (split on `\n`) */
+  lines: string[];
+  /** Recorded statements ordered by line */
+  statements: SourceStatement[];
+  /** Locations of nodes, edges and subgraphs, ordered by position */
+  locations: SourceLocation[];
+  /** Model data as parsed from the source */
+  snapshot: FlowchartData;
+}
+
+/**
+ * Result of parsing with source tracking
+ */
+export interface ParsedDocument {
+  model: FlowchartModel;
+  source: SourceDocument;
+  /** Problems found in the source, ordered by position */
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Rename a node in a parsed source, as if the text had been written with the
+ * new ID. Every recorded reference is rewritten in place, so the document
+ * stays a valid baseline for patching a model whose node was renamed.
+ */
+export function renameNodeInSource(source: SourceDocument, id: string, newId: string): SourceDocument {
+  const lines = [...source.lines];
+  const locations = source.locations.map((location) => ({ ...location }));
+  const delta = newId.length - id.length;
+
+  // Right to left, so earlier columns on the same line stay valid
+  const renamed = locations
+    .filter((l) => l.kind === 'node' && l.id === id)
+    .sort((a, b) => a.line - b.line || b.start - a.start);
+  for (const location of renamed) {
+    const line = lines[location.line];
+    if (line.slice(location.start, location.start + id.length) !== id) continue;
+    lines[location.line] = line.slice(0, location.start) + newId + line.slice(location.start + id.length);
+    for (const other of locations) {
+      if (other.line !== location.line) continue;
+      if (other.start > location.start) other.start += delta;
+      if (other.end > location.start) other.end += delta;
+    }
+  }
+
+  const rename = (nodeId: string): string => (nodeId === id ? newId : nodeId);
+  for (const location of renamed) {
+    location.id = newId;
+  }
+
+  const { snapshot } = source;
+  return {
+    lines,
+    statements: source.statements.map((statement) => ({
+      ...statement,
+      nodeIds: statement.nodeIds.map(rename),
+      definedNodeIds: statement.definedNodeIds.map(rename),
+    })),
+    locations,
+    // The merfolk metadata keeps the old ID so that its line gets rewritten.
+    // A node without a label now reads as its new ID, so the model's text
+    // (still the old ID) shows up as a change and gets written as a label.
+    snapshot: {
+      ...snapshot,
+      nodes: snapshot.nodes.map((node) =>
+        node.id === id ? { ...node, id: newId, text: node.text === id ? newId : node.text } : node
+      ),
+      edges: snapshot.edges.map((edge) => ({ ...edge, source: rename(edge.source), target: rename(edge.target) })),
+      subGraphs: snapshot.subGraphs.map((subGraph) => ({ ...subGraph, nodeIds: subGraph.nodeIds.map(rename) })),
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseYaml, stringifyYaml } from './Yaml';
+
+describe('parseYaml', () => {
+  it('should read nested mappings and scalars', () => {
+    const text = [
+      'title: "Order: flow"',
+      'config:',
+      '  theme: forest # comment',
+      '  flowchart:',
+      '    curve: linear',
+      '    nodeSpacing: 30',
+      '    htmlLabels: false',
+      '  fontFamily: ~',
+    ].join('\n');
+
+    expect(parseYaml(text).value).toEqual({
+      title: 'Order: flow',
+      config: {
+        theme: 'forest',
+        flowchart: { curve: 'linear', nodeSpacing: 30, htmlLabels: false },
+        fontFamily: null,
+      },
+    });
+  });
+
+  it('should read sequences, flow collections and block scalars', () => {
+    const text = [
+      'list:',
+      '- one',
+      '- key: two',
+      '  other: 3',
+      "flow: { a: 'it''s', b: [1, 2] }",
+      'css: |',
+      '  .node { fill: red; }',
+      '',
+      '  .edge { stroke: blue; }',
+      'folded: >-',
+      '  one',
+      '  two',
+    ].join('\n');
+
+    expect(parseYaml(text).value).toEqual({
+      list: ['one', { key: 'two', other: 3 }],
+      flow: { a: "it's", b: [1, 2] },
+      css: '.node { fill: red; }\n\n.edge { stroke: blue; }\n',
+      folded: 'one two',
+    });
+  });
+
+  it('should report the line of a syntax error', () => {
+    expect(parseYaml('a: 1\nb: "open').error).toEqual({ message: 'Unterminated string', line: 1 });
+    expect(parseYaml('a: 1\n  b: 2').error?.line).toBe(1);
+    expect(parseYaml('a: 1\na: 2').error?.message).toBe('Duplicate key "a"');
+  });
+});
+
+describe('stringifyYaml', () => {
+  it('should write values that read back the same', () => {
+    const value = {
+      title: 'Order: flow',
+      config: {
+        theme: 'dark',
+        themeVariables: { primaryColor: '#ff0000' },
+        flowchart: { curve: 'basis', nodeSpacing: 20, htmlLabels: true },
+        list: ['a', { b: 'true' }],
+        empty: {},
+      },
+      note: 'first\nsecond',
+    };
+
+    const lines = stringifyYaml(value);
+
+    expect(lines.slice(0, 6)).toEqual([
+      'title: "Order: flow"',
+      'config:',
+      '  theme: dark',
+      '  themeVariables:',
+      '    primaryColor: "#ff0000"',
+      '  flowchart:',
+    ]);
+    expect(parseYaml(lines.join('\n')).value).toEqual(value);
+  });
+});
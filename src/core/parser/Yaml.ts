@@ -0,0 +1,494 @@
+/**
+ * A value that can be written in YAML
+ */
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+/**
+ * Result of reading a YAML document. On failure `error` holds the
+ * problem and the zero-based line it was found on.
+ */
+export type YamlParseResult =
+  | { value: YamlValue; error?: undefined }
+  | { value?: undefined; error: { message: string; line: number } };
+
+interface YamlLine {
+  /** Zero-based line index in the document */
+  index: number;
+  indent: number;
+  content: string;
+}
+
+/**
+ * Thrown while reading; turned into a result by `parseYaml`
+ */
+class YamlSyntaxError {
+  constructor(
+    readonly message: string,
+    readonly line: number
+  ) {}
+}
+
+const PLAIN_KEY = /^[A-Za-z0-9_$][\w$.-]*$/;
+
+/**
+ * Read the YAML subset used by Mermaid frontmatter: nested block mappings
+ * and sequences, plain/quoted scalars, `|` and `>` block scalars, flow
+ * collections (`{ a: 1 }`, `[1, 2]`) and `#` comments. Anchors, tags and
+ * multiple documents are not supported.
+ */
+export function parseYaml(text: string): YamlParseResult {
+  const lines: YamlLine[] = [];
+  text.split('\n').forEach((raw, index) => {
+    const line = raw.replace(/\r$/, '');
+    const content = line.trimStart();
+    if (!content || content.startsWith('#')) return;
+    const indentation = line.slice(0, line.length - content.length);
+    lines.push({ index, indent: indentation.includes('\t') ? -1 : indentation.length, content });
+  });
+
+  try {
+    const tab = lines.find((line) => line.indent < 0);
+    if (tab) throw new YamlSyntaxError('Tabs are not allowed for indentation', tab.index);
+    if (lines.length === 0) return { value: null };
+    const reader = new BlockReader(lines, text.split('\n'));
+    const value = reader.readBlock(lines[0].indent);
+    if (!reader.done) {
+      throw new YamlSyntaxError('Unexpected indentation', reader.current.index);
+    }
+    return { value };
+  } catch (error) {
+    if (error instanceof YamlSyntaxError) {
+      return { error: { message: error.message, line: error.line } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads indented blocks line by line
+ */
+class BlockReader {
+  private position = 0;
+
+  constructor(
+    private readonly lines: YamlLine[],
+    private readonly source: string[]
+  ) {}
+
+  get done(): boolean {
+    return this.position >= this.lines.length;
+  }
+
+  get current(): YamlLine {
+    return this.lines[this.position];
+  }
+
+  /**
+   * Read the mapping or sequence whose entries start at `indent`
+   */
+  readBlock(indent: number): YamlValue {
+    const first = this.current;
+    if (first.content === '-' || first.content.startsWith('- ')) {
+      return this.readSequence(indent);
+    }
+    if (findMappingColon(first.content) >= 0) {
+      return this.readMapping(indent);
+    }
+    this.position++;
+    return parseScalar(stripComment(first.content), first.index);
+  }
+
+  private readSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    while (!this.done && this.current.indent === indent && /^-(\s|$)/.test(this.current.content)) {
+      const line = this.current;
+      const rest = line.content.slice(1).trimStart();
+      if (!rest) {
+        this.position++;
+        items.push(this.readNested(indent));
+      } else if (findMappingColon(rest) >= 0) {
+        // `- key: value` starts a mapping indented past the dash
+        const itemIndent = indent + line.content.length - rest.length;
+        this.lines[this.position] = { ...line, indent: itemIndent, content: rest };
+        items.push(this.readMapping(itemIndent));
+      } else {
+        this.position++;
+        items.push(this.readValue(rest, line, indent));
+      }
+    }
+    return items;
+  }
+
+  private readMapping(indent: number): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+    while (!this.done && this.current.indent === indent) {
+      const line = this.current;
+      const colon = findMappingColon(line.content);
+      if (colon < 0) {
+        throw new YamlSyntaxError(`Expected "key: value", got "${line.content}"`, line.index);
+      }
+      const key = parseKey(line.content.slice(0, colon).trim(), line.index);
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new YamlSyntaxError(`Duplicate key "${key}"`, line.index);
+      }
+      const rest = line.content.slice(colon + 1).trim();
+      this.position++;
+      mapping[key] = rest ? this.readValue(rest, line, indent) : this.readNested(indent);
+    }
+    return mapping;
+  }
+
+  /**
+   * Value on the line after `key:` or `-`: a more indented block, or null.
+   * Sequences may sit at the same indentation as their key.
+   */
+  private readNested(indent: number): YamlValue {
+    if (this.done) return null;
+    const next = this.current;
+    if (next.indent > indent || (next.indent === indent && /^-(\s|$)/.test(next.content))) {
+      return this.readBlock(next.indent);
+    }
+    return null;
+  }
+
+  /**
+   * Inline value: a block scalar indicator, a flow collection or a scalar
+   */
+  private readValue(text: string, line: YamlLine, indent: number): YamlValue {
+    const value = stripComment(text);
+    if (/^[|>][+-]?$/.test(value)) {
+      return this.readBlockScalar(value, line, indent);
+    }
+    if (value.startsWith('{') || value.startsWith('[')) {
+      return this.readFlow(value, line);
+    }
+    return parseScalar(value, line.index);
+  }
+
+  private readBlockScalar(indicator: string, line: YamlLine, indent: number): string {
+    const start = line.index + 1;
+    let end = start;
+    let blockIndent = -1;
+    // Read raw source lines: blank lines and `#` belong to the text
+    while (end < this.source.length) {
+      const raw = this.source[end].replace(/\r$/, '');
+      const content = raw.trimStart();
+      if (content) {
+        const lineIndent = raw.length - content.length;
+        if (lineIndent <= indent) break;
+        if (blockIndent < 0) blockIndent = lineIndent;
+        if (lineIndent < blockIndent) break;
+      }
+      end++;
+    }
+    while (!this.done && this.current.index < end) this.position++;
+
+    const body = this.source
+      .slice(start, end)
+      .map((raw) => raw.replace(/\r$/, '').slice(Math.max(blockIndent, 0)));
+    while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+
+    const text =
+      indicator[0] === '|'
+        ? body.join('\n')
+        : body.reduce((folded, part, index) => {
+            if (index === 0) return part;
+            return !part.trim() ? `${folded}\n` : folded.endsWith('\n') ? folded + part : `${folded} ${part}`;
+          }, '');
+    if (indicator.endsWith('-')) return text;
+    return body.length > 0 ? `${text}\n` : '';
+  }
+
+  /**
+   * Flow collection, which may continue on more indented lines
+   */
+  private readFlow(text: string, line: YamlLine): YamlValue {
+    let source = text;
+    const reader = new FlowReader(source, line.index);
+    while (!reader.balanced() && !this.done) {
+      source += ` ${stripComment(this.current.content)}`;
+      this.position++;
+      reader.reset(source);
+    }
+    return reader.read();
+  }
+}
+
+/**
+ * Reads `{ ... }` and `[ ... ]` collections
+ */
+class FlowReader {
+  private position = 0;
+
+  constructor(
+    private text: string,
+    private readonly line: number
+  ) {}
+
+  reset(text: string): void {
+    this.text = text;
+    this.position = 0;
+  }
+
+  /**
+   * Whether every bracket is closed (ignoring those inside quotes)
+   */
+  balanced(): boolean {
+    let depth = 0;
+    let quote = '';
+    for (let i = 0; i < this.text.length; i++) {
+      const char = this.text[i];
+      if (quote) {
+        if (char === '\\' && quote === '"') i++;
+        else if (char === quote) quote = '';
+      } else if (char === '"' || char === "'") quote = char;
+      else if (char === '{' || char === '[') depth++;
+      else if (char === '}' || char === ']') depth--;
+    }
+    return depth <= 0;
+  }
+
+  read(): YamlValue {
+    const value = this.readValue();
+    this.skipSpace();
+    if (this.position < this.text.length) {
+      throw this.error(`Unexpected "${this.text.slice(this.position)}"`);
+    }
+    return value;
+  }
+
+  private readValue(): YamlValue {
+    this.skipSpace();
+    const char = this.text[this.position];
+    if (char === '{') return this.readMapping();
+    if (char === '[') return this.readSequence();
+    if (char === '"' || char === "'") {
+      const end = findQuoteEnd(this.text, this.position);
+      if (end < 0) throw this.error('Unterminated string');
+      const value = unquote(this.text.slice(this.position, end + 1), this.line);
+      this.position = end + 1;
+      return value;
+    }
+    const start = this.position;
+    while (this.position < this.text.length && !/[,:{}[\]]/.test(this.text[this.position])) {
+      this.position++;
+    }
+    // Colons inside plain scalars (URLs, times) are kept
+    while (this.text[this.position] === ':' && !/[\s,}\]]/.test(this.text[this.position + 1] ?? ' ')) {
+      this.position++;
+      while (this.position < this.text.length && !/[,:{}[\]]/.test(this.text[this.position])) {
+        this.position++;
+      }
+    }
+    return parseScalar(this.text.slice(start, this.position).trim(), this.line);
+  }
+
+  private readMapping(): { [key: string]: YamlValue } {
+    const mapping: { [key: string]: YamlValue } = {};
+    this.position++;
+    this.skipSpace();
+    if (this.text[this.position] === '}') {
+      this.position++;
+      return mapping;
+    }
+    for (;;) {
+      const key = this.readValue();
+      this.skipSpace();
+      if (this.text[this.position] !== ':') throw this.error('Expected ":" in mapping');
+      this.position++;
+      mapping[String(key)] = this.readValue();
+      this.skipSpace();
+      const char = this.text[this.position++];
+      if (char === '}') return mapping;
+      if (char !== ',') throw this.error('Expected "," or "}" in mapping');
+      this.skipSpace();
+      if (this.text[this.position] === '}') {
+        this.position++;
+        return mapping;
+      }
+    }
+  }
+
+  private readSequence(): YamlValue[] {
+    const items: YamlValue[] = [];
+    this.position++;
+    this.skipSpace();
+    if (this.text[this.position] === ']') {
+      this.position++;
+      return items;
+    }
+    for (;;) {
+      items.push(this.readValue());
+      this.skipSpace();
+      const char = this.text[this.position++];
+      if (char === ']') return items;
+      if (char !== ',') throw this.error('Expected "," or "]" in sequence');
+      this.skipSpace();
+      if (this.text[this.position] === ']') {
+        this.position++;
+        return items;
+      }
+    }
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.position] ?? '')) this.position++;
+  }
+
+  private error(message: string): YamlSyntaxError {
+    return new YamlSyntaxError(message, this.line);
+  }
+}
+
+/**
+ * Offset of the colon separating key and value, or -1
+ */
+function findMappingColon(content: string): number {
+  let i = 0;
+  if (content[0] === '"' || content[0] === "'") {
+    i = findQuoteEnd(content, 0);
+    if (i < 0) return -1;
+    i++;
+  }
+  for (; i < content.length; i++) {
+    if (content[i] === '#' && /\s/.test(content[i - 1] ?? ' ')) return -1;
+    if (content[i] === ':' && (i + 1 === content.length || /\s/.test(content[i + 1]))) return i;
+    if (content[i] === '{' || content[i] === '[') return -1;
+  }
+  return -1;
+}
+
+/**
+ * Offset of the closing quote of the string starting at `start`, or -1
+ */
+function findQuoteEnd(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Remove a trailing ` # comment` outside quotes
+ */
+function stripComment(text: string): string {
+  let quote = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = '';
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function parseKey(text: string, line: number): string {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    return unquote(text, line);
+  }
+  return text;
+}
+
+function unquote(text: string, line: number): string {
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new YamlSyntaxError('Unterminated string', line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  try {
+    return JSON.parse(text) as string;
+  } catch {
+    throw new YamlSyntaxError(`Invalid string ${text}`, line);
+  }
+}
+
+/**
+ * Plain or quoted scalar: strings, numbers, booleans and null
+ */
+function parseScalar(text: string, line: number): YamlValue {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = findQuoteEnd(text, 0);
+    if (end !== text.length - 1) {
+      throw new YamlSyntaxError(end < 0 ? 'Unterminated string' : `Unexpected "${text.slice(end + 1)}"`, line);
+    }
+    return unquote(text, line);
+  }
+  if (text === '' || text === '~' || /^null$/i.test(text)) return null;
+  if (/^true$/i.test(text)) return true;
+  if (/^false$/i.test(text)) return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return Number.parseInt(text, 16);
+  return text;
+}
+
+/**
+ * Write a mapping as block YAML, one line per entry (nested values are
+ * indented by two spaces). `undefined` entries are skipped.
+ */
+export function stringifyYaml(value: { [key: string]: YamlValue | undefined }, indent = ''): string[] {
+  const lines: string[] = [];
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry === undefined) continue;
+    const name = PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+    lines.push(...writeEntry(`${indent}${name}:`, entry, indent));
+  }
+  return lines;
+}
+
+function writeEntry(prefix: string, value: YamlValue, indent: string): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${prefix} []`];
+    return [prefix, ...value.flatMap((item) => writeItem(item, `${indent}  `))];
+  }
+  if (value !== null && typeof value === 'object') {
+    if (Object.keys(value).length === 0) return [`${prefix} {}`];
+    return [prefix, ...stringifyYaml(value, `${indent}  `)];
+  }
+  if (typeof value === 'string' && value.includes('\n') && !/^\s/.test(value)) {
+    const body = value.endsWith('\n') ? value.slice(0, -1) : value;
+    return [
+      `${prefix} ${value.endsWith('\n') ? '|' : '|-'}`,
+      ...body.split('\n').map((part) => (part ? `${indent}  ${part}` : '')),
+    ];
+  }
+  return [`${prefix} ${formatScalar(value)}`];
+}
+
+function writeItem(value: YamlValue, indent: string): string[] {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+    const [first, ...rest] = stringifyYaml(value, `${indent}  `);
+    return [`${indent}- ${first.trimStart()}`, ...rest];
+  }
+  if (Array.isArray(value) && value.length > 0) {
+    return [`${indent}-`, ...value.flatMap((item) => writeItem(item, `${indent}  `))];
+  }
+  return writeEntry(`${indent}-`, value, indent);
+}
+
+function formatScalar(value: YamlValue): string {
+  if (Array.isArray(value)) return '[]';
+  if (value !== null && typeof value === 'object') return '{}';
+  if (typeof value !== 'string') return String(value);
+  // Strings that would be read back as something else, or that contain
+  // YAML indicators, are quoted
+  const plain =
+    value !== '' &&
+    value === value.trim() &&
+    typeof parseScalar(value, 0) === 'string' &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/:\s|\s#|:$/.test(value);
+  return plain ? value : JSON.stringify(value);
+}
@@ -1 +1,9 @@
 export * from './MermaidParser';
+export * from './SourceDocument';
+export * from './Diagnostic';
+export * from './MermaidSyntax';
+export * from './MermaidTokenizer';
+export * from './MermaidCompletion';
+export * from './FlowchartCst';
+export * from './FlowchartLexer';
+export * from './FlowchartCstParser';
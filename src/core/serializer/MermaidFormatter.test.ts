@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { MermaidFormatter } from './MermaidFormatter';
+import { MermaidParser } from '../parser/MermaidParser';
+
+const SOURCE = `%% header
+graph TD
+  %% nodes first
+  A["Start"] -->|yes| B --> C %% trailing
+
+
+  subgraph S["Group"]
+      direction LR
+    D(Round)
+  end
+  A -.->|maybe| D
+  A ==>|thick| D
+  A ---- D
+  classDef zed fill:#f00
+  classDef alpha fill:#0f0
+  class A,B,C,D zed`;
+
+describe('MermaidFormatter', () => {
+  const parser = new MermaidParser();
+
+  it('should keep statement order and comments by default', () => {
+    const output = new MermaidFormatter().format(SOURCE);
+
+    expect(output).toBe(
+      [
+        '%% header',
+        '',
+        'graph TD',
+        '    %% nodes first',
+        '    A[Start] -->|yes| B',
+        '    B --> C %% trailing',
+        '',
+        '    subgraph S[Group]',
+        '        direction LR',
+        '        D(Round)',
+        '    end',
+        '    A -.->|maybe| D',
+        '    A ==>|thick| D',
+        '    A ---- D',
+        '    classDef zed fill:#f00',
+        '    classDef alpha fill:#0f0',
+        '    class A,B,C,D zed',
+      ].join('\n')
+    );
+  });
+
+  it('should group statements when asked', () => {
+    const output = new MermaidFormatter({ statementOrder: 'grouped' }).format(SOURCE);
+
+    expect(output).not.toContain('%% nodes first');
+    expect(output.indexOf('A[Start]')).toBeLessThan(output.indexOf('subgraph S'));
+    expect(output.indexOf('end')).toBeLessThan(output.indexOf('A -->|yes| B'));
+  });
+
+  it('should be idempotent', () => {
+    const formatter = new MermaidFormatter({ edgeLabels: 'inline', lineWidth: 24 });
+    const once = formatter.format(SOURCE);
+
+    expect(formatter.format(once)).toBe(once);
+  });
+
+  it('should keep TD or TB as written', () => {
+    const code = 'flowchart TD\nA-->B\nsubgraph S\ndirection TB\nC\nend';
+
+    expect(new MermaidFormatter().format(code)).toBe(
+      'flowchart TD\n    A --> B\n    subgraph S\n        direction TB\n        C\n    end'
+    );
+    expect(new MermaidFormatter({ statementOrder: 'grouped' }).format(code)).toMatch(/^flowchart TD\n/);
+    expect(new MermaidFormatter().format('graph TB\nA-->B')).toBe('graph TB\n    A --> B');
+  });
+
+  it('should choose the declaration keyword', () => {
+    expect(new MermaidFormatter({ keyword: 'flowchart' }).format(SOURCE)).toContain('\nflowchart TD\n');
+    expect(new MermaidFormatter().format('flowchart LR\nA-->B')).toBe('flowchart LR\n    A --> B');
+    expect(new MermaidFormatter({ keyword: 'graph' }).format('flowchart LR\nA-->B')).toBe('graph LR\n    A --> B');
+  });
+
+  it('should write shapes with the @{} syntax', () => {
+    const output = new MermaidFormatter({ shapeSyntax: 'at' }).format('flowchart TB\nA(Round) --> B\nC{Check}');
+
+    expect(output).toBe(
+      'flowchart TB\n    A@{ shape: rounded, label: "Round" } --> B\n    C@{ shape: diamond, label: "Check" }'
+    );
+  });
+
+  it('should quote every label when asked', () => {
+    const output = new MermaidFormatter({ quoteLabels: 'always' }).format(
+      'flowchart TB\nA[Start] --> B\nsubgraph S[Group]\nC\nend'
+    );
+
+    expect(output).toContain('A["Start"] --> B');
+    expect(output).toContain('subgraph S["Group"]');
+    expect(parser.parse(output).getNode('A')?.text).toBe('Start');
+  });
+
+  it('should write edge labels inline where possible', () => {
+    const output = new MermaidFormatter({ edgeLabels: 'inline' }).format(
+      'flowchart TB\nA -->|go| B\nA ---|plain| C\nA ==>|bold| D\nA -.->|soft| E\nA <-->|both| F\nA -->|x-->y| G'
+    );
+
+    expect(output).toContain('A -- go --> B');
+    expect(output).toContain('A -- plain --- C');
+    expect(output).toContain('A == bold ==> D');
+    expect(output).toContain('A -. soft .-> E');
+    // No inline form for these
+    expect(output).toContain('A <-->|both| F');
+    expect(output).toContain('A -->|x-->y| G');
+  });
+
+  it('should normalize edge lengths unless preserved', () => {
+    const code = 'flowchart TB\nA ----> B\nB ==== C';
+
+    expect(new MermaidFormatter().format(code)).toContain('A ----> B');
+    expect(new MermaidFormatter({ preserveEdgeLength: false }).format(code)).toBe(
+      'flowchart TB\n    A --> B\n    B === C'
+    );
+  });
+
+  it('should sort classDefs', () => {
+    const output = new MermaidFormatter({ sortClassDefs: true }).format(SOURCE);
+
+    expect(output.indexOf('classDef alpha')).toBeLessThan(output.indexOf('classDef zed'));
+  });
+
+  it('should split long statements to fit the line width', () => {
+    const output = new MermaidFormatter({ lineWidth: 24 }).format(
+      'flowchart TB\nFirst[Long label] --> Second[Another]\nA --> B --> C\nD --> E\nclassDef box fill:#fff\nclass A,B,C,D,E,First box'
+    );
+
+    expect(output).toContain('    First[Long label]\n    Second[Another]\n    First --> Second\n');
+    expect(output).toContain('    class First,A,B box\n    class C,D,E box');
+    // classDef styles cannot be split
+    const wrappable = output.split('\n').filter((line) => !line.includes('classDef'));
+    expect(wrappable.every((line) => line.length <= 24)).toBe(true);
+  });
+
+  it('should produce code that parses into the same model', () => {
+    const formatter = new MermaidFormatter({
+      shapeSyntax: 'at',
+      quoteLabels: 'always',
+      edgeLabels: 'inline',
+      preserveEdgeLength: false,
+      sortClassDefs: true,
+      lineWidth: 30,
+    });
+    const original = parser.parse(SOURCE);
+    const formatted = parser.parse(formatter.format(SOURCE));
+
+    expect(formatted.nodes.map((n) => [n.id, n.text, n.shape, n.parentId])).toEqual(
+      original.nodes.map((n) => [n.id, n.text, n.shape, n.parentId])
+    );
+    expect(formatted.edges.map((e) => [e.source, e.target, e.text, e.stroke])).toEqual(
+      original.edges.map((e) => [e.source, e.target, e.text, e.stroke])
+    );
+  });
+
+  it('should refuse code with errors', () => {
+    expect(() => new MermaidFormatter().format('flowchart TB\nA -->')).toThrow(
+      'Cannot format code with errors'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { MermaidParser } from '../parser/MermaidParser';
+import { MermaidSerializer, type SerializerOptions } from './MermaidSerializer';
+
+/**
+ * Formatter style rules
+ */
+export interface FormatOptions
+  extends Pick<
+    SerializerOptions,
+    | 'indent'
+    | 'shapeSyntax'
+    | 'quoteLabels'
+    | 'edgeLabels'
+    | 'preserveEdgeLength'
+    | 'sortClassDefs'
+    | 'lineWidth'
+  > {
+  /** Declaration keyword; 'preserve' keeps the one in the source (default: 'preserve') */
+  keyword?: 'flowchart' | 'graph' | 'preserve';
+  /**
+   * Keep statements (and comments) where they are, or group them as
+   * nodes, subgraphs, edges, then styling (default: 'source').
+   * Grouping drops comments other than those before the declaration.
+   */
+  statementOrder?: 'source' | 'grouped';
+}
+
+/**
+ * Mermaid flowchart formatter
+ * Rewrites code in canonical form according to configurable style rules
+ */
+export class MermaidFormatter {
+  private options: FormatOptions;
+  private parser = new MermaidParser();
+
+  constructor(options: FormatOptions = {}) {
+    this.options = { ...options };
+  }
+
+  /**
+   * Format Mermaid flowchart code.
+   * Statements the parser skipped would be lost, so code with errors is rejected.
+   */
+  format(code: string): string {
+    const { model, source, diagnostics } = this.parser.parseDocument(code);
+    const error = diagnostics.find((d) => d.severity === 'error');
+    if (error) {
+      throw new Error(`Cannot format code with errors: ${error.message} (line ${error.line})`);
+    }
+
+    const { keyword = 'preserve', statementOrder = 'source', ...rules } = this.options;
+    const declaration = source.statements.find((s) => s.kind === 'declaration');
+    const sourceKeyword =
+      declaration && /^\s*graph\b/i.test(source.lines[declaration.line]) ? 'graph' : 'flowchart';
+
+    // `TD` and `TB` are the same direction; write it as the source first does
+    const topDown = source.statements
+      .filter((s) => s.kind === 'declaration' || s.kind === 'direction')
+      .map((s) => /^\s*(?:flowchart|graph|direction)[ \t]+(TB|TD)\b/i.exec(source.lines[s.line])?.[1])
+      .find(Boolean);
+
+    const serializer = new MermaidSerializer({
+      ...rules,
+      keyword: keyword === 'preserve' ? sourceKeyword : keyword,
+      topDown: topDown?.toUpperCase() === 'TD' ? 'TD' : 'TB',
+    });
+    return statementOrder === 'source'
+      ? serializer.serializeOrdered(model, source)
+      : serializer.serialize(model);
+  }
+
+  /**
+   * Update formatting options
+   */
+  setOptions(options: Partial<FormatOptions>): void {
+    Object.assign(this.options, options);
+  }
+
+  /**
+   * Get current formatting options
+   */
+  getOptions(): FormatOptions {
+    return { ...this.options };
+  }
+}
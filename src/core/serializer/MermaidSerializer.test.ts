@@ -162,6 +162,27 @@ describe('MermaidSerializer', () => {
       expect(output).toContain('e1@{ animate: true }');
     });
 
+    it('should round-trip edge curves and dash patterns', () => {
+      const code = [
+        'flowchart TB',
+        '    A',
+        '    B',
+        '',
+        '    A e1@---> B',
+        '',
+        '    e1@{ animation: slow, curve: stepAfter }',
+        '',
+        '    linkStyle 0 stroke:#f00,stroke-width:1.5px,stroke-dasharray:4 2',
+      ].join('\n');
+      const model = new MermaidParser().parse(code);
+      const edge = model.getEdge('e1');
+
+      expect(edge?.curve).toBe('stepAfter');
+      expect(edge?.length).toBe(2);
+      expect(edge?.style).toEqual({ stroke: '#f00', strokeWidth: 1.5, strokeDasharray: '4 2' });
+      expect(serializer.serialize(model)).toBe(code);
+    });
+
     it('should serialize bidirectional edges', () => {
       const model = new FlowchartModel();
       model.addNode({ id: 'A', text: 'A', shape: 'rect' });
@@ -234,6 +255,27 @@ describe('MermaidSerializer', () => {
       expect(output).toContain('style A fill:#0f0,stroke:#090');
     });
 
+    it('should round-trip dash patterns and font settings', () => {
+      const code = [
+        'flowchart TB',
+        '    A',
+        '',
+        '    style A fill:#0f0,stroke-width:1.5px,stroke-dasharray:5 5,font-size:18px,font-weight:bold,font-style:italic,font-family:monospace',
+      ].join('\n');
+      const model = new MermaidParser().parse(code);
+
+      expect(model.getNode('A')?.style).toEqual({
+        fill: '#0f0',
+        strokeWidth: 1.5,
+        strokeDasharray: '5 5',
+        fontSize: '18px',
+        fontWeight: 'bold',
+        fontStyle: 'italic',
+        fontFamily: 'monospace',
+      });
+      expect(serializer.serialize(model)).toBe(code);
+    });
+
     it('should serialize click/link statements', () => {
       const model = new FlowchartModel();
       model.addNode({
@@ -246,7 +288,92 @@ describe('MermaidSerializer', () => {
 
       const output = serializer.serialize(model);
 
-      expect(output).toContain('click A "https://example.com" "_blank"');
+      expect(output).toContain('click A "https://example.com" _blank');
+    });
+
+    it('should serialize click callbacks and tooltips', () => {
+      const model = new FlowchartModel();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect', callback: { name: 'show' }, tooltip: 'Say "hi"' });
+      model.addNode({ id: 'B', text: 'B', shape: 'rect', callback: { name: 'notify', args: '"B", 2' } });
+      model.addNode({
+        id: 'C',
+        text: 'C',
+        shape: 'rect',
+        link: 'https://example.com',
+        tooltip: 'Docs',
+        callback: { name: 'track', args: '' },
+      });
+
+      const lines = serializer.serialize(model).split('\n').map((line) => line.trim());
+
+      expect(lines).toContain('click A show "Say #quot;hi#quot;"');
+      expect(lines).toContain('click B call notify("B", 2)');
+      expect(lines).toContain('click C "https://example.com" "Docs"');
+      expect(lines).toContain('click C call track()');
+    });
+
+    it('should write ::: classes on the node and edge classes with the edge ID', () => {
+      const model = parser.parse('flowchart LR\n  A:::hot --> B\n  classDef hot fill:#f00');
+      const edge = model.edges[0];
+      model.updateEdge(edge.id, { cssClasses: ['hot'] });
+      model.updateNode('B', { cssClasses: ['hot'] });
+
+      const output = serializer.serialize(model);
+      const lines = output.split('\n').map((line) => line.trim());
+
+      expect(lines).toContain('A:::hot');
+      expect(lines).toContain(`A ${edge.id}@--> B`);
+      expect(lines).toContain(`class B,${edge.id} hot`);
+      expect(parser.parse(output).getEdge(edge.id)?.cssClasses).toEqual(['hot']);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should write the frontmatter, header lines and init directive in order', () => {
+      const model = parser.parse('flowchart LR\n  A');
+      model.meta = {
+        title: 'Title',
+        config: { theme: 'neutral', flowchart: { curve: 'step', htmlLabels: true } },
+        frontmatter: { displayMode: 'compact' },
+        headerLines: ['%% note'],
+        init: { fontFamily: 'Inter' },
+      };
+
+      const output = serializer.serialize(model);
+
+      expect(output.split('\n').slice(0, 12)).toEqual([
+        '---',
+        'title: Title',
+        'displayMode: compact',
+        'config:',
+        '  theme: neutral',
+        '  flowchart:',
+        '    curve: step',
+        '    htmlLabels: true',
+        '---',
+        '%% note',
+        '%%{init: {"fontFamily":"Inter"}}%%',
+        '',
+      ]);
+      expect(parser.parse(output).meta).toMatchObject(model.meta);
+    });
+
+    it('should write accessibility lines after the declaration', () => {
+      const model = parser.parse('flowchart LR\n  A');
+      model.meta = { ...model.meta, accTitle: 'Flow', accDescr: 'First line\n\nSecond line' };
+
+      const output = serializer.serialize(model);
+
+      expect(output.split('\n').slice(0, 7)).toEqual([
+        'flowchart LR',
+        '    accTitle: Flow',
+        '    accDescr {',
+        '        First line',
+        '',
+        '        Second line',
+        '    }',
+      ]);
+      expect(parser.parse(output).meta).toMatchObject({ accTitle: 'Flow', accDescr: 'First line\n\nSecond line' });
     });
   });
 
@@ -305,6 +432,22 @@ describe('MermaidSerializer', () => {
       expect(output).toContain('-.->');
     });
 
+    it('should write edge lengths the way they are parsed', () => {
+      const code = [
+        'flowchart TB',
+        '    A --- B',
+        '    A ---- C',
+        '    A === D',
+        '    A ==== E',
+        '    A ===> F',
+        '    A <--> G',
+        '    A -..- H',
+      ].join('\n');
+      const model = new MermaidParser().parse(code);
+
+      expect(serializer.serialize(model)).toContain(code.split('\n').slice(1).join('\n'));
+    });
+
     it('should include text labels in operators', () => {
       const model = new FlowchartModel();
       model.addNode({ id: 'A', text: 'A', shape: 'rect' });
@@ -506,4 +649,274 @@ describe('MermaidSerializer', () => {
       expect(output).toContain('A["Code `example`"]');
     });
   });
+
+  describe('serializePreserving', () => {
+    const source = [
+      '%% Ordering pipeline',
+      'flowchart LR',
+      '  %% entry points',
+      '  start([Start]) --> validate{Valid?}  %% first check',
+      '',
+      '  validate -->|yes| ship[Ship it]',
+      '  validate -->|no| reject[Reject]',
+      '',
+      '  subgraph ops[Operations]',
+      '    ship --> notify[Notify]',
+      '  end',
+      '',
+      '  classDef warn fill:#f96',
+      '  class reject warn',
+    ].join('\n');
+
+    it('should return the source unchanged when nothing changed', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+
+      expect(serializer.serializePreserving(model, doc)).toBe(source);
+    });
+
+    it('should only rewrite the statement of a changed node', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.updateNode('reject', { text: 'Send back' });
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).toBe(source.replace('reject[Reject]', 'reject[Send back]'));
+    });
+
+    it('should keep ::: classes where they were written', () => {
+      const classed = [
+        'flowchart LR',
+        '  A:::hot --> B',
+        '  C:::hot@{ shape: circle }',
+        '  classDef hot fill:#f00',
+        '  class B hot',
+      ].join('\n');
+      const { model, source: doc } = parser.parseDocument(classed);
+      model.updateNode('B', { text: 'Done' });
+      model.updateNode('C', { shape: 'diamond' });
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).toBe(
+        classed.replace('--> B', '--> B[Done]').replace('C:::hot@{ shape: circle }', 'C{C}:::hot')
+      );
+    });
+
+    it('should keep comments and blank lines when removing an edge', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      const edge = model.edges.find((e) => e.source === 'validate' && e.target === 'ship')!;
+      model.removeEdge(edge.id);
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).toContain('%% entry points');
+      expect(output).toContain('%% first check');
+      expect(output).not.toContain('-->|yes|');
+      expect(output.split('\n')).toHaveLength(source.split('\n').length);
+      expect(parser.parse(output).getNode('notify')?.parentId).toBe('ops');
+    });
+
+    it('should append new nodes and edges after existing statements', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.addNode({ id: 'audit', text: 'Audit', shape: 'rect' });
+      model.addEdge({
+        id: 'e1',
+        source: 'reject',
+        target: 'audit',
+        stroke: 'normal',
+        arrowStart: 'none',
+        arrowEnd: 'arrow',
+        isUserDefinedId: true,
+      });
+
+      const lines = serializer.serializePreserving(model, doc).split('\n');
+
+      expect(lines.slice(0, 11)).toEqual(source.split('\n').slice(0, 11));
+      expect(lines[11]).toBe('  audit[Audit]');
+      expect(lines[12]).toBe('  reject e1@--> audit');
+      expect(lines.slice(-2)).toEqual(['  classDef warn fill:#f96', '  class reject warn']);
+    });
+
+    it('should add new nodes inside an existing subgraph', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.addNode({ id: 'log', text: 'Log', shape: 'rect' });
+      model.setNodeParent('log', 'ops');
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).toContain('    ship --> notify[Notify]\n    log[Log]\n  end');
+    });
+
+    it('should rename subgraphs and set their direction in place', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.updateSubGraph('ops', { title: 'Ops team', direction: 'TB' });
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).toContain('  subgraph ops[Ops team]\n    direction TB\n    ship --> notify[Notify]');
+      expect(output).toContain('%% Ordering pipeline');
+    });
+
+    it('should keep the content of an ungrouped subgraph in place', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.ungroupSubGraph('ops');
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).not.toContain('subgraph');
+      expect(output).toContain('\n  ship --> notify[Notify]\n');
+    });
+
+    it('should group existing nodes ahead of their first use', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.addSubGraph({ id: 'SG1', title: 'Entry', nodeIds: [] });
+      model.setNodeParent('start', 'SG1');
+      model.setNodeParent('validate', 'SG1');
+
+      const output = serializer.serializePreserving(model, doc);
+      const reparsed = parser.parse(output);
+
+      expect(output).toContain('%% first check');
+      expect(reparsed.getNode('start')?.parentId).toBe('SG1');
+      expect(reparsed.getNode('validate')?.parentId).toBe('SG1');
+      expect(reparsed.getNode('reject')?.parentId).toBeUndefined();
+    });
+
+    it('should move statements mentioning a node out of the subgraph it left', () => {
+      const nested = [
+        'flowchart TB',
+        '  A --> C',
+        '  subgraph outer',
+        '    subgraph S',
+        '      C --> D[Dee] %% moved',
+        '      E',
+        '    end',
+        '  end',
+        '  %% tail',
+      ].join('\n');
+      const { model, source: doc } = parser.parseDocument(nested);
+      model.setNodeParent('C', undefined);
+
+      const output = serializer.serializePreserving(model, doc);
+      const reparsed = parser.parse(output);
+
+      expect(output).toBe(
+        [
+          'flowchart TB',
+          '  C',
+          '  A --> C',
+          '  subgraph outer',
+          '    subgraph S',
+          '      D[Dee] %% moved',
+          '      E',
+          '    end',
+          '  end',
+          '  C --> D',
+          '  %% tail',
+        ].join('\n')
+      );
+      expect(reparsed.getNode('C')?.parentId).toBeUndefined();
+      expect(reparsed.getNode('D')?.parentId).toBe('S');
+    });
+
+    it('should update the graph direction on the declaration line', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.direction = 'TB';
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output.split('\n')[1]).toBe('flowchart TB');
+    });
+
+    it('should regenerate class statements that changed', () => {
+      const { model, source: doc } = parser.parseDocument(source);
+      model.updateNode('ship', { cssClasses: ['warn'] });
+
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).toContain('  class ship,reject warn');
+      expect(output).toContain('  classDef warn fill:#f96');
+    });
+
+    it('should keep the frontmatter as written until its settings change', () => {
+      const text = [
+        '---',
+        'title: Flow # the name',
+        'config:',
+        '  theme: forest',
+        '---',
+        "%%{init: {'flowchart': {'curve': 'linear'}}}%%",
+        'flowchart TB',
+        '  A --> B',
+      ].join('\n');
+      const { model, source: doc } = parser.parseDocument(text);
+      model.updateNode('B', { text: 'End' });
+
+      expect(serializer.serializePreserving(model, doc)).toBe(text.replace('--> B', '--> B[End]'));
+
+      model.meta = { ...model.meta, config: { theme: 'dark', flowchart: { nodeSpacing: 20 } } };
+      model.meta = { ...model.meta, init: undefined };
+      const output = serializer.serializePreserving(model, doc);
+
+      expect(output).toBe(
+        [
+          '---',
+          'title: Flow',
+          'config:',
+          '  theme: dark',
+          '  flowchart:',
+          '    nodeSpacing: 20',
+          '---',
+          'flowchart TB',
+          '  A --> B[End]',
+        ].join('\n')
+      );
+    });
+
+    it('should rewrite accessibility statements in place', () => {
+      const text = [
+        'flowchart TB',
+        '  A --> B',
+        '  accDescr {',
+        '    old',
+        '  }',
+        '  accTitle: Second',
+        '  B --> C',
+      ].join('\n');
+      const { model, source: doc } = parser.parseDocument(text);
+
+      model.meta = { ...model.meta, accDescr: 'new' };
+      expect(serializer.serializePreserving(model, doc)).toBe(
+        'flowchart TB\n  A --> B\n  accTitle: Second\n  accDescr: new\n  B --> C'
+      );
+
+      model.meta = { ...model.meta, accTitle: undefined, accDescr: 'one\ntwo' };
+      expect(serializer.serializePreserving(model, doc)).toBe(
+        'flowchart TB\n  A --> B\n  accDescr {\n    one\n    two\n  }\n  B --> C'
+      );
+    });
+
+    it('should add accessibility lines after the declaration', () => {
+      const { model, source: doc } = parser.parseDocument('%% note\nflowchart TB\n  A');
+      model.meta = { ...model.meta, accTitle: 'Title' };
+
+      expect(serializer.serializePreserving(model, doc)).toBe('%% note\nflowchart TB\n  accTitle: Title\n  A');
+    });
+
+    it('should add a frontmatter at the top of the source', () => {
+      const { model, source: doc } = parser.parseDocument('%% note\nflowchart TB\n  A');
+      model.meta = { ...model.meta, title: 'New' };
+
+      expect(serializer.serializePreserving(model, doc)).toBe('---\ntitle: New\n---\n%% note\nflowchart TB\n  A');
+    });
+
+    it('should fall back to canonical output when the patch is ambiguous', () => {
+      const text = 'flowchart TB\n  subgraph one\n    A --> B\n  end\n  subgraph two\n    C\n  end';
+      const { model, source: doc } = parser.parseDocument(text);
+      // Existing subgraphs cannot be re-nested by patching
+      model.updateSubGraph('two', { parentId: 'one' });
+
+      expect(serializer.serializePreserving(model, doc)).toBe(serializer.serialize(model));
+    });
+  });
 });
@@ -1,8 +1,12 @@
-import type { FlowchartModel } from '../model/FlowchartModel';
+import { FlowchartModel } from '../model/FlowchartModel';
 import type { FlowNode } from '../model/Node';
 import type { FlowEdge } from '../model/Edge';
 import type { FlowSubGraph } from '../model/SubGraph';
-import type { ShapeType, LegacyShapeType } from '../model/types';
+import type { Direction, ShapeType, LegacyShapeType } from '../model/types';
+import { mergeEdgeStyleDeclarations, toStyleDeclarations } from '../model/style';
+import { MermaidParser } from '../parser/MermaidParser';
+import { stringifyYaml, type YamlValue } from '../parser/Yaml';
+import type { SourceDocument, SourceStatement, SourceStatementKind } from '../parser/SourceDocument';
 
 /**
  * Serialization options
@@ -18,6 +22,31 @@ export interface SerializerOptions {
   includeHeaderLines?: boolean;
   /** Whether to include merfolk metadata comment (default: true) */
   includeMerfolkMeta?: boolean;
+  /** Declaration keyword (default: 'flowchart') */
+  keyword?: 'flowchart' | 'graph';
+  /** How to write the top-down direction, which Mermaid accepts as `TB` or `TD` (default: 'TB') */
+  topDown?: 'TB' | 'TD';
+  /**
+   * Node shape syntax: bracket shorthand where the shape has one, falling
+   * back to `@{ shape: ... }`, or always `@{ shape: ... }` (default: 'legacy')
+   */
+  shapeSyntax?: 'legacy' | 'at';
+  /** Quote node labels and subgraph titles only when needed, or always (default: 'auto') */
+  quoteLabels?: 'auto' | 'always';
+  /**
+   * Edge label placement: `A -->|text| B` or `A -- text --> B` (default: 'pipe').
+   * Edges the inline form cannot express keep the pipe form.
+   */
+  edgeLabels?: 'pipe' | 'inline';
+  /** Keep written edge lengths (`---->`); otherwise use the shortest operator (default: true) */
+  preserveEdgeLength?: boolean;
+  /** Sort classDef statements by class name (default: false) */
+  sortClassDefs?: boolean;
+  /**
+   * Split statements longer than this many characters where the syntax
+   * allows it; labels are never rewrapped. 0 disables (default: 0)
+   */
+  lineWidth?: number;
 }
 
 /**
@@ -47,6 +76,83 @@ function isLegacyShape(shape: ShapeType): shape is LegacyShapeType {
   return shape in LEGACY_SHAPE_SYNTAX;
 }
 
+/**
+ * Statement kinds that are regenerated as a whole block when they change
+ */
+type DecorationKind = Extract<
+  SourceStatementKind,
+  'edgeProps' | 'linkStyle' | 'classDef' | 'class' | 'style' | 'click'
+>;
+
+const DECORATION_KINDS: DecorationKind[] = [
+  'edgeProps',
+  'linkStyle',
+  'classDef',
+  'class',
+  'style',
+  'click',
+];
+
+/**
+ * Line-level edits applied on top of the original source lines
+ */
+class LinePatch {
+  private replaced = new Map<number, string[]>();
+  private before = new Map<number, string[]>();
+  private after = new Map<number, string[]>();
+  private dedents = new Map<number, number>();
+
+  constructor(
+    private readonly lines: string[],
+    private readonly indentUnit: string
+  ) {}
+
+  replace(line: number, content: string[]): void {
+    this.replaced.set(line, content);
+  }
+
+  remove(line: number): void {
+    this.replaced.set(line, []);
+  }
+
+  insertBefore(line: number, content: string[]): void {
+    this.before.set(line, [...(this.before.get(line) ?? []), ...content]);
+  }
+
+  insertAfter(line: number, content: string[]): void {
+    this.after.set(line, [...(this.after.get(line) ?? []), ...content]);
+  }
+
+  /** Remove one indentation level from the given line range (exclusive) */
+  dedent(start: number, end: number): void {
+    for (let line = start + 1; line < end; line++) {
+      this.dedents.set(line, (this.dedents.get(line) ?? 0) + 1);
+    }
+  }
+
+  toString(): string {
+    const output: string[] = [];
+    this.lines.forEach((line, index) => {
+      const content = [
+        ...(this.before.get(index) ?? []),
+        ...(this.replaced.get(index) ?? [line]),
+        ...(this.after.get(index) ?? []),
+      ];
+      const levels = this.dedents.get(index) ?? 0;
+      output.push(...content.map((l) => this.stripIndent(l, levels)));
+    });
+    return output.join('\n');
+  }
+
+  private stripIndent(line: string, levels: number): string {
+    let result = line;
+    for (let i = 0; i < levels && this.indentUnit && result.startsWith(this.indentUnit); i++) {
+      result = result.slice(this.indentUnit.length);
+    }
+    return result;
+  }
+}
+
 /**
  * Mermaid Flowchart Serializer
  * Converts FlowchartModel back to Mermaid syntax
@@ -61,9 +167,48 @@ export class MermaidSerializer {
       includeClassDefs: options.includeClassDefs ?? true,
       includeHeaderLines: options.includeHeaderLines ?? true,
       includeMerfolkMeta: options.includeMerfolkMeta ?? true,
+      keyword: options.keyword ?? 'flowchart',
+      topDown: options.topDown ?? 'TB',
+      shapeSyntax: options.shapeSyntax ?? 'legacy',
+      quoteLabels: options.quoteLabels ?? 'auto',
+      edgeLabels: options.edgeLabels ?? 'pipe',
+      preserveEdgeLength: options.preserveEdgeLength ?? true,
+      sortClassDefs: options.sortClassDefs ?? false,
+      lineWidth: options.lineWidth ?? 0,
     };
   }
 
+  /**
+   * Serialize a model by patching the source text it was parsed from.
+   *
+   * Statements whose nodes/edges did not change keep their original text,
+   * including comments, blank lines and ordering; only the affected statements
+   * are rewritten. If the patched text would not parse back into the same
+   * model, the canonical output of `serialize` is returned instead.
+   */
+  serializePreserving(model: FlowchartModel, source: SourceDocument): string {
+    const patched = this.patchSource(model, source);
+    if (patched !== null && this.isEquivalent(model, patched)) {
+      return patched;
+    }
+    return this.serialize(model);
+  }
+
+  /**
+   * Serialize a model in canonical form while keeping the statement order of
+   * the source it was parsed from, along with its comments. Runs of blank
+   * lines collapse to one; edge chains and `&` groups are written one edge
+   * per line. Falls back to `serialize` if the result would not parse back
+   * into the same model.
+   */
+  serializeOrdered(model: FlowchartModel, source: SourceDocument): string {
+    const ordered = this.writeInSourceOrder(model, source);
+    if (ordered !== null && this.isEquivalent(model, ordered)) {
+      return ordered;
+    }
+    return this.serialize(model);
+  }
+
   /**
    * Serialize a FlowchartModel to Mermaid text
    */
@@ -77,7 +222,10 @@ export class MermaidSerializer {
     }
 
     // Graph declaration
-    lines.push(`flowchart ${model.direction}`);
+    lines.push(`${this.options.keyword} ${this.writeDirection(model.direction)}`);
+
+    // Accessible title and description
+    lines.push(...this.serializeAccessibility(model, this.options.indent));
 
     // Collect nodes by subgraph
     const rootNodes: FlowNode[] = [];
@@ -166,46 +314,129 @@ export class MermaidSerializer {
     return lines.join('\n');
   }
 
-  private serializeHeader(model: FlowchartModel): string[] {
+  /**
+   * Frontmatter, header comments, init directive and merfolk metadata.
+   * With a source, an unchanged frontmatter keeps its original text.
+   */
+  private serializeHeader(model: FlowchartModel, source?: SourceDocument): string[] {
     const lines: string[] = [];
     const meta = model.meta;
 
+    const frontmatter = this.serializeFrontmatter(model);
+    const written = source?.statements.find((s) => s.kind === 'frontmatter');
+    if (
+      written?.endLine !== undefined &&
+      frontmatter.join('\n') === this.serializeFrontmatter(FlowchartModel.fromData(source!.snapshot)).join('\n')
+    ) {
+      lines.push(...source!.lines.slice(written.line, written.endLine + 1).map((l) => l.replace(/\r$/, '')));
+    } else {
+      lines.push(...frontmatter);
+    }
+
     if (this.options.includeHeaderLines && meta?.headerLines?.length) {
       lines.push(...meta.headerLines);
     }
 
-    if (this.options.includeMerfolkMeta && meta?.merfolk && Object.keys(meta.merfolk).length > 0) {
-      const json = JSON.stringify(meta.merfolk);
-      lines.push(`%%{merfolk: ${json}}%%`);
+    const init = this.serializeInitDirective(model);
+    if (init) {
+      lines.push(init);
+    }
+
+    const merfolkLine = this.serializeMerfolkMeta(model);
+    if (merfolkLine) {
+      lines.push(merfolkLine);
     }
 
     return lines;
   }
 
+  /**
+   * YAML frontmatter with the title, other frontmatter keys and `config:`
+   */
+  private serializeFrontmatter(model: FlowchartModel): string[] {
+    const { title, frontmatter, config } = model.meta ?? {};
+    const entries: Record<string, YamlValue | undefined> = {
+      title,
+      ...(frontmatter as Record<string, YamlValue> | undefined),
+      config: config as YamlValue | undefined,
+    };
+    if (Object.values(entries).every((value) => value === undefined)) {
+      return [];
+    }
+    return ['---', ...stringifyYaml(entries), '---'];
+  }
+
+  private serializeInitDirective(model: FlowchartModel): string | null {
+    const init = model.meta?.init;
+    if (!init || Object.keys(init).length === 0) {
+      return null;
+    }
+    return `%%{init: ${JSON.stringify(init)}}%%`;
+  }
+
+  private serializeMerfolkMeta(model: FlowchartModel): string | null {
+    const merfolk = model.meta?.merfolk;
+    if (!this.options.includeMerfolkMeta || !merfolk || Object.keys(merfolk).length === 0) {
+      return null;
+    }
+    return `%%{merfolk: ${JSON.stringify(merfolk)}}%%`;
+  }
+
+  /**
+   * `accTitle` / `accDescr` statements. Descriptions with line breaks use
+   * the block form; titles are always written on one line.
+   */
+  private serializeAccessibility(model: FlowchartModel, indent = '', indentUnit = this.options.indent): string[] {
+    const { accTitle, accDescr } = model.meta;
+    const lines: string[] = [];
+    if (accTitle) {
+      lines.push(`${indent}accTitle: ${accTitle.replace(/\s*\n\s*/g, ' ')}`);
+    }
+    if (accDescr?.includes('\n')) {
+      const body = accDescr.split('\n').map((line) => (line ? indent + indentUnit + line : ''));
+      lines.push(`${indent}accDescr {`, ...body, `${indent}}`);
+    } else if (accDescr) {
+      lines.push(`${indent}accDescr: ${accDescr}`);
+    }
+    return lines;
+  }
+
   /**
    * Serialize a single node
    */
   private serializeNode(node: FlowNode): string {
+    const classSuffix = this.getInlineClassSuffix(node);
+
     // If text equals id and shape is rect, just output id
     if (node.text === node.id && node.shape === 'rect') {
-      return node.id;
+      return `${node.id}${classSuffix}`;
     }
 
     // Use legacy bracket syntax for legacy shapes
-    if (isLegacyShape(node.shape)) {
+    if (isLegacyShape(node.shape) && this.options.shapeSyntax === 'legacy') {
       const [start, end] = LEGACY_SHAPE_SYNTAX[node.shape];
       const text = this.formatNodeText(node.text, node.shape);
-      return `${node.id}${start}${text}${end}`;
+      return `${node.id}${start}${text}${end}${classSuffix}`;
     }
 
     // Use new @{} syntax for extended shapes
-    return this.serializeNodeWithAtSyntax(node);
+    return this.serializeNodeWithAtSyntax(node, classSuffix);
+  }
+
+  /**
+   * `:::className` for a node whose class was written with the shorthand
+   */
+  private getInlineClassSuffix(node: FlowNode): string {
+    return node.inlineClass && node.cssClasses.includes(node.inlineClass)
+      ? `:::${node.inlineClass}`
+      : '';
   }
 
   /**
-   * Serialize a node using the new @{} syntax
+   * Serialize a node using the new @{} syntax. Mermaid expects the class
+   * shorthand between the ID and the block: `A:::hot@{ ... }`.
    */
-  private serializeNodeWithAtSyntax(node: FlowNode): string {
+  private serializeNodeWithAtSyntax(node: FlowNode, classSuffix = ''): string {
     const props: string[] = [];
 
     props.push(`shape: ${node.shape}`);
@@ -238,7 +469,7 @@ export class MermaidSerializer {
       props.push(`h: ${node.height}`);
     }
 
-    return `${node.id}@{ ${props.join(', ')} }`;
+    return `${node.id}${classSuffix}@{ ${props.join(', ')} }`;
   }
 
   /**
@@ -276,7 +507,7 @@ export class MermaidSerializer {
       return `"\`${escaped}\`"`;
     }
 
-    if (needsQuotes) {
+    if (needsQuotes || this.options.quoteLabels === 'always') {
       return `"${this.escapeQuotedText(normalized)}"`;
     }
 
@@ -332,7 +563,7 @@ export class MermaidSerializer {
 
       // Add direction if the subgraph has its own direction
       if (subGraph.direction) {
-        lines.push(currentIndent + this.options.indent + `direction ${subGraph.direction}`);
+        lines.push(currentIndent + this.options.indent + `direction ${this.writeDirection(subGraph.direction)}`);
       }
 
       // Add nodes in this subgraph
@@ -386,7 +617,7 @@ export class MermaidSerializer {
       /[()]/.test(normalized) ||
       /[^\x20-\x7E]/.test(normalized);
 
-    if (!needsQuotes && escaped === normalized) {
+    if (!needsQuotes && escaped === normalized && this.options.quoteLabels !== 'always') {
       return escaped;
     }
 
@@ -396,17 +627,17 @@ export class MermaidSerializer {
   /**
    * Serialize a single edge
    */
-  private serializeEdge(edge: FlowEdge): string {
+  private serializeEdge(edge: FlowEdge, source = edge.source, target = edge.target): string {
     const operator = this.getEdgeOperator(edge);
     const edgeIdPrefix = this.getEdgeIdPrefix(edge);
-    return `${edge.source} ${edgeIdPrefix}${operator} ${edge.target}`;
+    return `${source} ${edgeIdPrefix}${operator} ${target}`;
   }
 
   /**
    * Determine whether to include edge ID in the edge statement
    */
   private getEdgeIdPrefix(edge: FlowEdge): string {
-    if (edge.isUserDefinedId || edge.animate || edge.animation) {
+    if (edge.isUserDefinedId || this.hasEdgeProperties(edge) || edge.cssClasses.length > 0) {
       return `${edge.id}@`;
     }
     return '';
@@ -418,13 +649,12 @@ export class MermaidSerializer {
    */
   private getEdgeOperator(edge: FlowEdge): string {
     const { stroke, arrowStart, arrowEnd, text } = edge;
-    const defaultLength =
-      edge.length ??
-      ((stroke === 'normal' && arrowStart === 'none' && arrowEnd === 'none') ||
-      (stroke === 'thick' && arrowStart === 'none' && arrowEnd === 'none')
-        ? 2
-        : 1);
-    const length = Math.max(1, defaultLength);
+    const length = this.getEdgeLength(edge);
+
+    const inline = text ? this.getInlineLabelOperator(edge, length) : null;
+    if (inline) {
+      return inline;
+    }
 
     // Build base operator based on stroke type and arrows
     let baseOp = '';
@@ -444,7 +674,9 @@ export class MermaidSerializer {
         baseOp = body;
       }
     } else if (stroke === 'thick') {
-      const equals = '='.repeat(length + 1);
+      // Links without arrows end in one more `=` (`===`)
+      const open = arrowStart === 'none' && arrowEnd === 'none';
+      const equals = '='.repeat(length + (open ? 2 : 1));
       if (arrowStart === 'arrow' && arrowEnd === 'arrow') {
         baseOp = `<${equals}>`;
       } else if (arrowEnd === 'arrow') {
@@ -455,7 +687,9 @@ export class MermaidSerializer {
         baseOp = equals;
       }
     } else {
-      const dashes = '-'.repeat(length + 1);
+      // Links without end markers end in one more `-` (`---`)
+      const open = arrowStart === 'none' && arrowEnd === 'none';
+      const dashes = '-'.repeat(length + (open ? 2 : 1));
       // Normal lines (support circle/cross endpoints)
       if (arrowStart === 'circle' && arrowEnd === 'circle') {
         baseOp = `o${dashes}o`;
@@ -493,6 +727,49 @@ export class MermaidSerializer {
     return baseOp;
   }
 
+  /**
+   * Length to write in ranks; 1 when lengths are not preserved
+   */
+  private getEdgeLength(edge: FlowEdge): number {
+    return this.options.preserveEdgeLength ? Math.max(1, edge.length ?? 1) : 1;
+  }
+
+  /**
+   * `-- text -->` style operator, or null when the edge has no inline form
+   * the parser reads back (other strokes/arrows/lengths, or text that would
+   * be mistaken for an operator)
+   */
+  private getInlineLabelOperator(edge: FlowEdge, length: number): string | null {
+    const text = edge.text ?? '';
+    if (
+      this.options.edgeLabels !== 'inline' ||
+      this.getEdgeIdPrefix(edge) ||
+      !text.trim() ||
+      /[|"\n\r]|--|==|\.-|-\./.test(text)
+    ) {
+      return null;
+    }
+
+    const { stroke, arrowStart, arrowEnd } = edge;
+    const label = this.options.quoteLabels === 'always' ? `"${text}"` : text.trim();
+    if (arrowStart !== 'none') {
+      return null;
+    }
+    if (stroke === 'normal' && arrowEnd === 'arrow' && length === 1) {
+      return `-- ${label} -->`;
+    }
+    if (stroke === 'normal' && arrowEnd === 'none' && length === 1) {
+      return `-- ${label} ---`;
+    }
+    if (stroke === 'thick' && arrowEnd === 'arrow' && length === 1) {
+      return `== ${label} ==>`;
+    }
+    if (stroke === 'dotted' && arrowEnd === 'arrow' && length === 1) {
+      return `-. ${label} .->`;
+    }
+    return null;
+  }
+
   /**
    * Format edge text for Mermaid syntax
    * Edge labels use pipe delimiters, so we need to escape pipes
@@ -513,7 +790,7 @@ export class MermaidSerializer {
     const lines: string[] = [];
 
     for (const edge of model.edges) {
-      if (!edge.animate && !edge.animation) continue;
+      if (!this.hasEdgeProperties(edge)) continue;
 
       const props: string[] = [];
       if (edge.animate) {
@@ -522,6 +799,9 @@ export class MermaidSerializer {
       if (edge.animation) {
         props.push(`animation: ${edge.animation}`);
       }
+      if (edge.curve) {
+        props.push(`curve: ${edge.curve}`);
+      }
 
       if (props.length > 0) {
         lines.push(`${edge.id}@{ ${props.join(', ')} }`);
@@ -531,23 +811,25 @@ export class MermaidSerializer {
     return lines;
   }
 
+  /**
+   * Whether an edge needs an `@{ ... }` property statement
+   */
+  private hasEdgeProperties(edge: FlowEdge): boolean {
+    return !!(edge.animate || edge.animation || edge.curve);
+  }
+
   /**
    * Serialize linkStyle statements for edges
    */
   private serializeLinkStyles(model: FlowchartModel): string[] {
     const lines: string[] = [];
 
-    model.edges.forEach((edge, index) => {
-      if (!edge.style) return;
-
-      const styles: string[] = [];
-      if (edge.style.stroke) {
-        styles.push(`stroke:${edge.style.stroke}`);
-      }
-      if (edge.style.strokeWidth !== undefined) {
-        styles.push(`stroke-width:${edge.style.strokeWidth}px`);
-      }
+    if (model.defaultEdgeStyle) {
+      lines.push(`linkStyle default ${model.defaultEdgeStyle.join(',')}`);
+    }
 
+    model.edges.forEach((edge, index) => {
+      const styles = mergeEdgeStyleDeclarations(edge.styles ?? [], edge.style ?? {});
       if (styles.length > 0) {
         lines.push(`linkStyle ${index} ${styles.join(',')}`);
       }
@@ -564,7 +846,11 @@ export class MermaidSerializer {
     const data = model.toData();
 
     if (data.classDefs) {
-      for (const [name, def] of Object.entries(data.classDefs)) {
+      const entries = Object.entries(data.classDefs);
+      if (this.options.sortClassDefs) {
+        entries.sort(([a], [b]) => a.localeCompare(b));
+      }
+      for (const [name, def] of entries) {
         if (def.styles.length > 0) {
           lines.push(`classDef ${name} ${def.styles.join(',')}`);
         }
@@ -580,24 +866,64 @@ export class MermaidSerializer {
   private serializeClassAssignments(model: FlowchartModel): string[] {
     const lines: string[] = [];
 
-    // Group nodes by class
+    // Group nodes and edges by class; `:::` classes are written on the node itself
     const classMappings: Map<string, string[]> = new Map();
+    const assign = (id: string, className: string): void => {
+      const ids = classMappings.get(className) || [];
+      ids.push(id);
+      classMappings.set(className, ids);
+    };
 
     for (const node of model.nodes) {
+      const inline = this.getInlineClassSuffix(node) ? node.inlineClass : undefined;
       for (const className of node.cssClasses) {
-        const nodes = classMappings.get(className) || [];
-        nodes.push(node.id);
-        classMappings.set(className, nodes);
+        if (className !== inline) assign(node.id, className);
+      }
+    }
+    for (const edge of model.edges) {
+      for (const className of edge.cssClasses) {
+        assign(edge.id, className);
       }
     }
 
-    for (const [className, nodeIds] of classMappings) {
-      lines.push(`class ${nodeIds.join(',')} ${className}`);
+    for (const [className, ids] of classMappings) {
+      for (const chunk of this.wrapList(ids, `class  ${className}`.length)) {
+        lines.push(`class ${chunk.join(',')} ${className}`);
+      }
     }
 
     return lines;
   }
 
+  /**
+   * Split a comma-separated list into chunks that fit `lineWidth` next to
+   * `reserved` characters of surrounding syntax (one item per chunk minimum)
+   */
+  private wrapList(items: string[], reserved: number): string[][] {
+    const width = this.options.lineWidth - this.options.indent.length - reserved;
+    if (this.options.lineWidth <= 0) {
+      return [items];
+    }
+
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let length = 0;
+    for (const item of items) {
+      const added = current.length === 0 ? item.length : item.length + 1;
+      if (current.length > 0 && length + added > width) {
+        chunks.push(current);
+        current = [];
+        length = 0;
+      }
+      length += current.length === 0 ? item.length : item.length + 1;
+      current.push(item);
+    }
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
   /**
    * Serialize inline style statements
    */
@@ -606,12 +932,7 @@ export class MermaidSerializer {
 
     for (const node of model.nodes) {
       if (node.style) {
-        const styles: string[] = [];
-        if (node.style.fill) styles.push(`fill:${node.style.fill}`);
-        if (node.style.stroke) styles.push(`stroke:${node.style.stroke}`);
-        if (node.style.strokeWidth)
-          styles.push(`stroke-width:${node.style.strokeWidth}px`);
-        if (node.style.color) styles.push(`color:${node.style.color}`);
+        const styles = toStyleDeclarations(node.style);
 
         if (styles.length > 0) {
           lines.push(`style ${node.id} ${styles.join(',')}`);
@@ -623,22 +944,778 @@ export class MermaidSerializer {
   }
 
   /**
-   * Serialize click/link statements
+   * Serialize click statements: the link, then the callback. The tooltip
+   * goes on the first of them; Mermaid has no click form for a tooltip alone.
    */
   private serializeLinks(model: FlowchartModel): string[] {
     const lines: string[] = [];
+    const quote = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
 
     for (const node of model.nodes) {
+      let tooltip = node.tooltip ? ` ${quote(node.tooltip)}` : '';
       if (node.link) {
-        let line = `click ${node.id} "${node.link}"`;
-        if (node.linkTarget) {
-          line += ` "${node.linkTarget}"`;
+        const target = node.linkTarget ? ` ${node.linkTarget}` : '';
+        lines.push(`click ${node.id} ${quote(node.link)}${tooltip}${target}`);
+        tooltip = '';
+      }
+      if (node.callback) {
+        const { name, args } = node.callback;
+        const call = args === undefined ? name : `call ${name}(${args})`;
+        lines.push(`click ${node.id} ${call}${tooltip}`);
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * A direction as written in the output
+   * @param written Source line that set the direction, whose `TB` or `TD` is kept
+   */
+  private writeDirection(direction: Direction, written?: string): string {
+    if (direction !== 'TB') return direction;
+    const token = written && /^\s*(?:flowchart|graph|direction)[ \t]+(TB|TD)\b/i.exec(written)?.[1];
+    return token ? (token.toUpperCase() as 'TB' | 'TD') : this.options.topDown;
+  }
+
+  // ============ Source-ordered serialization ============
+
+  private writeInSourceOrder(model: FlowchartModel, source: SourceDocument): string | null {
+    const declaration = source.statements.find((s) => s.kind === 'declaration');
+    if (!declaration) return null;
+
+    const lines: string[] = [];
+    const headerLines = this.serializeHeader(model, source);
+    if (headerLines.length > 0) {
+      lines.push(...headerLines, '');
+    }
+    lines.push(`${this.options.keyword} ${this.writeDirection(model.direction, source.lines[declaration.line])}`);
+
+    const statementsByLine = new Map<number, SourceStatement[]>();
+    for (const statement of source.statements) {
+      if (statement.line <= declaration.line) continue;
+      statementsByLine.set(statement.line, [...(statementsByLine.get(statement.line) ?? []), statement]);
+    }
+
+    // Nodes whose full definition has been written
+    const defined = new Set<string>();
+    const decorations = new Set<DecorationKind | 'accessibility'>();
+    let depth = 1;
+
+    for (let index = declaration.line + 1; index < source.lines.length; index++) {
+      const indent = this.options.indent.repeat(depth);
+      const raw = source.lines[index].trim();
+      const statements = statementsByLine.get(index);
+
+      if (!statements) {
+        if (!raw) {
+          if (lines[lines.length - 1] !== '') lines.push('');
+        } else if (raw.startsWith('%%') && !/^%%\{\s*merfolk:/.test(raw)) {
+          lines.push(indent + raw);
         }
+        continue;
+      }
+
+      const start = lines.length;
+      for (const statement of statements) {
+        switch (statement.kind) {
+          case 'subgraph': {
+            const subGraph = statement.subGraphId ? model.getSubGraph(statement.subGraphId) : undefined;
+            if (!subGraph) return null;
+            lines.push(this.options.indent.repeat(depth) + this.serializeSubGraphStart(subGraph));
+            depth++;
+            break;
+          }
+          case 'end':
+            depth = Math.max(1, depth - 1);
+            lines.push(this.options.indent.repeat(depth) + 'end');
+            break;
+          case 'direction': {
+            const subGraph = statement.subGraphId ? model.getSubGraph(statement.subGraphId) : undefined;
+            if (subGraph?.direction) {
+              const direction = this.writeDirection(subGraph.direction, source.lines[statement.line]);
+              lines.push(this.options.indent.repeat(depth) + `direction ${direction}`);
+            }
+            break;
+          }
+          case 'node':
+            lines.push(...this.writeNodeStatement(statement, model, defined, this.options.indent.repeat(depth)));
+            break;
+          case 'declaration':
+          case 'merfolk':
+          case 'frontmatter':
+          case 'init':
+            break;
+          case 'accessibility':
+            if (!decorations.has('accessibility')) {
+              decorations.add('accessibility');
+              lines.push(...this.serializeAccessibility(model, this.options.indent.repeat(depth)));
+            }
+            break;
+          default:
+            // Decorations are regenerated as a block where the first one appeared
+            if (!decorations.has(statement.kind)) {
+              decorations.add(statement.kind);
+              const block = this.serializeDecoration(statement.kind, model);
+              lines.push(...block.map((l) => this.options.indent.repeat(depth) + l));
+            }
+        }
+      }
+
+      const comment = statements.map((s) => s.comment?.trim()).filter(Boolean).pop();
+      if (comment) {
+        if (lines.length > start) {
+          lines[lines.length - 1] += ` ${comment}`;
+        } else {
+          lines.push(indent + comment);
+        }
+      }
+    }
+
+    while (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Rewrite a node/edge statement. Nodes defined by the statement are
+   * written inline on the first edge that mentions them, or on their own
+   * line when that edge would exceed `lineWidth`.
+   */
+  private writeNodeStatement(
+    statement: SourceStatement,
+    model: FlowchartModel,
+    defined: Set<string>,
+    indent: string
+  ): string[] {
+    const lines: string[] = [];
+    const endpoints = new Set<string>();
+
+    for (const edgeId of statement.edgeIds) {
+      const edge = model.getEdge(edgeId);
+      if (!edge) continue;
+
+      const hoisted: string[] = [];
+      const endpoint = (id: string): string => {
+        endpoints.add(id);
+        const node = model.getNode(id);
+        if (!node || defined.has(id) || !statement.definedNodeIds.includes(id)) {
+          return id;
+        }
+        defined.add(id);
+        const definition = this.serializeNode(node);
+        if (definition !== id) {
+          hoisted.push(definition);
+        }
+        return definition;
+      };
+
+      const line = this.serializeEdge(edge, endpoint(edge.source), endpoint(edge.target));
+      if (this.options.lineWidth > 0 && hoisted.length > 0 && indent.length + line.length > this.options.lineWidth) {
+        lines.push(...hoisted, this.serializeEdge(edge));
+      } else {
         lines.push(line);
       }
     }
 
-    return lines;
+    // Standalone nodes, plus nodes mentioned again (keeps subgraph membership)
+    for (const id of statement.nodeIds) {
+      const node = model.getNode(id);
+      if (!node || endpoints.has(id)) continue;
+      if (defined.has(id)) {
+        lines.push(id);
+      } else {
+        defined.add(id);
+        lines.push(this.serializeNode(node));
+      }
+    }
+
+    return lines.map((line) => indent + line);
+  }
+
+  // ============ Source-preserving serialization ============
+
+  /**
+   * Apply the difference between the parsed snapshot and the current model
+   * to the source lines. Returns null when the change cannot be expressed
+   * as a patch (e.g. an existing subgraph was moved to another parent).
+   */
+  private patchSource(model: FlowchartModel, source: SourceDocument): string | null {
+    const original = FlowchartModel.fromData(source.snapshot);
+    const statements = source.statements;
+    const declaration = statements.find((s) => s.kind === 'declaration');
+    if (!declaration) return null;
+
+    const subGraphStatements = new Map<string, SourceStatement>();
+    for (const statement of statements) {
+      if (statement.kind === 'subgraph' && statement.subGraphId) {
+        subGraphStatements.set(statement.subGraphId, statement);
+      }
+    }
+
+    // Innermost source subgraph enclosing each statement (`end` belongs to its subgraph)
+    const containerOf = new Map<number, string | undefined>();
+    const stack: string[] = [];
+    for (const statement of statements) {
+      containerOf.set(statement.line, stack[stack.length - 1]);
+      if (statement.kind === 'end') {
+        stack.pop();
+      } else if (statement.kind === 'subgraph' && statement.subGraphId) {
+        stack.push(statement.subGraphId);
+      }
+    }
+
+    // Removed subgraphs leave their content in the enclosing block
+    const effectiveParent = (parentId: string | undefined): string | undefined => {
+      let current = parentId;
+      while (current && !model.getSubGraph(current)) {
+        current = original.getSubGraph(current)?.parentId;
+      }
+      return current;
+    };
+    for (const subGraph of original.subGraphs) {
+      const current = model.getSubGraph(subGraph.id);
+      if (current && (current.parentId ?? undefined) !== effectiveParent(subGraph.parentId)) {
+        return null;
+      }
+      if (!current && subGraphStatements.get(subGraph.id)?.endLine === undefined) {
+        return null;
+      }
+    }
+
+    const { rootIndent, indentUnit } = this.detectIndentation(statements, declaration, containerOf);
+    const indentFor = (containerId: string | undefined): string => {
+      const statement = containerId ? subGraphStatements.get(containerId) : undefined;
+      return statement ? statement.indent + indentUnit : rootIndent;
+    };
+
+    const patch = new LinePatch(source.lines, indentUnit);
+
+    this.patchDirection(model, original, source, declaration, patch);
+    this.patchSettings(model, original, statements, declaration, patch);
+    this.patchMerfolkMeta(model, original, statements, declaration, patch);
+    this.patchAccessibility(model, original, statements, declaration, { rootIndent, indentUnit }, patch);
+
+    // Subgraph headers, `end` and `direction` statements
+    for (const [id, statement] of subGraphStatements) {
+      const before = original.getSubGraph(id);
+      const current = model.getSubGraph(id);
+      if (!before) continue;
+      const directions = statements.filter((s) => s.kind === 'direction' && s.subGraphId === id);
+
+      if (!current) {
+        patch.remove(statement.line);
+        patch.remove(statement.endLine!);
+        directions.forEach((s) => patch.remove(s.line));
+        patch.dedent(statement.line, statement.endLine!);
+        continue;
+      }
+
+      if (current.title !== before.title) {
+        patch.replace(statement.line, [
+          statement.indent + this.serializeSubGraphStart(current) + (statement.comment ?? ''),
+        ]);
+      }
+
+      if (current.direction !== before.direction) {
+        if (!current.direction) {
+          directions.forEach((s) => patch.remove(s.line));
+        } else if (directions.length > 0) {
+          const last = directions[directions.length - 1];
+          directions.slice(0, -1).forEach((s) => patch.remove(s.line));
+          const direction = this.writeDirection(current.direction);
+          patch.replace(last.line, [`${last.indent}direction ${direction}${last.comment ?? ''}`]);
+        } else {
+          patch.insertAfter(statement.line, [`${indentFor(id)}direction ${this.writeDirection(current.direction)}`]);
+        }
+      }
+    }
+
+    // Node/edge statements
+    const firstAppearance = new Map<string, SourceStatement>();
+    const definedNodes = new Set<string>();
+    for (const statement of statements) {
+      if (statement.kind !== 'node') continue;
+      statement.nodeIds.forEach((id) => {
+        if (!firstAppearance.has(id)) firstAppearance.set(id, statement);
+      });
+      statement.definedNodeIds.forEach((id) => definedNodes.add(id));
+    }
+
+    const relocated = new Set<string>();
+    for (const node of model.nodes) {
+      const before = original.getNode(node.id);
+      if (before && (node.parentId ?? undefined) !== effectiveParent(before.parentId)) {
+        relocated.add(node.id);
+      }
+    }
+
+    const nodeChanged = (id: string): boolean => {
+      const before = original.getNode(id);
+      const current = model.getNode(id);
+      return !!before && !!current && this.serializeNode(before) !== this.serializeNode(current);
+    };
+    const edgeChanged = (id: string): boolean => {
+      const before = original.getEdge(id);
+      const current = model.getEdge(id);
+      return !before || !current || this.serializeEdge(before) !== this.serializeEdge(current);
+    };
+
+    // A statement declares a node when it writes its text/shape, or when it is
+    // the first mention of a node that is never written anywhere
+    const declaresIn = (statement: SourceStatement, id: string): boolean =>
+      statement.definedNodeIds.includes(id) || (firstAppearance.get(id) === statement && !definedNodes.has(id));
+
+    // Mermaid puts a node in the first subgraph to close that mentions it, so a
+    // statement still mentioning a node moved out of its subgraph has to leave
+    // it, and every enclosing subgraph that does not contain the node's new parent
+    const claims = (containerId: string | undefined, nodeId: string): boolean => {
+      if (!containerId) return false;
+      for (let id = model.getNode(nodeId)?.parentId; id; id = model.getSubGraph(id)?.parentId) {
+        if (id === containerId) return false;
+      }
+      return true;
+    };
+    const evicted = new Map<SourceStatement, string>();
+    for (const statement of statements) {
+      if (statement.kind !== 'node') continue;
+      const moved = statement.nodeIds.filter((id) => relocated.has(id));
+      let container = effectiveParent(containerOf.get(statement.line));
+      while (container && moved.some((id) => claims(container, id))) {
+        evicted.set(statement, container);
+        container = model.getSubGraph(container)?.parentId;
+      }
+    }
+
+    for (const statement of statements) {
+      if (statement.kind !== 'node' || evicted.has(statement)) continue;
+      const declares = (id: string): boolean => declaresIn(statement, id);
+
+      const dirty =
+        statement.edgeIds.some(edgeChanged) ||
+        statement.nodeIds.some((id) => !model.getNode(id)) ||
+        statement.nodeIds.some((id) => declares(id) && (nodeChanged(id) || relocated.has(id)));
+      if (dirty) {
+        patch.replace(statement.line, this.rewriteNodeStatement(statement, model, declares, relocated));
+      }
+    }
+
+    // Edges of evicted statements follow the `end` of the outermost subgraph they
+    // leave; the nodes that stay are still mentioned where the statement was
+    for (const [statement, outermost] of evicted) {
+      const endLine = subGraphStatements.get(outermost)?.endLine;
+      if (endLine === undefined) return null;
+      const staying = statement.nodeIds.filter((id) => !relocated.has(id) && model.getNode(id));
+      const kept = staying.map((id) => (declaresIn(statement, id) ? this.serializeNode(model.getNode(id)!) : id));
+      const edges = statement.edgeIds.flatMap((id) => model.getEdge(id) ?? []).map((e) => this.serializeEdge(e));
+      const comment = statement.comment ?? '';
+      patch.replace(
+        statement.line,
+        kept.map((line, index) => statement.indent + line + (index === 0 ? comment : ''))
+      );
+      const indent = indentFor(model.getSubGraph(outermost)?.parentId);
+      patch.insertAfter(
+        endLine,
+        edges.map((line, index) => indent + line + (index === 0 && kept.length === 0 ? comment : ''))
+      );
+    }
+
+    // Insert new content into a container, ahead of the given anchor lines when possible
+    const lastRootLine = Math.max(
+      ...statements
+        .filter((s) => {
+          const container = containerOf.get(s.line);
+          if (s.kind === 'end') {
+            return !!s.subGraphId && !original.getSubGraph(s.subGraphId)?.parentId;
+          }
+          return (
+            s.kind === 'declaration' ||
+            (container === undefined && (s.kind === 'node' || s.kind === 'direction'))
+          );
+        })
+        .map((s) => s.line)
+    );
+    const positionWithin = (containerId: string | undefined, line: number): number | null => {
+      let current = containerOf.get(line);
+      let position = line;
+      while (current !== containerId) {
+        const statement = current ? subGraphStatements.get(current) : undefined;
+        if (!statement) return null;
+        position = statement.line;
+        current = containerOf.get(position);
+      }
+      return position;
+    };
+    const place = (containerId: string | undefined, anchors: number[], content: string[]): void => {
+      const indent = indentFor(containerId);
+      const lines = content.map((line) => indent + line);
+      const positions = anchors
+        .map((anchor) => positionWithin(containerId, anchor))
+        .filter((position): position is number => position !== null);
+      const endLine = containerId ? subGraphStatements.get(containerId)?.endLine : undefined;
+      if (positions.length > 0) {
+        patch.insertBefore(Math.min(...positions), lines);
+      } else if (endLine !== undefined) {
+        patch.insertBefore(endLine, lines);
+      } else {
+        patch.insertAfter(lastRootLine, lines);
+      }
+    };
+
+    const newSubGraphIds = new Set(
+      model.subGraphs.filter((s) => !original.getSubGraph(s.id)).map((s) => s.id)
+    );
+
+    for (const id of relocated) {
+      const node = model.getNode(id)!;
+      if (node.parentId && newSubGraphIds.has(node.parentId)) continue;
+      const anchor = firstAppearance.get(id);
+      place(node.parentId, anchor ? [anchor.line] : [], [this.serializeNode(node)]);
+    }
+
+    for (const subGraph of model.subGraphs) {
+      if (!newSubGraphIds.has(subGraph.id)) continue;
+      if (subGraph.parentId && newSubGraphIds.has(subGraph.parentId)) continue;
+      const block: string[] = [];
+      const anchors: number[] = [];
+      this.renderNewSubGraph(subGraph, model, newSubGraphIds, indentUnit, '', block, (nodeId) => {
+        const anchor = firstAppearance.get(nodeId);
+        if (anchor) anchors.push(anchor.line);
+      });
+      place(subGraph.parentId, anchors, block);
+    }
+
+    for (const node of model.nodes) {
+      if (original.getNode(node.id)) continue;
+      if (node.parentId && newSubGraphIds.has(node.parentId)) continue;
+      place(node.parentId, [], [this.serializeNode(node)]);
+    }
+
+    const newEdges = model.edges.filter((e) => !original.getEdge(e.id));
+    if (newEdges.length > 0) {
+      place(undefined, [], newEdges.map((e) => this.serializeEdge(e)));
+    }
+
+    this.patchDecorations(model, original, statements, rootIndent, patch);
+
+    return patch.toString();
+  }
+
+  /**
+   * Detect the indentation used by the source
+   */
+  private detectIndentation(
+    statements: SourceStatement[],
+    declaration: SourceStatement,
+    containerOf: Map<number, string | undefined>
+  ): { rootIndent: string; indentUnit: string } {
+    const firstRoot = statements.find(
+      (s) =>
+        s.line > declaration.line &&
+        s.kind !== 'merfolk' &&
+        s.kind !== 'init' &&
+        s.kind !== 'end' &&
+        containerOf.get(s.line) === undefined
+    );
+    const rootIndent = firstRoot ? firstRoot.indent : this.options.indent;
+
+    let indentUnit = rootIndent || this.options.indent;
+    for (const statement of statements) {
+      if (statement.kind !== 'subgraph' || !statement.subGraphId) continue;
+      const inner = statements.find(
+        (s) => s.kind !== 'end' && containerOf.get(s.line) === statement.subGraphId
+      );
+      if (inner && inner.indent.startsWith(statement.indent) && inner.indent.length > statement.indent.length) {
+        indentUnit = inner.indent.slice(statement.indent.length);
+        break;
+      }
+    }
+
+    return { rootIndent, indentUnit };
+  }
+
+  /**
+   * Rewrite the graph direction in place
+   */
+  private patchDirection(
+    model: FlowchartModel,
+    original: FlowchartModel,
+    source: SourceDocument,
+    declaration: SourceStatement,
+    patch: LinePatch
+  ): void {
+    if (model.direction === original.direction) return;
+
+    const rootDirections = source.statements.filter((s) => s.kind === 'direction' && !s.subGraphId);
+    const last = rootDirections[rootDirections.length - 1];
+    if (last) {
+      patch.replace(last.line, [`${last.indent}direction ${this.writeDirection(model.direction)}${last.comment ?? ''}`]);
+      return;
+    }
+
+    const raw = source.lines[declaration.line];
+    patch.replace(declaration.line, [
+      raw.replace(/^(\s*(?:flowchart|graph))(?:[ \t]+(?:TB|BT|LR|RL|TD)\b)?/i, `$1 ${this.writeDirection(model.direction)}`),
+    ]);
+  }
+
+  /**
+   * Rewrite the frontmatter and the init directive in place when they changed
+   */
+  private patchSettings(
+    model: FlowchartModel,
+    original: FlowchartModel,
+    statements: SourceStatement[],
+    declaration: SourceStatement,
+    patch: LinePatch
+  ): void {
+    const removeRest = (statement: SourceStatement): void => {
+      for (let line = statement.line + 1; line <= (statement.endLine ?? statement.line); line++) {
+        patch.remove(line);
+      }
+    };
+
+    const frontmatter = this.serializeFrontmatter(model);
+    if (frontmatter.join('\n') !== this.serializeFrontmatter(original).join('\n')) {
+      const existing = statements.find((s) => s.kind === 'frontmatter');
+      if (existing) {
+        patch.replace(existing.line, frontmatter);
+        removeRest(existing);
+      } else {
+        patch.insertBefore(0, frontmatter);
+      }
+    }
+
+    const init = this.serializeInitDirective(model);
+    if (init === this.serializeInitDirective(original)) return;
+    const existing = statements.filter((s) => s.kind === 'init');
+    if (existing.length === 0) {
+      if (init) patch.insertBefore(declaration.line, [init]);
+      return;
+    }
+    // Several directives are merged into the first one
+    existing.forEach((statement, index) => {
+      if (index === 0 && init) {
+        patch.replace(statement.line, [statement.indent + init]);
+      } else {
+        patch.remove(statement.line);
+      }
+      removeRest(statement);
+    });
+  }
+
+  /**
+   * Rewrite `accTitle` / `accDescr` as a block where the first one was,
+   * or add it after the declaration
+   */
+  private patchAccessibility(
+    model: FlowchartModel,
+    original: FlowchartModel,
+    statements: SourceStatement[],
+    declaration: SourceStatement,
+    { rootIndent, indentUnit }: { rootIndent: string; indentUnit: string },
+    patch: LinePatch
+  ): void {
+    const lines = this.serializeAccessibility(model);
+    if (lines.join('\n') === this.serializeAccessibility(original).join('\n')) return;
+
+    const existing = statements.filter((s) => s.kind === 'accessibility');
+    if (existing.length === 0) {
+      if (lines.length > 0) patch.insertAfter(declaration.line, this.serializeAccessibility(model, rootIndent, indentUnit));
+      return;
+    }
+    existing.forEach((statement, index) => {
+      if (index === 0 && lines.length > 0) {
+        patch.replace(statement.line, this.serializeAccessibility(model, statement.indent, indentUnit));
+      } else {
+        patch.remove(statement.line);
+      }
+      for (let line = statement.line + 1; line <= (statement.endLine ?? statement.line); line++) {
+        patch.remove(line);
+      }
+    });
+  }
+
+  /**
+   * Update the merfolk metadata comment in place
+   */
+  private patchMerfolkMeta(
+    model: FlowchartModel,
+    original: FlowchartModel,
+    statements: SourceStatement[],
+    declaration: SourceStatement,
+    patch: LinePatch
+  ): void {
+    const line = this.serializeMerfolkMeta(model);
+    const existing = statements.filter((s) => s.kind === 'merfolk');
+
+    if (existing.length === 0) {
+      if (line) patch.insertBefore(declaration.line, [line]);
+      return;
+    }
+
+    if (line && line === this.serializeMerfolkMeta(original) && existing.length === 1) return;
+
+    existing.forEach((statement, index) => {
+      if (index === 0 && line) {
+        patch.replace(statement.line, [statement.indent + line]);
+      } else {
+        patch.remove(statement.line);
+      }
+    });
+  }
+
+  /**
+   * Regenerate a node/edge statement from the current model
+   */
+  private rewriteNodeStatement(
+    statement: SourceStatement,
+    model: FlowchartModel,
+    declares: (id: string) => boolean,
+    relocated: Set<string>
+  ): string[] {
+    const emitted = new Set<string>();
+    const render = (id: string): string => {
+      const node = model.getNode(id);
+      if (!node || emitted.has(id) || relocated.has(id) || !declares(id)) return id;
+      emitted.add(id);
+      return this.serializeNode(node);
+    };
+
+    const lines: string[] = [];
+    for (const edgeId of statement.edgeIds) {
+      const edge = model.getEdge(edgeId);
+      if (!edge) continue;
+      const source = render(edge.source);
+      lines.push(this.serializeEdge(edge, source, render(edge.target)));
+    }
+    for (const id of statement.nodeIds) {
+      if (emitted.has(id) || relocated.has(id) || !declares(id) || !model.getNode(id)) continue;
+      lines.push(render(id));
+    }
+
+    return lines.map(
+      (line, index) => statement.indent + line + (index === 0 ? statement.comment ?? '' : '')
+    );
   }
 
+  /**
+   * Render a subgraph that does not exist in the source yet
+   */
+  private renderNewSubGraph(
+    subGraph: FlowSubGraph,
+    model: FlowchartModel,
+    newSubGraphIds: Set<string>,
+    indentUnit: string,
+    indent: string,
+    lines: string[],
+    onMember: (nodeId: string) => void
+  ): void {
+    lines.push(indent + this.serializeSubGraphStart(subGraph));
+    if (subGraph.direction) {
+      lines.push(`${indent}${indentUnit}direction ${this.writeDirection(subGraph.direction)}`);
+    }
+    for (const node of model.nodes) {
+      if (node.parentId !== subGraph.id) continue;
+      lines.push(indent + indentUnit + this.serializeNode(node));
+      onMember(node.id);
+    }
+    for (const child of model.getChildSubGraphs(subGraph.id)) {
+      if (!newSubGraphIds.has(child.id)) continue;
+      this.renderNewSubGraph(child, model, newSubGraphIds, indentUnit, indent + indentUnit, lines, onMember);
+    }
+    lines.push(indent + 'end');
+  }
+
+  /**
+   * Regenerate style-like statement groups that changed.
+   * Statements that did not apply to any node or edge (e.g. subgraph styles) are kept.
+   */
+  private patchDecorations(
+    model: FlowchartModel,
+    original: FlowchartModel,
+    statements: SourceStatement[],
+    rootIndent: string,
+    patch: LinePatch
+  ): void {
+    const lastLine = Math.max(...statements.map((s) => s.line));
+    const nodeScoped: DecorationKind[] = ['class', 'style', 'click'];
+
+    for (const kind of DECORATION_KINDS) {
+      if (kind === 'classDef' && !this.options.includeClassDefs) continue;
+      if (kind === 'style' && !this.options.includeStyles) continue;
+
+      const before = this.serializeDecoration(kind, original);
+      const after = this.serializeDecoration(kind, model);
+      if (before.join('\n') === after.join('\n')) continue;
+
+      const existing = statements.filter(
+        (s) =>
+          s.kind === kind &&
+          (!nodeScoped.includes(kind) || s.nodeIds.length > 0 || s.edgeIds.length > 0)
+      );
+      if (existing.length > 0) {
+        const [first, ...rest] = existing;
+        patch.replace(first.line, after.map((line) => first.indent + line));
+        rest.forEach((s) => patch.remove(s.line));
+      } else if (after.length > 0) {
+        patch.insertAfter(lastLine, ['', ...after.map((line) => rootIndent + line)]);
+      }
+    }
+  }
+
+  private serializeDecoration(kind: DecorationKind, model: FlowchartModel): string[] {
+    switch (kind) {
+      case 'edgeProps':
+        return this.serializeEdgeProperties(model);
+      case 'linkStyle':
+        return this.serializeLinkStyles(model);
+      case 'classDef':
+        return this.serializeClassDefs(model);
+      case 'class':
+        return this.serializeClassAssignments(model);
+      case 'style':
+        return this.serializeStyles(model);
+      case 'click':
+        return this.serializeLinks(model);
+    }
+  }
+
+  /**
+   * Check that the patched text parses back into the given model
+   */
+  private isEquivalent(model: FlowchartModel, text: string): boolean {
+    let reparsed: FlowchartModel;
+    try {
+      reparsed = new MermaidParser().parse(text);
+    } catch {
+      return false;
+    }
+    return this.describeModel(reparsed) === this.describeModel(model);
+  }
+
+  /**
+   * Stable textual description of everything the serializer writes
+   */
+  private describeModel(model: FlowchartModel): string {
+    const byId = <T extends { id: string }>(items: T[]): T[] =>
+      [...items].sort((a, b) => a.id.localeCompare(b.id));
+
+    return JSON.stringify({
+      header: [...this.serializeFrontmatter(model), this.serializeInitDirective(model)],
+      direction: model.direction,
+      accessibility: this.serializeAccessibility(model),
+      nodes: byId(model.nodes).map((n) => [this.serializeNode(n), n.parentId ?? null]),
+      edges: model.edges.map((e) => this.serializeEdge(e)),
+      subGraphs: byId(model.subGraphs).map((s) => [
+        s.id,
+        s.title,
+        s.parentId ?? null,
+        s.direction ?? null,
+        [...s.nodeIds].sort(),
+      ]),
+      decorations: DECORATION_KINDS.map((kind) => this.serializeDecoration(kind, model).sort()),
+    });
+  }
 }
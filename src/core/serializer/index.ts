@@ -1 +1,2 @@
 export * from './MermaidSerializer';
+export * from './MermaidFormatter';
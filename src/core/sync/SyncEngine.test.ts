@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SyncEngine } from './SyncEngine';
+import type { FlowchartModel } from '../model/FlowchartModel';
 
 describe('SyncEngine', () => {
   let syncEngine: SyncEngine;
@@ -56,6 +57,50 @@ describe('SyncEngine', () => {
 
       expect(callback).toHaveBeenCalled();
     });
+
+    it('should expose diagnostics of the parsed code', () => {
+      syncEngine.updateFromCode('flowchart TB\n  A --> B\n  end');
+
+      expect(syncEngine.getDiagnostics().map((d) => [d.code, d.line])).toEqual([['unexpected-end', 3]]);
+
+      syncEngine.updateFromCode('flowchart TB\n  A --> B');
+
+      expect(syncEngine.getDiagnostics()).toEqual([]);
+    });
+
+    it('should refresh diagnostics when canvas edits regenerate the code', () => {
+      syncEngine.updateFromCode('flowchart TB\n  A e1@--> B\n  e1@{ animation: warp }');
+      expect(syncEngine.getDiagnostics()).toHaveLength(1);
+
+      syncEngine.removeNode('B');
+      vi.runAllTimers();
+
+      expect(syncEngine.getDiagnostics()).toEqual([]);
+    });
+
+    it('should find the element under the code caret', () => {
+      syncEngine.updateFromCode('flowchart TB\n  A[Start] --> B\n  subgraph group\n    C\n  end');
+      const edgeId = syncEngine.getModel().edges[0].id;
+
+      expect(syncEngine.getElementAt(1, 4)).toEqual({ kind: 'node', id: 'A' });
+      expect(syncEngine.getElementAt(1, 12)).toEqual({ kind: 'edge', id: edgeId });
+      expect(syncEngine.getElementAt(1, 0)).toEqual({ kind: 'node', id: 'A' });
+      expect(syncEngine.getElementAt(3, 4)).toEqual({ kind: 'node', id: 'C' });
+      expect(syncEngine.getElementAt(4, 2)).toEqual({ kind: 'subgraph', id: 'group' });
+      expect(syncEngine.getElementAt(0, 0)).toBeNull();
+    });
+
+    it('should refresh element locations when canvas edits regenerate the code', () => {
+      syncEngine.updateFromCode('flowchart TB\n  A --> B');
+      expect(syncEngine.getElementLocations('node', 'C')).toEqual([]);
+
+      syncEngine.addNode('C', 'Node C');
+      vi.runAllTimers();
+
+      const [location] = syncEngine.getElementLocations('node', 'C');
+      expect(location).toMatchObject({ kind: 'node', id: 'C', defining: true });
+      expect(syncEngine.getCode().split('\n')[location.line].slice(location.start, location.end)).toBe('C[Node C]');
+    });
   });
 
   describe('updateNodePosition', () => {
@@ -184,7 +229,175 @@ describe('SyncEngine', () => {
 
       expect(serialized).toContain('subgraph Users["👤 用户(需求方)"]');
       expect(serialized).toContain('Future["其他 Channel<br/>(计划中)"]');
-      expect(serialized).toMatch(/Claude\s+edge-\d+@-->\s+OpenAI/);
+      expect(serialized).toMatch(/Claude\s+-->\s+OpenAI/);
+    });
+
+    it('should not write generated edge IDs into the code, also with identical edges', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode('flowchart TB\n  %% 注释\n  A --> B\n  A --> B\n  B --> C');
+
+      engine.addEdge('C', 'A');
+      engine.updateEdge(engine.getEdge('B', 'C')!.id, { text: 'lbl', length: 2 });
+      engine.updateEdge(engine.getModel().edges[1].id, { text: 'two' });
+      expect(engine.getCode()).toBe(
+        'flowchart TB\n  %% 注释\n  A --> B\n  A -->|two| B\n  B --->|lbl| C\n  C --> A'
+      );
+
+      engine.insertNodeOnEdge('C', 'A');
+      expect(engine.getCode()).not.toContain('@');
+      engine.destroy();
+    });
+  });
+
+  describe('preserveFormatting', () => {
+    it('should keep comments and layout of untouched statements', () => {
+      const engine = new SyncEngine({ debounceDelay: 10, preserveFormatting: true });
+      const code = [
+        'flowchart TB',
+        '  %% main path',
+        '  A[Start] --> B[Work]',
+        '',
+        '  B --> C[Done]  %% finish',
+      ].join('\n');
+      engine.updateFromCode(code);
+
+      engine.updateNodeText('A', 'Begin');
+
+      expect(engine.getCode()).toBe(code.replace('A[Start]', 'A[Begin]'));
+      engine.destroy();
+    });
+
+    it('should patch against the parsed source after undo', () => {
+      const engine = new SyncEngine({ debounceDelay: 10, preserveFormatting: true });
+      const code = 'flowchart TB\n  %% note\n  A --> B';
+      engine.updateFromCode(code);
+
+      engine.removeNode('B');
+      expect(engine.getCode()).toBe('flowchart TB\n  %% note\n  A');
+
+      engine.undo();
+      expect(engine.getCode()).toBe(code);
+      engine.destroy();
+    });
+  });
+
+  describe('subgraph editing', () => {
+    it('should group nodes into a new subgraph', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]\n  B[B]\n  C[C]\n  A --> B`);
+
+      const subGraphId = syncEngine.createSubGraph(['A', 'B'], 'Group');
+
+      expect(subGraphId).toBe('SG1');
+      const subGraph = syncEngine.getModel().getSubGraph('SG1');
+      expect(subGraph?.nodeIds).toEqual(['A', 'B']);
+      expect(syncEngine.getModel().getNode('A')?.parentId).toBe('SG1');
+
+      const code = syncEngine.getCode();
+      expect(code).toContain('subgraph SG1[Group]');
+      expect(code).toMatch(/subgraph SG1\[Group\]\n\s+A\n\s+B\n\s+end/);
+    });
+
+    it('should remove edges to a dissolved subgraph and restore them on undo', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      const code = 'flowchart TB\n  subgraph one\n    A\n  end\n  B --> one %% into the group';
+      engine.updateFromCode(code);
+
+      engine.ungroupSubGraph('one');
+
+      expect(engine.getModel().edges).toHaveLength(0);
+      expect(engine.getModel().nodes.map((n) => n.id)).toEqual(['A', 'B']);
+      expect(engine.getCode()).not.toContain('one');
+
+      engine.undo();
+      expect(engine.getCode()).toBe(code);
+      engine.destroy();
+    });
+
+    it('should nest a new subgraph inside the common parent', () => {
+      syncEngine.updateFromCode(`flowchart TB
+        subgraph outer[Outer]
+          A[A]
+          B[B]
+        end`);
+
+      const subGraphId = syncEngine.createSubGraph(['A', 'B']);
+
+      expect(syncEngine.getModel().getSubGraph(subGraphId!)?.parentId).toBe('outer');
+      expect(syncEngine.getModel().getSubGraph('outer')?.nodeIds).toEqual([]);
+    });
+
+    it('should return null when grouping unknown nodes', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+
+      expect(syncEngine.createSubGraph(['X'])).toBeNull();
+      expect(syncEngine.canUndo()).toBe(false);
+    });
+
+    it('should rename and change direction of a subgraph', () => {
+      syncEngine.updateFromCode(`flowchart TB
+        subgraph one[One]
+          A[A]
+        end`);
+
+      syncEngine.renameSubGraph('one', 'Renamed');
+      syncEngine.updateSubGraph('one', { direction: 'LR' });
+
+      const code = syncEngine.getCode();
+      expect(code).toContain('subgraph one[Renamed]');
+      expect(code).toContain('direction LR');
+
+      syncEngine.updateSubGraph('one', { direction: null });
+      expect(syncEngine.getCode()).not.toContain('direction LR');
+    });
+
+    it('should move nodes into and out of subgraphs', () => {
+      syncEngine.updateFromCode(`flowchart TB
+        A[A]
+        subgraph one[One]
+          B[B]
+        end`);
+
+      syncEngine.moveNodeToSubGraph('A', 'one');
+      expect(syncEngine.getModel().getSubGraph('one')?.nodeIds).toEqual(['B', 'A']);
+
+      syncEngine.moveNodeToSubGraph('B', null);
+      expect(syncEngine.getModel().getNode('B')?.parentId).toBeUndefined();
+      expect(syncEngine.getModel().getSubGraph('one')?.nodeIds).toEqual(['A']);
+    });
+
+    it('should ungroup a subgraph and keep its nodes', () => {
+      syncEngine.updateFromCode(`flowchart TB
+        subgraph one[One]
+          A[A]
+        end`);
+
+      syncEngine.ungroupSubGraph('one');
+
+      expect(syncEngine.getModel().getSubGraph('one')).toBeUndefined();
+      expect(syncEngine.getModel().getNode('A')).toBeDefined();
+      expect(syncEngine.getCode()).not.toContain('subgraph');
+
+      syncEngine.undo();
+      expect(syncEngine.getModel().getSubGraph('one')).toBeDefined();
+    });
+
+    it('should remove a subgraph together with its nodes', () => {
+      syncEngine.updateFromCode(`flowchart TB
+        C[C]
+        subgraph one[One]
+          A[A]
+          subgraph two[Two]
+            B[B]
+          end
+        end
+        A --> C`);
+
+      syncEngine.removeSubGraph('one');
+
+      const model = syncEngine.getModel();
+      expect(model.subGraphs).toHaveLength(0);
+      expect(model.nodes.map((n) => n.id)).toEqual(['C']);
+      expect(model.edgeCount).toBe(0);
     });
   });
 
@@ -242,6 +455,148 @@ describe('SyncEngine', () => {
 
       expect(syncEngine.canRedo()).toBe(false);
     });
+
+    it('should undo a multi-node delete as one step', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A] --> B[B]\n  B --> C[C]\n  C --> A`);
+
+      syncEngine.removeNodes(['A', 'B']);
+
+      expect(syncEngine.getModel().nodes.map((n) => n.id)).toEqual(['C']);
+      expect(syncEngine.getHistory()).toEqual([{ description: '删除 2 个节点', applied: true }]);
+
+      syncEngine.undo();
+
+      expect(syncEngine.getModel().nodes.map((n) => n.id)).toEqual(['A', 'B', 'C']);
+      expect(syncEngine.getModel().edges.map((e) => `${e.source}-${e.target}`)).toEqual([
+        'A-B',
+        'B-C',
+        'C-A',
+      ]);
+    });
+
+    it('should undo insert-on-edge as one step', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A] --> B[B]`);
+
+      syncEngine.insertNodeOnEdge('A', 'B');
+      expect(syncEngine.getModel().nodeCount).toBe(3);
+
+      syncEngine.undo();
+
+      expect(syncEngine.getModel().nodeCount).toBe(2);
+      expect(syncEngine.getEdge('A', 'B')).toBeDefined();
+      expect(syncEngine.canUndo()).toBe(false);
+    });
+
+    it('should undo position moves', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]\n  B[B]`);
+      syncEngine.updateNodePosition('A', 0, 0);
+
+      syncEngine.moveNodes([{ id: 'A', x: 10, y: 20 }, { id: 'B', x: 30, y: 40 }]);
+      expect(syncEngine.getHistory()[0].description).toBe('移动 2 个节点');
+
+      syncEngine.undo();
+      expect(syncEngine.getNodePosition('A')).toEqual({ x: 0, y: 0 });
+      expect(syncEngine.getNodePosition('B')).toBeUndefined();
+
+      syncEngine.redo();
+      expect(syncEngine.getNodePosition('B')).toEqual({ x: 30, y: 40 });
+      expect(syncEngine.getModel().getNode('B')?.position).toEqual({ x: 30, y: 40 });
+    });
+
+    it('should record a drag with its start position', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+      syncEngine.updateNodePosition('A', 0, 0);
+      syncEngine.updateNodePosition('A', 50, 50);
+
+      syncEngine.moveNodes([{ id: 'A', x: 50, y: 50 }], { A: { x: 0, y: 0 } });
+      syncEngine.undo();
+
+      expect(syncEngine.getNodePosition('A')).toEqual({ x: 0, y: 0 });
+    });
+
+    it('should restore node positions when undoing a delete', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+      syncEngine.addNode('B', 'B', { x: 5, y: 6 });
+
+      syncEngine.removeNode('B');
+      expect(syncEngine.getNodePosition('B')).toBeUndefined();
+
+      syncEngine.undo();
+      expect(syncEngine.getNodePosition('B')).toEqual({ x: 5, y: 6 });
+    });
+
+    it('should merge grouped operations into one labeled step', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+
+      syncEngine.beginGroup('添加节点并连线');
+      syncEngine.addNode('B', 'B');
+      syncEngine.addEdge('A', 'B');
+      syncEngine.endGroup();
+
+      expect(syncEngine.getHistory()).toEqual([{ description: '添加节点并连线', applied: true }]);
+
+      syncEngine.undo();
+      expect(syncEngine.getModel().nodeCount).toBe(1);
+      expect(syncEngine.getModel().edgeCount).toBe(0);
+    });
+
+    it('should jump to any point in history', () => {
+      const callback = vi.fn();
+      syncEngine.setOnCodeChange(callback);
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+      syncEngine.addNode('B', 'B');
+      syncEngine.addNode('C', 'C');
+      syncEngine.updateNodeText('A', 'Start');
+
+      expect(syncEngine.jumpToHistory(1)).toBe(true);
+
+      expect(syncEngine.getModel().nodes.map((n) => n.id)).toEqual(['A', 'B']);
+      expect(syncEngine.getModel().getNode('A')?.text).toBe('A');
+      expect(syncEngine.getHistory().map((item) => item.applied)).toEqual([true, false, false]);
+      expect(callback).toHaveBeenCalledTimes(1);
+
+      syncEngine.jumpToHistory(3);
+      expect(syncEngine.getModel().getNode('A')?.text).toBe('Start');
+    });
+
+    it('should notify history listeners', () => {
+      const listener = vi.fn();
+      syncEngine.setOnHistoryChange(listener);
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+
+      syncEngine.addNode('B', 'B');
+
+      expect(listener).toHaveBeenLastCalledWith([{ description: '添加节点 "B"', applied: true }]);
+    });
+
+    it('should keep the same model instance across code updates', () => {
+      const model = syncEngine.getModel();
+
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+      syncEngine.addNode('B', 'B');
+      syncEngine.undo();
+
+      expect(syncEngine.getModel()).toBe(model);
+    });
+
+    it('should clear history when the code is edited externally', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+      syncEngine.addNode('B', 'B');
+
+      syncEngine.updateFromCode(`flowchart TB\n  X[X]`);
+
+      expect(syncEngine.canUndo()).toBe(false);
+    });
+
+    it('should keep history when its own output is parsed back', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]`);
+      syncEngine.addNode('B', 'B');
+
+      syncEngine.updateFromCode(syncEngine.getCode());
+      syncEngine.undo();
+
+      expect(syncEngine.getModel().getNode('B')).toBeUndefined();
+    });
   });
 
   describe('position management', () => {
@@ -277,6 +632,583 @@ describe('SyncEngine', () => {
       expect(syncEngine.getNodePosition('A')).toEqual({ x: 55, y: 66 });
       expect(syncEngine.getNodePosition('X')).toBeUndefined();
     });
+
+    it('should reset pinned positions as one undoable step', () => {
+      syncEngine.updateFromCode(`flowchart TB\n  A[A]\n  B[B]`);
+      syncEngine.moveNodes([{ id: 'A', x: 10, y: 20 }, { id: 'B', x: 30, y: 40 }]);
+
+      syncEngine.resetNodePositions(['A']);
+      expect(syncEngine.getNodePosition('A')).toBeUndefined();
+      expect(syncEngine.getModel().getNode('A')?.position).toBeUndefined();
+      expect(syncEngine.getHistory().at(-1)?.description).toBe('重置节点 "A" 位置');
+
+      syncEngine.resetNodePositions();
+      expect(syncEngine.exportPositions()).toEqual({});
+
+      syncEngine.undo();
+      syncEngine.undo();
+      expect(syncEngine.getNodePosition('A')).toEqual({ x: 10, y: 20 });
+    });
+
+    it('should round-trip positions through the merfolk meta comment', () => {
+      const engine = new SyncEngine({ debounceDelay: 10, includeMerfolkMeta: true });
+      engine.updateFromCode('flowchart TB\n  A --> B');
+      engine.moveNodes([{ id: 'A', x: 10, y: 20 }]);
+
+      const code = engine.getCode();
+      expect(code).toContain('%%{merfolk: {"positions":{"A":{"x":10,"y":20}}}}%%');
+
+      const reloaded = new SyncEngine({ includeMerfolkMeta: true });
+      reloaded.updateFromCode(code);
+      expect(reloaded.getNodePosition('A')).toEqual({ x: 10, y: 20 });
+      expect(reloaded.getModel().getNode('A')?.position).toEqual({ x: 10, y: 20 });
+
+      engine.destroy();
+      reloaded.destroy();
+    });
+
+    it('should follow the meta comment when the code is edited', () => {
+      const engine = new SyncEngine({ includeMerfolkMeta: true });
+      engine.updateFromCode(
+        'flowchart TB\n  %%{merfolk: {"positions":{"A":{"x":1,"y":2},"Z":{"x":3,"y":4}}}}%%\n  A --> B'
+      );
+      expect(engine.getNodePosition('A')).toEqual({ x: 1, y: 2 });
+
+      // 删除的节点不再写回
+      engine.updateNodeText('B', 'Bee');
+      expect(engine.getCode()).toContain('{"positions":{"A":{"x":1,"y":2}}}');
+
+      // 注释被删除即取消固定
+      engine.updateFromCode('flowchart TB\n  A --> B');
+      expect(engine.getNodePosition('A')).toBeUndefined();
+      engine.destroy();
+    });
+
+    it('should apply a layout as one undoable step and record the engine', () => {
+      const engine = new SyncEngine({ includeMerfolkMeta: true });
+      engine.updateFromCode('flowchart TB\n  A --> B\n  C');
+      engine.moveNodes([{ id: 'C', x: 5, y: 5 }]);
+
+      engine.setLayout('grid', [{ id: 'A', x: 10, y: 20 }, { id: 'B', x: 30, y: 40 }]);
+      expect(engine.exportPositions()).toEqual({ A: { x: 10, y: 20 }, B: { x: 30, y: 40 } });
+      expect(engine.getLayout()).toBe('grid');
+      expect(engine.getCode()).toContain('%%{merfolk: {"layout":"grid","positions":');
+
+      engine.undo();
+      expect(engine.exportPositions()).toEqual({ C: { x: 5, y: 5 } });
+      expect(engine.getLayout()).toBeNull();
+
+      engine.redo();
+      engine.setLayout(null);
+      expect(engine.exportPositions()).toEqual({});
+      expect(engine.getCode()).not.toContain('merfolk');
+      engine.destroy();
+    });
+
+    it('should place new nodes in the same undo step when a node placer is set', () => {
+      const placer = vi.fn((model: FlowchartModel) =>
+        model.nodes.map((node, i) => ({ id: node.id, x: i * 100, y: 0 }))
+      );
+      const engine = new SyncEngine({ placeNodes: placer });
+      engine.updateFromCode('flowchart TB\n  A --> B');
+      engine.moveNodes([{ id: 'A', x: 5, y: 5 }]);
+      expect(placer).not.toHaveBeenCalled();
+
+      engine.addNode('C', 'C');
+      expect(placer).toHaveBeenCalledTimes(1);
+      // 已固定的节点保持不动,其余节点一并固定
+      expect(engine.exportPositions()).toEqual({
+        A: { x: 5, y: 5 },
+        B: { x: 100, y: 0 },
+        C: { x: 200, y: 0 },
+      });
+      expect(engine.getHistory().at(-1)?.description).toBe('添加节点 "C"');
+
+      engine.undo();
+      expect(engine.exportPositions()).toEqual({ A: { x: 5, y: 5 } });
+      engine.redo();
+      expect(engine.getNodePosition('C')).toEqual({ x: 200, y: 0 });
+      expect(placer).toHaveBeenCalledTimes(1);
+
+      // 显式取消固定不会被重新固定
+      engine.resetNodePositions(['B']);
+      expect(engine.getNodePosition('B')).toBeUndefined();
+
+      engine.setNodePlacer(null);
+      engine.addNode('D', 'D');
+      expect(engine.getNodePosition('D')).toBeUndefined();
+      engine.destroy();
+    });
+  });
+
+  describe('edge routing', () => {
+    it('should set routes as undoable steps and round-trip them through the meta comment', () => {
+      const engine = new SyncEngine({ includeMerfolkMeta: true });
+      engine.updateFromCode('flowchart TB\n  A e1@--> B');
+
+      engine.setEdgeRoute('e1', { routing: 'orthogonal' });
+      engine.setEdgeRoute('e1', { waypoints: [{ x: 10, y: 20 }] });
+      expect(engine.exportEdgeRoutes()).toEqual({
+        e1: { routing: 'orthogonal', waypoints: [{ x: 10, y: 20 }] },
+      });
+      expect(engine.getHistory().at(-1)?.description).toBe('调整连线 A → B 路径');
+
+      const code = engine.getCode();
+      expect(code).toContain(
+        '%%{merfolk: {"edges":{"e1":{"routing":"orthogonal","waypoints":[{"x":10,"y":20}]}}}}%%'
+      );
+      const reloaded = new SyncEngine({ includeMerfolkMeta: true });
+      reloaded.updateFromCode(code);
+      expect(reloaded.getModel().getEdge('e1')?.waypoints).toEqual([{ x: 10, y: 20 }]);
+
+      engine.undo();
+      expect(engine.exportEdgeRoutes()).toEqual({ e1: { routing: 'orthogonal' } });
+
+      // 默认路由且没有途经点时不再写入元信息
+      engine.setEdgeRoute('e1', { routing: 'curved' });
+      expect(engine.exportEdgeRoutes()).toEqual({});
+      expect(engine.getCode()).not.toContain('merfolk');
+
+      engine.destroy();
+      reloaded.destroy();
+    });
+
+    it('should keep routes across code edits when the meta comment is off', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode('flowchart TB\n  A e1@--> B');
+      engine.setEdgeRoute('e1', { routing: 'straight' });
+
+      engine.updateFromCode('flowchart TB\n  A e1@--> B\n  B --> C');
+      expect(engine.getModel().getEdge('e1')?.routing).toBe('straight');
+      expect(engine.getCode()).not.toContain('merfolk');
+      engine.destroy();
+    });
+  });
+
+  describe('node styles', () => {
+    it('should merge style fields into the selected nodes in one step', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode('flowchart TB\n  A --> B\n  style A fill:#f9f,stroke:#333');
+
+      engine.updateNodeStyle(['A', 'B'], {
+        style: { stroke: undefined, strokeDasharray: '5 5', fontWeight: 'bold' },
+      });
+
+      expect(engine.getModel().getNode('A')?.style).toEqual({
+        fill: '#f9f',
+        strokeDasharray: '5 5',
+        fontWeight: 'bold',
+      });
+      expect(engine.getCode()).toBe(
+        'flowchart TB\n  A --> B\n' +
+          '  style A fill:#f9f,stroke-dasharray:5 5,font-weight:bold\n' +
+          '  style B stroke-dasharray:5 5,font-weight:bold'
+      );
+      expect(engine.getHistory().at(-1)?.description).toBe('修改 2 个节点样式');
+
+      engine.undo();
+      expect(engine.getModel().getNode('B')?.style).toBeUndefined();
+      engine.destroy();
+    });
+
+    it('should create, rename and delete classDefs together with their assignments', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode('flowchart TB\n  A --> B\n  classDef hot fill:#f00,rx:4\n  class A hot');
+
+      expect(engine.defineClassDef('bad name', { fill: '#fff' })).toBe(false);
+      expect(engine.defineClassDef('cold', {})).toBe(false);
+      expect(engine.defineClassDef('cold', { fill: '#00f' })).toBe(true);
+      engine.updateNodeStyle(['B'], { addClasses: ['cold'] });
+
+      // 编辑器不认识的属性保留在 classDef 中
+      engine.defineClassDef('hot', { fill: '#f80', color: '#fff' });
+      expect(engine.getClassDefs().hot.styles).toEqual(['fill:#f80', 'color:#fff', 'rx:4']);
+
+      expect(engine.renameClassDef('hot', 'cold')).toBe(false);
+      expect(engine.renameClassDef('hot', 'warm')).toBe(true);
+      expect(Object.keys(engine.getClassDefs())).toEqual(['cold', 'warm']);
+      expect(engine.getModel().getNode('A')?.cssClasses).toEqual(['warm']);
+      expect(engine.getCode()).toContain('class A warm');
+
+      engine.deleteClassDef('cold');
+      expect(engine.getModel().getNode('B')?.cssClasses).toEqual([]);
+      expect(engine.getCode()).not.toContain('cold');
+
+      engine.undo();
+      engine.undo();
+      expect(engine.getClassDefs().hot.styles).toEqual(['fill:#f80', 'color:#fff', 'rx:4']);
+      expect(engine.getModel().getNode('A')?.cssClasses).toEqual(['hot']);
+      expect(engine.getModel().getNode('B')?.cssClasses).toEqual(['cold']);
+      engine.destroy();
+    });
+
+    it('should keep the ::: shorthand when classes change', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode(
+        'flowchart TB\n  A:::hot e1@--> B\n  classDef hot fill:#f00\n  classDef cold fill:#00f\n  class e1 hot'
+      );
+
+      engine.updateNodeStyle(['A'], { addClasses: ['cold'], removeClasses: ['hot'] });
+      expect(engine.getCode()).toContain('A:::cold e1@--> B');
+
+      expect(engine.renameClassDef('cold', 'calm')).toBe(true);
+      expect(engine.renameClassDef('hot', 'warm')).toBe(true);
+      expect(engine.getCode()).toContain('A:::calm e1@--> B');
+      expect(engine.getCode()).toContain('class e1 warm');
+
+      engine.updateEdge('e1', { cssClasses: ['calm'] });
+      expect(engine.getModel().getEdge('e1')?.cssClasses).toEqual(['calm']);
+      expect(engine.getCode()).toContain('class e1 calm');
+
+      engine.updateNodeStyle(['A'], { removeClasses: ['calm'] });
+      expect(engine.getModel().getNode('A')?.inlineClass).toBeUndefined();
+      expect(engine.getCode()).toContain('  A e1@--> B');
+      engine.destroy();
+    });
+  });
+
+  describe('node click', () => {
+    it('should rewrite the click statement and clear a tooltip left without an action', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode('flowchart TB\n  A --> B\n  click A href "https://example.com" "Docs"');
+
+      engine.updateNodeClick('A', { linkTarget: '_blank' });
+      expect(engine.getCode()).toBe(
+        'flowchart TB\n  A --> B\n  click A "https://example.com" "Docs" _blank'
+      );
+      expect(engine.getHistory().at(-1)?.description).toBe('修改节点 "A" 链接');
+
+      engine.updateNodeClick('B', { callback: { name: ' notify ', args: '"B"' } });
+      expect(engine.getCode()).toContain('click B call notify("B")');
+
+      engine.updateNodeClick('A', { link: '' });
+      expect(engine.getModel().getNode('A')).toMatchObject({
+        link: undefined,
+        linkTarget: undefined,
+        tooltip: undefined,
+      });
+      expect(engine.getCode()).not.toContain('click A');
+
+      engine.undo();
+      engine.undo();
+      expect(engine.getModel().getNode('A')?.tooltip).toBe('Docs');
+      expect(engine.getModel().getNode('B')?.callback).toBeUndefined();
+      engine.destroy();
+    });
+  });
+
+  describe('diagram settings', () => {
+    it('should write title and config to the frontmatter as one undo step', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode('---\nconfig:\n  theme: dark\n  custom: 1\n---\nflowchart TB\n  A --> B');
+
+      const { config } = engine.getDiagramSettings();
+      engine.setDiagramSettings(' Flow ', {
+        ...config,
+        theme: 'forest',
+        flowchart: { curve: 'linear', nodeSpacing: undefined },
+      });
+
+      expect(engine.getCode()).toBe(
+        '---\ntitle: Flow\nconfig:\n  theme: forest\n  custom: 1\n  flowchart:\n    curve: linear\n---\n' +
+          'flowchart TB\n  A --> B'
+      );
+      expect(engine.getHistory().at(-1)?.description).toBe('修改图表设置');
+
+      engine.undo();
+      expect(engine.getDiagramSettings()).toEqual({ title: undefined, config: { theme: 'dark', custom: 1 } });
+      engine.destroy();
+    });
+
+    it('should keep an init directive as the place for its config', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode("%%{init: {'theme': 'dark'}}%%\nflowchart TB\n  A");
+      const before = engine.getHistory().length;
+
+      engine.setDiagramSettings(undefined, { theme: 'dark' });
+      expect(engine.getHistory()).toHaveLength(before);
+
+      engine.setDiagramSettings(undefined, { theme: 'neutral' });
+      expect(engine.getCode()).toBe('%%{init: {"theme":"neutral"}}%%\nflowchart TB\n  A');
+      engine.destroy();
+    });
+
+    it('should edit the accessibility title and description', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode('flowchart TB\n  accTitle: Old\n  A --> B');
+      const before = engine.getHistory().length;
+
+      engine.setAccessibility({ accTitle: 'Old' });
+      expect(engine.getHistory()).toHaveLength(before);
+
+      engine.setAccessibility({ accTitle: ' New  title ', accDescr: '  A to B \n then done ' });
+      expect(engine.getAccessibility()).toEqual({ accTitle: 'New title', accDescr: 'A to B\nthen done' });
+      expect(engine.getCode()).toBe(
+        'flowchart TB\n  accTitle: New title\n  accDescr {\n    A to B\n    then done\n  }\n  A --> B'
+      );
+
+      engine.undo();
+      expect(engine.getAccessibility()).toEqual({ accTitle: 'Old', accDescr: undefined });
+      engine.destroy();
+    });
+  });
+
+  describe('edge styles', () => {
+    it('should write style, animation, curve and length back to the code', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode('flowchart TB\n  A --> B\n  B --> C');
+      const edgeId = engine.getEdge('B', 'C')!.id;
+
+      engine.updateEdge(edgeId, {
+        style: { stroke: '#f00', strokeWidth: 3, strokeDasharray: '5 5' },
+        animate: true,
+        animation: 'fast',
+        curve: 'linear',
+        length: 2,
+      });
+
+      const code = engine.getCode();
+      expect(code).toContain(`B ${edgeId}@---> C`);
+      expect(code).toContain(`${edgeId}@{ animate: true, animation: fast, curve: linear }`);
+      expect(code).toContain('linkStyle 1 stroke:#f00,stroke-width:3px,stroke-dasharray:5 5');
+
+      // 只清除提供的字段
+      engine.updateEdge(edgeId, { style: { strokeDasharray: '' }, animate: false, animation: undefined });
+      expect(engine.getCode()).toMatch(/linkStyle 1 stroke:#f00,stroke-width:3px$/);
+      expect(engine.getCode()).toContain(`${edgeId}@{ curve: linear }`);
+
+      engine.undo();
+      expect(engine.getEdgeById(edgeId)?.style?.strokeDasharray).toBe('5 5');
+      engine.destroy();
+    });
+
+    it('should renumber linkStyle indices when edges are added or removed', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode(
+        'flowchart TB\n  A --> B\n  B --> C\n  C --> D\n  linkStyle 1 stroke:#f00\n  linkStyle 2 stroke:#00f'
+      );
+
+      engine.removeEdge(engine.getEdge('A', 'B')!.id);
+      expect(engine.getCode()).toBe(
+        'flowchart TB\n  A\n  B\n  B --> C\n  C --> D\n  linkStyle 0 stroke:#f00\n  linkStyle 1 stroke:#00f'
+      );
+
+      engine.addEdge('D', 'A');
+      const styled = engine.getModel().edges.filter((edge) => edge.style);
+      expect(styled.map((edge) => [edge.source, edge.target])).toEqual([['B', 'C'], ['C', 'D']]);
+      expect(engine.getCode()).toContain('linkStyle 0 stroke:#f00\n  linkStyle 1 stroke:#00f');
+
+      engine.undo();
+      engine.undo();
+      expect(engine.getCode()).toContain('linkStyle 1 stroke:#f00\n  linkStyle 2 stroke:#00f');
+      engine.destroy();
+    });
+
+    it('should keep linkStyle properties the editor does not model through edits and renumbering', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode('flowchart TB\n  A --> B\n  B --> C\n  linkStyle 1 stroke:red,color:blue');
+
+      engine.updateEdge(engine.getEdge('B', 'C')!.id, { style: { stroke: '#00f' } });
+      expect(engine.getCode()).toMatch(/linkStyle 1 stroke:#00f,color:blue$/);
+
+      // A --> B 被替换为排在 B --> C 之后的两条边
+      engine.insertNodeOnEdge('A', 'B');
+      expect(engine.getCode()).toMatch(/linkStyle 0 stroke:#00f,color:blue$/);
+
+      engine.undo();
+      expect(engine.getCode()).toMatch(/linkStyle 1 stroke:#00f,color:blue$/);
+      engine.destroy();
+    });
+
+    it('should keep linkStyle default apart from the edges', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      engine.updateFromCode('flowchart TB\n  A --> B\n  linkStyle default stroke:#f00,color:blue\n  B --> C');
+      expect(engine.getModel().defaultEdgeStyle).toEqual(['stroke:#f00', 'color:blue']);
+      expect(engine.getModel().edges.map((edge) => edge.style)).toEqual([undefined, undefined]);
+
+      engine.addEdge('C', 'A');
+      engine.insertNodeOnEdge('A', 'B');
+      const code = engine.getCode();
+      expect(code).toContain('  linkStyle default stroke:#f00,color:blue\n');
+      expect(code).not.toMatch(/linkStyle \d/);
+      engine.destroy();
+    });
+  });
+
+  describe('clipboard', () => {
+    it('should duplicate nodes with their edges, styles and subgraph in one step', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode(
+        'flowchart TB\n  subgraph S [Group]\n    A --> B\n  end\n  B --> C\n' +
+          '  classDef hot fill:#f00\n  class A hot\n  style B stroke:#333'
+      );
+      engine.moveNodes([{ id: 'A', x: 10, y: 20 }]);
+
+      const ids = engine.duplicateNodes(['A', 'B'], { B: { x: 10, y: 80 } });
+
+      expect(ids).toEqual(['A1', 'B1']);
+      const model = engine.getModel();
+      expect(model.getSubGraph('S1')?.nodeIds).toEqual(['A1', 'B1']);
+      expect(model.getNode('A1')?.cssClasses).toEqual(['hot']);
+      expect(model.getNode('B1')?.style).toEqual({ stroke: '#333' });
+      expect(engine.getEdge('A1', 'B1')).toBeDefined();
+      // 只复制两端都被选中的连线
+      expect(engine.getEdge('B1', 'C')).toBeUndefined();
+      expect(engine.exportPositions()).toMatchObject({ A1: { x: 50, y: 60 }, B1: { x: 50, y: 120 } });
+      expect(engine.getHistory().at(-1)?.description).toBe('创建 2 个节点副本');
+
+      engine.undo();
+      expect(model.hasNode('A1')).toBe(false);
+      expect(model.getSubGraph('S1')).toBeUndefined();
+      engine.destroy();
+    });
+
+    it('should cut and paste between engines at the given position', () => {
+      const source = new SyncEngine();
+      source.updateFromCode('flowchart LR\n  subgraph S\n    A --> B\n    C\n  end\n  A e1@--> C');
+      const target = new SyncEngine();
+      target.updateFromCode('flowchart TB\n  subgraph S\n    X\n  end\n  A --> X');
+
+      const payload = source.cutNodes(['A', 'C'], { A: { x: 0, y: 0 }, C: { x: 100, y: 40 } })!;
+      expect(source.getModel().nodes.map((n) => n.id)).toEqual(['B']);
+      expect(source.getModel().getSubGraph('S')?.nodeIds).toEqual(['B']);
+
+      const ids = target.pasteNodes(payload, { at: { x: 200, y: 200 } });
+
+      expect(ids).toEqual(['A1', 'C']);
+      const model = target.getModel();
+      // S 未被完整复制,节点加入目标中同名的子图
+      expect(model.getSubGraph('S')?.nodeIds).toEqual(['X', 'A1', 'C']);
+      expect(target.getEdge('A1', 'C')?.id).toBe('e1');
+      expect(target.exportPositions()).toEqual({ A1: { x: 150, y: 180 }, C: { x: 250, y: 220 } });
+      expect(target.getHistory().at(-1)?.description).toBe('粘贴 2 个节点');
+
+      source.undo();
+      expect(source.getModel().nodes.map((n) => n.id)).toEqual(['A', 'B', 'C']);
+      source.destroy();
+      target.destroy();
+    });
+  });
+
+  describe('renameNode', () => {
+    it('should rename every reference in place as one undoable step', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      const code = [
+        'flowchart TB',
+        '  subgraph S',
+        '    A[Start]',
+        '  end',
+        '  A --> B %% main path',
+        '  B --> AB',
+        '  class A hot',
+        '  style A fill:#f00',
+        '  click A "https://example.com"',
+        '  classDef hot stroke:#333',
+      ].join('\n');
+      engine.updateFromCode(code);
+      engine.moveNodes([{ id: 'A', x: 10, y: 20 }]);
+
+      expect(engine.renameNode('A', 'Begin')).toBe(true);
+
+      expect(engine.getCode()).toBe(code.replace(/\bA\b/g, 'Begin'));
+      const model = engine.getModel();
+      expect(model.nodes.map((n) => n.id)).toEqual(['Begin', 'B', 'AB']);
+      expect(model.getNode('Begin')).toMatchObject({ text: 'Start', cssClasses: ['hot'], link: 'https://example.com' });
+      expect(model.getSubGraph('S')?.nodeIds).toEqual(['Begin']);
+      expect(engine.exportPositions()).toEqual({ Begin: { x: 10, y: 20 } });
+      expect(engine.getHistory().at(-1)?.description).toBe('重命名节点 "A" 为 "Begin"');
+
+      engine.undo();
+      expect(engine.getCode()).toBe(code);
+      expect(engine.exportPositions()).toEqual({ A: { x: 10, y: 20 } });
+      engine.destroy();
+    });
+
+    it('should keep the source format when renaming a node without a label', () => {
+      const engine = new SyncEngine({ preserveFormatting: true });
+      const code = ['%% intro', 'flowchart TB', '    B --> C', '    A --> B %% first', '    style A fill:#f00'].join('\n');
+      engine.updateFromCode(code);
+
+      expect(engine.renameNode('A', 'Z')).toBe(true);
+
+      expect(engine.getCode()).toBe(
+        ['%% intro', 'flowchart TB', '    B --> C', '    Z[A] --> B %% first', '    style Z fill:#f00'].join('\n')
+      );
+      expect(engine.getModel().getNode('Z')?.text).toBe('A');
+      engine.destroy();
+    });
+
+    it('should reject taken, reserved and malformed IDs', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode('flowchart TB\n  subgraph S\n    A --> B\n  end');
+
+      expect(engine.validateNodeId('A', 'A')).toBeNull();
+      expect(engine.validateNodeId('B', 'A')).toBe('ID "B" 已被使用');
+      expect(engine.validateNodeId('S', 'A')).toBe('ID "S" 已被使用');
+      expect(engine.validateNodeId('end', 'A')).toContain('关键字');
+      expect(engine.validateNodeId('End', 'A')).toBeNull();
+      expect(engine.validateNodeId('a b', 'A')).not.toBeNull();
+      expect(engine.validateNodeId('a--b', 'A')).not.toBeNull();
+      expect(engine.validateNodeId('步骤-1', 'A')).toBeNull();
+
+      expect(engine.renameNode('A', 'end')).toBe(false);
+      expect(engine.renameNode('missing', 'C')).toBe(false);
+      expect(engine.getHistory()).toHaveLength(0);
+      engine.destroy();
+    });
+
+    it('should pin generated edge IDs that carry a route', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode('flowchart TB\n  A --> B\n  A --> C');
+      const [routed, plain] = engine.getModel().edges;
+      engine.setEdgeRoute(routed.id, { routing: 'orthogonal' });
+
+      engine.renameNode('A', 'Start');
+
+      expect(engine.getModel().getEdge(routed.id)).toMatchObject({ source: 'Start', isUserDefinedId: true });
+      expect(engine.getModel().getEdge(plain.id)?.isUserDefinedId).toBeFalsy();
+      expect(engine.getCode()).toContain(`Start ${routed.id}@--> B`);
+      engine.destroy();
+    });
+  });
+
+  describe('replaceText', () => {
+    it('should replace labels, edge text and titles in one undoable step', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode(
+        'flowchart TB\n  subgraph S [Old group]\n    A[Old start] -->|old path| old1[Finish]\n  end'
+      );
+
+      const count = engine.replaceText('old', 'New');
+
+      expect(count).toBe(3);
+      const model = engine.getModel();
+      expect(model.getNode('A')?.text).toBe('New start');
+      // ID 不会被替换
+      expect(model.getNode('old1')?.text).toBe('Finish');
+      expect(model.edges[0].text).toBe('New path');
+      expect(model.getSubGraph('S')?.title).toBe('New group');
+      expect(engine.getHistory().at(-1)?.description).toBe('替换 3 处文本');
+
+      engine.undo();
+      expect(model.getNode('A')?.text).toBe('Old start');
+      expect(model.getSubGraph('S')?.title).toBe('Old group');
+      engine.destroy();
+    });
+
+    it('should only replace in the given targets and report nothing for no matches', () => {
+      const engine = new SyncEngine();
+      engine.updateFromCode('flowchart TB\n  A[item 1] --> B[item 2]');
+
+      expect(engine.replaceText('item (\\d)', 'step $1', { regex: true }, [{ kind: 'node', id: 'B' }])).toBe(1);
+      expect(engine.getModel().getNode('A')?.text).toBe('item 1');
+      expect(engine.getModel().getNode('B')?.text).toBe('step 2');
+
+      const historyLength = engine.getHistory().length;
+      expect(engine.replaceText('missing', 'x')).toBe(0);
+      expect(engine.getHistory()).toHaveLength(historyLength);
+      engine.destroy();
+    });
   });
 
   describe('code generation', () => {
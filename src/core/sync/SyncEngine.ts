@@ -1,8 +1,64 @@
 import { MermaidParser } from '../parser/MermaidParser';
 import { MermaidSerializer } from '../serializer/MermaidSerializer';
-import { FlowchartModel, type FlowchartData } from '../model/FlowchartModel';
-import type { FlowEdge } from '../model/Edge';
-import type { ShapeType, StrokeType, ArrowType } from '../model/types';
+import {
+  renameNodeInSource,
+  type SourceDocument,
+  type SourceElementKind,
+  type SourceLocation,
+} from '../parser/SourceDocument';
+import { NODE_ID_PATTERN, RESERVED_NODE_IDS } from '../parser/MermaidSyntax';
+import type { ParseDiagnostic } from '../parser/Diagnostic';
+import { FlowchartModel } from '../model/FlowchartModel';
+import type { EdgeData, FlowEdge } from '../model/Edge';
+import type { NodeData } from '../model/Node';
+import type {
+  ShapeType,
+  StrokeType,
+  ArrowType,
+  Direction,
+  EdgeRoute,
+  EdgeStyle,
+  EdgeAnimation,
+  EdgeCurve,
+  ClassDef,
+  NodeStyle,
+  LinkTarget,
+  NodeClickCallback,
+} from '../model/types';
+import {
+  mergeEdgeStyleDeclarations,
+  mergeStyleDeclarations,
+  parseStyleDeclarations,
+  toStyleDeclarations,
+} from '../model/style';
+import { pruneDiagramConfig, resolveDiagramConfig, type DiagramConfig } from '../model/config';
+import { type Command, CompositeCommand } from '../command/Command';
+import { CommandHistory, type HistoryItem } from '../command/CommandHistory';
+import { AddNodeCommand } from '../command/commands/AddNodeCommand';
+import { DeleteNodeCommand } from '../command/commands/DeleteNodeCommand';
+import { UpdateNodeCommand } from '../command/commands/UpdateNodeCommand';
+import { RenameNodeCommand } from '../command/commands/RenameNodeCommand';
+import { AddEdgeCommand } from '../command/commands/AddEdgeCommand';
+import { DeleteEdgeCommand } from '../command/commands/DeleteEdgeCommand';
+import { UpdateEdgeCommand } from '../command/commands/UpdateEdgeCommand';
+import { AddSubGraphCommand } from '../command/commands/AddSubGraphCommand';
+import { DeleteSubGraphCommand } from '../command/commands/DeleteSubGraphCommand';
+import { UpdateSubGraphCommand } from '../command/commands/UpdateSubGraphCommand';
+import { SetNodeParentCommand } from '../command/commands/SetNodeParentCommand';
+import { SetClassDefCommand } from '../command/commands/SetClassDefCommand';
+import {
+  SetDiagramSettingsCommand,
+  type DiagramSettings,
+} from '../command/commands/SetDiagramSettingsCommand';
+import {
+  createClipboardPayload,
+  planPaste,
+  type ClipboardPayload,
+  type PasteOptions,
+  type PastePlan,
+} from '../clipboard/Clipboard';
+import { replaceAll, type TextSearchOptions } from '../utils/TextSearch';
+import { searchModel } from '../utils/ModelSearch';
 
 /**
  * 节点位置信息
@@ -13,6 +69,64 @@ export interface NodePosition {
   y: number;
 }
 
+/**
+ * 节点样式修改
+ */
+export interface NodeStyleUpdate {
+  /** 覆盖的样式字段,值为 undefined 或空串时清除该字段,未出现的字段保持不变 */
+  style?: NodeStyle;
+  /** 要添加的样式类 */
+  addClasses?: string[];
+  /** 要移除的样式类 */
+  removeClasses?: string[];
+}
+
+/**
+ * 连线属性修改,出现的字段即被设置(值为 undefined 时清除)
+ */
+export interface EdgeUpdate {
+  text?: string;
+  stroke?: StrokeType;
+  arrowStart?: ArrowType;
+  arrowEnd?: ArrowType;
+  /** 覆盖的 linkStyle 字段,值为 undefined 或空串时清除该字段,未出现的字段保持不变 */
+  style?: EdgeStyle;
+  animate?: boolean;
+  animation?: EdgeAnimation;
+  /** 连线长度(跨越的层级数,对应箭头中多出的 `-`) */
+  length?: number;
+  curve?: EdgeCurve;
+  /** 样式类(写回为 class 语句,连线会带上 ID) */
+  cssClasses?: string[];
+}
+
+/**
+ * 节点点击行为修改(click 语句),出现的字段即被设置(值为 undefined 或空串时清除)
+ */
+export interface NodeClickUpdate {
+  link?: string;
+  linkTarget?: LinkTarget;
+  tooltip?: string;
+  callback?: NodeClickCallback;
+}
+
+/**
+ * 图表的无障碍标题与描述(accTitle / accDescr 语句)
+ */
+export interface DiagramAccessibility {
+  accTitle?: string;
+  accDescr?: string;
+}
+
+// Mermaid 样式类名
+const CLASS_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * 为节点计算位置:已固定的节点带有 position,返回其余节点的位置
+ * 传入的是模型副本,可以随意修改
+ */
+export type NodePlacer = (model: FlowchartModel) => NodePosition[];
+
 /**
  * 同步引擎配置
  */
@@ -23,14 +137,10 @@ export interface SyncEngineOptions {
   maxHistoryLength?: number;
   /** 是否把位置元信息写入 mermaid 注释块 */
   includeMerfolkMeta?: boolean;
-}
-
-/**
- * 历史记录项
- */
-interface HistoryEntry {
-  data: FlowchartData;
-  positions: Record<string, { x: number; y: number }>;
+  /** 画布编辑时保留原代码的注释、空行与语句顺序,只改写受影响的语句 */
+  preserveFormatting?: boolean;
+  /** 稳定布局:每次画布编辑后为未固定位置的节点计算并固定位置,已有节点保持不动 */
+  placeNodes?: NodePlacer;
 }
 
 /**
@@ -39,26 +149,45 @@ interface HistoryEntry {
  *
  * 注意:Mermaid 标准语法不支持位置信息,所以:
  * - 位置信息单独存储在 nodePositions 中
- * - 代码同步只处理结构变更(添加/删除节点和边)
- * - 拖拽节点不会改变代码(除非添加/删除操作)
+ * - 开启 includeMerfolkMeta 时位置写入 %%{merfolk: ...}%% 注释,并以代码中的注释为准
+ * - 未开启时拖拽节点不会改变代码,位置仅保存在内存中
+ *
+ * 所有画布修改都以命令形式执行并记录到 CommandHistory,
+ * 模型实例在整个生命周期内保持不变,命令可以安全地持有它
+ *
+ * 设置 placeNodes 后进入稳定布局模式:新节点的位置与修改本身属于同一撤销步骤,
+ * 已有节点不会因为 Mermaid 重新布局而移动
  */
 export class SyncEngine {
   private parser: MermaidParser;
   private serializer: MermaidSerializer;
-  private model: FlowchartModel;
+  private readonly model: FlowchartModel;
   private nodePositions: Map<string, { x: number; y: number }>;
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private options: Required<Pick<SyncEngineOptions, 'debounceDelay'>> & {
     maxHistoryLength: number;
     includeMerfolkMeta: boolean;
+    preserveFormatting: boolean;
   };
+  // 最近一次解析的源码(保留格式模式下用于增量改写)
+  private sourceDocument: SourceDocument | null = null;
+  // 最近一次与模型一致的代码(解析或生成),用于识别回流的自身输出
+  private lastKnownCode: string | null = null;
+  // 最近一次解析代码得到的诊断信息
+  private diagnostics: ParseDiagnostic[] = [];
+  // 最近一次解析代码得到的元素源码位置
+  private locations: SourceLocation[] = [];
+  // 稳定布局模式下为新节点计算位置
+  private nodePlacer: NodePlacer | null;
 
   // 回调
   private onCodeChange?: (code: string) => void;
+  private onHistoryChange?: (items: HistoryItem[]) => void;
 
   // 撤销/重做历史
-  private undoStack: HistoryEntry[] = [];
-  private redoStack: HistoryEntry[] = [];
+  private history: CommandHistory;
+  // 进行中的操作分组
+  private group: { description: string; commands: Command[]; depth: number } | null = null;
 
   constructor(options: SyncEngineOptions = {}) {
     this.parser = new MermaidParser();
@@ -71,7 +200,45 @@ export class SyncEngine {
       debounceDelay: options.debounceDelay ?? 300,
       maxHistoryLength: options.maxHistoryLength ?? 50,
       includeMerfolkMeta: options.includeMerfolkMeta ?? false,
+      preserveFormatting: options.preserveFormatting ?? false,
     };
+    this.history = new CommandHistory(this.options.maxHistoryLength);
+    this.nodePlacer = options.placeNodes ?? null;
+  }
+
+  /**
+   * 获取当前代码的诊断信息(行列号从 1 开始)
+   */
+  getDiagnostics(): ParseDiagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  /**
+   * 获取节点、边、子图在当前代码中的位置(行列号从 0 开始)
+   */
+  getSourceLocations(): SourceLocation[] {
+    return [...this.locations];
+  }
+
+  /**
+   * 获取某个元素出现过的全部位置,按代码顺序排列
+   */
+  getElementLocations(kind: SourceElementKind, id: string): SourceLocation[] {
+    return this.locations.filter((l) => l.kind === kind && l.id === id);
+  }
+
+  /**
+   * 查找光标所在的元素(行列号从 0 开始)
+   * 光标落在多个范围内时取最短的一个,例如边语句里的节点优先于整条子图声明;
+   * 光标不在任何范围内时退回到该行第一个定义性位置
+   */
+  getElementAt(line: number, column: number): { kind: SourceElementKind; id: string } | null {
+    const onLine = this.locations.filter((l) => l.line === line);
+    const containing = onLine
+      .filter((l) => l.start <= column && column <= l.end)
+      .sort((a, b) => a.end - a.start - (b.end - b.start));
+    const location = containing[0] ?? onLine.find((l) => l.defining) ?? onLine[0];
+    return location ? { kind: location.kind, id: location.id } : null;
   }
 
   /**
@@ -83,14 +250,40 @@ export class SyncEngine {
 
   /**
    * 从代码更新模型(代码 → 模型)
+   * 代码被外部修改时清空历史:已记录的命令依赖于修改前的模型状态
    */
   updateFromCode(code: string): FlowchartModel {
     try {
-      this.model = this.parser.parse(code);
+      const document = this.parser.parseDocument(code);
+      const previousRoutes = this.exportEdgeRoutes();
+      this.model.load(document.model.toData());
+      if (this.options.preserveFormatting) {
+        this.sourceDocument = document.source;
+      }
+      this.diagnostics = document.diagnostics;
+      this.locations = document.source.locations;
 
+      if (code !== this.lastKnownCode) {
+        this.clearHistory();
+      }
+      this.lastKnownCode = code;
+
+      // 写入元信息时以代码为准:注释被删除即视为取消固定
       const metaPositions = this.model.meta?.merfolk?.positions;
-      if (metaPositions) {
-        this.importPositions(metaPositions);
+      if (metaPositions || this.options.includeMerfolkMeta) {
+        this.importPositions(metaPositions ?? {});
+      }
+
+      // 连线路由同理,未写入元信息时沿用内存中的路由
+      const metaRoutes = this.model.meta?.merfolk?.edges;
+      const routes =
+        metaRoutes || this.options.includeMerfolkMeta ? (metaRoutes ?? {}) : previousRoutes;
+      for (const edge of this.model.edges) {
+        const route = routes[edge.id];
+        if (route) {
+          edge.routing = route.routing;
+          edge.waypoints = route.waypoints?.map((p) => ({ x: p.x, y: p.y }));
+        }
       }
 
       // 恢复保存的位置信息
@@ -109,20 +302,164 @@ export class SyncEngine {
   }
 
   /**
-   * 更新节点位置(仅保存位置,不触发代码更新)
+   * 更新节点位置(仅保存位置,不触发代码更新,不记录历史)
+   * 适用于拖拽过程中的实时更新,拖拽结束后用 moveNodes 记录一次可撤销的移动
    */
   updateNodePosition(nodeId: string, x: number, y: number): void {
     this.nodePositions.set(nodeId, { x, y });
     this.model.updateNode(nodeId, { position: { x, y } });
   }
 
+  /**
+   * 移动节点(可撤销)
+   * @param positions 节点的目标位置
+   * @param from 移动前的位置(拖拽时位置已实时更新,需显式提供起点)
+   */
+  moveNodes(
+    positions: NodePosition[],
+    from?: Record<string, { x: number; y: number }>
+  ): void {
+    const moves = positions.filter((p) => this.model.hasNode(p.id));
+    if (moves.length === 0) {
+      return;
+    }
+
+    const description =
+      moves.length === 1 ? `移动节点 "${moves[0].id}"` : `移动 ${moves.length} 个节点`;
+    const targets = new Map(moves.map((p) => [p.id, { x: p.x, y: p.y }]));
+    this.executePositions(description, this.positionsCommand(targets, from));
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 取消节点的固定位置,恢复自动布局(可撤销)
+   * @param nodeIds 要重置的节点,省略时重置全部
+   */
+  resetNodePositions(nodeIds?: string[]): void {
+    const ids = (nodeIds ?? [...this.nodePositions.keys()]).filter((id) =>
+      this.nodePositions.has(id)
+    );
+    if (ids.length === 0) {
+      return;
+    }
+
+    const description =
+      ids.length === 1 ? `重置节点 "${ids[0]}" 位置` : `重置 ${ids.length} 个节点位置`;
+    this.executePositions(
+      description,
+      this.positionsCommand(new Map(ids.map((id) => [id, undefined])))
+    );
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 应用布局引擎的结果(可撤销):固定给定节点的位置,取消其余节点的固定,并记录所用引擎
+   * @param engine 布局引擎名称,null 表示恢复 Mermaid 自动布局
+   * @param positions 布局计算出的节点位置
+   */
+  setLayout(engine: string | null, positions: NodePosition[] = []): void {
+    const targets = new Map<string, { x: number; y: number } | undefined>(
+      [...this.nodePositions.keys()].map((id) => [id, undefined])
+    );
+    for (const p of positions) {
+      if (this.model.hasNode(p.id)) {
+        targets.set(p.id, { x: p.x, y: p.y });
+      }
+    }
+
+    const previous = this.getLayout();
+    const setEngine = (name: string | null): void => {
+      const meta = this.model.meta ?? {};
+      const merfolk = { ...(meta.merfolk ?? {}) };
+      if (name) {
+        merfolk.layout = name;
+      } else {
+        delete merfolk.layout;
+      }
+      this.model.meta = {
+        ...meta,
+        merfolk: Object.keys(merfolk).length > 0 ? merfolk : undefined,
+      };
+    };
+
+    this.executePositions(
+      engine ? `应用 ${engine} 布局` : '恢复自动布局',
+      this.positionsCommand(targets),
+      { execute: () => setEngine(engine), undo: () => setEngine(previous) }
+    );
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 获取当前使用的布局引擎(null 表示 Mermaid 自动布局)
+   */
+  getLayout(): string | null {
+    const layout = this.model.meta?.merfolk?.layout;
+    return typeof layout === 'string' ? layout : null;
+  }
+
+  /**
+   * 设置连线的路由方式和途经点(可撤销)
+   * @param route 只修改提供的字段;'curved' 为默认路由,空的途经点列表表示清除
+   */
+  setEdgeRoute(edgeId: string, route: EdgeRoute): void {
+    const edge = this.model.getEdge(edgeId);
+    if (!edge) {
+      return;
+    }
+
+    const updates: Partial<EdgeData> = {};
+    if ('routing' in route) {
+      updates.routing = route.routing === 'curved' ? undefined : route.routing;
+    }
+    if ('waypoints' in route) {
+      updates.waypoints = route.waypoints?.length
+        ? route.waypoints.map((p) => ({ x: p.x, y: p.y }))
+        : undefined;
+    }
+
+    const description =
+      'waypoints' in route
+        ? `调整连线 ${edge.source} → ${edge.target} 路径`
+        : `修改连线 ${edge.source} → ${edge.target} 路由`;
+    this.executePositions(description, new UpdateEdgeCommand(this.model, edgeId, updates));
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 导出连线的路由设置(只包含非默认的连线)
+   */
+  exportEdgeRoutes(): Record<string, EdgeRoute> {
+    const routes: Record<string, EdgeRoute> = {};
+    for (const edge of this.model.edges) {
+      if (!edge.routing && !edge.waypoints?.length) continue;
+      routes[edge.id] = {
+        ...(edge.routing ? { routing: edge.routing } : {}),
+        ...(edge.waypoints?.length ? { waypoints: edge.waypoints.map((p) => ({ ...p })) } : {}),
+      };
+    }
+    return routes;
+  }
+
   /**
    * 删除节点
    */
   removeNode(nodeId: string): void {
-    this.saveToHistory();
-    this.model.removeNode(nodeId);
-    this.nodePositions.delete(nodeId);
+    this.removeNodes([nodeId]);
+  }
+
+  /**
+   * 批量删除节点(作为一步撤销)
+   */
+  removeNodes(nodeIds: string[]): void {
+    const validIds = [...new Set(nodeIds)].filter((id) => this.model.hasNode(id));
+    if (validIds.length === 0) {
+      return;
+    }
+
+    const description =
+      validIds.length === 1 ? `删除节点 "${validIds[0]}"` : `删除 ${validIds.length} 个节点`;
+    this.execute(description, ...this.deleteNodesCommands(validIds));
     this.debouncedSerialize();
   }
 
@@ -135,16 +472,13 @@ export class SyncEngine {
     position?: { x: number; y: number },
     shape: ShapeType = 'rect'
   ): void {
-    this.saveToHistory();
-    this.model.addNode({
-      id: nodeId,
-      text,
-      shape,
-      position
-    });
+    const commands: Command[] = [
+      new AddNodeCommand(this.model, { id: nodeId, text, shape, position }),
+    ];
     if (position) {
-      this.nodePositions.set(nodeId, position);
+      commands.push(this.positionsCommand(new Map([[nodeId, position]])));
     }
+    this.execute(`添加节点 "${nodeId}"`, ...commands);
     this.debouncedSerialize();
   }
 
@@ -155,8 +489,7 @@ export class SyncEngine {
     if (!this.model.getNode(nodeId)) {
       return;
     }
-    this.saveToHistory();
-    this.model.updateNode(nodeId, { text });
+    this.execute(`修改节点 "${nodeId}" 文本`, new UpdateNodeCommand(this.model, nodeId, { text }));
     this.debouncedSerialize();
   }
 
@@ -167,8 +500,7 @@ export class SyncEngine {
     if (!this.model.getNode(nodeId)) {
       return;
     }
-    this.saveToHistory();
-    this.model.updateNode(nodeId, { shape });
+    this.execute(`修改节点 "${nodeId}" 形状`, new UpdateNodeCommand(this.model, nodeId, { shape }));
     this.debouncedSerialize();
   }
 
@@ -179,11 +511,324 @@ export class SyncEngine {
     if (!this.model.getNode(nodeId)) {
       return;
     }
-    this.saveToHistory();
-    this.model.updateNode(nodeId, { text, shape });
+    this.execute(`编辑节点 "${nodeId}"`, new UpdateNodeCommand(this.model, nodeId, { text, shape }));
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 修改节点的链接、提示文本和回调(可撤销)
+   * 没有链接和回调时提示文本无法写入 click 语句,会一并清除
+   */
+  updateNodeClick(nodeId: string, update: NodeClickUpdate): void {
+    const node = this.model.getNode(nodeId);
+    if (!node) {
+      return;
+    }
+
+    const next: NodeClickUpdate = {
+      link: node.link,
+      linkTarget: node.linkTarget,
+      tooltip: node.tooltip,
+      callback: node.callback,
+      ...update,
+    };
+    const link = next.link?.trim() || undefined;
+    const callback = next.callback?.name.trim()
+      ? { ...next.callback, name: next.callback.name.trim() }
+      : undefined;
+    const updates: Partial<NodeData> = {
+      link,
+      linkTarget: link ? next.linkTarget : undefined,
+      tooltip: link || callback ? next.tooltip?.trim() || undefined : undefined,
+      callback,
+    };
+    const current = { link: node.link, linkTarget: node.linkTarget, tooltip: node.tooltip, callback: node.callback };
+    if (JSON.stringify(updates) === JSON.stringify(current)) {
+      return;
+    }
+
+    this.execute(`修改节点 "${nodeId}" 链接`, new UpdateNodeCommand(this.model, nodeId, updates));
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 检查节点 ID 是否可用
+   * @param currentId 重命名时的原 ID(与其相同视为可用)
+   * @returns 不可用的原因,可用时返回 null
+   */
+  validateNodeId(id: string, currentId?: string): string | null {
+    if (id === currentId) {
+      return null;
+    }
+    if (!id) {
+      return '节点 ID 不能为空';
+    }
+    if (!NODE_ID_PATTERN.test(id)) {
+      return 'ID 只能包含字母、数字、_ 和单个 -(不能位于开头或结尾)';
+    }
+    if (RESERVED_NODE_IDS.has(id)) {
+      return `"${id}" 是 Mermaid 关键字,不能用作 ID`;
+    }
+    if (this.model.hasNode(id) || this.model.getSubGraph(id)) {
+      return `ID "${id}" 已被使用`;
+    }
+    return null;
+  }
+
+  /**
+   * 重命名节点 ID(一步撤销)
+   * 连线、子图、class / style / click 语句和固定位置中的引用随之更新,节点文本保持不变
+   * @returns 节点不存在或新 ID 不可用时返回 false
+   */
+  renameNode(nodeId: string, newId: string): boolean {
+    if (!this.model.hasNode(nodeId) || this.validateNodeId(newId, nodeId) !== null) {
+      return false;
+    }
+    if (newId === nodeId) {
+      return true;
+    }
+
+    // 自动生成的连线 ID 由两端节点计算,重新解析后会变化;有路由的连线固定 ID 以保留路由
+    const routedEdges = this.model
+      .getEdgesForNode(nodeId)
+      .filter((edge) => !edge.isUserDefinedId && (edge.routing || edge.waypoints?.length));
+
+    this.execute(
+      `重命名节点 "${nodeId}" 为 "${newId}"`,
+      new RenameNodeCommand(this.model, nodeId, newId),
+      ...routedEdges.map((edge) => new UpdateEdgeCommand(this.model, edge.id, { isUserDefinedId: true })),
+      this.renameReferencesCommand(nodeId, newId)
+    );
+    this.debouncedSerialize();
+    return true;
+  }
+
+  /**
+   * 重命名模型之外按节点 ID 记录的数据:固定位置和保留格式用的源码
+   */
+  private renameReferencesCommand(nodeId: string, newId: string): Command {
+    const rename = (from: string, to: string): void => {
+      const position = this.nodePositions.get(from);
+      if (position) {
+        this.nodePositions.delete(from);
+        this.nodePositions.set(to, position);
+      }
+      if (this.sourceDocument) {
+        this.sourceDocument = renameNodeInSource(this.sourceDocument, from, to);
+      }
+    };
+    return {
+      execute: () => rename(nodeId, newId),
+      undo: () => rename(newId, nodeId),
+    };
+  }
+
+  /**
+   * 修改节点的内联样式与样式类(写回为 style / class 语句)
+   */
+  updateNodeStyle(nodeIds: string[], update: NodeStyleUpdate): void {
+    const commands: Command[] = [];
+    const changed: string[] = [];
+    for (const nodeId of nodeIds) {
+      const node = this.model.getNode(nodeId);
+      if (!node) {
+        continue;
+      }
+
+      const updates: Partial<NodeData> = {};
+      if (update.style) {
+        const declarations = toStyleDeclarations({ ...node.style, ...update.style });
+        if (declarations.join(',') !== toStyleDeclarations(node.style ?? {}).join(',')) {
+          updates.style = declarations.length > 0 ? parseStyleDeclarations(declarations) : undefined;
+        }
+      }
+      if (update.addClasses || update.removeClasses) {
+        const removed = new Set(update.removeClasses);
+        const classes = node.cssClasses.filter((name) => !removed.has(name));
+        for (const name of update.addClasses ?? []) {
+          if (!classes.includes(name)) {
+            classes.push(name);
+          }
+        }
+        if (classes.join(',') !== node.cssClasses.join(',')) {
+          updates.cssClasses = classes;
+          // 以 ::: 写出的类被移除时,由新加入的第一个类沿用该写法
+          if (node.inlineClass && !classes.includes(node.inlineClass)) {
+            updates.inlineClass = classes.find((name) => !node.cssClasses.includes(name));
+          }
+        }
+      }
+
+      if (Object.keys(updates).length > 0) {
+        commands.push(new UpdateNodeCommand(this.model, nodeId, updates));
+        changed.push(nodeId);
+      }
+    }
+    if (commands.length === 0) {
+      return;
+    }
+
+    const description =
+      changed.length === 1 ? `修改节点 "${changed[0]}" 样式` : `修改 ${changed.length} 个节点样式`;
+    this.execute(description, ...commands);
     this.debouncedSerialize();
   }
 
+  /**
+   * 获取全部样式类定义(按定义顺序)
+   */
+  getClassDefs(): Record<string, ClassDef> {
+    return this.model.classDefs;
+  }
+
+  /**
+   * 新建或修改样式类(classDef),已有定义中编辑器不认识的属性会保留
+   * @returns 类名无效或样式为空时返回 false
+   */
+  defineClassDef(name: string, style: NodeStyle): boolean {
+    if (!CLASS_NAME_PATTERN.test(name)) {
+      return false;
+    }
+    const previous = this.model.getClassDef(name);
+    const styles = mergeStyleDeclarations(previous?.styles ?? [], style);
+    // 没有样式的 classDef 不会写入代码
+    if (styles.length === 0) {
+      return false;
+    }
+    if (previous && styles.join(',') === previous.styles.join(',')) {
+      return true;
+    }
+
+    this.execute(
+      previous ? `修改样式类 "${name}"` : `新建样式类 "${name}"`,
+      new SetClassDefCommand(this.model, name, { styles, textStyles: previous?.textStyles ?? [] })
+    );
+    this.debouncedSerialize();
+    return true;
+  }
+
+  /**
+   * 重命名样式类,同时更新使用它的节点
+   * @returns 原类不存在、新类名无效或已被占用时返回 false
+   */
+  renameClassDef(name: string, newName: string): boolean {
+    const classDef = this.model.getClassDef(name);
+    if (!classDef || !CLASS_NAME_PATTERN.test(newName) || this.model.getClassDef(newName)) {
+      return false;
+    }
+
+    this.execute(
+      `重命名样式类 "${name}" 为 "${newName}"`,
+      new SetClassDefCommand(this.model, newName, classDef),
+      new SetClassDefCommand(this.model, name, undefined),
+      ...this.replaceClassCommands(name, newName)
+    );
+    this.debouncedSerialize();
+    return true;
+  }
+
+  /**
+   * 删除样式类,同时从节点上移除
+   */
+  deleteClassDef(name: string): void {
+    if (!this.model.getClassDef(name)) {
+      return;
+    }
+
+    this.execute(
+      `删除样式类 "${name}"`,
+      new SetClassDefCommand(this.model, name, undefined),
+      ...this.replaceClassCommands(name, null)
+    );
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 获取图表标题与生效的配置(frontmatter 的 config 叠加 init 指令)
+   */
+  getDiagramSettings(): { title?: string; config: DiagramConfig } {
+    return { title: this.model.meta.title, config: resolveDiagramConfig(this.model.meta) };
+  }
+
+  /**
+   * 修改图表标题与配置(可撤销)
+   * 配置整体写入 frontmatter;只有 init 指令而没有 frontmatter 配置时仍写回 init 指令
+   * @param config 完整的生效配置,空值和空分组会被去掉
+   */
+  setDiagramSettings(title: string | undefined, config: DiagramConfig): void {
+    const meta = this.model.meta;
+    const next: DiagramSettings = { title: title?.trim() || undefined };
+    const pruned = pruneDiagramConfig(config);
+    if (meta.init && !meta.config) {
+      next.init = pruned;
+    } else {
+      next.config = pruned;
+      next.init = undefined;
+    }
+
+    const keys = Object.keys(next) as (keyof DiagramSettings)[];
+    if (keys.every((key) => JSON.stringify(next[key]) === JSON.stringify(meta[key]))) {
+      return;
+    }
+
+    this.execute('修改图表设置', new SetDiagramSettingsCommand(this.model, next));
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 获取无障碍标题与描述
+   */
+  getAccessibility(): DiagramAccessibility {
+    const { accTitle, accDescr } = this.model.meta;
+    return { accTitle, accDescr };
+  }
+
+  /**
+   * 修改无障碍标题与描述(可撤销),出现的字段即被设置,空值时移除对应语句
+   * 标题合并为一行;描述逐行去掉首尾空白,多行时写成 accDescr { ... } 块
+   */
+  setAccessibility(update: DiagramAccessibility): void {
+    const meta = this.model.meta;
+    const next: DiagramSettings = {};
+    if ('accTitle' in update) {
+      next.accTitle = update.accTitle?.replace(/\s+/g, ' ').trim() || undefined;
+    }
+    if ('accDescr' in update) {
+      const lines = (update.accDescr ?? '').split('\n').map((line) => line.trim());
+      next.accDescr = lines.join('\n').trim() || undefined;
+    }
+
+    const keys = Object.keys(next) as (keyof DiagramSettings)[];
+    if (keys.every((key) => next[key] === meta[key])) {
+      return;
+    }
+
+    this.execute('修改无障碍描述', new SetDiagramSettingsCommand(this.model, next));
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 把节点和连线上的样式类替换为另一个(newName 为 null 时移除)
+   */
+  private replaceClassCommands(name: string, newName: string | null): Command[] {
+    const replace = (classes: string[]): string[] => [
+      ...new Set(classes.flatMap((c) => (c !== name ? [c] : newName ? [newName] : []))),
+    ];
+    const nodeCommands = this.model.nodes
+      .filter((node) => node.cssClasses.includes(name))
+      .map((node) => {
+        const updates: Partial<NodeData> = { cssClasses: replace(node.cssClasses) };
+        if (node.inlineClass === name) {
+          updates.inlineClass = newName ?? undefined;
+        }
+        return new UpdateNodeCommand(this.model, node.id, updates);
+      });
+    const edgeCommands = this.model.edges
+      .filter((edge) => edge.cssClasses.includes(name))
+      .map((edge) => new UpdateEdgeCommand(this.model, edge.id, { cssClasses: replace(edge.cssClasses) }));
+    return [...nodeCommands, ...edgeCommands];
+  }
+
   /**
    * 添加边
    */
@@ -194,16 +839,17 @@ export class SyncEngine {
     stroke: StrokeType = 'normal',
     arrowEnd: ArrowType = 'arrow'
   ): void {
-    this.saveToHistory();
-    this.model.addEdge({
-      source: sourceId,
-      target: targetId,
-      text,
-      stroke,
-      arrowStart: 'none',
-      arrowEnd,
-      isUserDefinedId: true,
-    });
+    this.execute(
+      `添加连线 ${sourceId} → ${targetId}`,
+      new AddEdgeCommand(this.model, {
+        source: sourceId,
+        target: targetId,
+        text,
+        stroke,
+        arrowStart: 'none',
+        arrowEnd,
+      })
+    );
     this.debouncedSerialize();
   }
 
@@ -211,8 +857,14 @@ export class SyncEngine {
    * 删除边
    */
   removeEdge(edgeId: string): void {
-    this.saveToHistory();
-    this.model.removeEdge(edgeId);
+    const edge = this.model.getEdge(edgeId);
+    if (!edge) {
+      return;
+    }
+    this.execute(
+      `删除连线 ${edge.source} → ${edge.target}`,
+      new DeleteEdgeCommand(this.model, edgeId)
+    );
     this.debouncedSerialize();
   }
 
@@ -221,8 +873,6 @@ export class SyncEngine {
    * 将 A --> B 变为 A --> NewNode --> B
    */
   insertNodeOnEdge(sourceId: string, targetId: string, shape: ShapeType = 'rect'): void {
-    this.saveToHistory();
-
     // 找到原边
     const originalEdge = this.model.edges.find(
       e => e.source === sourceId && e.target === targetId
@@ -235,13 +885,6 @@ export class SyncEngine {
     // 生成新节点 ID
     const newNodeId = this.generateUniqueNodeId();
 
-    // 创建新节点
-    this.model.addNode({
-      id: newNodeId,
-      text: '新节点',
-      shape,
-    });
-
     const baseEdgeData = {
       stroke: originalEdge.stroke,
       arrowStart: originalEdge.arrowStart,
@@ -251,27 +894,315 @@ export class SyncEngine {
       animate: originalEdge.animate,
       animation: originalEdge.animation,
       length: originalEdge.length,
-      isUserDefinedId: true,
+      curve: originalEdge.curve,
     };
 
-    // 创建两条新边:source -> newNode, newNode -> target
-    // 保留原边的样式和属性
-    this.model.addEdge({
-      source: sourceId,
-      target: newNodeId,
-      text: originalEdge.text,
-      ...baseEdgeData,
-    });
-    this.model.addEdge({
-      source: newNodeId,
-      target: targetId,
-      ...baseEdgeData,
-    });
+    // 创建新节点和两条新边:source -> newNode, newNode -> target
+    // 保留原边的样式和属性,最后删除原边
+    this.execute(
+      `在连线 ${sourceId} → ${targetId} 上插入节点`,
+      new AddNodeCommand(this.model, { id: newNodeId, text: '新节点', shape }),
+      new AddEdgeCommand(this.model, {
+        source: sourceId,
+        target: newNodeId,
+        text: originalEdge.text,
+        ...baseEdgeData,
+      }),
+      new AddEdgeCommand(this.model, {
+        source: newNodeId,
+        target: targetId,
+        ...baseEdgeData,
+      }),
+      new DeleteEdgeCommand(this.model, originalEdge.id)
+    );
+
+    this.debouncedSerialize();
+  }
+
+  // ============ 查找替换 ============
+
+  /**
+   * 替换节点文本、连线文本和子图标题中的匹配(作为一步撤销),ID 不受影响
+   * @param targets 只替换这些元素,省略时替换全部
+   * @returns 替换的匹配数
+   */
+  replaceText(
+    query: string,
+    replacement: string,
+    options: TextSearchOptions = {},
+    targets?: { kind: SourceElementKind; id: string }[]
+  ): number {
+    const only = targets ? new Set(targets.map((t) => `${t.kind}:${t.id}`)) : null;
+    const commands: Command[] = [];
+    let count = 0;
+
+    for (const match of searchModel(this.model, query, options)) {
+      if (match.textMatches.length === 0 || (only && !only.has(`${match.kind}:${match.id}`))) {
+        continue;
+      }
+      const replace = (text: string): string => replaceAll(text, query, replacement, options);
+      count += match.textMatches.length;
+      if (match.kind === 'node') {
+        const text = replace(this.model.getNode(match.id)!.text);
+        commands.push(new UpdateNodeCommand(this.model, match.id, { text }));
+      } else if (match.kind === 'edge') {
+        const text = replace(this.model.getEdge(match.id)!.text ?? '');
+        commands.push(new UpdateEdgeCommand(this.model, match.id, { text: text || undefined }));
+      } else {
+        const title = replace(this.model.getSubGraph(match.id)!.title);
+        commands.push(new UpdateSubGraphCommand(this.model, match.id, { title: title || match.id }));
+      }
+    }
+
+    if (commands.length === 0) {
+      return 0;
+    }
+    this.execute(`替换 ${count} 处文本`, ...commands);
+    this.debouncedSerialize();
+    return count;
+  }
 
-    // 删除原边
-    this.model.removeEdge(originalEdge.id);
+  // ============ 复制粘贴 ============
 
+  /**
+   * 复制节点及其之间的连线、完整选中的子图和用到的样式类
+   * @param positions 未固定节点的位置(画布上的渲染位置),用于粘贴时保持相对布局
+   * @returns 节点都不存在时返回 null
+   */
+  copyNodes(
+    nodeIds: string[],
+    positions?: Record<string, { x: number; y: number }>
+  ): ClipboardPayload | null {
+    return createClipboardPayload(this.model, nodeIds, { positions });
+  }
+
+  /**
+   * 剪切节点(可撤销):复制后删除节点,以及被完整选中的子图
+   */
+  cutNodes(
+    nodeIds: string[],
+    positions?: Record<string, { x: number; y: number }>
+  ): ClipboardPayload | null {
+    const payload = this.copyNodes(nodeIds, positions);
+    if (!payload) {
+      return null;
+    }
+
+    const ids = payload.data.nodes.map((node) => node.id);
+    this.execute(
+      ids.length === 1 ? `剪切节点 "${ids[0]}"` : `剪切 ${ids.length} 个节点`,
+      ...this.deleteNodesCommands(ids),
+      ...payload.data.subGraphs.map((s) => new DeleteSubGraphCommand(this.model, s.id))
+    );
     this.debouncedSerialize();
+    return payload;
+  }
+
+  /**
+   * 粘贴剪贴板内容(可撤销),与已有 ID 冲突的节点、子图和连线会重新编号
+   * @returns 粘贴后的节点 ID
+   */
+  pasteNodes(payload: ClipboardPayload, options: PasteOptions = {}): string[] {
+    const plan = planPaste(payload, this.model, options);
+    if (plan.nodes.length === 0) {
+      return [];
+    }
+
+    const ids = plan.nodes.map((node) => node.id);
+    this.execute(
+      ids.length === 1 ? `粘贴节点 "${ids[0]}"` : `粘贴 ${ids.length} 个节点`,
+      ...this.pasteCommands(plan)
+    );
+    this.debouncedSerialize();
+    return ids;
+  }
+
+  /**
+   * 在原处创建节点副本(可撤销),有位置的副本偏移 offset
+   * @returns 副本的节点 ID
+   */
+  duplicateNodes(
+    nodeIds: string[],
+    positions?: Record<string, { x: number; y: number }>,
+    offset: { x: number; y: number } = { x: 40, y: 40 }
+  ): string[] {
+    const payload = this.copyNodes(nodeIds, positions);
+    if (!payload) {
+      return [];
+    }
+
+    const plan = planPaste(payload, this.model, { offset });
+    const ids = plan.nodes.map((node) => node.id);
+    this.execute(
+      ids.length === 1 ? `创建节点 "${nodeIds[0]}" 的副本` : `创建 ${ids.length} 个节点副本`,
+      ...this.pasteCommands(plan)
+    );
+    this.debouncedSerialize();
+    return ids;
+  }
+
+  /**
+   * 粘贴计划的命令序列:样式类、子图、节点、归属、连线、位置
+   */
+  private pasteCommands(plan: PastePlan): Command[] {
+    const positions = new Map(
+      plan.nodes.flatMap((node) => (node.position ? [[node.id, node.position] as const] : []))
+    );
+    return [
+      ...Object.entries(plan.classDefs).map(
+        ([name, classDef]) => new SetClassDefCommand(this.model, name, classDef)
+      ),
+      ...plan.subGraphs.map((subGraph) => new AddSubGraphCommand(this.model, subGraph)),
+      ...plan.nodes.map(
+        (node) => new AddNodeCommand(this.model, { ...node, parentId: undefined })
+      ),
+      ...plan.nodes
+        .filter((node) => node.parentId)
+        .map((node) => new SetNodeParentCommand(this.model, node.id, node.parentId)),
+      ...plan.edges.map((edge) => new AddEdgeCommand(this.model, edge)),
+      ...(positions.size > 0 ? [this.positionsCommand(positions)] : []),
+    ];
+  }
+
+  // ============ 子图操作 ============
+
+  /**
+   * 将选中节点组合为新的子图
+   * 若所有节点同属一个子图,新子图嵌套在该子图内
+   * @returns 新子图 ID,节点为空时返回 null
+   */
+  createSubGraph(nodeIds: string[], title?: string, direction?: Direction): string | null {
+    const validIds = nodeIds.filter((id) => this.model.hasNode(id));
+    if (validIds.length === 0) {
+      return null;
+    }
+
+    const parentIds = new Set(validIds.map((id) => this.model.getNode(id)?.parentId));
+    const parentId = parentIds.size === 1 ? [...parentIds][0] : undefined;
+    const subGraphId = this.generateUniqueSubGraphId();
+
+    this.execute(
+      `组合为子图 "${subGraphId}"`,
+      new AddSubGraphCommand(this.model, {
+        id: subGraphId,
+        title: title?.trim() || subGraphId,
+        nodeIds: [],
+        parentId,
+        direction,
+      }),
+      ...validIds.map((nodeId) => new SetNodeParentCommand(this.model, nodeId, subGraphId))
+    );
+
+    this.debouncedSerialize();
+    return subGraphId;
+  }
+
+  /**
+   * 更新子图标题和方向
+   */
+  updateSubGraph(subGraphId: string, updates: { title?: string; direction?: Direction | null }): void {
+    const subGraph = this.model.getSubGraph(subGraphId);
+    if (!subGraph) {
+      return;
+    }
+
+    const subGraphUpdates: { title?: string; direction?: Direction } = {};
+    if (updates.title !== undefined) {
+      subGraphUpdates.title = updates.title.trim() || subGraph.id;
+    }
+    if (updates.direction !== undefined) {
+      subGraphUpdates.direction = updates.direction ?? undefined;
+    }
+
+    this.execute(
+      `编辑子图 "${subGraphId}"`,
+      new UpdateSubGraphCommand(this.model, subGraphId, subGraphUpdates)
+    );
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 重命名子图标题
+   */
+  renameSubGraph(subGraphId: string, title: string): void {
+    this.updateSubGraph(subGraphId, { title });
+  }
+
+  /**
+   * 将节点移入子图(subGraphId 为 null 时移出到顶层)
+   */
+  moveNodeToSubGraph(nodeId: string, subGraphId: string | null): void {
+    const node = this.model.getNode(nodeId);
+    if (!node) {
+      return;
+    }
+    if (subGraphId !== null && !this.model.getSubGraph(subGraphId)) {
+      return;
+    }
+    if ((node.parentId ?? null) === subGraphId) {
+      return;
+    }
+
+    this.execute(
+      subGraphId ? `移动节点 "${nodeId}" 到子图 "${subGraphId}"` : `将节点 "${nodeId}" 移出子图`,
+      new SetNodeParentCommand(this.model, nodeId, subGraphId ?? undefined)
+    );
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 解散子图,保留其中的节点
+   */
+  ungroupSubGraph(subGraphId: string): void {
+    const subGraph = this.model.getSubGraph(subGraphId);
+    if (!subGraph) {
+      return;
+    }
+
+    const parentId = subGraph.parentId;
+    this.execute(
+      `解散子图 "${subGraphId}"`,
+      ...subGraph.nodeIds.map((nodeId) => new SetNodeParentCommand(this.model, nodeId, parentId)),
+      ...this.model
+        .getChildSubGraphs(subGraphId)
+        .map((child) => new UpdateSubGraphCommand(this.model, child.id, { parentId })),
+      new DeleteSubGraphCommand(this.model, subGraphId)
+    );
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 删除子图及其包含的所有节点和嵌套子图
+   */
+  removeSubGraph(subGraphId: string): void {
+    if (!this.model.getSubGraph(subGraphId)) {
+      return;
+    }
+
+    const subGraphIds = this.model.subGraphs
+      .filter((s) => this.model.isSubGraphWithin(s.id, subGraphId))
+      .map((s) => s.id);
+    const nodeIds = subGraphIds.flatMap((id) => this.model.getSubGraph(id)?.nodeIds ?? []);
+
+    this.execute(
+      `删除子图 "${subGraphId}"`,
+      ...this.deleteNodesCommands(nodeIds),
+      ...subGraphIds.map((id) => new DeleteSubGraphCommand(this.model, id))
+    );
+    this.debouncedSerialize();
+  }
+
+  /**
+   * 生成唯一的子图 ID(不与节点或已有子图冲突)
+   */
+  private generateUniqueSubGraphId(): string {
+    let counter = 1;
+    let newId = `SG${counter}`;
+    while (this.model.getSubGraph(newId) || this.model.hasNode(newId)) {
+      counter++;
+      newId = `SG${counter}`;
+    }
+    return newId;
   }
 
   /**
@@ -296,39 +1227,22 @@ export class SyncEngine {
   }
 
   /**
-   * 更新边属性
+   * 更新边属性(样式写回为 linkStyle 语句,动画和曲线写回为 `@{ ... }`)
    */
-  updateEdge(
-    edgeId: string,
-    updates: {
-      text?: string;
-      stroke?: StrokeType;
-      arrowStart?: ArrowType;
-      arrowEnd?: ArrowType;
-    }
-  ): void {
-    if (!this.model.getEdge(edgeId)) {
+  updateEdge(edgeId: string, updates: EdgeUpdate): void {
+    const edge = this.model.getEdge(edgeId);
+    if (!edge) {
       return;
     }
 
-    this.saveToHistory();
-
-    const edgeUpdates: {
-      text?: string;
-      stroke?: StrokeType;
-      arrowStart?: ArrowType;
-      arrowEnd?: ArrowType;
-      isUserDefinedId?: boolean;
-    } = {
-      isUserDefinedId: true,
-    };
+    const edgeUpdates: Partial<EdgeData> = {};
+    // 自动生成的连线 ID 由连线内容计算,重新解析后会变化;有路由的连线固定 ID 以保留路由
+    if (!edge.isUserDefinedId && (edge.routing || edge.waypoints?.length)) {
+      edgeUpdates.isUserDefinedId = true;
+    }
 
     if ('text' in updates) {
-      if (typeof updates.text === 'string') {
-        edgeUpdates.text = updates.text === '' ? undefined : updates.text;
-      } else {
-        edgeUpdates.text = undefined;
-      }
+      edgeUpdates.text = updates.text || undefined;
     }
     if (updates.stroke !== undefined) {
       edgeUpdates.stroke = updates.stroke;
@@ -339,8 +1253,38 @@ export class SyncEngine {
     if (updates.arrowEnd !== undefined) {
       edgeUpdates.arrowEnd = updates.arrowEnd;
     }
+    if (updates.style) {
+      const style: EdgeStyle = { ...edge.style, ...updates.style };
+      for (const key of Object.keys(style) as (keyof EdgeStyle)[]) {
+        if (style[key] === undefined || style[key] === '') {
+          delete style[key];
+        }
+      }
+      edgeUpdates.style = Object.keys(style).length > 0 ? style : undefined;
+      // 保留编辑器不建模的 linkStyle 属性(color、fill 等)
+      const styles = mergeEdgeStyleDeclarations(edge.styles ?? [], style);
+      edgeUpdates.styles = styles.length > 0 ? styles : undefined;
+    }
+    if ('animate' in updates) {
+      edgeUpdates.animate = updates.animate || undefined;
+    }
+    if ('animation' in updates) {
+      edgeUpdates.animation = updates.animation;
+    }
+    if ('length' in updates) {
+      edgeUpdates.length = updates.length;
+    }
+    if ('curve' in updates) {
+      edgeUpdates.curve = updates.curve;
+    }
+    if (updates.cssClasses) {
+      edgeUpdates.cssClasses = [...new Set(updates.cssClasses)];
+    }
 
-    this.model.updateEdge(edgeId, edgeUpdates);
+    this.execute(
+      `编辑连线 ${edge.source} → ${edge.target}`,
+      new UpdateEdgeCommand(this.model, edgeId, edgeUpdates)
+    );
     this.debouncedSerialize();
   }
 
@@ -384,7 +1328,17 @@ export class SyncEngine {
    */
   getCode(): string {
     this.updateMerfolkMeta();
-    return this.serializer.serialize(this.model);
+    return this.serializeModel();
+  }
+
+  /**
+   * 序列化当前模型(保留格式模式下基于源码增量改写)
+   */
+  private serializeModel(): string {
+    this.lastKnownCode = this.sourceDocument
+      ? this.serializer.serializePreserving(this.model, this.sourceDocument)
+      : this.serializer.serialize(this.model);
+    return this.lastKnownCode;
   }
 
   /**
@@ -410,13 +1364,23 @@ export class SyncEngine {
     }
 
     this.debounceTimer = setTimeout(() => {
-      this.updateMerfolkMeta();
-      const code = this.serializer.serialize(this.model);
-      this.onCodeChange?.(code);
+      this.emitCode();
       this.debounceTimer = null;
     }, this.options.debounceDelay);
   }
 
+  /**
+   * 生成代码并通知外部,同时刷新诊断与元素位置(保留格式时原有的问题语句仍在代码中)
+   */
+  private emitCode(): void {
+    this.updateMerfolkMeta();
+    const code = this.serializeModel();
+    const document = this.parser.parseDocument(code);
+    this.diagnostics = document.diagnostics;
+    this.locations = document.source.locations;
+    this.onCodeChange?.(code);
+  }
+
   /**
    * 导出位置数据(用于持久化)
    */
@@ -441,57 +1405,173 @@ export class SyncEngine {
   // ============ 撤销/重做 ============
 
   /**
-   * 保存当前状态到历史记录
+   * 执行命令并记录到历史(多个命令合并为一个带描述的撤销步骤)
+   * 分组进行中时只执行并收集,分组结束时统一入栈
+   */
+  private execute(description: string, ...commands: Command[]): void {
+    this.record(description, [...commands, ...this.placementCommands()]);
+  }
+
+  /**
+   * 执行直接修改位置的命令(不触发稳定布局,以免刚取消固定的节点又被固定)
+   */
+  private executePositions(description: string, ...commands: Command[]): void {
+    this.record(description, commands);
+  }
+
+  private record(description: string, commands: Command[]): void {
+    const command = new CompositeCommand(commands, description);
+    // 模型已偏离上次的代码,直到重新序列化
+    this.lastKnownCode = null;
+    if (this.group) {
+      command.execute();
+      this.group.commands.push(command);
+      return;
+    }
+    this.history.execute(command);
+    this.notifyHistoryChange();
+  }
+
+  /**
+   * 稳定布局:为修改后仍未固定位置的节点计算并固定位置
+   * 位置在首次执行时计算(此时修改已生效),重做时沿用
+   */
+  private placementCommands(): Command[] {
+    const placer = this.nodePlacer;
+    if (!placer) return [];
+
+    let placement: Command | null = null;
+    return [
+      {
+        execute: () => {
+          if (!placement) {
+            const unpinned = (id: string): boolean =>
+              this.model.hasNode(id) && !this.nodePositions.has(id);
+            const positions = this.model.nodes.some((node) => unpinned(node.id))
+              ? placer(this.model.clone()).filter((p) => unpinned(p.id))
+              : [];
+            placement = this.positionsCommand(
+              new Map(positions.map((p) => [p.id, { x: p.x, y: p.y }]))
+            );
+          }
+          placement.execute();
+        },
+        undo: () => placement?.undo(),
+      },
+    ];
+  }
+
+  /**
+   * 开启或关闭稳定布局模式
+   * @param placer 为新节点计算位置的函数,null 表示关闭(之后的编辑恢复 Mermaid 自动布局)
+   */
+  setNodePlacer(placer: NodePlacer | null): void {
+    this.nodePlacer = placer;
+  }
+
+  /**
+   * 删除节点的命令序列(连同其连线、子图归属和位置信息)
    */
-  private saveToHistory(): void {
-    const entry: HistoryEntry = {
-      data: this.model.toData(),
-      positions: this.exportPositions(),
+  private deleteNodesCommands(nodeIds: string[]): Command[] {
+    return [
+      ...nodeIds.map((id) => new DeleteNodeCommand(this.model, id)),
+      this.positionsCommand(new Map(nodeIds.map((id) => [id, undefined]))),
+    ];
+  }
+
+  /**
+   * 创建位置变更命令,同时维护 nodePositions 与节点的 position
+   * @param targets 目标位置(undefined 表示清除位置)
+   * @param from 变更前的位置,默认取当前记录的位置
+   */
+  private positionsCommand(
+    targets: Map<string, { x: number; y: number } | undefined>,
+    from?: Record<string, { x: number; y: number }>
+  ): Command {
+    const previous = new Map(
+      [...targets.keys()].map((id) => [id, from?.[id] ?? this.nodePositions.get(id)])
+    );
+    const apply = (positions: Map<string, { x: number; y: number } | undefined>): void => {
+      for (const [id, pos] of positions) {
+        if (pos) {
+          this.nodePositions.set(id, pos);
+        } else {
+          this.nodePositions.delete(id);
+        }
+        if (this.model.hasNode(id)) {
+          this.model.updateNode(id, { position: pos ? { ...pos } : undefined });
+        }
+      }
+    };
+    return {
+      execute: () => apply(targets),
+      undo: () => apply(previous),
     };
+  }
 
-    this.undoStack.push(entry);
+  /**
+   * 开始一个操作分组,期间的所有修改合并为一步撤销
+   * 可嵌套,以最外层的描述为准
+   */
+  beginGroup(description: string): void {
+    if (this.group) {
+      this.group.depth++;
+      return;
+    }
+    this.group = { description, commands: [], depth: 1 };
+  }
 
-    // 限制历史记录长度
-    if (this.undoStack.length > this.options.maxHistoryLength) {
-      this.undoStack.shift();
+  /**
+   * 结束操作分组
+   */
+  endGroup(): void {
+    if (!this.group) {
+      return;
+    }
+    this.group.depth--;
+    if (this.group.depth > 0) {
+      return;
     }
 
-    // 清空重做栈
-    this.redoStack = [];
+    const { description, commands } = this.group;
+    this.group = null;
+    if (commands.length > 0) {
+      this.history.push(new CompositeCommand(commands, description));
+      this.notifyHistoryChange();
+    }
   }
 
   /**
-   * 从历史记录恢复状态
+   * 历史位置变化后立即同步代码
    */
-  private restoreFromHistory(entry: HistoryEntry): void {
-    this.model = FlowchartModel.fromData(entry.data);
-    this.importPositions(entry.positions);
+  private syncAfterHistoryMove(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.emitCode();
+    this.notifyHistoryChange();
+  }
 
-    // 立即同步代码
-    this.updateMerfolkMeta();
-    const code = this.serializer.serialize(this.model);
-    this.onCodeChange?.(code);
+  private notifyHistoryChange(): void {
+    this.onHistoryChange?.(this.history.getItems());
+  }
+
+  /**
+   * 设置历史记录变更回调
+   */
+  setOnHistoryChange(callback: (items: HistoryItem[]) => void): void {
+    this.onHistoryChange = callback;
   }
 
   /**
    * 撤销
    */
   undo(): boolean {
-    if (this.undoStack.length === 0) {
+    if (this.group || !this.history.undo()) {
       return false;
     }
-
-    // 保存当前状态到重做栈
-    const currentEntry: HistoryEntry = {
-      data: this.model.toData(),
-      positions: this.exportPositions(),
-    };
-    this.redoStack.push(currentEntry);
-
-    // 恢复上一个状态
-    const prevEntry = this.undoStack.pop()!;
-    this.restoreFromHistory(prevEntry);
-
+    this.syncAfterHistoryMove();
     return true;
   }
 
@@ -499,50 +1579,62 @@ export class SyncEngine {
    * 重做
    */
   redo(): boolean {
-    if (this.redoStack.length === 0) {
+    if (this.group || !this.history.redo()) {
       return false;
     }
+    this.syncAfterHistoryMove();
+    return true;
+  }
 
-    // 保存当前状态到撤销栈
-    const currentEntry: HistoryEntry = {
-      data: this.model.toData(),
-      positions: this.exportPositions(),
-    };
-    this.undoStack.push(currentEntry);
-
-    // 恢复下一个状态
-    const nextEntry = this.redoStack.pop()!;
-    this.restoreFromHistory(nextEntry);
-
+  /**
+   * 跳转到历史中的任意位置
+   * @param position 保留已应用的步骤数(0 表示撤销全部)
+   */
+  jumpToHistory(position: number): boolean {
+    if (this.group || !this.history.jumpTo(position)) {
+      return false;
+    }
+    this.syncAfterHistoryMove();
     return true;
   }
 
+  /**
+   * 获取历史记录(从旧到新,applied 表示当前已应用)
+   */
+  getHistory(): HistoryItem[] {
+    return this.history.getItems();
+  }
+
   /**
    * 是否可以撤销
    */
   canUndo(): boolean {
-    return this.undoStack.length > 0;
+    return this.history.canUndo;
   }
 
   /**
    * 是否可以重做
    */
   canRedo(): boolean {
-    return this.redoStack.length > 0;
+    return this.history.canRedo;
   }
 
   /**
    * 清除历史记录
    */
   clearHistory(): void {
-    this.undoStack = [];
-    this.redoStack = [];
+    this.group = null;
+    this.history.clear();
+    this.notifyHistoryChange();
   }
 
   private updateMerfolkMeta(): void {
     if (!this.options.includeMerfolkMeta) return;
 
-    const positions = this.exportPositions();
+    // 只写入仍存在的节点,代码中改名或删除的节点不再保留位置
+    const positions = Object.fromEntries(
+      Object.entries(this.exportPositions()).filter(([id]) => this.model.hasNode(id))
+    );
     const meta = this.model.meta ?? {};
     const merfolk = { ...(meta.merfolk ?? {}) };
 
@@ -552,6 +1644,13 @@ export class SyncEngine {
       delete merfolk.positions;
     }
 
+    const edges = this.exportEdgeRoutes();
+    if (Object.keys(edges).length > 0) {
+      merfolk.edges = edges;
+    } else if ('edges' in merfolk) {
+      delete merfolk.edges;
+    }
+
     const nextMerfolk = Object.keys(merfolk).length > 0 ? merfolk : undefined;
     this.model.meta = { ...meta, merfolk: nextMerfolk };
   }
@@ -1,2 +1,10 @@
 export { SyncEngine } from './SyncEngine';
-export type { NodePosition, SyncEngineOptions } from './SyncEngine';
+export type {
+  DiagramAccessibility,
+  EdgeUpdate,
+  NodeClickUpdate,
+  NodePlacer,
+  NodePosition,
+  NodeStyleUpdate,
+  SyncEngineOptions,
+} from './SyncEngine';
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { MermaidParser } from '../parser/MermaidParser';
+import { searchModel } from './ModelSearch';
+
+describe('searchModel', () => {
+  const model = new MermaidParser().parse(
+    'flowchart TB\n  subgraph api [Service]\n    A[Call api] -->|api| B\n  end\n  B e1@--> C[Done]\n  C --> D'
+  );
+
+  it('should search node, edge and subgraph text and IDs in model order', () => {
+    expect(searchModel(model, 'api').map((m) => [m.kind, m.id, m.textMatches.length, m.idMatch])).toEqual([
+      ['node', 'A', 1, false],
+      ['edge', model.edges[0].id, 1, false],
+      ['subgraph', 'api', 0, true],
+    ]);
+  });
+
+  it('should only match user-defined edge IDs', () => {
+    expect(searchModel(model, 'e\\d', { regex: true }).map((m) => m.id)).toEqual(['e1']);
+    expect(searchModel(model, 'edge-')).toEqual([]);
+  });
+
+  it('should respect case sensitivity', () => {
+    expect(searchModel(model, 'done').map((m) => m.id)).toEqual(['C']);
+    expect(searchModel(model, 'done', { caseSensitive: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * 图元素查找(画布查找栏使用)
+ */
+
+import type { FlowchartModel } from '../model/FlowchartModel';
+import type { SourceElementKind } from '../parser/SourceDocument';
+import { findMatches, type TextMatch, type TextSearchOptions } from './TextSearch';
+
+export interface ModelSearchMatch {
+  kind: SourceElementKind;
+  id: string;
+  /** 节点文本、连线文本或子图标题中的匹配 */
+  textMatches: TextMatch[];
+  /** ID 是否匹配 */
+  idMatch: boolean;
+}
+
+/**
+ * 在节点文本、连线文本、子图标题和 ID 中查找,按节点、连线、子图的顺序返回匹配的元素
+ * 连线只匹配用户定义的 ID(`e1@-->`),自动生成的 ID 不出现在代码中
+ */
+export function searchModel(
+  model: FlowchartModel,
+  query: string,
+  options: TextSearchOptions = {}
+): ModelSearchMatch[] {
+  const results: ModelSearchMatch[] = [];
+  const add = (kind: SourceElementKind, id: string, text: string, searchId: boolean): void => {
+    const textMatches = findMatches(text, query, options);
+    const idMatch = searchId && findMatches(id, query, options).length > 0;
+    if (textMatches.length > 0 || idMatch) {
+      results.push({ kind, id, textMatches, idMatch });
+    }
+  };
+
+  for (const node of model.nodes) {
+    add('node', node.id, node.text, true);
+  }
+  for (const edge of model.edges) {
+    add('edge', edge.id, edge.text ?? '', !!edge.isUserDefinedId);
+  }
+  for (const subGraph of model.subGraphs) {
+    add('subgraph', subGraph.id, subGraph.title, true);
+  }
+  return results;
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { isSafeLink } from './SafeLink';
+
+describe('isSafeLink', () => {
+  it('should allow http, https, mailto and relative links', () => {
+    expect(isSafeLink('https://example.com/a?b=1')).toBe(true);
+    expect(isSafeLink('http://example.com')).toBe(true);
+    expect(isSafeLink('mailto:team@example.com')).toBe(true);
+    expect(isSafeLink('/docs/page')).toBe(true);
+    expect(isSafeLink('page.html#top')).toBe(true);
+  });
+
+  it('should reject script and other schemes', () => {
+    expect(isSafeLink('javascript:alert(1)')).toBe(false);
+    expect(isSafeLink('  JavaScript:alert(1)')).toBe(false);
+    expect(isSafeLink('data:text/html,<script>alert(1)</script>')).toBe(false);
+    expect(isSafeLink('vbscript:msgbox(1)')).toBe(false);
+    expect(isSafeLink('file:///etc/passwd')).toBe(false);
+  });
+
+  it('should see through whitespace and control characters in the scheme', () => {
+    expect(isSafeLink('java\tscript:alert(1)')).toBe(false);
+    expect(isSafeLink('java\nscript:alert(1)')).toBe(false);
+    expect(isSafeLink('\u0001javascript:alert(1)')).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * 节点链接(click 语句)的安全检查
+ */
+
+/**
+ * 允许打开的协议,与 Mermaid 的 sanitizeUrl 一致;相对链接按当前页面的协议处理
+ */
+const SAFE_PROTOCOLS: ReadonlySet<string> = new Set(['http:', 'https:', 'mailto:']);
+
+/**
+ * 链接是否可以打开:只允许 http、https、mailto 和相对链接。
+ * 用浏览器的 URL 解析取协议,协议中夹带的空白和控制字符
+ * (`java\tscript:`)会像打开链接时一样被去掉,无法绕过检查。
+ */
+export function isSafeLink(link: string): boolean {
+  try {
+    return SAFE_PROTOCOLS.has(new URL(link, 'http://localhost/').protocol);
+  } catch {
+    return false;
+  }
+}
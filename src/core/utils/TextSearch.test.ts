@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { findMatches, replaceAll, replaceMatch } from './TextSearch';
+
+describe('TextSearch', () => {
+  const text = 'A --> B\nb --> C';
+
+  it('should find plain matches case-insensitively by default', () => {
+    expect(findMatches(text, 'b')).toEqual([
+      { start: 6, end: 7 },
+      { start: 8, end: 9 },
+    ]);
+    expect(findMatches(text, 'b', { caseSensitive: true })).toEqual([{ start: 8, end: 9 }]);
+  });
+
+  it('should escape special characters unless regex is enabled', () => {
+    expect(findMatches('a.b axb', 'a.b')).toEqual([{ start: 0, end: 3 }]);
+    expect(findMatches('a.b axb', 'a.b', { regex: true })).toHaveLength(2);
+  });
+
+  it('should return no matches for empty or invalid queries', () => {
+    expect(findMatches(text, '')).toEqual([]);
+    expect(findMatches(text, '(', { regex: true })).toEqual([]);
+    expect(findMatches(text, 'x*', { regex: true })).toEqual([]);
+  });
+
+  it('should replace a single match with group references in regex mode', () => {
+    const [match] = findMatches(text, '(\\w) -->', { regex: true });
+
+    expect(replaceMatch(text, match, '(\\w) -->', '$1 ==>', { regex: true })).toBe('A ==> B\nb --> C');
+    expect(replaceMatch(text, match, 'A -->', '$1', {})).toBe('$1 B\nb --> C');
+  });
+
+  it('should replace all matches', () => {
+    expect(replaceAll(text, '-->', '-.->')).toBe('A -.-> B\nb -.-> C');
+    expect(replaceAll(text, 'b', 'X', { caseSensitive: true })).toBe('A --> B\nX --> C');
+  });
+});
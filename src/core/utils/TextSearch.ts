@@ -0,0 +1,79 @@
+/**
+ * 文本查找/替换工具(代码面板使用)
+ */
+
+export interface TextSearchOptions {
+  /** 区分大小写 */
+  caseSensitive?: boolean;
+  /** 把查询当作正则表达式 */
+  regex?: boolean;
+}
+
+export interface TextMatch {
+  /** 起始偏移(包含) */
+  start: number;
+  /** 结束偏移(不包含) */
+  end: number;
+}
+
+/**
+ * 构建查找用的正则;查询为空或正则无效时返回 null
+ */
+export function createSearchRegExp(query: string, options: TextSearchOptions = {}): RegExp | null {
+  if (!query) return null;
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 查找全部匹配(跳过空匹配)
+ */
+export function findMatches(text: string, query: string, options: TextSearchOptions = {}): TextMatch[] {
+  const regex = createSearchRegExp(query, options);
+  if (!regex) return [];
+
+  const matches: TextMatch[] = [];
+  for (const match of text.matchAll(regex)) {
+    if (match[0].length === 0) continue;
+    matches.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return matches;
+}
+
+/**
+ * 替换单个匹配;正则模式下支持 `$1` 等分组引用
+ */
+export function replaceMatch(
+  text: string,
+  match: TextMatch,
+  query: string,
+  replacement: string,
+  options: TextSearchOptions = {}
+): string {
+  const matched = text.slice(match.start, match.end);
+  const regex = createSearchRegExp(query, options);
+  const replaced = regex && options.regex
+    ? matched.replace(new RegExp(regex.source, regex.flags.replace('g', '')), replacement)
+    : replacement;
+  return text.slice(0, match.start) + replaced + text.slice(match.end);
+}
+
+/**
+ * 替换全部匹配
+ */
+export function replaceAll(
+  text: string,
+  query: string,
+  replacement: string,
+  options: TextSearchOptions = {}
+): string {
+  const regex = createSearchRegExp(query, options);
+  if (!regex) return text;
+  return options.regex
+    ? text.replace(regex, replacement)
+    : text.replace(regex, () => replacement);
+}
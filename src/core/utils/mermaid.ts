@@ -25,6 +25,16 @@ export function resolveMermaidApi(instance?: MermaidAPI): MermaidAPI {
   return mermaid;
 }
 
+/**
+ * 未显式指定时,仅在使用内置 mermaid(未传入实例且页面没有全局 mermaid)时初始化
+ */
+export function shouldInitializeMermaid(instance?: MermaidAPI, initialize?: boolean): boolean {
+  if (initialize !== undefined) return initialize;
+  const hasWindowMermaid =
+    typeof window !== 'undefined' && !!(window as typeof window & { mermaid?: MermaidAPI }).mermaid;
+  return !instance && !hasWindowMermaid;
+}
+
 export function ensureMermaidInitialized(
   api: MermaidAPI,
   config?: MermaidConfig,
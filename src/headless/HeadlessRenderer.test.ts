@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MermaidParser } from '../core/parser/MermaidParser';
+import { HeadlessRenderer } from './HeadlessRenderer';
+
+// The test setup mocks d3; headless rendering needs the real one
+vi.unmock('d3');
+
+const CODE = `flowchart LR
+    subgraph S[Group]
+        A[Start] --> B{Ok?}
+    end
+    B -- yes --> C((Done))`;
+
+describe('HeadlessRenderer', () => {
+  const parse = () => new MermaidParser().parse(CODE);
+
+  it('should report node, edge and subgraph positions', () => {
+    const layout = new HeadlessRenderer().layout(parse());
+
+    expect(layout.direction).toBe('LR');
+    expect(layout.nodes.map((n) => n.id)).toEqual(['A', 'B', 'C']);
+    expect(layout.edges).toHaveLength(2);
+    expect(layout.edges[0].points.length).toBeGreaterThanOrEqual(2);
+    expect(layout.subGraphs.map((s) => s.id)).toEqual(['S']);
+
+    const [a, b, c] = layout.nodes;
+    expect(a.x).toBeLessThan(b.x);
+    expect(b.x).toBeLessThan(c.x);
+
+    const group = layout.subGraphs[0];
+    for (const node of [a, b]) {
+      expect(Math.abs(node.x - group.x)).toBeLessThan(group.width / 2);
+    }
+  });
+
+  it('should size the view box from the layout plus padding', () => {
+    const layout = new HeadlessRenderer({ padding: 10 }).layout(parse());
+    const { viewBox } = layout;
+
+    for (const node of layout.nodes) {
+      expect(node.x - node.width / 2).toBeGreaterThanOrEqual(viewBox.x + 10);
+      expect(node.x + node.width / 2).toBeLessThanOrEqual(viewBox.x + viewBox.width - 10);
+      expect(node.y - node.height / 2).toBeGreaterThanOrEqual(viewBox.y + 10);
+      expect(node.y + node.height / 2).toBeLessThanOrEqual(viewBox.y + viewBox.height - 10);
+    }
+  });
+
+  it('should apply routing modes from the merfolk meta block', () => {
+    const model = new MermaidParser().parse(
+      '%%{merfolk: {"edges": {"e1": {"routing": "orthogonal", "waypoints": [{"x": 0, "y": 0}]}}}}%%\n' +
+        'flowchart TB\n    A e1@--> C\n    A --> B[Middle] --> C'
+    );
+    const layout = new HeadlessRenderer().layout(model);
+    const points = layout.edges.find((e) => e.id === 'e1')!.points;
+
+    for (let i = 1; i < points.length; i++) {
+      const dx = Math.abs(points[i].x - points[i - 1].x);
+      const dy = Math.abs(points[i].y - points[i - 1].y);
+      expect(Math.min(dx, dy)).toBeLessThan(0.01);
+    }
+    expect(points).not.toContainEqual({ x: 0, y: 0 });
+  });
+
+  it('should draw edges with their linkStyle and curve', () => {
+    const model = new MermaidParser().parse(
+      'flowchart TB\n    A e1@--> B\n    A --> C\n    e1@{ curve: linear }\n' +
+        '    linkStyle 0 stroke:#f00,stroke-width:3px,stroke-dasharray:4 2'
+    );
+    const svg = new HeadlessRenderer({ document }).render(model);
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const [styled, plain] = Array.from(doc.querySelectorAll('g.edge path.flowchart-link'));
+
+    expect(styled.getAttribute('stroke')).toBe('#f00');
+    expect(styled.getAttribute('stroke-width')).toBe('3');
+    expect(styled.getAttribute('stroke-dasharray')).toBe('4 2');
+    // A linear curve has no Bézier segments
+    expect(styled.getAttribute('d')).not.toContain('C');
+    expect(plain.getAttribute('d')).toContain('C');
+  });
+
+  it('should use the spacing and curve of the diagram configuration', () => {
+    const code = '---\nconfig:\n  flowchart:\n    rankSpacing: 150\n    curve: linear\n---\nflowchart TB\n    A --> B';
+    const spaced = new HeadlessRenderer().layout(new MermaidParser().parse(code));
+    const plain = new HeadlessRenderer().layout(new MermaidParser().parse('flowchart TB\n    A --> B'));
+    const gap = (layout: typeof plain) => layout.nodes[1].y - layout.nodes[0].y;
+
+    expect(gap(spaced) - gap(plain)).toBeCloseTo(100);
+
+    const svg = new HeadlessRenderer({ document }).render(new MermaidParser().parse(code));
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    expect(doc.querySelector('g.edge path.flowchart-link')?.getAttribute('d')).not.toContain('C');
+  });
+
+  it('should render a standalone SVG document', () => {
+    const svg = new HeadlessRenderer({ document, background: '#ffffff' }).render(parse());
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const root = doc.documentElement;
+
+    expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg')).toBe(true);
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(root.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg');
+    expect(Number(root.getAttribute('width'))).toBeGreaterThan(0);
+    expect(root.querySelectorAll('g.node')).toHaveLength(3);
+    expect(root.querySelectorAll('g.edge path.flowchart-link')).toHaveLength(2);
+    expect(root.querySelector('g.cluster text')?.textContent).toBe('Group');
+    expect(root.querySelector(':scope > rect')?.getAttribute('fill')).toBe('#ffffff');
+    expect(svg).toContain('<p>Start</p>');
+  });
+
+  it('should render an empty diagram', () => {
+    const svg = new HeadlessRenderer({ document, padding: 5 }).render(
+      new MermaidParser().parse('flowchart TD')
+    );
+
+    expect(svg).toContain('viewBox="-5 -5 10 10"');
+  });
+});
@@ -0,0 +1,271 @@
+import * as d3 from 'd3';
+import type { FlowchartModel } from '../core/model/FlowchartModel';
+import type { BoundingBox, Direction, Position } from '../core/model/types';
+import { resolveDiagramConfig } from '../core/model/config';
+import { parseEdgeStyleDeclarations } from '../core/model/style';
+import { ShapeRenderer } from '../canvas/shapes/ShapeRenderer';
+import { EdgeRenderer } from '../canvas/edges/EdgeRenderer';
+import { routeEdgePoints } from '../canvas/edges/EdgeRouter';
+import { DagreLayout, type LayoutOptions } from '../canvas/layout/DagreLayout';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Mermaid default cluster colors
+ */
+const CLUSTER_FILL = '#ffffde';
+const CLUSTER_STROKE = '#aaaa33';
+const CLUSTER_FONT_FAMILY = '"trebuchet ms", verdana, arial, sans-serif';
+
+/**
+ * Headless renderer options
+ */
+export interface HeadlessRenderOptions {
+  /**
+   * Document used to build the SVG (default: the global `document`).
+   * Outside the browser pass a simulated one, e.g. `new JSDOM('').window.document`.
+   */
+  document?: Document;
+  /** Space around the diagram in SVG units (default: 16) */
+  padding?: number;
+  /** Background fill, transparent when omitted */
+  background?: string;
+  /**
+   * Options for the Dagre layout. Spacing defaults to the diagram's
+   * `flowchart.nodeSpacing` / `rankSpacing` configuration.
+   */
+  layout?: LayoutOptions;
+}
+
+/**
+ * Positions computed for a diagram, in SVG units.
+ * Node and subgraph boxes are centered on x/y like `FlowNode.bounds`.
+ */
+export interface DiagramLayout {
+  direction: Direction;
+  /** Area covered by the diagram including padding (top-left origin) */
+  viewBox: BoundingBox;
+  nodes: Array<{ id: string } & BoundingBox>;
+  edges: Array<{ id: string; source: string; target: string; points: Position[] }>;
+  subGraphs: Array<{ id: string } & BoundingBox>;
+}
+
+/**
+ * Renders a FlowchartModel to a standalone SVG without a browser.
+ * Uses the same shape and edge renderers as the canvas, but sizes the
+ * document from the layout instead of measuring the DOM (`getBBox`), so a
+ * simulated DOM such as jsdom is enough.
+ */
+export class HeadlessRenderer {
+  private options: HeadlessRenderOptions;
+
+  constructor(options: HeadlessRenderOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Run the layout and report where everything ended up
+   */
+  layout(model: FlowchartModel): DiagramLayout {
+    const { flowchart } = resolveDiagramConfig(model.meta);
+    const { subGraphs } = new DagreLayout({
+      nodesep: flowchart?.nodeSpacing,
+      ranksep: flowchart?.rankSpacing,
+      ...this.options.layout,
+    }).layout(model);
+    this.applyEdgeRouting(model);
+
+    const nodes = model.nodes
+      .filter((node) => node.bounds)
+      .map((node) => ({ id: node.id, ...node.bounds! }));
+    const edges = model.edges.map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      points: (edge.points ?? []).map((p) => ({ x: p.x, y: p.y })),
+    }));
+    const clusters = model.subGraphs
+      .filter((subGraph) => subGraphs[subGraph.id])
+      .map((subGraph) => ({ id: subGraph.id, ...subGraphs[subGraph.id] }));
+
+    return {
+      direction: model.direction,
+      viewBox: this.computeViewBox([...nodes, ...clusters], edges),
+      nodes,
+      edges,
+      subGraphs: clusters,
+    };
+  }
+
+  /**
+   * Reroute straight and orthogonal edges around the laid out nodes, taking
+   * the mode from the edge or from the merfolk meta block. Waypoints are
+   * left out: they are stored in the editor's coordinates, which only
+   * match its own layout.
+   */
+  private applyEdgeRouting(model: FlowchartModel): void {
+    const routes = model.meta?.merfolk?.edges ?? {};
+    const boxes = new Map(
+      model.nodes.filter((node) => node.bounds).map((node) => [node.id, node.bounds!])
+    );
+    for (const edge of model.edges) {
+      const source = boxes.get(edge.source);
+      const target = boxes.get(edge.target);
+      const routing = edge.routing ?? routes[edge.id]?.routing;
+      if (!routing || routing === 'curved' || !source || !target) continue;
+
+      const obstacles = [...boxes]
+        .filter(([id]) => id !== edge.source && id !== edge.target)
+        .map(([, box]) => box);
+      edge.routing = routing;
+      edge.points = routeEdgePoints(source, target, { routing, obstacles });
+    }
+  }
+
+  /**
+   * Lay out the model and serialize it as an SVG document
+   */
+  render(model: FlowchartModel): string {
+    const doc = this.options.document ?? globalThis.document;
+    if (!doc) {
+      throw new Error('Headless rendering needs a DOM document; pass `document` in the options');
+    }
+
+    const diagram = this.layout(model);
+    const { x, y, width, height } = diagram.viewBox;
+
+    const svg = d3
+      .select(doc.createElementNS(SVG_NS, 'svg') as SVGSVGElement)
+      .attr('class', 'flowchart')
+      .attr('viewBox', `${x} ${y} ${width} ${height}`)
+      .attr('width', width)
+      .attr('height', height);
+
+    const defs = svg.append('defs');
+    // Animated edges refer to this keyframe (see EdgeRenderer.applyAnimation)
+    defs
+      .append('style')
+      .text('@keyframes dash { to { stroke-dashoffset: -15; } }');
+
+    if (this.options.background) {
+      svg
+        .append('rect')
+        .attr('x', x)
+        .attr('y', y)
+        .attr('width', width)
+        .attr('height', height)
+        .attr('fill', this.options.background);
+    }
+
+    const root = svg.append('g').attr('class', 'root');
+    const clustersGroup = root.append('g').attr('class', 'clusters');
+    const edgesGroup = root.append('g').attr('class', 'edges-layer');
+    const nodesGroup = root.append('g').attr('class', 'nodes-layer');
+
+    // Outer clusters first so nested ones are painted on top
+    const depth = (id: string): number => {
+      const parentId = model.getSubGraph(id)?.parentId;
+      return parentId ? depth(parentId) + 1 : 0;
+    };
+    const clusters = [...diagram.subGraphs].sort((a, b) => depth(a.id) - depth(b.id));
+    for (const cluster of clusters) {
+      this.renderCluster(clustersGroup, model.getSubGraph(cluster.id)?.title ?? cluster.id, cluster);
+    }
+
+    const edgeRenderer = new EdgeRenderer(defs, resolveDiagramConfig(model.meta).flowchart?.curve);
+    const defaultEdgeStyle = parseEdgeStyleDeclarations(model.defaultEdgeStyle ?? []);
+    for (const edge of model.edges) {
+      const source = model.getNode(edge.source)?.bounds;
+      const target = model.getNode(edge.target)?.bounds;
+      if (!source || !target) continue;
+
+      const group = edgesGroup.append('g').attr('class', 'edge').attr('data-id', edge.id);
+      edgeRenderer.render(group, edge, source, target, defaultEdgeStyle);
+    }
+
+    const shapeRenderer = new ShapeRenderer();
+    for (const node of model.nodes) {
+      const bounds = node.bounds;
+      if (!bounds) continue;
+
+      const group = nodesGroup
+        .append('g')
+        .attr('class', 'node')
+        .attr('data-id', node.id)
+        .attr('transform', `translate(${bounds.x}, ${bounds.y})`);
+      shapeRenderer.render(group, node, bounds);
+    }
+
+    const Serializer = doc.defaultView?.XMLSerializer ?? globalThis.XMLSerializer;
+    const markup = new Serializer().serializeToString(svg.node()!);
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${markup}`;
+  }
+
+  private renderCluster(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    title: string,
+    bounds: { id: string } & BoundingBox
+  ): void {
+    const left = bounds.x - bounds.width / 2;
+    const top = bounds.y - bounds.height / 2;
+    const cluster = group.append('g').attr('class', 'cluster').attr('id', bounds.id);
+
+    cluster
+      .append('rect')
+      .attr('x', left)
+      .attr('y', top)
+      .attr('width', bounds.width)
+      .attr('height', bounds.height)
+      .attr('fill', CLUSTER_FILL)
+      .attr('stroke', CLUSTER_STROKE)
+      .attr('stroke-width', 1);
+
+    cluster
+      .append('text')
+      .attr('class', 'cluster-label')
+      .attr('x', bounds.x)
+      .attr('y', top + 18)
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#333')
+      .attr('font-family', CLUSTER_FONT_FAMILY)
+      .attr('font-size', 14)
+      .text(title);
+  }
+
+  /**
+   * Union of all boxes and edge points, plus padding
+   */
+  private computeViewBox(boxes: BoundingBox[], edges: Array<{ points: Position[] }>): BoundingBox {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (const box of boxes) {
+      minX = Math.min(minX, box.x - box.width / 2);
+      minY = Math.min(minY, box.y - box.height / 2);
+      maxX = Math.max(maxX, box.x + box.width / 2);
+      maxY = Math.max(maxY, box.y + box.height / 2);
+    }
+    for (const edge of edges) {
+      for (const point of edge.points) {
+        minX = Math.min(minX, point.x);
+        minY = Math.min(minY, point.y);
+        maxX = Math.max(maxX, point.x);
+        maxY = Math.max(maxY, point.y);
+      }
+    }
+
+    if (!Number.isFinite(minX)) {
+      minX = minY = maxX = maxY = 0;
+    }
+
+    const padding = this.options.padding ?? 16;
+    return {
+      x: minX - padding,
+      y: minY - padding,
+      width: maxX - minX + padding * 2,
+      height: maxY - minY + padding * 2,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+import type { FlowchartModel } from '../core/model/FlowchartModel';
+import { MermaidParser } from '../core/parser/MermaidParser';
+import type { ParseDiagnostic } from '../core/parser/Diagnostic';
+import { MermaidFormatter, type FormatOptions } from '../core/serializer/MermaidFormatter';
+import {
+  HeadlessRenderer,
+  type DiagramLayout,
+  type HeadlessRenderOptions,
+} from './HeadlessRenderer';
+
+/**
+ * Result of parsing Mermaid flowchart code
+ */
+export interface FlowchartParseResult {
+  model: FlowchartModel;
+  diagnostics: ParseDiagnostic[];
+}
+
+const parser = new MermaidParser();
+
+/**
+ * Parse Mermaid flowchart code. Never throws; problems end up in `diagnostics`.
+ */
+export function parseFlowchart(code: string): FlowchartParseResult {
+  return parser.parseWithDiagnostics(code);
+}
+
+/**
+ * Check Mermaid flowchart code and return every diagnostic found
+ */
+export function validateFlowchart(code: string): ParseDiagnostic[] {
+  return parseFlowchart(code).diagnostics;
+}
+
+/**
+ * Whether any diagnostic is an error
+ */
+export function hasErrors(diagnostics: ParseDiagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === 'error');
+}
+
+/**
+ * Rewrite Mermaid flowchart code in canonical form.
+ * Statements the parser skipped would be lost, so code with errors is rejected.
+ */
+export function formatFlowchart(code: string, options: FormatOptions = {}): string {
+  return new MermaidFormatter(options).format(code);
+}
+
+/**
+ * Compute the automatic layout of Mermaid flowchart code
+ */
+export function layoutFlowchart(
+  code: string,
+  options: Omit<HeadlessRenderOptions, 'document' | 'background'> = {}
+): DiagramLayout {
+  return new HeadlessRenderer(options).layout(parseFlowchart(code).model);
+}
+
+/**
+ * Render Mermaid flowchart code to a standalone SVG document
+ */
+export function renderFlowchartSvg(code: string, options: HeadlessRenderOptions = {}): string {
+  return new HeadlessRenderer(options).render(parseFlowchart(code).model);
+}
@@ -0,0 +1,12 @@
+/**
+ * Headless entry: parse, validate, format, lay out and render Mermaid
+ * flowcharts without mounting the editor. Safe to load in Node; rendering
+ * only needs a (simulated) DOM document.
+ */
+export * from '../core';
+export * from '../canvas/layout';
+export { ShapeRenderer } from '../canvas/shapes/ShapeRenderer';
+export { EdgeRenderer } from '../canvas/edges/EdgeRenderer';
+export { routeEdgePoints, type EdgeRouterOptions } from '../canvas/edges/EdgeRouter';
+export * from './HeadlessRenderer';
+export * from './flowchart';
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ClickCallbackRegistry, parseCallArguments } from './ClickCallbackRegistry';
+
+describe('ClickCallbackRegistry', () => {
+  let registry: ClickCallbackRegistry;
+
+  beforeEach(() => {
+    registry = new ClickCallbackRegistry();
+  });
+
+  it('should pass the node ID when the click has no arguments', () => {
+    const callback = vi.fn();
+    registry.register('show', callback);
+
+    expect(registry.invoke('A', { name: 'show' })).toBe(true);
+    expect(registry.invoke('B', { name: 'show', args: '' })).toBe(true);
+
+    expect(callback.mock.calls).toEqual([
+      ['A', ['A']],
+      ['B', ['B']],
+    ]);
+  });
+
+  it('should pass the arguments of the call form', () => {
+    const callback = vi.fn();
+    registry.register('notify', callback);
+
+    registry.invoke('A', { name: 'notify', args: '"one, two", 3' });
+
+    expect(callback).toHaveBeenCalledWith('A', ['one, two', '3']);
+  });
+
+  it('should report callbacks that are not registered', () => {
+    const unregister = registry.register('show', vi.fn());
+    registry.registerAll({ hide: vi.fn() });
+
+    expect(registry.getNames()).toEqual(['show', 'hide']);
+    unregister();
+    registry.unregister('hide');
+
+    expect(registry.has('show')).toBe(false);
+    expect(registry.invoke('A', { name: 'hide' })).toBe(false);
+  });
+});
+
+describe('parseCallArguments', () => {
+  it('should split at commas outside quotes', () => {
+    expect(parseCallArguments('')).toEqual([]);
+    expect(parseCallArguments(' a , "b, c" ,"d"')).toEqual(['a', 'b, c', 'd']);
+  });
+});
@@ -0,0 +1,80 @@
+import type { NodeClickCallback } from '../../core/model/types';
+
+/**
+ * Host function invoked when a node with a `click` callback is clicked in
+ * preview mode. `args` follows Mermaid: the arguments of the `call` form,
+ * or the node ID when there are none.
+ */
+export type ClickCallback = (nodeId: string, args: string[]) => void;
+
+/**
+ * Split the argument list of `call fn(args)` at commas outside double
+ * quotes and strip the quotes, as Mermaid does
+ */
+export function parseCallArguments(args: string): string[] {
+  if (!args.trim()) return [];
+  return args.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map((arg) => {
+    const item = arg.trim();
+    return item.length >= 2 && item.startsWith('"') && item.endsWith('"') ? item.slice(1, -1) : item;
+  });
+}
+
+/**
+ * Named callbacks provided by the host application. Mermaid looks click
+ * callbacks up on `window`; the editor looks them up here instead.
+ */
+export class ClickCallbackRegistry {
+  private callbacks: Map<string, ClickCallback> = new Map();
+
+  /**
+   * Register a callback under the name used in `click` statements
+   * @returns Unregister function
+   */
+  register(name: string, callback: ClickCallback): () => void {
+    this.callbacks.set(name, callback);
+    return () => {
+      if (this.callbacks.get(name) === callback) {
+        this.callbacks.delete(name);
+      }
+    };
+  }
+
+  /**
+   * Register several callbacks at once
+   */
+  registerAll(callbacks: Record<string, ClickCallback>): void {
+    for (const [name, callback] of Object.entries(callbacks)) {
+      this.register(name, callback);
+    }
+  }
+
+  /**
+   * Remove a callback
+   */
+  unregister(name: string): void {
+    this.callbacks.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.callbacks.has(name);
+  }
+
+  /**
+   * Names of all registered callbacks
+   */
+  getNames(): string[] {
+    return [...this.callbacks.keys()];
+  }
+
+  /**
+   * Invoke the callback a node's click statement names
+   * @returns false when nothing is registered under the name
+   */
+  invoke(nodeId: string, callback: NodeClickCallback): boolean {
+    const fn = this.callbacks.get(callback.name);
+    if (!fn) return false;
+    const args = callback.args === undefined ? [] : parseCallArguments(callback.args);
+    fn(nodeId, args.length > 0 ? args : [nodeId]);
+    return true;
+  }
+}
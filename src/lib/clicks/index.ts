@@ -0,0 +1,2 @@
+export { ClickCallbackRegistry, parseCallArguments } from './ClickCallbackRegistry';
+export type { ClickCallback } from './ClickCallbackRegistry';
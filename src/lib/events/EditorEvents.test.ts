@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EditorEvents, emitModelChange } from './EditorEvents';
+import { FlowchartModel } from '../../core/model/FlowchartModel';
+
+describe('EditorEvents', () => {
+  let events: EditorEvents;
+
+  beforeEach(() => {
+    events = new EditorEvents();
+  });
+
+  describe('on/off/once', () => {
+    it('should deliver payloads to listeners of the same event only', () => {
+      const selection = vi.fn();
+      const viewport = vi.fn();
+      events.on('selection:change', selection);
+      events.on('viewport:change', viewport);
+
+      events.emit('selection:change', { nodeIds: ['A'], edgeId: null });
+
+      expect(selection).toHaveBeenCalledWith({ nodeIds: ['A'], edgeId: null });
+      expect(viewport).not.toHaveBeenCalled();
+    });
+
+    it('should unsubscribe with off and with the returned function', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      events.on('parse:error', first);
+      const dispose = events.on('parse:error', second);
+
+      events.off('parse:error', first);
+      dispose();
+      events.emit('parse:error', { message: 'bad', source: 'parser' });
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).not.toHaveBeenCalled();
+      expect(events.hasListeners('parse:error')).toBe(false);
+    });
+
+    it('should call once listeners a single time', () => {
+      const listener = vi.fn();
+      events.once('mode:change', listener);
+
+      events.emit('mode:change', { mode: 'edit', diagramType: 'flowchart' });
+      events.emit('mode:change', { mode: 'readonly', diagramType: 'sequenceDiagram' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ mode: 'edit', diagramType: 'flowchart' });
+    });
+
+    it('should remove all listeners', () => {
+      const listener = vi.fn();
+      events.on('history:change', listener);
+
+      events.removeAllListeners();
+      events.emit('history:change', { items: [], canUndo: false, canRedo: false });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('emitModelChange', () => {
+    let model: FlowchartModel;
+
+    beforeEach(() => {
+      model = new FlowchartModel();
+      model.on((change) => emitModelChange(events, change));
+    });
+
+    it('should map node and edge changes to typed events', () => {
+      const nodeAdd = vi.fn();
+      const edgeUpdate = vi.fn();
+      events.on('node:add', nodeAdd);
+      events.on('edge:update', edgeUpdate);
+
+      model.addNode({ id: 'A', text: 'A', shape: 'rect' });
+      model.addNode({ id: 'B', text: 'B', shape: 'rect' });
+      model.addEdge({ id: 'e1', source: 'A', target: 'B', stroke: 'normal', arrowStart: 'none', arrowEnd: 'arrow' });
+      model.updateEdge('e1', { text: 'go' });
+
+      expect(nodeAdd).toHaveBeenCalledTimes(2);
+      expect(nodeAdd.mock.calls[0][0].node).toMatchObject({ id: 'A', text: 'A' });
+      expect(edgeUpdate).toHaveBeenCalledTimes(1);
+      expect(edgeUpdate.mock.calls[0][0].edge.text).toBe('go');
+      expect(edgeUpdate.mock.calls[0][0].previous.text).toBeUndefined();
+    });
+
+    it('should flatten batched changes', () => {
+      const nodeRemove = vi.fn();
+      const edgeRemove = vi.fn();
+      model.addNode({ id: 'A', text: 'A', shape: 'rect' });
+      model.addNode({ id: 'B', text: 'B', shape: 'rect' });
+      model.addEdge({ source: 'A', target: 'B', stroke: 'normal', arrowStart: 'none', arrowEnd: 'arrow' });
+      events.on('node:remove', nodeRemove);
+      events.on('edge:remove', edgeRemove);
+
+      model.removeNode('A');
+
+      expect(nodeRemove).toHaveBeenCalledWith({ node: expect.objectContaining({ id: 'A' }) });
+      expect(edgeRemove).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report whole-model loads', () => {
+      const load = vi.fn();
+      events.on('model:load', load);
+
+      model.load({ direction: 'LR', nodes: [{ id: 'X', text: 'X', shape: 'rect' }], edges: [], subGraphs: [] });
+
+      expect(load).toHaveBeenCalledTimes(1);
+      expect(load.mock.calls[0][0].data.direction).toBe('LR');
+    });
+  });
+});
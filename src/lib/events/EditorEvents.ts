@@ -0,0 +1,190 @@
+import type { FlowNode, NodeData } from '../../core/model/Node';
+import type { FlowEdge, EdgeData } from '../../core/model/Edge';
+import type { FlowSubGraph, SubGraphData } from '../../core/model/SubGraph';
+import type { FlowchartModel, FlowchartData } from '../../core/model/FlowchartModel';
+import type { ClassDef, Direction, ModelChangeEvent } from '../../core/model/types';
+import type { HistoryItem } from '../../core/command/CommandHistory';
+import type { ParseDiagnostic } from '../../core/parser/Diagnostic';
+import type { CodeChangeMeta } from '../types';
+
+/**
+ * Editor interaction mode
+ * - `edit`: flowchart that can be edited on the canvas
+ * - `readonly`: preview only (read-only option or non-flowchart diagram)
+ */
+export type EditorMode = 'edit' | 'readonly';
+
+/**
+ * Event name → payload map for `MerfolkEditor.on/off/once`
+ */
+export interface EditorEventMap {
+  'node:add': { node: NodeData };
+  'node:remove': { node: NodeData };
+  'node:update': { node: NodeData; previous: NodeData };
+  'edge:add': { edge: EdgeData };
+  'edge:remove': { edge: EdgeData };
+  'edge:update': { edge: EdgeData; previous: EdgeData };
+  'subgraph:add': { subGraph: SubGraphData };
+  'subgraph:remove': { subGraph: SubGraphData };
+  'subgraph:update': { subGraph: SubGraphData; previous: SubGraphData };
+  'direction:change': { direction: Direction; previous: Direction };
+  /** A classDef was created, changed or removed (`classDef` is null when removed) */
+  'classdef:change': { name: string; classDef: ClassDef | null; previous: ClassDef | null };
+  /** The whole model was replaced (e.g. after parsing edited code) */
+  'model:load': { data: FlowchartData };
+  'code:change': { code: string; meta: CodeChangeMeta };
+  'selection:change': { nodeIds: string[]; edgeId: string | null; subGraphId?: string | null };
+  'viewport:change': { scale: number; translateX: number; translateY: number };
+  'parse:error': { message: string; source: 'parser' | 'render' };
+  /** Parser diagnostics for the current code changed */
+  'diagnostics:change': { diagnostics: ParseDiagnostic[] };
+  'history:change': { items: HistoryItem[]; canUndo: boolean; canRedo: boolean };
+  'mode:change': { mode: EditorMode; diagramType: string };
+}
+
+export type EditorEventName = keyof EditorEventMap;
+
+export type EditorEventListener<K extends EditorEventName> = (payload: EditorEventMap[K]) => void;
+
+/**
+ * Emit function handed to components that produce editor events
+ */
+export type EditorEventSink = <K extends EditorEventName>(
+  event: K,
+  payload: EditorEventMap[K]
+) => void;
+
+/**
+ * Name-keyed event emitter with typed payloads
+ */
+export class EditorEvents {
+  private listeners: Map<EditorEventName, Set<(payload: never) => void>> = new Map();
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribe function
+   */
+  on<K extends EditorEventName>(event: K, listener: EditorEventListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends EditorEventName>(event: K, listener: EditorEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @returns Unsubscribe function
+   */
+  once<K extends EditorEventName>(event: K, listener: EditorEventListener<K>): () => void {
+    const wrapper: EditorEventListener<K> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Emit an event to all of its listeners
+   */
+  emit<K extends EditorEventName>(event: K, payload: EditorEventMap[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set]) {
+      (listener as EditorEventListener<K>)(payload);
+    }
+  }
+
+  /**
+   * Check whether an event has listeners
+   */
+  hasListeners(event: EditorEventName): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Remove all listeners
+   */
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Forward model change events (flattening batches) to editor events
+ */
+export function emitModelChange(events: EditorEvents, change: ModelChangeEvent): void {
+  switch (change.type) {
+    case 'batch':
+      for (const child of change.newValue as ModelChangeEvent[]) {
+        emitModelChange(events, child);
+      }
+      break;
+    case 'node:add':
+      events.emit('node:add', { node: (change.newValue as FlowNode).toData() });
+      break;
+    case 'node:remove':
+      events.emit('node:remove', { node: (change.previousValue as FlowNode).toData() });
+      break;
+    case 'node:update':
+      events.emit('node:update', {
+        node: (change.newValue as FlowNode).toData(),
+        previous: (change.previousValue as FlowNode).toData(),
+      });
+      break;
+    case 'edge:add':
+      events.emit('edge:add', { edge: (change.newValue as FlowEdge).toData() });
+      break;
+    case 'edge:remove':
+      events.emit('edge:remove', { edge: (change.previousValue as FlowEdge).toData() });
+      break;
+    case 'edge:update':
+      events.emit('edge:update', {
+        edge: (change.newValue as FlowEdge).toData(),
+        previous: (change.previousValue as FlowEdge).toData(),
+      });
+      break;
+    case 'subgraph:add':
+      events.emit('subgraph:add', { subGraph: (change.newValue as FlowSubGraph).toData() });
+      break;
+    case 'subgraph:remove':
+      events.emit('subgraph:remove', {
+        subGraph: (change.previousValue as FlowSubGraph).toData(),
+      });
+      break;
+    case 'subgraph:update':
+      events.emit('subgraph:update', {
+        subGraph: (change.newValue as FlowSubGraph).toData(),
+        previous: (change.previousValue as FlowSubGraph).toData(),
+      });
+      break;
+    case 'direction:change':
+      events.emit('direction:change', {
+        direction: change.newValue as Direction,
+        previous: change.previousValue as Direction,
+      });
+      break;
+    case 'classdef:change':
+      events.emit('classdef:change', {
+        name: change.target as string,
+        classDef: (change.newValue as ClassDef | undefined) ?? null,
+        previous: (change.previousValue as ClassDef | undefined) ?? null,
+      });
+      break;
+    case 'load':
+      // Skip the full export when nobody listens
+      if (events.hasListeners('model:load')) {
+        events.emit('model:load', { data: (change.newValue as FlowchartModel).toData() });
+      }
+      break;
+  }
+}
@@ -0,0 +1,8 @@
+export { EditorEvents, emitModelChange } from './EditorEvents';
+export type {
+  EditorEventMap,
+  EditorEventName,
+  EditorEventListener,
+  EditorEventSink,
+  EditorMode,
+} from './EditorEvents';
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdf, getSvgSize, prepareCanvasSvg, prepareSvg } from './DiagramExporter';
+
+const MERMAID_SVG =
+  '<svg id="graph-1" xmlns="http://www.w3.org/2000/svg" width="100%" ' +
+  'style="max-width: 120px;" viewBox="-8 -8 120 80">' +
+  '<style>#graph-1 .node rect{fill:#eee;}</style>' +
+  '<g class="root"><g class="node"><rect width="40" height="20"/></g></g>' +
+  '</svg>';
+
+describe('DiagramExporter', () => {
+  describe('prepareSvg', () => {
+    it('should give the SVG an explicit size with padding', () => {
+      const svg = prepareSvg(MERMAID_SVG, { padding: 10 });
+
+      expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg')).toBe(true);
+      expect(svg).toContain('viewBox="-18 -18 140 100"');
+      expect(svg).toContain('width="140"');
+      expect(svg).toContain('height="100"');
+      expect(svg).not.toContain('max-width');
+      expect(getSvgSize(svg)).toEqual({ width: 140, height: 100 });
+    });
+
+    it('should keep the embedded stylesheet', () => {
+      const svg = prepareSvg(MERMAID_SVG);
+
+      expect(svg).toContain('<style>#graph-1 .node rect{fill:#eee;}</style>');
+      expect(svg).toContain('xmlns="http://www.w3.org/2000/svg"');
+    });
+
+    it('should paint the background underneath the diagram', () => {
+      const svg = prepareSvg(MERMAID_SVG, { background: '#ffffff', padding: 0 });
+      const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+      const first = doc.documentElement.firstElementChild!;
+
+      expect(first.localName).toBe('rect');
+      expect(first.getAttribute('fill')).toBe('#ffffff');
+      expect(first.getAttribute('x')).toBe('-8');
+      expect(first.getAttribute('width')).toBe('120');
+    });
+
+    it('should reject output that is not SVG', () => {
+      expect(() => prepareSvg('<div>oops</div>')).toThrow('not a valid SVG');
+    });
+  });
+
+  describe('prepareCanvasSvg', () => {
+    // The canvas after moving node B to its pinned position, with B selected
+    const canvasSvg = (): SVGSVGElement => {
+      const container = document.createElement('div');
+      container.innerHTML =
+        '<svg id="mermaid-interactive-1" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 260" ' +
+        'style="width: 400px; height: 260px;">' +
+        '<g class="root">' +
+        '<g class="node" id="flowchart-A-0" transform="translate(60, 40)"><rect width="40" height="20"/></g>' +
+        '<g class="node selected" id="flowchart-B-1" transform="translate(320, 210)"><rect width="40" height="20"/></g>' +
+        '<path class="flowchart-link edge-selected" d="M60,40L320,210"/>' +
+        '</g>' +
+        '<text class="interactive-edge-label">yes</text>' +
+        '<g class="node-overlay-group"><rect x="298" y="198" width="44" height="24"/></g>' +
+        '<g class="edge-route-overlay"><circle cx="190" cy="125" r="4"/></g>' +
+        '</svg>';
+      return container.querySelector('svg')!;
+    };
+
+    it('should keep pinned positions and routes as the canvas shows them', () => {
+      const svg = prepareCanvasSvg(canvasSvg(), { padding: 0 });
+
+      expect(svg).toContain('id="flowchart-B-1" transform="translate(320, 210)"');
+      expect(svg).toContain('d="M60,40L320,210"');
+      expect(svg).toContain('viewBox="0 0 400 260"');
+      expect(svg).not.toContain('width: 400px');
+    });
+
+    it('should leave out the selection and handle overlays', () => {
+      const canvas = canvasSvg();
+      const svg = prepareCanvasSvg(canvas);
+
+      expect(svg).not.toContain('node-overlay-group');
+      expect(svg).not.toContain('edge-route-overlay');
+      expect(svg).not.toMatch(/selected/);
+      expect(svg).toMatch(/<text class="interactive-edge-label" fill="[^"]+" font-size="[^"]+"/);
+      // The canvas keeps its own state
+      expect(canvas.querySelector('.node-overlay-group')).not.toBeNull();
+      expect(canvas.querySelector('#flowchart-B-1')!.classList.contains('selected')).toBe(true);
+    });
+  });
+
+  describe('buildPdf', () => {
+    const decode = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+    it('should embed the JPEG on a page of the given size', () => {
+      const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+      const text = decode(buildPdf(jpeg, { width: 200, height: 100 }, { width: 75, height: 37.5 }));
+
+      expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(text).toContain('/MediaBox [0 0 75 37.5]');
+      expect(text).toContain('/Width 200 /Height 100');
+      expect(text).toContain('/Filter /DCTDecode /Length 4');
+      expect(text).toContain('q 75 0 0 37.5 0 0 cm /Im0 Do Q');
+      expect(text.endsWith('%%EOF\n')).toBe(true);
+    });
+
+    it('should point the cross-reference table at each object', () => {
+      const bytes = buildPdf(new Uint8Array([1, 2, 3]), { width: 1, height: 1 }, { width: 1, height: 1 });
+      const text = decode(bytes);
+
+      const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+      expect(text.slice(startxref).startsWith('xref\n0 6\n')).toBe(true);
+
+      const offsets = [...text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+      expect(offsets).toHaveLength(5);
+      offsets.forEach((offset, index) => {
+        expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import type { MermaidConfig } from 'mermaid';
+import {
+  ensureMermaidInitialized,
+  resolveMermaidApi,
+  shouldInitializeMermaid,
+  type MermaidAPI,
+} from '../../core/utils/mermaid';
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+export interface SvgExportOptions {
+  /** Background fill, transparent when omitted */
+  background?: string;
+  /** Space around the diagram in SVG units (default 16) */
+  padding?: number;
+}
+
+export interface PngExportOptions extends SvgExportOptions {
+  /** Pixel ratio of the raster image (default 2) */
+  scale?: number;
+}
+
+/**
+ * PDF pages embed a raster image; the background defaults to white
+ */
+export type PdfExportOptions = PngExportOptions;
+
+/**
+ * Which Mermaid instance renders the export
+ */
+export interface ExportRenderOptions {
+  /** Mermaid instance; falls back to `window.mermaid`, then the bundled one */
+  mermaid?: MermaidAPI;
+  mermaidConfig?: MermaidConfig;
+  /** Initialize Mermaid with the config; by default only the bundled instance is initialized */
+  initializeMermaid?: boolean;
+}
+
+/** Points per CSS pixel (72 / 96) */
+const PX_TO_PT = 0.75;
+
+let exportCounter = 0;
+
+/**
+ * Elements the interactive canvas draws over the diagram: selection frame,
+ * ports, waypoint handles and the edge being dragged
+ */
+const CANVAS_OVERLAY_SELECTOR = '.node-overlay-group, .edge-route-overlay, .drag-edge-group';
+
+/**
+ * Classes the interactive canvas adds for selection, search, hover and dragging
+ */
+const CANVAS_STATE_CLASSES = [
+  'selected',
+  'subgraph-selected',
+  'edge-selected',
+  'keyboard-focus',
+  'node-highlight',
+  'node-entering',
+  'node-dragging',
+  'drag-target',
+  'cluster-drop-target',
+  'search-match',
+  'search-current',
+];
+
+/**
+ * Render Mermaid code to a standalone SVG document.
+ * The diagram is laid out by Mermaid from the code alone; use
+ * `prepareCanvasSvg` to export what the editor canvas shows.
+ */
+export async function renderSvg(
+  code: string,
+  options: SvgExportOptions & ExportRenderOptions = {}
+): Promise<string> {
+  const api = resolveMermaidApi(options.mermaid);
+  ensureMermaidInitialized(
+    api,
+    options.mermaidConfig,
+    shouldInitializeMermaid(options.mermaid, options.initializeMermaid)
+  );
+  const { svg } = await api.render(`merfolk-export-${++exportCounter}`, code);
+  return prepareSvg(svg, options);
+}
+
+/**
+ * Render Mermaid code to a PNG image
+ */
+export async function renderPng(
+  code: string,
+  options: PngExportOptions & ExportRenderOptions = {}
+): Promise<Blob> {
+  return svgToPng(await renderSvg(code, options), options);
+}
+
+/**
+ * Render Mermaid code to a single-page PDF sized to the diagram
+ */
+export async function renderPdf(
+  code: string,
+  options: PdfExportOptions & ExportRenderOptions = {}
+): Promise<Blob> {
+  const svg = await renderSvg(code, { ...options, background: options.background ?? '#ffffff' });
+  return svgToPdf(svg, options);
+}
+
+/**
+ * Rasterize a standalone SVG document to a PNG image
+ */
+export async function svgToPng(svg: string, options: Pick<PngExportOptions, 'scale'> = {}): Promise<Blob> {
+  const canvas = await rasterizeSvg(svg, options.scale ?? 2);
+  return canvasToBlob(canvas, 'image/png');
+}
+
+/**
+ * Put a standalone SVG document on a single PDF page sized to it.
+ * The page shows the SVG's own background, so give it one first.
+ */
+export async function svgToPdf(svg: string, options: Pick<PdfExportOptions, 'scale'> = {}): Promise<Blob> {
+  const { width, height } = getSvgSize(svg);
+  const canvas = await rasterizeSvg(svg, options.scale ?? 2);
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.95);
+  const pdf = buildPdf(
+    new Uint8Array(await jpeg.arrayBuffer()),
+    { width: canvas.width, height: canvas.height },
+    { width: width * PX_TO_PT, height: height * PX_TO_PT }
+  );
+  return new Blob([pdf], { type: 'application/pdf' });
+}
+
+/**
+ * Export the diagram as the interactive canvas shows it, with pinned
+ * positions, the chosen layout and edge routes, but without the canvas's
+ * selection, handles and other overlays. The canvas element is not modified.
+ */
+export function prepareCanvasSvg(svg: SVGSVGElement, options: SvgExportOptions = {}): string {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.querySelectorAll(CANVAS_OVERLAY_SELECTOR).forEach((element) => element.remove());
+  for (const className of CANVAS_STATE_CLASSES) {
+    copy.querySelectorAll(`.${className}`).forEach((element) => element.classList.remove(className));
+  }
+  // Edge labels the canvas draws itself are styled by the page; keep their look
+  const labels = svg.querySelectorAll('.interactive-edge-label');
+  copy.querySelectorAll('.interactive-edge-label').forEach((label, index) => {
+    const style = getComputedStyle(labels[index]);
+    label.setAttribute('fill', style.fill || '#333333');
+    label.setAttribute('font-size', style.fontSize || '12px');
+    label.setAttribute('font-family', style.fontFamily || 'sans-serif');
+  });
+  return prepareSvg(new XMLSerializer().serializeToString(copy), options);
+}
+
+/**
+ * Turn Mermaid's SVG output into a standalone document: explicit size and
+ * padding, no responsive `max-width` style, optional background.
+ * Mermaid already embeds its stylesheet in a `<style>` element scoped to the
+ * SVG's ID, so the result renders the same outside the page.
+ */
+export function prepareSvg(svgText: string, options: SvgExportOptions = {}): string {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (svg.localName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Rendered diagram is not a valid SVG document');
+  }
+
+  const padding = options.padding ?? 16;
+  const box = readViewBox(svg);
+  const x = box.x - padding;
+  const y = box.y - padding;
+  const width = box.width + padding * 2;
+  const height = box.height + padding * 2;
+
+  svg.removeAttribute('style');
+  svg.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+
+  if (options.background) {
+    const rect = doc.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    rect.setAttribute('x', String(x));
+    rect.setAttribute('y', String(y));
+    rect.setAttribute('width', String(width));
+    rect.setAttribute('height', String(height));
+    rect.setAttribute('fill', options.background);
+    // Painted first, underneath the diagram
+    svg.insertBefore(rect, svg.firstChild);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}`;
+}
+
+/**
+ * Width and height of an SVG document in CSS pixels
+ */
+export function getSvgSize(svgText: string): { width: number; height: number } {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const svg = doc.documentElement;
+  const width = parseFloat(svg.getAttribute('width') ?? '');
+  const height = parseFloat(svg.getAttribute('height') ?? '');
+  if (width > 0 && height > 0) {
+    return { width, height };
+  }
+  const box = readViewBox(svg);
+  return { width: box.width, height: box.height };
+}
+
+/**
+ * Build a one-page PDF that shows a JPEG image across the whole page.
+ * JPEG data can be embedded as-is (DCTDecode), which keeps the writer tiny.
+ * @param pixels Size of the JPEG in pixels
+ * @param page Page size in points
+ */
+export function buildPdf(
+  jpeg: Uint8Array,
+  pixels: { width: number; height: number },
+  page: { width: number; height: number }
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const pageWidth = formatNumber(page.width);
+  const pageHeight = formatNumber(page.height);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  write('%PDF-1.4\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      '/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>'
+  );
+
+  offsets.push(length);
+  write(
+    `4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${pixels.width} /Height ${pixels.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+  );
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  for (const offset of offsets) {
+    write(`${String(offset).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+function readViewBox(svg: Element): { x: number; y: number; width: number; height: number } {
+  const values = (svg.getAttribute('viewBox') ?? '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (values.length === 4 && values.every(Number.isFinite)) {
+    const [x, y, width, height] = values;
+    return { x, y, width, height };
+  }
+  return {
+    x: 0,
+    y: 0,
+    width: parseFloat(svg.getAttribute('width') ?? '') || 0,
+    height: parseFloat(svg.getAttribute('height') ?? '') || 0,
+  };
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Draw an SVG document onto a canvas at the given pixel ratio
+ */
+async function rasterizeSvg(svgText: string, scale: number): Promise<HTMLCanvasElement> {
+  const { width, height } = getSvgSize(svgText);
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to load the SVG for rasterizing'));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(width * scale));
+    canvas.height = Math.max(1, Math.ceil(height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`Failed to encode ${type}`))),
+      type,
+      quality
+    );
+  });
+}
@@ -0,0 +1,18 @@
+export {
+  renderSvg,
+  renderPng,
+  renderPdf,
+  svgToPng,
+  svgToPdf,
+  prepareSvg,
+  prepareCanvasSvg,
+  getSvgSize,
+  buildPdf,
+} from './DiagramExporter';
+export type {
+  ExportFormat,
+  SvgExportOptions,
+  PngExportOptions,
+  PdfExportOptions,
+  ExportRenderOptions,
+} from './DiagramExporter';
@@ -1,7 +1,32 @@
 import { mount, unmount, type Component } from 'svelte';
 import Editor from '../components/Editor.svelte';
 import { SyncEngine } from '../core/sync/SyncEngine';
-import type { SyncEngineOptions } from '../core/sync/SyncEngine';
+import type {
+  SyncEngineOptions,
+  NodePosition,
+  DiagramAccessibility,
+  NodeClickUpdate,
+  NodeStyleUpdate,
+  EdgeUpdate,
+} from '../core/sync/SyncEngine';
+import type { HistoryItem } from '../core/command/CommandHistory';
+import type { ParseDiagnostic } from '../core/parser/Diagnostic';
+import type { FormatOptions } from '../core/serializer/MermaidFormatter';
+import type { LayoutEngineName } from '../canvas/layout';
+import type { ClassDef, EdgeRoute, NodeStyle } from '../core/model/types';
+import type { DiagramConfig } from '../core/model/config';
+import type { ClipboardPayload, PasteOptions } from '../core/clipboard/Clipboard';
+import type { ModelSearchMatch } from '../core/utils/ModelSearch';
+import type { TextSearchOptions } from '../core/utils/TextSearch';
+import {
+  EditorEvents,
+  emitModelChange,
+  type EditorEventListener,
+  type EditorEventName,
+  type EditorEventSink,
+} from './events';
+import type { PdfExportOptions, PngExportOptions, SvgExportOptions } from './export';
+import { ClickCallbackRegistry, type ClickCallback } from './clicks';
 import type {
   CodeChangeMeta,
   EditorOptions,
@@ -23,6 +48,11 @@ type EditorProps = {
   mermaidConfig?: import('mermaid').MermaidConfig;
   initializeMermaid?: boolean;
   autoFitOnResize?: boolean;
+  formatOptions?: FormatOptions;
+  stableLayout?: boolean;
+  showMinimap?: boolean;
+  onEvent?: EditorEventSink;
+  clickCallbacks?: ClickCallbackRegistry;
 };
 
 type EditorComponentInstance = {
@@ -38,6 +68,22 @@ type EditorComponentInstance = {
   fitToView: () => void;
   refresh: () => void;
   resize: () => void;
+  exportSvg: (options?: SvgExportOptions) => Promise<string>;
+  exportPng: (options?: PngExportOptions) => Promise<Blob>;
+  exportPdf: (options?: PdfExportOptions) => Promise<Blob>;
+  formatCode: () => boolean;
+  resetNodePositions: (nodeIds?: string[] | null) => void;
+  applyLayout: (layout: LayoutEngineName | 'mermaid') => Promise<boolean>;
+  setStableLayout: (enabled: boolean) => void;
+  setShowMinimap: (visible: boolean) => void;
+  setEdgeRoute: (edgeId: string, route: EdgeRoute) => void;
+  copyNodes: (nodeIds: string[]) => ClipboardPayload | null;
+  cutNodes: (nodeIds: string[]) => ClipboardPayload | null;
+  pasteNodes: (payload?: ClipboardPayload | null, options?: PasteOptions) => string[];
+  duplicateNodes: (nodeIds: string[]) => string[];
+  renameNode: (nodeId: string, newId: string) => boolean;
+  searchElements: (query: string, options?: TextSearchOptions) => ModelSearchMatch[];
+  replaceText: (query: string, replacement: string, options?: TextSearchOptions) => number;
 };
 
 /**
@@ -47,16 +93,25 @@ export default class MerfolkEditor {
   private editor: EditorComponentInstance;
   private container: HTMLElement;
   private syncEngine: SyncEngine;
+  private events = new EditorEvents();
+  private clickCallbacks = new ClickCallbackRegistry();
+  private disposers: (() => void)[] = [];
 
   constructor(container: HTMLElement, options: EditorOptions = {}) {
     this.container = container;
+    if (options.clickCallbacks) {
+      this.clickCallbacks.registerAll(options.clickCallbacks);
+    }
     // Create Svelte component
     const EditorComponent = Editor as unknown as Component<EditorProps, EditorComponentInstance>;
     this.editor = mount(EditorComponent, {
       target: container,
       props: {
         initialCode: options.initialCode,
-        onCodeChange: options.onCodeChange,
+        onCodeChange: (code, meta) => {
+          options.onCodeChange?.(code, meta);
+          this.events.emit('code:change', { code, meta });
+        },
         onClearDraft: options.onClearDraft,
         syncDelay: options.syncDelay,
         sync: options.sync,
@@ -67,6 +122,11 @@ export default class MerfolkEditor {
         mermaidConfig: options.mermaidConfig,
         initializeMermaid: options.initializeMermaid,
         autoFitOnResize: options.autoFitOnResize,
+        formatOptions: options.formatOptions,
+        stableLayout: options.stableLayout,
+        showMinimap: options.showMinimap,
+        onEvent: (event, payload) => this.events.emit(event, payload),
+        clickCallbacks: this.clickCallbacks,
       },
     });
     this.syncEngine = this.editor.getSyncEngine();
@@ -75,6 +135,44 @@ export default class MerfolkEditor {
     this.setupCallbacks(options);
   }
 
+  /**
+   * 订阅编辑器事件
+   * @returns 取消订阅函数
+   */
+  on<K extends EditorEventName>(event: K, listener: EditorEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * 取消订阅编辑器事件
+   */
+  off<K extends EditorEventName>(event: K, listener: EditorEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * 只订阅下一次事件
+   * @returns 取消订阅函数
+   */
+  once<K extends EditorEventName>(event: K, listener: EditorEventListener<K>): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * 注册预览模式下节点 click 语句调用的回调(`click A name` / `click A call name(args)`)
+   * @returns 取消注册函数
+   */
+  registerClickCallback(name: string, callback: ClickCallback): () => void {
+    return this.clickCallbacks.register(name, callback);
+  }
+
+  /**
+   * 取消注册 click 回调
+   */
+  unregisterClickCallback(name: string): void {
+    this.clickCallbacks.unregister(name);
+  }
+
   /**
    * 获取当前 Mermaid 代码
    */
@@ -96,6 +194,77 @@ export default class MerfolkEditor {
     this.syncEngine.removeNode(nodeId);
   }
 
+  /**
+   * 批量删除节点(作为一步撤销)
+   */
+  removeNodes(nodeIds: string[]): void {
+    this.syncEngine.removeNodes(nodeIds);
+  }
+
+  /**
+   * 重命名节点 ID(一步撤销),连线、子图、class / style / click 语句和固定位置中的引用随之更新
+   * @returns 节点不存在或新 ID 不可用时返回 false
+   */
+  renameNode(nodeId: string, newId: string): boolean {
+    return this.editor.renameNode(nodeId, newId);
+  }
+
+  /**
+   * 检查节点 ID 是否可用(格式、Mermaid 关键字、是否重复)
+   * @param currentId 重命名时的原 ID
+   * @returns 不可用的原因,可用时返回 null
+   */
+  validateNodeId(id: string, currentId?: string): string | null {
+    return this.syncEngine.validateNodeId(id, currentId);
+  }
+
+  /**
+   * 复制节点及其之间的连线、完整选中的子图和用到的样式类
+   * 返回的内容可粘贴到其他编辑器,也可用 clipboardToMermaid 转为 Mermaid 文本
+   */
+  copyNodes(nodeIds: string[]): ClipboardPayload | null {
+    return this.editor.copyNodes(nodeIds);
+  }
+
+  /**
+   * 剪切节点(可撤销)
+   */
+  cutNodes(nodeIds: string[]): ClipboardPayload | null {
+    return this.editor.cutNodes(nodeIds);
+  }
+
+  /**
+   * 粘贴复制的内容(可撤销),冲突的 ID 自动重新编号
+   * @param payload 省略时使用最近复制的内容
+   * @returns 新节点 ID
+   */
+  pasteNodes(payload?: ClipboardPayload | null, options?: PasteOptions): string[] {
+    return this.editor.pasteNodes(payload, options);
+  }
+
+  /**
+   * 在原处创建节点副本(可撤销)
+   * @returns 副本的节点 ID
+   */
+  duplicateNodes(nodeIds: string[]): string[] {
+    return this.editor.duplicateNodes(nodeIds);
+  }
+
+  /**
+   * 在节点文本、连线文本、子图标题和 ID 中查找
+   */
+  searchElements(query: string, options?: TextSearchOptions): ModelSearchMatch[] {
+    return this.editor.searchElements(query, options);
+  }
+
+  /**
+   * 替换节点文本、连线文本和子图标题中的匹配(一步撤销),ID 保持不变
+   * @returns 替换的匹配数
+   */
+  replaceText(query: string, replacement: string, options?: TextSearchOptions): number {
+    return this.editor.replaceText(query, replacement, options);
+  }
+
   /**
    * 设置节点位置
    */
@@ -103,6 +272,182 @@ export default class MerfolkEditor {
     this.syncEngine.updateNodePosition(nodeId, x, y);
   }
 
+  /**
+   * 移动节点(可撤销)
+   */
+  moveNodes(positions: NodePosition[]): void {
+    this.syncEngine.moveNodes(positions);
+  }
+
+  /**
+   * 取消节点的固定位置,恢复自动布局(可撤销,省略参数时重置全部)
+   */
+  resetNodePositions(nodeIds?: string[]): void {
+    this.editor.resetNodePositions(nodeIds);
+  }
+
+  /**
+   * 用指定布局引擎重新排布全部节点(可撤销),'mermaid' 恢复 Mermaid 自动布局
+   */
+  applyLayout(layout: LayoutEngineName | 'mermaid'): Promise<boolean> {
+    return this.editor.applyLayout(layout);
+  }
+
+  /**
+   * 开启/关闭稳定布局:画布编辑只为新节点计算位置,已有节点保持不动
+   */
+  setStableLayout(enabled: boolean): void {
+    this.editor.setStableLayout(enabled);
+  }
+
+  /**
+   * 显示/隐藏画布右下角的小地图
+   */
+  setShowMinimap(visible: boolean): void {
+    this.editor.setShowMinimap(visible);
+  }
+
+  /**
+   * 设置连线的路由方式('curved' | 'straight' | 'orthogonal')和途经点(可撤销)
+   * 只修改提供的字段,空的途经点列表表示清除
+   */
+  setEdgeRoute(edgeId: string, route: EdgeRoute): void {
+    this.editor.setEdgeRoute(edgeId, route);
+  }
+
+  /**
+   * 获取所有非默认的连线路由,按连线 ID
+   */
+  getEdgeRoutes(): Record<string, EdgeRoute> {
+    return this.syncEngine.exportEdgeRoutes();
+  }
+
+  /**
+   * 修改连线的文本、线型、箭头、linkStyle 样式、动画、长度和曲线(可撤销)
+   * 只修改提供的字段,字段值为 undefined 表示清除
+   */
+  updateEdge(edgeId: string, updates: EdgeUpdate): void {
+    this.syncEngine.updateEdge(edgeId, updates);
+  }
+
+  /**
+   * 修改节点的内联样式与样式类(作为一步撤销)
+   */
+  updateNodeStyle(nodeIds: string[], update: NodeStyleUpdate): void {
+    this.syncEngine.updateNodeStyle(nodeIds, update);
+  }
+
+  /**
+   * 修改节点的链接、提示文本和回调(click 语句,可撤销)
+   * 出现的字段即被设置,值为 undefined 或空串时清除
+   */
+  updateNodeClick(nodeId: string, update: NodeClickUpdate): void {
+    this.syncEngine.updateNodeClick(nodeId, update);
+  }
+
+  /**
+   * 获取全部样式类定义(classDef)
+   */
+  getClassDefs(): Record<string, ClassDef> {
+    return this.syncEngine.getClassDefs();
+  }
+
+  /**
+   * 新建或修改样式类,类名无效或样式为空时返回 false
+   */
+  defineClassDef(name: string, style: NodeStyle): boolean {
+    return this.syncEngine.defineClassDef(name, style);
+  }
+
+  /**
+   * 重命名样式类(同时更新使用它的节点)
+   */
+  renameClassDef(name: string, newName: string): boolean {
+    return this.syncEngine.renameClassDef(name, newName);
+  }
+
+  /**
+   * 删除样式类(同时从节点上移除)
+   */
+  deleteClassDef(name: string): void {
+    this.syncEngine.deleteClassDef(name);
+  }
+
+  /**
+   * 获取图表标题与生效的 Mermaid 配置(frontmatter 叠加 init 指令)
+   */
+  getDiagramSettings(): { title?: string; config: DiagramConfig } {
+    return this.syncEngine.getDiagramSettings();
+  }
+
+  /**
+   * 修改图表标题与 Mermaid 配置(写回 frontmatter,可撤销)
+   */
+  setDiagramSettings(title: string | undefined, config: DiagramConfig): void {
+    this.syncEngine.setDiagramSettings(title, config);
+  }
+
+  /**
+   * 获取无障碍标题与描述(accTitle / accDescr)
+   */
+  getAccessibility(): DiagramAccessibility {
+    return this.syncEngine.getAccessibility();
+  }
+
+  /**
+   * 修改无障碍标题与描述(可撤销),值为 undefined 或空串时移除对应语句
+   */
+  setAccessibility(update: DiagramAccessibility): void {
+    this.syncEngine.setAccessibility(update);
+  }
+
+  /**
+   * 获取当前布局引擎(null 表示 Mermaid 自动布局)
+   */
+  getLayout(): string | null {
+    return this.syncEngine.getLayout();
+  }
+
+  /**
+   * 撤销/重做
+   */
+  undo(): boolean {
+    return this.syncEngine.undo();
+  }
+
+  redo(): boolean {
+    return this.syncEngine.redo();
+  }
+
+  canUndo(): boolean {
+    return this.syncEngine.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.syncEngine.canRedo();
+  }
+
+  /**
+   * 获取历史记录(从旧到新)
+   */
+  getHistory(): HistoryItem[] {
+    return this.syncEngine.getHistory();
+  }
+
+  /**
+   * 跳转到历史中的任意位置
+   */
+  jumpToHistory(position: number): boolean {
+    return this.syncEngine.jumpToHistory(position);
+  }
+
+  /**
+   * 获取当前代码的解析诊断(未知语句、subgraph/end 不匹配、未定义的 class 等)
+   */
+  getDiagnostics(): ParseDiagnostic[] {
+    return this.syncEngine.getDiagnostics();
+  }
+
   /**
    * 获取节点位置
    */
@@ -164,6 +509,34 @@ export default class MerfolkEditor {
     this.editor.resize();
   }
 
+  /**
+   * 导出为独立 SVG 文本(与画布一致,内嵌样式,不含画布上的选中/拖拽等叠加元素)
+   */
+  exportSvg(options?: SvgExportOptions): Promise<string> {
+    return this.editor.exportSvg(options);
+  }
+
+  /**
+   * 导出为 PNG 图片,scale 为像素倍率(默认 2)
+   */
+  exportPng(options?: PngExportOptions): Promise<Blob> {
+    return this.editor.exportPng(options);
+  }
+
+  /**
+   * 导出为可打印的单页 PDF(默认白色背景)
+   */
+  exportPdf(options?: PdfExportOptions): Promise<Blob> {
+    return this.editor.exportPdf(options);
+  }
+
+  /**
+   * 按 formatOptions 格式化代码;代码有错误时不修改并返回 false
+   */
+  formatCode(): boolean {
+    return this.editor.formatCode();
+  }
+
   /**
    * 显示/隐藏代码面板
    */
@@ -190,6 +563,11 @@ export default class MerfolkEditor {
    * 销毁编辑器实例
    */
   destroy(): void {
+    for (const dispose of this.disposers) {
+      dispose();
+    }
+    this.disposers = [];
+    this.events.removeAllListeners();
     void unmount(this.editor);
     this.container.innerHTML = '';
   }
@@ -198,23 +576,67 @@ export default class MerfolkEditor {
    * 设置回调函数
    */
   private setupCallbacks(_options: EditorOptions): void {
-    // Set additional callbacks if needed
-    // The callbacks are already passed through props
+    // 代码回调已通过 props 传入;模型实例在 SyncEngine 生命周期内不变,直接转发其变更事件
+    this.disposers.push(
+      this.syncEngine.getModel().on((change) => emitModelChange(this.events, change))
+    );
   }
 }
 
 // Types
 export type { EditorOptions, EditorStrings, CodeChangeMeta, SetCodeOptions } from './types';
+export type {
+  EditorEventMap,
+  EditorEventName,
+  EditorEventListener,
+  EditorMode,
+} from './events';
 export type { MermaidAPI } from './types';
+export { ClickCallbackRegistry, parseCallArguments } from './clicks';
+export type { ClickCallback } from './clicks';
+
+// Export without mounting an editor (needs a DOM for Mermaid to render into)
+export { renderSvg, renderPng, renderPdf } from './export';
+export type {
+  ExportFormat,
+  SvgExportOptions,
+  PngExportOptions,
+  PdfExportOptions,
+  ExportRenderOptions,
+} from './export';
 
 // Core/headless exports for TS consumers
 export * from '../core';
 
+// Layout engines (also usable on a parsed model without the editor)
+export {
+  createLayoutEngine,
+  LAYOUT_ENGINES,
+  DagreLayout,
+  ElkLayout,
+  ForceLayout,
+  GridLayout,
+  TreeLayout,
+  IncrementalLayout,
+} from '../canvas/layout';
+export type { LayoutEngine, LayoutEngineName, LayoutResult } from '../canvas/layout';
+export { routeEdgePoints } from '../canvas/edges/EdgeRouter';
+export type { EdgeRouterOptions } from '../canvas/edges/EdgeRouter';
+
 // Re-export types from core
 export type { NodeData, EdgeData } from '../core/model';
 export type { NodePosition } from '../core/sync';
 export { SyncEngine } from '../core/sync';
-export type { SyncEngineOptions } from '../core/sync';
+export type {
+  SyncEngineOptions,
+  NodePlacer,
+  DiagramAccessibility,
+  NodeClickUpdate,
+  NodeStyleUpdate,
+  EdgeUpdate,
+} from '../core/sync';
+export type { ModelSearchMatch } from '../core/utils/ModelSearch';
+export type { TextSearchOptions, TextMatch } from '../core/utils/TextSearch';
 
 // Export components for advanced usage
 export { default as Editor } from '../components/Editor.svelte';
@@ -1,6 +1,8 @@
 import type { MermaidConfig } from 'mermaid';
 import type { SyncEngineOptions } from '../core/sync/SyncEngine';
+import type { FormatOptions } from '../core/serializer/MermaidFormatter';
 import type { MermaidAPI } from '../core/utils/mermaid';
+import type { ClickCallback } from './clicks';
 
 export type { MermaidAPI };
 
@@ -26,11 +28,34 @@ export interface EditorStrings {
     zoomIn?: string;
     zoomOut?: string;
     fitToView?: string;
+    undo?: string;
+    redo?: string;
+    history?: string;
+    export?: string;
+    exportSvg?: string;
+    exportPng?: string;
+    exportPdf?: string;
+    layout?: string;
+    layoutMermaid?: string;
+    layoutDagre?: string;
+    layoutElk?: string;
+    layoutForce?: string;
+    layoutGrid?: string;
+    layoutTree?: string;
+    stableLayout?: string;
+    settings?: string;
   };
   codePanel?: {
     title?: string;
     placeholder?: string;
     errorLabel?: string;
+    problemsLabel?: string;
+    searchPlaceholder?: string;
+    replacePlaceholder?: string;
+    replace?: string;
+    replaceAll?: string;
+    noResults?: string;
+    format?: string;
   };
   overlay?: {
     editingTitle?: string;
@@ -72,4 +97,12 @@ export interface EditorOptions {
   initializeMermaid?: boolean;
   /** Auto fit when the container resizes */
   autoFitOnResize?: boolean;
+  /** Style rules for the "Format code" command */
+  formatOptions?: FormatOptions;
+  /** Keep existing nodes in place after canvas edits and only place new ones */
+  stableLayout?: boolean;
+  /** Show a minimap with the visible area in the canvas corner */
+  showMinimap?: boolean;
+  /** Callbacks for `click` statements, invoked when a node is clicked in preview mode */
+  clickCallbacks?: Record<string, ClickCallback>;
 }
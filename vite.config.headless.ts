@@ -0,0 +1,35 @@
+import { defineConfig } from 'vite';
+import { pathAliases } from './vite.config.base';
+import { resolve } from 'path';
+import dts from 'vite-plugin-dts';
+
+// Node-friendly build: no Svelte, no Mermaid, nothing that touches `window` on load
+export default defineConfig({
+  plugins: [
+    dts({
+      include: ['src/headless/**/*.ts', 'src/cli/**/*.ts', 'src/core/**/*.ts', 'src/canvas/**/*.ts'],
+      exclude: ['**/*.test.ts', '**/*.spec.ts'],
+      outDir: 'dist/headless',
+      entryRoot: 'src',
+      rollupTypes: false,
+    }),
+  ],
+  resolve: {
+    alias: pathAliases
+  },
+  build: {
+    lib: {
+      entry: {
+        index: resolve(__dirname, 'src/headless/index.ts'),
+        cli: resolve(__dirname, 'src/cli/index.ts'),
+      },
+      fileName: (_format, name) => `${name}.js`,
+      formats: ['es']
+    },
+    outDir: 'dist/headless',
+    emptyOutDir: true,
+    rollupOptions: {
+      external: ['d3', '@dagrejs/dagre', /^elkjs/, 'jsdom']
+    }
+  },
+});
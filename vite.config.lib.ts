@@ -37,7 +37,8 @@ export default defineConfig({
         'svelte/store',
         'mermaid',
         'd3',
-        '@dagrejs/dagre'
+        '@dagrejs/dagre',
+        /^elkjs/
       ],
       output: {
         assetFileNames: 'merfolk-editor[extname]',